@@ -3,23 +3,25 @@ import { TopBar } from './components/os/TopBar';
 import { Dock } from './components/os/Dock';
 import { Window } from './components/os/Window';
 import { WidgetLayer } from './components/os/WidgetLayer';
-import { OSProvider, useOS } from './context/OSContext';
+import { OSProvider, useOS, useShortcuts } from './context/OSContext';
 import { APP_REGISTRY } from './registry';
-import { AppID, WidgetType, FileNode, FileType } from './types';
+import { AppID, WidgetType, FileNode, FileType, WindowState } from './types';
 import { WIDGET_REGISTRY } from './components/widgets/WidgetRegistry';
-import { Plus, Settings, X, Power, File, Folder, Image as ImageIcon, Music, Video, FileText, FileArchive, BookOpen, WifiOff, AlertTriangle } from 'lucide-react';
+import { Plus, Settings, X, Power, File, Folder, Image as ImageIcon, Music, Video, FileText, FileArchive, BookOpen, AlertTriangle } from 'lucide-react';
 import { LockScreen } from './components/os/LockScreen';
 import { CommandPalette } from './components/os/CommandPalette';
 import { ToastNotification } from './components/os/ToastNotification';
+import { TILE_LAYOUTS, TileLayout } from './services/tiling';
+import { tileShortcutId, formatBinding } from './services/shortcuts';
 
 // Cinematic Boot Component
 const BootSequence = ({ onComplete }: { onComplete: () => void }) => {
   const [lines, setLines] = useState<string[]>([]);
   const sequence = [
     "INITIALIZING KERNEL v3.1.0...",
-    "CHECKING NETWORK STATUS... [REQUIRED]",
+    "CHECKING NETWORK STATUS...",
     "VERIFYING REMOTE CONNECTION...",
-    "LOADING MODULES: [CLOUD_FS, SYNC_ENGINE]",
+    "LOADING MODULES: [CLOUD_FS, SYNC_ENGINE, OFFLINE_CACHE]",
     "ESTABLISHING SECURE UPLINK...",
     "USER AUTHENTICATED.",
     "WELCOME TO SECOND BRAIN OS."
@@ -55,34 +57,8 @@ const BootSequence = ({ onComplete }: { onComplete: () => void }) => {
   );
 };
 
-const OfflineOverlay = () => (
-    <div className="fixed inset-0 z-[10000] bg-nd-black flex flex-col items-center justify-center text-center p-8">
-        <div className="w-24 h-24 rounded-full border-4 border-nd-red flex items-center justify-center mb-8 animate-pulse shadow-[0_0_50px_rgba(220,38,38,0.5)]">
-            <WifiOff size={48} className="text-nd-red" />
-        </div>
-        <h1 className="text-3xl font-mono font-bold text-nd-red tracking-widest mb-4">CONNECTION LOST</h1>
-        <div className="max-w-md space-y-4">
-            <p className="text-sm font-mono text-nd-white">
-                CRITICAL ERROR: REMOTE UPLINK SEVERED.
-            </p>
-            <p className="text-xs text-nd-gray leading-relaxed">
-                To prevent data corruption, all local operations have been suspended. 
-                The system strictly enforces a zero-tolerance policy for offline data divergence.
-            </p>
-            <div className="bg-nd-gray/10 border border-nd-red/30 p-4 rounded text-xs font-mono text-nd-red mt-8">
-                WAITING FOR RECONNECTION...
-            </div>
-        </div>
-    </div>
-);
-
 const OSManager: React.FC = () => {
-    const { powerState, setPowerState, isOnline } = useOS();
-
-    // Force blocking overlay if offline
-    if (!isOnline) {
-        return <OfflineOverlay />;
-    }
+    const { powerState, setPowerState } = useOS();
 
     if (powerState === 'OFF') {
         return (
@@ -203,7 +179,14 @@ const Desktop: React.FC = () => {
       addFile, 
       addLog,
       setCommandPaletteOpen,
-      setCommandPaletteQuery 
+      setCommandPaletteQuery,
+      workspaces,
+      activeWorkspaceId,
+      switchWorkspace,
+      updateWindowState,
+      tileWindow,
+      autoTileWindows,
+      shortcutBindings
   } = useOS();
   
   // Context Menu State
@@ -278,6 +261,31 @@ const Desktop: React.FC = () => {
     }
   };
 
+  // Windows on other workspaces keep running but are not rendered, like minimized ones
+  const workspaceWindows = (Object.values(windows) as WindowState[]).filter(w => w.workspaceId === activeWorkspaceId);
+  const hasOpenWindows = workspaceWindows.some(w => w.isOpen && !w.isMinimized);
+
+  // System Shortcuts (bindings live in the shortcut registry and are rebindable in Settings)
+  const withActiveWindow = (fn: (id: string) => void) => () => { if (activeWindowId && windows[activeWindowId]) fn(activeWindowId); };
+  const cycleWorkspace = (step: number) => {
+    const index = workspaces.findIndex(w => w.id === activeWorkspaceId);
+    switchWorkspace(workspaces[(index + step + workspaces.length) % workspaces.length].id);
+  };
+
+  useShortcuts({
+    'task-manager': () => launchApp(AppID.TASK_MANAGER),
+    'clipboard-history': () => launchApp(AppID.CLIPBOARD),
+    'window-new': () => launchApp(activeWindowId ? windows[activeWindowId]?.appId ?? AppID.FILES : AppID.FILES, undefined, { newInstance: true }),
+    'window-close': withActiveWindow(closeApp),
+    'window-maximize': withActiveWindow(id => updateWindowState(id, { isMaximized: !windows[id].isMaximized })),
+    'window-minimize-all': () => workspaceWindows.forEach(w => minimizeApp(w.id)),
+    'window-auto-tile': autoTileWindows,
+    'workspace-next': () => cycleWorkspace(1),
+    'workspace-previous': () => cycleWorkspace(-1),
+    ...Object.fromEntries(Array.from({ length: 9 }, (_, i) => [`workspace-${i + 1}`, () => workspaces[i] && switchWorkspace(workspaces[i].id)])),
+    ...Object.fromEntries((Object.keys(TILE_LAYOUTS) as TileLayout[]).map(layout => [tileShortcutId(layout), withActiveWindow(id => tileWindow(id, layout))])),
+  });
+
   // Theme Loader (Initial + Event Listener)
   useEffect(() => {
     applyTheme();
@@ -367,7 +375,6 @@ const Desktop: React.FC = () => {
       }
   };
 
-  const hasOpenWindows = Object.values(windows).some(w => w.isOpen && !w.isMinimized);
 
   return (
     <div 
@@ -409,8 +416,8 @@ const Desktop: React.FC = () => {
         <DesktopIcons />
 
         {/* Render Windows */}
-        {Object.values(windows).map((window) => {
-          const AppConfig = APP_REGISTRY[window.id as AppID];
+        {workspaceWindows.map((window) => {
+          const AppConfig = APP_REGISTRY[window.appId];
           if (!AppConfig) return null;
           const AppComponent = AppConfig.component;
 
@@ -418,9 +425,9 @@ const Desktop: React.FC = () => {
             <Window
               key={window.id}
               app={window}
-              onClose={(id) => closeApp(id as AppID)}
-              onFocus={(id) => focusApp(id as AppID)}
-              onMinimize={(id) => minimizeApp(id as AppID)}
+              onClose={closeApp}
+              onFocus={focusApp}
+              onMinimize={minimizeApp}
             >
               <AppComponent {...window.launchProps} />
             </Window>
@@ -432,13 +439,13 @@ const Desktop: React.FC = () => {
            <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none opacity-50 animate-fade-up -z-10">
               <h1 className="text-[120px] font-mono font-bold leading-none text-nd-gray/20 select-none">OS</h1>
               <p className="font-mono text-nd-red tracking-[1em] mt-4 select-none">SECOND BRAIN</p>
-              <p className="mt-8 text-xs text-nd-gray font-mono tracking-widest bg-nd-gray/10 px-3 py-1 rounded">PRESS CTRL+K TO START</p>
+              <p className="mt-8 text-xs text-nd-gray font-mono tracking-widest bg-nd-gray/10 px-3 py-1 rounded">{shortcutBindings['palette-toggle'] ? `PRESS ${formatBinding(shortcutBindings['palette-toggle']).toUpperCase()} TO START` : 'OPEN SEARCH FROM THE TOP BAR'}</p>
            </div>
         )}
       </main>
 
       {/* Dock (Always on Top) */}
-      <Dock onOpenApp={launchApp} activeApp={activeWindowId} hasOpenWindows={hasOpenWindows} />
+      <Dock onOpenApp={launchApp} activeApp={activeWindowId ? windows[activeWindowId]?.appId ?? null : null} hasOpenWindows={hasOpenWindows} />
 
       {/* Context Menu */}
       {contextMenu.visible && (
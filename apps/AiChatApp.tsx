@@ -1,10 +1,10 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { GoogleGenAI, Type, FunctionDeclaration, Chat, Part } from "@google/genai";
-import { Send, Cpu, Terminal, Loader2, User, ChevronRight, Plus, MessageSquare, Trash2, Menu, X, History, Paperclip, File as FileIcon, Copy } from 'lucide-react';
+import { Send, Cpu, Terminal, Loader2, User, ChevronRight, Plus, MessageSquare, Trash2, Menu, X, History, Paperclip, File as FileIcon } from 'lucide-react';
 import { useOS } from '../context/OSContext';
-import { db, auth } from '../services/firebase';
-import { ref, push, set, get, update, remove, onValue } from 'firebase/database';
+import { toList } from '../services/storage';
 import { AppID } from '../types';
+import { Markdown } from '../components/ui/Markdown';
 
 // --- Types ---
 
@@ -84,63 +84,8 @@ const TOOLS: FunctionDeclaration[] = [
   }
 ];
 
-// --- Simple Markdown Formatter ---
-const MessageContent: React.FC<{ content: string }> = ({ content }) => {
-    // 1. Split Code Blocks
-    const parts = content.split(/(```[\s\S]*?```)/g);
-    
-    return (
-        <div className="space-y-2">
-            {parts.map((part, i) => {
-                // Code Block
-                if (part.startsWith('```') && part.endsWith('```')) {
-                    const codeContent = part.slice(3, -3).replace(/^.*\n/, ''); // remove language line if present
-                    return (
-                        <div key={i} className="bg-nd-gray/20 rounded-md border border-nd-gray/50 overflow-hidden my-2">
-                            <div className="flex justify-between items-center px-3 py-1 bg-nd-black/50 border-b border-nd-gray/30 text-[10px] text-nd-gray">
-                                <span className="font-mono">CODE</span>
-                                <button onClick={() => navigator.clipboard.writeText(codeContent)} className="hover:text-nd-white flex items-center gap-1">
-                                    <Copy size={10} /> COPY
-                                </button>
-                            </div>
-                            <pre className="p-3 text-xs font-mono overflow-x-auto text-nd-white/90">
-                                {codeContent}
-                            </pre>
-                        </div>
-                    );
-                }
-                
-                // Regular Text with basic formatting
-                // Handling bold (**text**) and lists (- item) via simple replacements/splitting would be complex in one pass.
-                // For simplicity/performance in this OS, we map newlines to paragraphs and simple bolding.
-                return (
-                    <div key={i} className="whitespace-pre-wrap leading-relaxed">
-                        {part.split('\n').map((line, j) => {
-                            // Simple List Handling
-                            if (line.trim().startsWith('- ') || line.trim().startsWith('* ')) {
-                                return <div key={j} className="pl-4 flex"><span className="mr-2">•</span>{line.trim().substring(2)}</div>
-                            }
-                            // Simple Bold Handling
-                            const boldParts = line.split(/(\*\*.*?\*\*)/g);
-                            return (
-                                <div key={j} className={line.trim() === '' ? 'h-2' : ''}>
-                                    {boldParts.map((bp, k) => (
-                                        bp.startsWith('**') && bp.endsWith('**') 
-                                            ? <strong key={k} className="text-nd-white font-bold">{bp.slice(2, -2)}</strong> 
-                                            : bp
-                                    ))}
-                                </div>
-                            );
-                        })}
-                    </div>
-                );
-            })}
-        </div>
-    );
-};
-
 export const AiChatApp: React.FC = () => {
-  const { addLog, launchApp, closeApp, minimizeApp, authStatus } = useOS();
+  const { addLog, launchApp, closeApp, minimizeApp, storage } = useOS();
   
   // Session State
   const [sessions, setSessions] = useState<ChatSession[]>([]);
@@ -163,19 +108,11 @@ export const AiChatApp: React.FC = () => {
 
   // 1. Load Session List
   useEffect(() => {
-    if (authStatus === 'connected' && auth.currentUser) {
-        const sessionsRef = ref(db, `users/${auth.currentUser.uid}/ai_chats/sessions`);
-        const unsub = onValue(sessionsRef, (snap) => {
-            const data = snap.val();
-            const list = data ? Object.values(data) as ChatSession[] : [];
-            setSessions(list.sort((a, b) => b.updatedAt - a.updatedAt));
-        });
-        return () => unsub();
-    } else {
-        const local = localStorage.getItem('nd_os_chat_sessions');
-        if (local) setSessions(JSON.parse(local).sort((a: any, b: any) => b.updatedAt - a.updatedAt));
-    }
-  }, [authStatus]);
+    return storage.subscribe<Record<string, ChatSession>>('ai_chats/sessions', (data) => {
+        const list = toList<ChatSession>(data);
+        setSessions(list.sort((a, b) => b.updatedAt - a.updatedAt));
+    });
+  }, [storage]);
 
   // 2. Load Messages for Current Session
   useEffect(() => {
@@ -184,24 +121,16 @@ export const AiChatApp: React.FC = () => {
           return;
       }
 
-      if (authStatus === 'connected' && auth.currentUser) {
-          const msgsRef = ref(db, `users/${auth.currentUser.uid}/ai_chats/messages/${currentSessionId}`);
-          get(msgsRef).then(snap => {
-              const data = snap.val();
-              if (data) setMessages(data);
-              else setMessages([{ id: 'init', role: 'model', content: 'Neural Link Online. Ready.' }]);
-          });
-      } else {
-          const local = localStorage.getItem(`nd_os_chat_msgs_${currentSessionId}`);
-          if (local) setMessages(JSON.parse(local));
+      storage.get<Message[]>(`ai_chats/messages/${currentSessionId}`).then(data => {
+          if (data) setMessages(data);
           else setMessages([{ id: 'init', role: 'model', content: 'Neural Link Online. Ready.' }]);
-      }
+      });
       
       // Reset Chat Instance
       chatSessionRef.current = null;
       setAttachment(null);
       setInput('');
-  }, [currentSessionId, authStatus]);
+  }, [currentSessionId, storage]);
 
   // Auto-scroll
   useEffect(() => {
@@ -221,13 +150,7 @@ export const AiChatApp: React.FC = () => {
       };
 
       // Save Session Metadata
-      if (authStatus === 'connected' && auth.currentUser) {
-          set(ref(db, `users/${auth.currentUser.uid}/ai_chats/sessions/${newId}`), newSession);
-      } else {
-          const updatedSessions = [newSession, ...sessions];
-          setSessions(updatedSessions);
-          localStorage.setItem('nd_os_chat_sessions', JSON.stringify(updatedSessions));
-      }
+      storage.set(`ai_chats/sessions/${newId}`, newSession);
 
       setCurrentSessionId(newId);
       if (window.innerWidth < 768) setShowSidebar(false);
@@ -237,15 +160,8 @@ export const AiChatApp: React.FC = () => {
       e.stopPropagation();
       if (!confirm('Delete this conversation?')) return;
 
-      if (authStatus === 'connected' && auth.currentUser) {
-          remove(ref(db, `users/${auth.currentUser.uid}/ai_chats/sessions/${id}`));
-          remove(ref(db, `users/${auth.currentUser.uid}/ai_chats/messages/${id}`));
-      } else {
-          const updated = sessions.filter(s => s.id !== id);
-          setSessions(updated);
-          localStorage.setItem('nd_os_chat_sessions', JSON.stringify(updated));
-          localStorage.removeItem(`nd_os_chat_msgs_${id}`);
-      }
+      storage.remove(`ai_chats/sessions/${id}`);
+      storage.remove(`ai_chats/messages/${id}`);
 
       if (currentSessionId === id) setCurrentSessionId(null);
   };
@@ -254,39 +170,18 @@ export const AiChatApp: React.FC = () => {
       setMessages(msgs);
       if (!currentSessionId) return;
 
-      if (authStatus === 'connected' && auth.currentUser) {
-          set(ref(db, `users/${auth.currentUser.uid}/ai_chats/messages/${currentSessionId}`), msgs);
-          update(ref(db, `users/${auth.currentUser.uid}/ai_chats/sessions/${currentSessionId}`), { updatedAt: Date.now() });
-      } else {
-          localStorage.setItem(`nd_os_chat_msgs_${currentSessionId}`, JSON.stringify(msgs));
-          // Update timestamp in session list
-          const updatedSessions = sessions.map(s => s.id === currentSessionId ? { ...s, updatedAt: Date.now() } : s);
-          // Re-sort
-          updatedSessions.sort((a,b) => b.updatedAt - a.updatedAt);
-          setSessions(updatedSessions);
-          localStorage.setItem('nd_os_chat_sessions', JSON.stringify(updatedSessions));
-      }
+      storage.set(`ai_chats/messages/${currentSessionId}`, msgs);
+      storage.update(`ai_chats/sessions/${currentSessionId}`, { updatedAt: Date.now() });
   };
 
   const updateSessionTitle = (id: string, title: string) => {
-      if (authStatus === 'connected' && auth.currentUser) {
-          update(ref(db, `users/${auth.currentUser.uid}/ai_chats/sessions/${id}`), { title });
-      } else {
-          const updated = sessions.map(s => s.id === id ? { ...s, title } : s);
-          setSessions(updated);
-          localStorage.setItem('nd_os_chat_sessions', JSON.stringify(updated));
-      }
+      storage.update(`ai_chats/sessions/${id}`, { title });
   };
 
   // --- Tool Execution Logic ---
 
   const executeTool = async (name: string, args: any): Promise<string> => {
     setActiveTool(name);
-    const userId = auth.currentUser?.uid;
-    
-    if (!userId && name !== 'control_os') {
-      return "Error: User not authenticated. Cannot access database.";
-    }
 
     try {
       switch (name) {
@@ -297,37 +192,34 @@ export const AiChatApp: React.FC = () => {
           return `OS Command Executed: ${args.action} ${args.appId}`;
 
         case 'manage_tasks':
-          const tasksRef = ref(db, `users/${userId}/tasks`);
           if (args.action === 'create') {
-            const newRef = push(tasksRef);
-            await set(newRef, {
-              id: newRef.key,
+            const taskId = `task_${Date.now()}`;
+            await storage.set(`tasks/${taskId}`, {
+              id: taskId,
               title: args.title || 'Untitled Task',
               priority: args.priority || 'medium',
               completed: false,
               createdAt: Date.now()
             });
-            addLog({ source: 'AI', message: `Task created: ${args.title}`, type: 'success', isCloud: true });
-            return `Task created with ID ${newRef.key}`;
+            addLog({ source: 'AI', message: `Task created: ${args.title}`, type: 'success', isCloud: storage.isCloud });
+            return `Task created with ID ${taskId}`;
           }
           if (args.action === 'list') {
-            const snapshot = await get(tasksRef);
-            const tasks = snapshot.val() ? Object.values(snapshot.val()) : [];
+            const tasks = toList(await storage.get('tasks'));
             const summary = tasks.map((t: any) => `- [${t.completed ? 'x' : ' '}] ${t.title} (${t.priority}, ID: ${t.id})`).join('\n');
             return summary || "No tasks found.";
           }
           if (args.action === 'complete') {
-             await update(ref(db, `users/${userId}/tasks/${args.taskId}`), { completed: true });
+             await storage.update(`tasks/${args.taskId}`, { completed: true });
              return "Task marked as complete.";
           }
           break;
 
         case 'manage_notes':
-           const notesRef = ref(db, `users/${userId}/notes`);
            if (args.action === 'create') {
-              const newRef = push(notesRef);
-              await set(newRef, {
-                  id: newRef.key,
+              const noteId = `note_${Date.now()}`;
+              await storage.set(`notes/${noteId}`, {
+                  id: noteId,
                   title: args.title,
                   content: args.content || '',
                   folderId: 'inbox',
@@ -337,23 +229,20 @@ export const AiChatApp: React.FC = () => {
               return "Note created.";
            }
            if (args.action === 'read_all') {
-              const snap = await get(notesRef);
-              const notes = snap.val() ? Object.values(snap.val()) : [];
+              const notes = toList(await storage.get('notes'));
               return JSON.stringify(notes.map((n: any) => ({ title: n.title, content: n.content })));
            }
            break;
            
         case 'manage_habits':
-            const habitsRef = ref(db, `users/${userId}/habits`);
             if (args.action === 'list') {
-                const snap = await get(habitsRef);
-                const habits = snap.val() ? Object.values(snap.val()) : [];
+                const habits = toList(await storage.get('habits'));
                 return JSON.stringify(habits);
             }
             if (args.action === 'create') {
-                const newRef = push(habitsRef);
-                await set(newRef, {
-                    id: newRef.key,
+                const habitId = `h_${Date.now()}`;
+                await storage.set(`habits/${habitId}`, {
+                    id: habitId,
                     title: args.habitName,
                     category: 'personal',
                     createdAt: Date.now()
@@ -609,7 +498,7 @@ export const AiChatApp: React.FC = () => {
                   }`}
                 >
                    {msg.role === 'model' && <Cpu size={14} className="absolute -left-6 top-3 text-nd-red hidden md:block" />}
-                   <MessageContent content={msg.content} />
+                   <Markdown content={msg.content} />
                 </div>
               </div>
             ))}
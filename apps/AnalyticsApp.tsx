@@ -1,6 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { db, auth } from '../services/firebase';
-import { ref, get } from 'firebase/database';
+import { toList } from '../services/storage';
 import { 
   BarChart2, PieChart, Activity, Cpu, BrainCircuit, 
   Zap, Calendar, DollarSign, Clock, Layout, RefreshCw,
@@ -28,7 +27,7 @@ interface SystemData {
 // --- Component ---
 
 export const AnalyticsApp: React.FC = () => {
-  const { authStatus, addLog, fs } = useOS();
+  const { storage, addLog, fs } = useOS();
   const [data, setData] = useState<SystemData | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [report, setReport] = useState<string | null>(null);
@@ -43,43 +42,28 @@ export const AnalyticsApp: React.FC = () => {
           tasks: [], habits: [], habitLogs: {}, wallet: { accounts: [], transactions: [] }, usage: {}, logs: [], focusSessions: []
       };
 
-      if (authStatus === 'connected' && auth.currentUser) {
-          const uid = auth.currentUser.uid;
-          
-          try {
-              const [tSnap, hSnap, hlSnap, waSnap, wtSnap, uSnap, fSnap] = await Promise.all([
-                  get(ref(db, `users/${uid}/tasks`)),
-                  get(ref(db, `users/${uid}/habits`)),
-                  get(ref(db, `users/${uid}/habit_logs`)),
-                  get(ref(db, `users/${uid}/wallet/accounts`)),
-                  get(ref(db, `users/${uid}/wallet/transactions`)),
-                  get(ref(db, `users/${uid}/system/usage`)),
-                  get(ref(db, `users/${uid}/focus_sessions`))
-              ]);
-
-              snapshot.tasks = tSnap.val() ? Object.values(tSnap.val()) : [];
-              snapshot.habits = hSnap.val() ? Object.values(hSnap.val()) : [];
-              snapshot.habitLogs = hlSnap.val() || {};
-              snapshot.wallet = {
-                  accounts: waSnap.val() ? Object.values(waSnap.val()) : [],
-                  transactions: wtSnap.val() ? Object.values(wtSnap.val()) : []
-              };
-              snapshot.usage = uSnap.val() || {};
-              snapshot.focusSessions = fSnap.val() ? Object.values(fSnap.val()) : [];
-          } catch (e) {
-              console.error("Analytics Fetch Error", e);
-          }
-      } else {
-          // Local Storage Fallback
-          snapshot.tasks = JSON.parse(localStorage.getItem('nd_os_tasks') || '[]');
-          snapshot.habits = JSON.parse(localStorage.getItem('nd_os_habits') || '[]');
-          snapshot.habitLogs = JSON.parse(localStorage.getItem('nd_os_habit_logs') || '{}');
+      try {
+          const [tasks, habits, habitLogs, accounts, transactions, usage, focusSessions] = await Promise.all([
+              storage.get('tasks'),
+              storage.get('habits'),
+              storage.get('habit_logs'),
+              storage.get('wallet/accounts'),
+              storage.get('wallet/transactions'),
+              storage.get('system/usage'),
+              storage.get('focus_sessions')
+          ]);
+
+          snapshot.tasks = toList(tasks);
+          snapshot.habits = toList(habits);
+          snapshot.habitLogs = habitLogs || {};
           snapshot.wallet = {
-              accounts: JSON.parse(localStorage.getItem('nd_os_wallet_accounts') || '[]'),
-              transactions: JSON.parse(localStorage.getItem('nd_os_wallet_transactions') || '[]')
+              accounts: toList(accounts),
+              transactions: toList(transactions)
           };
-          snapshot.usage = JSON.parse(localStorage.getItem('nd_os_app_usage') || '{}');
-          snapshot.focusSessions = JSON.parse(localStorage.getItem('nd_os_focus_history') || '[]');
+          snapshot.usage = usage || {};
+          snapshot.focusSessions = toList(focusSessions);
+      } catch (e) {
+          console.error("Analytics Fetch Error", e);
       }
 
       setData(snapshot as SystemData);
@@ -88,7 +72,7 @@ export const AnalyticsApp: React.FC = () => {
 
   useEffect(() => {
       fetchData();
-  }, [authStatus]);
+  }, [storage]);
 
   // --- AI Report Generation ---
 
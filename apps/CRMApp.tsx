@@ -1,6 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { db, auth } from '../services/firebase';
-import { ref, onValue, set, push, remove, update } from 'firebase/database';
+import React, { useState, useEffect, useMemo } from 'react';
+import { createRepository } from '../services/storage';
 import { 
   Briefcase, DollarSign, Clock, Users, Plus, ChevronRight, 
   ChevronLeft, MoreHorizontal, CheckCircle, Circle, TrendingUp,
@@ -37,8 +36,8 @@ interface Task {
 
 // --- Components ---
 
-export const CRMApp: React.FC = () => {
-  const { authStatus, addLog } = useOS();
+export const CRMApp: React.FC<{ projectId?: string }> = ({ projectId }) => {
+  const { storage, addLog } = useOS();
   
   // State
   const [view, setView] = useState<'dashboard' | 'project_detail' | 'reports'>('dashboard');
@@ -55,36 +54,23 @@ export const CRMApp: React.FC = () => {
 
   // --- Data Sync ---
 
+  const projectRepo = useMemo(() => createRepository<Project>(storage, 'crm/projects'), [storage]);
+  const taskRepo = useMemo(() => createRepository<Task>(storage, 'crm/tasks'), [storage]);
+
+  // Deep link, e.g. from a search result
   useEffect(() => {
-    if (authStatus === 'connected' && auth.currentUser) {
-      const userId = auth.currentUser.uid;
-      
-      const projectsRef = ref(db, `users/${userId}/crm/projects`);
-      const tasksRef = ref(db, `users/${userId}/crm/tasks`);
-
-      const unsubP = onValue(projectsRef, (s) => setProjects(s.val() ? Object.values(s.val()) : []));
-      const unsubT = onValue(tasksRef, (s) => setTasks(s.val() ? Object.values(s.val()) : []));
-
-      return () => { unsubP(); unsubT(); };
-    } else {
-       // Local Storage
-       const lp = localStorage.getItem('nd_os_crm_projects');
-       if (lp) setProjects(JSON.parse(lp));
-       const lt = localStorage.getItem('nd_os_crm_tasks');
-       if (lt) setTasks(JSON.parse(lt));
-    }
-  }, [authStatus]);
+    if (!projectId) return;
+    setSelectedProjectId(projectId);
+    setView('project_detail');
+  }, [projectId]);
 
-  // --- Actions ---
+  useEffect(() => {
+    const unsubP = projectRepo.subscribe(setProjects);
+    const unsubT = taskRepo.subscribe(setTasks);
+    return () => { unsubP(); unsubT(); };
+  }, [projectRepo, taskRepo]);
 
-  const saveToStorage = (newProjects: Project[], newTasks: Task[]) => {
-      const isCloud = authStatus === 'connected' && !!auth.currentUser;
-      if (!isCloud) {
-          localStorage.setItem('nd_os_crm_projects', JSON.stringify(newProjects));
-          localStorage.setItem('nd_os_crm_tasks', JSON.stringify(newTasks));
-      }
-      return isCloud;
-  };
+  // --- Actions ---
 
   const createProject = () => {
       if (!newProjectName) return;
@@ -97,33 +83,17 @@ export const CRMApp: React.FC = () => {
           createdAt: Date.now()
       };
       
-      if (authStatus === 'connected' && auth.currentUser) {
-          set(ref(db, `users/${auth.currentUser.uid}/crm/projects/${newP.id}`), newP);
-      } else {
-          const newProjects = [...projects, newP];
-          setProjects(newProjects);
-          saveToStorage(newProjects, tasks);
-      }
+      projectRepo.put(newP);
       
       setNewProjectName('');
       setNewProjectClient('');
       setIsAddingProject(false);
-      addLog({ source: 'CRM', message: `New Project: ${newP.name}`, type: 'success', isCloud: authStatus === 'connected' });
+      addLog({ source: 'CRM', message: `New Project: ${newP.name}`, type: 'success', isCloud: storage.isCloud });
   };
 
   const deleteProject = (id: string) => {
-     const remainingTasks = tasks.filter(t => t.projectId !== id);
-     if (authStatus === 'connected' && auth.currentUser) {
-         remove(ref(db, `users/${auth.currentUser.uid}/crm/projects/${id}`));
-         tasks.filter(t => t.projectId === id).forEach(t => {
-             remove(ref(db, `users/${auth.currentUser.uid}/crm/tasks/${t.id}`));
-         });
-     } else {
-         const remainingProjects = projects.filter(p => p.id !== id);
-         setProjects(remainingProjects);
-         setTasks(remainingTasks);
-         saveToStorage(remainingProjects, remainingTasks);
-     }
+     projectRepo.remove(id);
+     tasks.filter(t => t.projectId === id).forEach(t => taskRepo.remove(t.id));
      if (selectedProjectId === id) {
          setSelectedProjectId(null);
          setView('dashboard');
@@ -131,39 +101,15 @@ export const CRMApp: React.FC = () => {
   };
 
   const updateProject = (updated: Project) => {
-      if (authStatus === 'connected' && auth.currentUser) {
-          update(ref(db, `users/${auth.currentUser.uid}/crm/projects/${updated.id}`), updated);
-      } else {
-          const newProjects = projects.map(p => p.id === updated.id ? updated : p);
-          setProjects(newProjects);
-          saveToStorage(newProjects, tasks);
-      }
+      projectRepo.put(updated);
   };
 
   const saveTask = (task: Task) => {
-      if (authStatus === 'connected' && auth.currentUser) {
-          update(ref(db, `users/${auth.currentUser.uid}/crm/tasks/${task.id}`), task);
-      } else {
-          const exists = tasks.find(t => t.id === task.id);
-          let newTasks;
-          if (exists) {
-              newTasks = tasks.map(t => t.id === task.id ? task : t);
-          } else {
-              newTasks = [...tasks, task];
-          }
-          setTasks(newTasks);
-          saveToStorage(projects, newTasks);
-      }
+      taskRepo.put(task);
   };
 
   const deleteTask = (taskId: string) => {
-      if (authStatus === 'connected' && auth.currentUser) {
-          remove(ref(db, `users/${auth.currentUser.uid}/crm/tasks/${taskId}`));
-      } else {
-          const newTasks = tasks.filter(t => t.id !== taskId);
-          setTasks(newTasks);
-          saveToStorage(projects, newTasks);
-      }
+      taskRepo.remove(taskId);
   };
 
   const totalRevenue = tasks.filter(t => t.completed).reduce((acc, t) => acc + t.charge, 0);
@@ -335,7 +281,7 @@ export const CRMApp: React.FC = () => {
               <ProjectDetail 
                  project={projects.find(p => p.id === selectedProjectId)!} 
                  tasks={tasks.filter(t => t.projectId === selectedProjectId)}
-                 authStatus={authStatus}
+                 isCloud={storage.isCloud}
                  addLog={addLog}
                  onDelete={() => deleteProject(selectedProjectId)}
                  onUpdateProject={updateProject}
@@ -375,7 +321,7 @@ const DashboardCard = ({ label, value, subValue, icon: Icon, isCurrency = false
 );
 
 const ProjectDetail = ({ 
-  project, tasks, authStatus, addLog, onDelete, onUpdateProject, onSaveTask, onDeleteTask
+  project, tasks, isCloud, addLog, onDelete, onUpdateProject, onSaveTask, onDeleteTask
 }: any) => {
   const [newTaskTitle, setNewTaskTitle] = useState('');
   const [newTaskHours, setNewTaskHours] = useState('');
@@ -402,7 +348,7 @@ const ProjectDetail = ({
       onSaveTask(newTask);
       setNewTaskTitle('');
       setNewTaskHours('');
-      addLog({ source: 'CRM', message: `Task Added: ${newTask.title}`, type: 'info', isCloud: authStatus === 'connected' });
+      addLog({ source: 'CRM', message: `Task Added: ${newTask.title}`, type: 'info', isCloud });
   };
 
   const handleToggleTask = (task: Task) => {
@@ -426,7 +372,7 @@ const ProjectDetail = ({
           charge: finalHours * completingTask.rate
       });
       setCompletingTask(null);
-      addLog({ source: 'CRM', message: `Task Completed (${finalHours}h)`, type: 'success', isCloud: authStatus === 'connected' });
+      addLog({ source: 'CRM', message: `Task Completed (${finalHours}h)`, type: 'success', isCloud });
   };
 
   const handleDraftEmail = async () => {
@@ -1,12 +1,13 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { db, auth } from '../services/firebase';
-import { ref, onValue, set, push, remove } from 'firebase/database';
+import { toList } from '../services/storage';
 import { 
   Calculator, RotateCcw, Trash2, History, Scale,
   Delete, Divide, X as XIcon, Plus, Minus, Equal,
   ChevronRight
 } from 'lucide-react';
-import { useOS } from '../context/OSContext';
+import { useOS, useShortcuts } from '../context/OSContext';
+import { isTypingTarget } from '../services/shortcuts';
+import { AppID } from '../types';
 
 // --- Types ---
 type Mode = 'standard' | 'scientific' | 'converter';
@@ -35,7 +36,8 @@ const CONVERTERS = {
 };
 
 export const CalculatorApp: React.FC = () => {
-  const { authStatus, addLog } = useOS();
+  const { storage, addLog, windows, activeWindowId } = useOS();
+  const isFocused = !!activeWindowId && windows[activeWindowId]?.appId === AppID.CALCULATOR;
   
   // State
   const [mode, setMode] = useState<Mode>('standard');
@@ -52,19 +54,10 @@ export const CalculatorApp: React.FC = () => {
 
   // --- Sync History ---
   useEffect(() => {
-    if (authStatus === 'connected' && auth.currentUser) {
-       const hRef = ref(db, `users/${auth.currentUser.uid}/calculator/history`);
-       const unsub = onValue(hRef, s => {
-           const val = s.val();
-           const data = val ? (Object.values(val) as CalcHistoryItem[]) : [];
-           setHistory(data.sort((a, b) => b.timestamp - a.timestamp));
-       });
-       return () => unsub();
-    } else {
-       const local = localStorage.getItem('nd_os_calc_history');
-       if (local) setHistory(JSON.parse(local));
-    }
-  }, [authStatus]);
+    return storage.subscribe<Record<string, CalcHistoryItem>>('calculator/history', val => {
+        setHistory(toList<CalcHistoryItem>(val).sort((a, b) => b.timestamp - a.timestamp));
+    });
+  }, [storage]);
 
   const saveHistoryItem = (expression: string, res: string) => {
       const newItem: CalcHistoryItem = {
@@ -74,22 +67,11 @@ export const CalculatorApp: React.FC = () => {
           timestamp: Date.now()
       };
       
-      if (authStatus === 'connected' && auth.currentUser) {
-          push(ref(db, `users/${auth.currentUser.uid}/calculator/history`), newItem);
-      } else {
-          const newHist = [newItem, ...history].slice(0, 50); // Limit local to 50
-          setHistory(newHist);
-          localStorage.setItem('nd_os_calc_history', JSON.stringify(newHist));
-      }
+      storage.push('calculator/history', newItem);
   };
   
   const clearHistory = () => {
-      if (authStatus === 'connected' && auth.currentUser) {
-          set(ref(db, `users/${auth.currentUser.uid}/calculator/history`), {});
-      } else {
-          setHistory([]);
-          localStorage.removeItem('nd_os_calc_history');
-      }
+      storage.remove('calculator/history');
   };
 
   // --- Logic ---
@@ -150,13 +132,17 @@ export const CalculatorApp: React.FC = () => {
       }
   };
   
+  // Commands (declared in the registry) are rebindable; typed digits and operators are plain input
+  useShortcuts({
+      'calculator-evaluate': calculate,
+      'calculator-backspace': () => handlePress('DEL'),
+      'calculator-clear': () => handlePress('C'),
+  });
+
   const handleKeyboard = useCallback((e: KeyboardEvent) => {
-      const key = e.key;
-      if (/[0-9+\-*/.()^]/.test(key)) handlePress(key);
-      if (key === 'Enter') calculate();
-      if (key === 'Backspace') handlePress('DEL');
-      if (key === 'Escape') handlePress('C');
-  }, [input]);
+      if (!isFocused || isTypingTarget(e.target) || e.ctrlKey || e.altKey || e.metaKey) return;
+      if (/^[0-9+\-*/.()^]$/.test(e.key)) handlePress(e.key);
+  }, [input, isFocused]);
 
   useEffect(() => {
       window.addEventListener('keydown', handleKeyboard);
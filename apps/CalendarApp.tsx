@@ -1,6 +1,5 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { db, auth } from '../services/firebase';
-import { ref, onValue, set, remove, update, push } from 'firebase/database';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { createRepository, toList } from '../services/storage';
 import { 
   ChevronLeft, ChevronRight, Calendar as CalIcon, Clock, 
   Plus, MoreHorizontal, Trash2, CheckSquare, Activity, 
@@ -56,8 +55,8 @@ const formatDateKey = (date: Date) => {
 };
 const getHoursArray = () => Array.from({ length: 24 }, (_, i) => i);
 
-export const CalendarApp: React.FC = () => {
-  const { authStatus, addLog } = useOS();
+export const CalendarApp: React.FC<{ eventId?: string; date?: number }> = ({ eventId, date }) => {
+  const { storage, addLog } = useOS();
 
   // --- State ---
   const [view, setView] = useState<ViewMode>('week');
@@ -82,64 +81,39 @@ export const CalendarApp: React.FC = () => {
   // Realtime Line
   const [now, setNow] = useState(new Date());
 
+  // Deep link, e.g. from a search result
+  useEffect(() => {
+    if (date) setCurrentDate(new Date(date));
+    if (eventId) setSelectedEventId(eventId);
+  }, [eventId, date]);
+
   // --- Data Sync ---
+  const eventRepo = useMemo(() => createRepository<CalendarEvent>(storage, 'calendar/events'), [storage]);
+
   useEffect(() => {
     // Clock Tick
     const timer = setInterval(() => setNow(new Date()), 60000); // Every minute
 
-    if (authStatus === 'connected' && auth.currentUser) {
-       const uid = auth.currentUser.uid;
-       
-       // Load Events
-       const eventsRef = ref(db, `users/${uid}/calendar/events`);
-       const unsubE = onValue(eventsRef, s => setEvents(s.val() ? Object.values(s.val()) : []));
-       
-       // Load Tasks (ReadOnly)
-       const tasksRef = ref(db, `users/${uid}/tasks`);
-       const unsubT = onValue(tasksRef, s => setTasks(s.val() ? Object.values(s.val()) : []));
-
-       // Load Habits (ReadOnly)
-       const habitsRef = ref(db, `users/${uid}/habits`);
-       const unsubH = onValue(habitsRef, s => setHabits(s.val() ? Object.values(s.val()) : []));
-
-       // Load Habit Overrides
-       const overridesRef = ref(db, `users/${uid}/calendar/habit_overrides`);
-       const unsubO = onValue(overridesRef, s => setHabitOverrides(s.val() || {}));
-
-       return () => { clearInterval(timer); unsubE(); unsubT(); unsubH(); unsubO(); };
-    } else {
-       // Local Storage
-       const le = localStorage.getItem('nd_os_calendar_events');
-       if (le) setEvents(JSON.parse(le));
-       const lt = localStorage.getItem('nd_os_tasks');
-       if (lt) setTasks(JSON.parse(lt));
-       const lh = localStorage.getItem('nd_os_habits');
-       if (lh) setHabits(JSON.parse(lh));
-       const lo = localStorage.getItem('nd_os_habit_overrides');
-       if (lo) setHabitOverrides(JSON.parse(lo));
-       
-       return () => clearInterval(timer);
-    }
-  }, [authStatus]);
+    // Load Events
+    const unsubE = eventRepo.subscribe(setEvents);
+    
+    // Load Tasks (ReadOnly)
+    const unsubT = storage.subscribe<Record<string, Task>>('tasks', data => setTasks(toList(data)));
 
-  // --- Actions ---
+    // Load Habits (ReadOnly)
+    const unsubH = storage.subscribe<Record<string, Habit>>('habits', data => setHabits(toList(data)));
 
-  const saveEvents = (newEvents: CalendarEvent[]) => {
-      setEvents(newEvents);
-      if (authStatus !== 'connected') {
-          localStorage.setItem('nd_os_calendar_events', JSON.stringify(newEvents));
-      }
-  };
+    // Load Habit Overrides
+    const unsubO = storage.subscribe<Record<string, HabitOverride>>('calendar/habit_overrides', data => setHabitOverrides(data || {}));
+
+    return () => { clearInterval(timer); unsubE(); unsubT(); unsubH(); unsubO(); };
+  }, [storage, eventRepo]);
+
+  // --- Actions ---
 
   const saveHabitOverride = (key: string, override: HabitOverride) => {
-      const newOverrides = { ...habitOverrides, [key]: override };
-      setHabitOverrides(newOverrides);
-      
-      if (authStatus === 'connected' && auth.currentUser) {
-          update(ref(db, `users/${auth.currentUser.uid}/calendar/habit_overrides`), { [key]: override });
-      } else {
-          localStorage.setItem('nd_os_habit_overrides', JSON.stringify(newOverrides));
-      }
+      setHabitOverrides(prev => ({ ...prev, [key]: override }));
+      storage.update('calendar/habit_overrides', { [key]: override });
   };
 
   const createEvent = () => {
@@ -157,24 +131,16 @@ export const CalendarApp: React.FC = () => {
           linkedTaskId: linkedTask || undefined
       };
 
-      if (authStatus === 'connected' && auth.currentUser) {
-          set(ref(db, `users/${auth.currentUser.uid}/calendar/events/${newEvent.id}`), newEvent);
-      } else {
-          saveEvents([...events, newEvent]);
-      }
+      eventRepo.put(newEvent);
 
       setIsCreating(false);
       setNewEventTitle('');
       setLinkedTask('');
-      addLog({ source: 'Calendar', message: 'Time Block Created', type: 'success', isCloud: authStatus === 'connected' });
+      addLog({ source: 'Calendar', message: 'Time Block Created', type: 'success', isCloud: storage.isCloud });
   };
 
   const deleteEvent = (id: string) => {
-      if (authStatus === 'connected' && auth.currentUser) {
-          remove(ref(db, `users/${auth.currentUser.uid}/calendar/events/${id}`));
-      } else {
-          saveEvents(events.filter(e => e.id !== id));
-      }
+      eventRepo.remove(id);
       setSelectedEventId(null);
   };
 
@@ -228,11 +194,7 @@ export const CalendarApp: React.FC = () => {
           const event = events.find(ev => ev.id === eventId);
           if (event) {
               const updatedEvent = { ...event, start: newStart.getTime(), end: newEnd.getTime() };
-              if (authStatus === 'connected' && auth.currentUser) {
-                  update(ref(db, `users/${auth.currentUser.uid}/calendar/events/${eventId}`), updatedEvent);
-              } else {
-                  saveEvents(events.map(ev => ev.id === eventId ? updatedEvent : ev));
-              }
+              eventRepo.put(updatedEvent);
           }
       }
   };
@@ -1,6 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { db, auth } from '../services/firebase';
-import { ref, onValue, push, set, remove } from 'firebase/database';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { createRepository } from '../services/storage';
 import { Clipboard, Trash2, Copy, Clock, AlertTriangle, WifiOff } from 'lucide-react';
 import { useOS } from '../context/OSContext';
 
@@ -13,47 +12,42 @@ interface ClipboardItem {
 
 const EXPIRATION_MS = 48 * 60 * 60 * 1000; // 48 Hours
 
-export const ClipboardApp: React.FC = () => {
-  const { authStatus, addLog, isOnline } = useOS();
+export const ClipboardApp: React.FC<{ itemId?: string }> = ({ itemId }) => {
+  const { storage, addLog, isOnline } = useOS();
   const [items, setItems] = useState<ClipboardItem[]>([]);
   const [inputText, setInputText] = useState('');
+  const highlightRef = useRef<HTMLDivElement>(null);
+
+  const clipRepo = useMemo(() => createRepository<ClipboardItem>(storage, 'clipboard'), [storage]);
 
   useEffect(() => {
-    if (authStatus === 'connected' && auth.currentUser) {
-      const clipboardRef = ref(db, `users/${auth.currentUser.uid}/clipboard`);
+    return clipRepo.subscribe((list) => {
+      // --- AUTO DELETE LOGIC ---
+      const now = Date.now();
+      const validItems: ClipboardItem[] = [];
       
-      const unsubscribe = onValue(clipboardRef, (snapshot) => {
-        const data = snapshot.val();
-        if (data) {
-          const list: ClipboardItem[] = Object.values(data);
-          
-          // --- AUTO DELETE LOGIC ---
-          const now = Date.now();
-          const validItems: ClipboardItem[] = [];
-          
-          list.forEach(item => {
-              if (now - item.timestamp > EXPIRATION_MS) {
-                  // Expired: Delete from server
-                  remove(ref(db, `users/${auth.currentUser!.uid}/clipboard/${item.id}`));
-              } else {
-                  validItems.push(item);
-              }
-          });
-
-          setItems(validItems.sort((a, b) => b.timestamp - a.timestamp));
-        } else {
-          setItems([]);
-        }
+      list.forEach(item => {
+          if (now - item.timestamp > EXPIRATION_MS) {
+              // Expired: Delete from storage
+              clipRepo.remove(item.id);
+          } else {
+              validItems.push(item);
+          }
       });
 
-      return () => unsubscribe();
-    }
-  }, [authStatus]);
+      setItems(validItems.sort((a, b) => b.timestamp - a.timestamp));
+    });
+  }, [clipRepo]);
+
+  // Deep link, e.g. from a search result: bring the item into view once the list has loaded
+  const hasHighlight = items.some(item => item.id === itemId);
+  useEffect(() => {
+    if (hasHighlight) highlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [itemId, hasHighlight]);
 
   const saveToClipboard = (e?: React.FormEvent) => {
       e?.preventDefault();
       if (!inputText.trim()) return;
-      if (!auth.currentUser) return;
 
       const newItem: ClipboardItem = {
           id: `clip_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
@@ -61,9 +55,9 @@ export const ClipboardApp: React.FC = () => {
           timestamp: Date.now()
       };
 
-      set(ref(db, `users/${auth.currentUser.uid}/clipboard/${newItem.id}`), newItem);
+      clipRepo.put(newItem);
       setInputText('');
-      addLog({ source: 'Clipboard', message: 'Text saved to cloud', type: 'success', isCloud: true });
+      addLog({ source: 'Clipboard', message: storage.isCloud ? 'Text saved to cloud' : 'Text saved locally', type: 'success', isCloud: storage.isCloud });
   };
 
   const copyItem = (text: string) => {
@@ -72,14 +66,12 @@ export const ClipboardApp: React.FC = () => {
   };
 
   const deleteItem = (id: string) => {
-      if (auth.currentUser) {
-          remove(ref(db, `users/${auth.currentUser.uid}/clipboard/${id}`));
-      }
+      clipRepo.remove(id);
   };
 
   const clearAll = () => {
-      if (confirm("Clear all history?") && auth.currentUser) {
-          remove(ref(db, `users/${auth.currentUser.uid}/clipboard`));
+      if (confirm("Clear all history?")) {
+          storage.remove('clipboard');
       }
   };
 
@@ -147,7 +139,11 @@ export const ClipboardApp: React.FC = () => {
                     const hoursLeft = Math.floor(timeLeft / (1000 * 60 * 60));
                     
                     return (
-                        <div key={item.id} className="border border-nd-gray p-3 bg-nd-black hover:border-nd-white transition-all group relative">
+                        <div
+                            key={item.id}
+                            ref={item.id === itemId ? highlightRef : undefined}
+                            className={`border p-3 bg-nd-black hover:border-nd-white transition-all group relative ${item.id === itemId ? 'border-nd-red' : 'border-nd-gray'}`}
+                        >
                             <div className="pr-8 text-sm font-mono whitespace-pre-wrap break-all line-clamp-3">
                                 {item.content}
                             </div>
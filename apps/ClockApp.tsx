@@ -1,6 +1,5 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { db, auth } from '../services/firebase';
-import { ref, onValue, set, push, update, get } from 'firebase/database';
+import { toList } from '../services/storage';
 import { 
   Clock, Watch, Timer, Hourglass, Play, Pause, 
   RotateCcw, BrainCircuit, History, Globe, Flag, X
@@ -56,7 +55,7 @@ const formatTime = (ms: number) => {
 };
 
 export const ClockApp: React.FC = () => {
-  const { authStatus, addLog } = useOS();
+  const { storage, addLog } = useOS();
   const [activeTab, setActiveTab] = useState<Tab>('clock');
 
   // --- Global Clock ---
@@ -79,11 +78,7 @@ export const ClockApp: React.FC = () => {
 
   const saveClockState = (newState: ClockState) => {
     setClockState(newState);
-    if (authStatus === 'connected' && auth.currentUser) {
-       update(ref(db, `users/${auth.currentUser.uid}/clock/state`), newState);
-    } else {
-       localStorage.setItem('nd_os_clock_state', JSON.stringify(newState));
-    }
+    storage.update('clock/state', { ...newState });
   };
 
   const logFocusSession = (minutes: number) => {
@@ -94,14 +89,8 @@ export const ClockApp: React.FC = () => {
         label: 'Deep Work'
       };
   
-      if (authStatus === 'connected' && auth.currentUser) {
-        push(ref(db, `users/${auth.currentUser.uid}/focus_sessions`), newSession);
-      } else {
-        const updated = [newSession, ...focusHistory];
-        setFocusHistory(updated);
-        localStorage.setItem('nd_os_focus_history', JSON.stringify(updated));
-      }
-      addLog({ source: 'Clock', message: `Focus Session Completed (${minutes}m)`, type: 'success', isCloud: authStatus === 'connected' });
+      storage.push('focus_sessions', newSession);
+      addLog({ source: 'Clock', message: `Focus Session Completed (${minutes}m)`, type: 'success', isCloud: storage.isCloud });
   };
 
   // --- Sync Effect ---
@@ -192,27 +181,16 @@ export const ClockApp: React.FC = () => {
 
   // --- Load Data ---
   useEffect(() => {
-      if (authStatus === 'connected' && auth.currentUser) {
-          const uid = auth.currentUser.uid;
-          
-          // Load State
-          onValue(ref(db, `users/${uid}/clock/state`), snap => {
-              if (snap.exists()) setClockState(snap.val());
-          });
-
-          // Load History
-          onValue(ref(db, `users/${uid}/focus_sessions`), snap => {
-               setFocusHistory(snap.exists() ? Object.values(snap.val()) : []);
-          });
+      // Load State
+      const unsubState = storage.subscribe<ClockState>('clock/state', val => {
+          if (val) setClockState({ ...DEFAULT_STATE, ...val }); // Palette commands may write only part of the state
+      });
 
-      } else {
-          const localState = localStorage.getItem('nd_os_clock_state');
-          if (localState) setClockState(JSON.parse(localState));
+      // Load History
+      const unsubHistory = storage.subscribe<Record<string, FocusSession>>('focus_sessions', val => setFocusHistory(toList(val)));
 
-          const localHistory = localStorage.getItem('nd_os_focus_history');
-          if (localHistory) setFocusHistory(JSON.parse(localHistory));
-      }
-  }, [authStatus]);
+      return () => { unsubState(); unsubHistory(); };
+  }, [storage]);
 
 
   // --- Actions: Focus ---
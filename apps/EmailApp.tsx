@@ -8,6 +8,8 @@ import {
 import firebase from 'firebase/compat/app';
 import { auth } from '../services/firebase';
 import { useOS } from '../context/OSContext';
+import { emailDocuments } from '../services/search';
+import { Markdown } from '../components/ui/Markdown';
 import { GoogleGenAI } from "@google/genai";
 
 // --- Types ---
@@ -30,8 +32,8 @@ const DEMO_EMAILS: Email[] = [
   { id: '3', threadId: 't3', from: 'Newsletter <daily@tech.com>', subject: 'The Future of AI is Here', snippet: 'In today\'s issue: Gemini 2.0 release notes, new coding capabilities...', date: new Date(Date.now() - 86400000).toISOString(), isUnread: false, body: 'Welcome to the daily digest. Today we explore the boundaries of LLMs and how they are reshaping OS design.' },
 ];
 
-export const EmailApp: React.FC = () => {
-  const { addLog } = useOS();
+export const EmailApp: React.FC<{ emailId?: string }> = ({ emailId }) => {
+  const { addLog, publishSearchDocuments } = useOS();
   
   // State
   const [accessToken, setAccessToken] = useState<string | null>(null);
@@ -50,6 +52,18 @@ export const EmailApp: React.FC = () => {
   // Derived
   const selectedEmail = emails.find(e => e.id === selectedEmailId);
 
+  // Loaded mail is searchable from the Command Palette while this window is open
+  useEffect(() => {
+    publishSearchDocuments('email', emailDocuments(emails));
+  }, [emails]);
+
+  useEffect(() => () => publishSearchDocuments('email', []), []);
+
+  // Deep link, e.g. from a search result
+  useEffect(() => {
+    if (emailId) { setSelectedEmailId(emailId); setSummary(null); }
+  }, [emailId]);
+
   // --- Actions ---
 
   const connectGmail = async () => {
@@ -339,15 +353,11 @@ export const EmailApp: React.FC = () => {
                                 <div className="flex items-center gap-2 text-nd-red mb-2 text-xs font-bold uppercase tracking-widest">
                                     <BrainCircuit size={12} /> Neural Summary
                                 </div>
-                                <div className="text-sm leading-relaxed font-mono opacity-80 whitespace-pre-line">
-                                    {summary}
-                                </div>
+                                <Markdown content={summary} className="text-sm font-mono opacity-80" />
                             </div>
                         )}
 
-                        <div className="prose prose-invert prose-sm max-w-none font-mono opacity-90 leading-relaxed whitespace-pre-wrap">
-                            {selectedEmail.body}
-                        </div>
+                        <Markdown content={selectedEmail.body || selectedEmail.snippet} className="text-sm font-mono opacity-90" />
                     </div>
                 </>
             ) : (
@@ -9,16 +9,10 @@ import {
 import { useOS } from '../context/OSContext';
 import { FileNode, FileType, AppID } from '../types';
 import { GoogleGenAI } from "@google/genai";
+import { formatSize } from '../services/format';
 
 // --- Icons & Helpers ---
 
-const formatSize = (bytes: number) => {
-  if (bytes === 0) return '0 B';
-  const k = 1024;
-  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-};
 
 const getIcon = (type: FileType, className?: string) => {
   switch (type) {
@@ -1,6 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { db, auth } from '../services/firebase';
-import { ref, onValue, set, update, remove } from 'firebase/database';
+import React, { useState, useEffect, useMemo } from 'react';
+import { createRepository } from '../services/storage';
 import { 
   ChevronLeft, ChevronRight, Plus, Trash2, 
   Check, X, Activity, Briefcase, User, DollarSign,
@@ -54,7 +53,7 @@ const formatDateKey = (date: Date) => {
 // --- Component ---
 
 export const HabitApp: React.FC = () => {
-  const { authStatus, addLog } = useOS();
+  const { storage, addLog } = useOS();
 
   // State
   const [view, setView] = useState<ViewMode>('month');
@@ -76,37 +75,20 @@ export const HabitApp: React.FC = () => {
   const [isAddingHabit, setIsAddingHabit] = useState(false);
 
   // --- Data Sync ---
+  const habitRepo = useMemo(() => createRepository<Habit>(storage, 'habits'), [storage]);
 
   useEffect(() => {
-    if (authStatus === 'connected' && auth.currentUser) {
-      const userId = auth.currentUser.uid;
-      
-      // Load Habits
-      const habitsRef = ref(db, `users/${userId}/habits`);
-      const unsubHabits = onValue(habitsRef, (snap) => {
-        const data = snap.val();
-        setHabits(data ? Object.values(data) : []);
-      });
-
-      // Load Logs
-      const logsRef = ref(db, `users/${userId}/habit_logs`);
-      const unsubLogs = onValue(logsRef, (snap) => {
-        setLogs(snap.val() || {});
-      });
-
-      return () => {
-        unsubHabits();
-        unsubLogs();
-      };
-    } else {
-        // Local Storage Fallback
-        const localHabits = localStorage.getItem('nd_os_habits');
-        if (localHabits) setHabits(JSON.parse(localHabits));
-        
-        const localLogs = localStorage.getItem('nd_os_habit_logs');
-        if (localLogs) setLogs(JSON.parse(localLogs));
-    }
-  }, [authStatus]);
+    // Load Habits
+    const unsubHabits = habitRepo.subscribe(setHabits);
+
+    // Load Logs
+    const unsubLogs = storage.subscribe<HabitLog>('habit_logs', data => setLogs(data || {}));
+
+    return () => {
+      unsubHabits();
+      unsubLogs();
+    };
+  }, [storage, habitRepo]);
 
   // --- Actions ---
 
@@ -122,8 +104,7 @@ export const HabitApp: React.FC = () => {
       time: newHabitShowCalendar ? newHabitTime : undefined
     };
 
-    const updatedHabits = [...habits, newHabit];
-    setHabits(updatedHabits);
+    setHabits(prev => [...prev, newHabit]);
     
     // Reset Form
     setNewHabitTitle('');
@@ -131,31 +112,16 @@ export const HabitApp: React.FC = () => {
     setNewHabitTime('09:00');
     setIsAddingHabit(false);
 
-    const isCloud = authStatus === 'connected' && !!auth.currentUser;
-
-    if (isCloud && auth.currentUser) {
-      set(ref(db, `users/${auth.currentUser.uid}/habits/${newHabit.id}`), newHabit);
-    } else {
-      localStorage.setItem('nd_os_habits', JSON.stringify(updatedHabits));
-    }
-
-    addLog({ source: 'Habits', message: `Added habit: "${newHabit.title}"`, type: 'info', isCloud });
+    habitRepo.put(newHabit);
+    addLog({ source: 'Habits', message: `Added habit: "${newHabit.title}"`, type: 'info', isCloud: storage.isCloud });
   };
 
   const deleteHabit = (id: string) => {
     const habitToDelete = habits.find(h => h.id === id);
-    const updatedHabits = habits.filter(h => h.id !== id);
-    setHabits(updatedHabits);
-    
-    const isCloud = authStatus === 'connected' && !!auth.currentUser;
-
-    if (isCloud && auth.currentUser) {
-      remove(ref(db, `users/${auth.currentUser.uid}/habits/${id}`));
-    } else {
-      localStorage.setItem('nd_os_habits', JSON.stringify(updatedHabits));
-    }
+    setHabits(prev => prev.filter(h => h.id !== id));
+    habitRepo.remove(id);
 
-    addLog({ source: 'Habits', message: `Deleted habit: "${habitToDelete?.title || 'Habit'}"`, type: 'warning', isCloud });
+    addLog({ source: 'Habits', message: `Deleted habit: "${habitToDelete?.title || 'Habit'}"`, type: 'warning', isCloud: storage.isCloud });
   };
 
   const toggleHabitForDate = (habitId: string, date: Date) => {
@@ -170,21 +136,13 @@ export const HabitApp: React.FC = () => {
       newDayLogs = [...currentDayLogs, habitId];
     }
 
-    const newLogs = { ...logs, [key]: newDayLogs };
-    setLogs(newLogs);
-
-    const isCloud = authStatus === 'connected' && !!auth.currentUser;
-
-    if (isCloud && auth.currentUser) {
-      update(ref(db, `users/${auth.currentUser.uid}/habit_logs`), { [key]: newDayLogs });
-    } else {
-      localStorage.setItem('nd_os_habit_logs', JSON.stringify(newLogs));
-    }
+    setLogs({ ...logs, [key]: newDayLogs });
+    storage.update('habit_logs', { [key]: newDayLogs });
 
     // Find habit title for log
     const habitTitle = habits.find(h => h.id === habitId)?.title || 'Unknown';
     if (!isCompleted) {
-        addLog({ source: 'Habits', message: `Completed: "${habitTitle}"`, type: 'success', isCloud });
+        addLog({ source: 'Habits', message: `Completed: "${habitTitle}"`, type: 'success', isCloud: storage.isCloud });
     }
   };
 
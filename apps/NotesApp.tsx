@@ -1,10 +1,22 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { db, auth } from '../services/firebase';
-import { ref, onValue, push, set, remove, update } from 'firebase/database';
-import { Plus, Trash2, Search, Book, Clock, Archive, PenTool, MoreHorizontal, ChevronRight, Save, ChevronLeft, FileText, X, BrainCircuit, Wand2, Sparkles } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo, useDeferredValue } from 'react';
+import { createRepository, toList } from '../services/storage';
+import { Plus, Trash2, Search, Book, Clock, Archive, PenTool, MoreHorizontal, ChevronRight, Save, ChevronLeft, FileText, Files, Paperclip, Music, Film, FileInput, FileOutput, HardDrive, Database, X, BrainCircuit, Wand2, Sparkles, Link2, CheckSquare, Briefcase, File as FileIcon, Waypoints, Hash, LocateFixed, Maximize, PenLine, Eye, Columns2, Folder as FolderIcon, FolderOpen, FolderPlus, History, RotateCcw, CalendarDays, Settings2, LayoutTemplate, Upload, Download } from 'lucide-react';
 import { useOS } from '../context/OSContext';
-import { FileNode } from '../types';
+import { AppID, FileNode, FileType } from '../types';
+import { Markdown } from '../components/ui/Markdown';
+import { DiffView } from '../components/ui/DiffView';
+import { sideBySideDiff, diffStats } from '../services/diff';
+import { NoteSnapshot, SnapshotReason, VersionedText, historyRepository, latestSnapshot, isSnapshotDue, saveSnapshot } from '../services/noteHistory';
+import { toggleTaskLine } from '../services/markdown';
+import { DailyNoteConfig, DAILY_NOTEBOOK_ID, DAILY_CONFIG_PATH, DEFAULT_DAILY_CONFIG, DAILY_VARIABLES, loadDailyConfig, findDailyNote, openDailyNote } from '../services/dailyNotes';
+import { NoteTemplate, DATE_VARIABLES, STARTER_TEMPLATES, TEMPLATE_FILE_SUFFIX, dateKey, templateRepository, templatePrompts, promptLabel, applyTemplate, templateFileName, serializeTemplate, parseTemplateFile } from '../services/noteTemplates';
+import { Notebook, DEFAULT_NOTEBOOK_ID, withBuiltInNotebooks, isBuiltInNotebook, buildNotebookTree, flattenNotebookTree, descendantIds, canMoveNotebook, notebookPath, parseTags, countTags } from '../services/noteLibrary';
+import { GraphNode, GraphNodeKind, GraphEdgeKind, NodePosition, GraphSimulation, buildNoteGraph, filterGraph, createGraphSimulation } from '../services/noteGraph';
+import { WikiLink, WikiLinkKind, LinkQuery, parseLinks, linkAt, resolveNoteLink, formatLink, findBacklinks, findUnlinkedMentions, linkMention, linkQueryAt, completeLink } from '../services/wikiLinks';
+import { readAttachments, missingAttachmentFolders, embedMarkdown, attachmentsOf } from '../services/noteAttachments';
+import { TransferNote, NotesImport, MarkdownFile, noteToMarkdown, noteFileName, exportNotesZip, readMarkdownZip, planNotesImport } from '../services/noteTransfer';
 import { GoogleGenAI } from "@google/genai";
+import { formatSize } from '../services/format';
 
 // --- Types ---
 interface Note {
@@ -12,31 +24,151 @@ interface Note {
   title: string;
   content: string;
   folderId: string;
+  dailyDate?: string; // YYYY-MM-DD, set on daily notes
   updatedAt: number;
   createdAt: number;
 }
 
-interface Folder {
+// Virtual folder listing the text files from the Files app next to the notebooks
+const FILES_FOLDER_ID = '__files__';
+const NEW_FILE_FOLDER_ID = 'f_docs'; // Documents
+
+const NOTEBOOK_ICONS: Record<string, React.ElementType> = {
+  inbox: PenTool,
+  journal: Book,
+  archive: Archive,
+};
+
+// Drag and drop payloads: notes move between notebooks, notebooks nest into each other
+const NOTE_DRAG_TYPE = 'application/x-nd-note';
+const NOTEBOOK_DRAG_TYPE = 'application/x-nd-notebook';
+const ROOT_DROP_TARGET = '__root__';
+
+// Other records a note can link to by id (read-only here)
+interface LinkTarget {
   id: string;
-  name: string;
+  title: string;
+}
+
+interface LinkSuggestion {
+  key: string;
+  label: string;
+  detail: string;
   icon: React.ElementType;
+  link: string;
 }
 
-const FOLDERS: Folder[] = [
-  { id: 'inbox', name: 'Inbox', icon: PenTool },
-  { id: 'journal', name: 'Journal', icon: Book },
-  { id: 'archive', name: 'Archive', icon: Archive },
+const LINK_ICONS: Record<WikiLinkKind, React.ElementType> = { note: FileText, task: CheckSquare, project: Briefcase, file: FileIcon };
+
+const MAX_SUGGESTIONS = 8;
+
+const SNAPSHOT_REASONS: Record<SnapshotReason, string> = {
+  auto: 'Autosave',
+  ai: 'Before AI edit',
+  restore: 'Before restore',
+  import: 'Before import',
+};
+
+type EditorMode = 'edit' | 'preview' | 'split';
+
+const EDITOR_MODES: { mode: EditorMode; label: string; icon: React.ElementType }[] = [
+  { mode: 'edit', label: 'Edit', icon: PenLine },
+  { mode: 'split', label: 'Split', icon: Columns2 },
+  { mode: 'preview', label: 'Preview', icon: Eye },
+];
+
+// Graph node kinds that can be shown or hidden; notes are always visible
+const GRAPH_KINDS: { kind: GraphNodeKind; label: string; icon: React.ElementType }[] = [
+  { kind: 'tag', label: 'Tags', icon: Hash },
+  { kind: 'task', label: 'Tasks', icon: CheckSquare },
+  { kind: 'project', label: 'Projects', icon: Briefcase },
+  { kind: 'file', label: 'Files', icon: FileIcon },
 ];
 
+const GRAPH_NODE_STYLES: Record<GraphNodeKind, string> = {
+  note: 'fill-nd-white',
+  tag: 'fill-nd-red',
+  task: 'fill-green-500',
+  project: 'fill-yellow-500',
+  file: 'fill-blue-400',
+};
+
+const GRAPH_EDGE_STYLES: Record<GraphEdgeKind, { className: string; dash?: string }> = {
+  link: { className: 'stroke-nd-white/40' },
+  mention: { className: 'stroke-nd-white/25', dash: '4 3' },
+  tag: { className: 'stroke-nd-red/40' },
+  similar: { className: 'stroke-nd-gray', dash: '1 3' },
+};
+
+// --- Helpers ---
+
+// A text file as a note, so the editor, links, history and AI treat both alike
+const fileToNote = (file: FileNode): Note => ({
+  id: file.id,
+  title: file.name,
+  content: file.content || '',
+  folderId: FILES_FOLDER_ID,
+  createdAt: file.createdAt,
+  updatedAt: file.updatedAt,
+});
+
+const isFileNote = (note: Note) => note.folderId === FILES_FOLDER_ID;
+
+// "Home / Documents" for a file in the Documents folder
+const fileLocation = (fileId: string, fs: FileNode[]) => {
+  const names: string[] = [];
+  let parent = fs.find(f => f.id === fileId)?.parentId;
+  while (parent && parent !== 'root' && names.length < fs.length) {
+    const folder = fs.find(f => f.id === parent);
+    if (!folder) break;
+    names.unshift(folder.name);
+    parent = folder.parentId;
+  }
+  return ['Home', ...names].join(' / ');
+};
+
+const downloadFile = (name: string, content: BlobPart, mime: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const MIRROR_STYLES = [
+  'boxSizing', 'width', 'borderTopWidth', 'borderRightWidth', 'borderBottomWidth', 'borderLeftWidth',
+  'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft', 'fontFamily', 'fontSize', 'fontWeight',
+  'fontStyle', 'lineHeight', 'letterSpacing', 'wordSpacing', 'textTransform', 'textIndent', 'tabSize',
+] as const;
+
+// Pixel position of a character in a textarea, measured with an invisible copy of its text
+const caretCoordinates = (el: HTMLTextAreaElement, position: number) => {
+  const style = getComputedStyle(el);
+  const mirror = document.createElement('div');
+  MIRROR_STYLES.forEach(prop => { mirror.style[prop] = style[prop]; });
+  Object.assign(mirror.style, { position: 'absolute', visibility: 'hidden', whiteSpace: 'pre-wrap', overflowWrap: 'break-word', top: '0', left: '0' });
+  mirror.textContent = el.value.slice(0, position);
+  const marker = document.createElement('span');
+  marker.textContent = '\u200b';
+  mirror.appendChild(marker);
+  document.body.appendChild(mirror);
+  const coords = { top: marker.offsetTop - el.scrollTop, left: marker.offsetLeft, lineHeight: parseFloat(style.lineHeight) || 24 };
+  document.body.removeChild(mirror);
+  return coords;
+};
+
 // --- Components ---
 
-export const NotesApp: React.FC<{ fileId?: string }> = ({ fileId }) => {
-  const { authStatus, addLog, fs, updateFile } = useOS();
+// noteId/folderId open a specific note, e.g. one just created from the Command Palette;
+// templateId starts a new note from a template that still needs values filled in
+export const NotesApp: React.FC<{ fileId?: string; noteId?: string; folderId?: string; templateId?: string }> = ({ fileId, noteId, folderId, templateId }) => {
+  const { storage, addLog, fs, addFile, addFiles, deleteFiles, updateFile, launchApp } = useOS();
   
   // State
   const [notes, setNotes] = useState<Note[]>([]);
-  const [selectedFolderId, setSelectedFolderId] = useState<string>('inbox');
-  const [selectedNoteId, setSelectedNoteId] = useState<string | null>(null);
+  const [selectedFolderId, setSelectedFolderId] = useState<string>(folderId || DEFAULT_NOTEBOOK_ID);
+  const [selectedNoteId, setSelectedNoteId] = useState<string | null>(noteId || null);
   const [searchQuery, setSearchQuery] = useState('');
   const [isSaving, setIsSaving] = useState(false);
   
@@ -44,131 +176,694 @@ export const NotesApp: React.FC<{ fileId?: string }> = ({ fileId }) => {
   const [isAiProcessing, setIsAiProcessing] = useState(false);
   const [showAiMenu, setShowAiMenu] = useState(false);
   
-  // File Mode State
-  const [fileNode, setFileNode] = useState<FileNode | null>(null);
-  const [fileContent, setFileContent] = useState('');
-  
+  // Text files are edited here too; typing is kept as a draft and written to the file after a pause
+  const [fileDrafts, setFileDrafts] = useState<Record<string, { title: string; content: string }>>({});
+  const fileSaveTimeoutsRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
   const saveTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined);
 
-  // --- Logic for File Mode ---
+  // Links State
+  const [showLinks, setShowLinks] = useState(false);
+  const [linkTasks, setLinkTasks] = useState<LinkTarget[]>([]);
+  const [linkProjects, setLinkProjects] = useState<LinkTarget[]>([]);
+  const [linkQuery, setLinkQuery] = useState<LinkQuery | null>(null);
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
+  const [suggestionPosition, setSuggestionPosition] = useState({ top: 0, left: 0 });
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+  const attachInputRef = useRef<HTMLInputElement>(null);
+
+  // Library State
+  const [notebooks, setNotebooks] = useState<Notebook[]>([]);
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [collapsedNotebooks, setCollapsedNotebooks] = useState<Set<string>>(new Set());
+  const [editingNotebook, setEditingNotebook] = useState<{ id: string | null; parentId: string | null; name: string } | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  // History State
+  const [showHistory, setShowHistory] = useState(false);
+  // Latest snapshot per note, loaded on the first save of a session
+  const latestSnapshotsRef = useRef(new Map<string, Pick<NoteSnapshot, 'content' | 'createdAt'> | 'none' | 'loading'>());
+
+  // Markdown preview
+  const [editorMode, setEditorMode] = useState<EditorMode>('edit');
+
+  // Daily Notes State
+  const [dailyMonth, setDailyMonth] = useState(() => new Date());
+  const [showDailyTemplate, setShowDailyTemplate] = useState(false);
+
+  // Templates State
+  const [templates, setTemplates] = useState<NoteTemplate[]>([]);
+  const [showTemplateMenu, setShowTemplateMenu] = useState(false);
+  const [showTemplateManager, setShowTemplateManager] = useState(false);
+  const [pendingTemplate, setPendingTemplate] = useState<NoteTemplate | null>(null); // Waiting for prompt values
+  const launchedTemplateRef = useRef<string | null>(null);
+
+  // Import/Export State
+  const [showImportMenu, setShowImportMenu] = useState(false);
+  const [pendingImport, setPendingImport] = useState<NotesImport | null>(null);
+  const importFilesRef = useRef<HTMLInputElement>(null);
+  const importFolderRef = useRef<HTMLInputElement>(null);
+
+  // Graph State
+  const [showGraph, setShowGraph] = useState(false);
+  const [graphLocal, setGraphLocal] = useState(false);
+
+  // Later launches of the same window can point at another note
   useEffect(() => {
-      if (fileId) {
-          const file = fs.find(f => f.id === fileId);
-          if (file) {
-              setFileNode(file);
-              setFileContent(file.content || '');
-          }
-      }
-  }, [fileId, fs]);
+    if (!noteId) return;
+    setSelectedNoteId(noteId);
+    setSelectedTag(null);
+    if (folderId) setSelectedFolderId(folderId);
+  }, [noteId, folderId]);
 
-  // --- Data Logic (Hybrid Firebase + LocalStorage) ---
+  // Text files opened from Files or the Command Palette
   useEffect(() => {
-    // Only load notes if NOT in file mode
-    if (!fileId) {
-        if (authStatus === 'connected' && auth.currentUser) {
-          const notesRef = ref(db, `users/${auth.currentUser.uid}/notes`);
-          const unsubscribe = onValue(notesRef, (snapshot) => {
-            const data = snapshot.val();
-            if (data) {
-              const notesList = Object.entries(data).map(([id, val]: [string, any]) => ({
-                id,
-                ...val,
-              }));
-              setNotes(notesList);
-            } else {
-              setNotes([]);
-            }
-          });
-          return () => unsubscribe();
-        } else {
-          const localNotes = localStorage.getItem('nd_os_notes');
-          if (localNotes) setNotes(JSON.parse(localNotes));
-        }
+    if (!fileId) return;
+    setSelectedFolderId(FILES_FOLDER_ID);
+    setSelectedTag(null);
+    setSelectedNoteId(fileId);
+  }, [fileId]);
+
+  // --- Data Logic ---
+  const noteRepo = useMemo(() => createRepository<Note>(storage, 'notes'), [storage]);
+  const notebookRepo = useMemo(() => createRepository<Notebook>(storage, 'notebooks'), [storage]);
+  const templateRepo = useMemo(() => templateRepository(storage), [storage]);
+
+  useEffect(() => {
+    const unsubNotes = noteRepo.subscribe(setNotes);
+    const unsubNotebooks = notebookRepo.subscribe(setNotebooks);
+    const unsubTemplates = templateRepo.subscribe(list => setTemplates(list.sort((a, b) => a.name.localeCompare(b.name))));
+    return () => { unsubNotes(); unsubNotebooks(); unsubTemplates(); };
+  }, [noteRepo, notebookRepo, templateRepo]);
+
+  // Database notes and text files side by side; files carry FILES_FOLDER_ID as their folder
+  const fileNotes = useMemo(
+    () => fs.filter(f => f.type === 'text').map(f => ({ ...fileToNote(f), ...fileDrafts[f.id] })),
+    [fs, fileDrafts]
+  );
+  const documents = useMemo(() => [...notes, ...fileNotes], [notes, fileNotes]);
+  const documentsRef = useRef(documents); // Latest text for async work that outlives a render
+  documentsRef.current = documents;
+
+  const allNotebooks = useMemo(() => withBuiltInNotebooks(notebooks), [notebooks]);
+  const notebookTree = useMemo(() => buildNotebookTree(allNotebooks), [allNotebooks]);
+  const tagCounts = useMemo(() => countTags(documents), [documents]);
+
+  // Tasks and CRM projects, for [[task:...]] and [[project:...]] links
+  useEffect(() => {
+    const unsubT = storage.subscribe<Record<string, any>>('tasks', data => setLinkTasks(toList<any>(data).map(t => ({ id: t.id, title: t.title }))));
+    const unsubP = storage.subscribe<Record<string, any>>('crm/projects', data => setLinkProjects(toList<any>(data).map(p => ({ id: p.id, title: p.name }))));
+    return () => { unsubT(); unsubP(); };
+  }, [storage]);
+
+  // --- Links ---
+  const currentNote = documents.find(n => n.id === selectedNoteId);
+
+  // Re-rendering the preview can lag behind typing in long notes
+  const previewContent = useDeferredValue(currentNote?.content ?? '');
+
+  const outgoingLinks = useMemo(() => {
+    if (!currentNote) return [];
+    const seen = new Set<string>();
+    return parseLinks(currentNote.content).filter(link => {
+      const key = `${link.kind}:${link.target.toLowerCase()}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }, [currentNote?.content]);
+
+  const backlinks = useMemo(() => (currentNote ? findBacklinks(currentNote, documents) : []), [currentNote, documents]);
+  const unlinkedMentions = useMemo(() => (currentNote && showLinks ? findUnlinkedMentions(currentNote, documents) : []), [currentNote, documents, showLinks]);
+
+  const linkTargetTitle = (link: WikiLink): string | null => {
+    if (link.kind === 'note') return resolveNoteLink(link, documents)?.title ?? null;
+    if (link.kind === 'task') return linkTasks.find(t => t.id === link.target)?.title ?? null;
+    if (link.kind === 'project') return linkProjects.find(p => p.id === link.target)?.title ?? null;
+    return fs.find(f => f.id === link.target)?.name ?? null;
+  };
+
+  const openNote = (note: Note) => {
+    setSelectedFolderId(note.folderId);
+    setSelectedTag(null);
+    setSelectedNoteId(note.id);
+  };
+
+  const openDaily = async (date: Date) => {
+    const existing = findDailyNote<Note>(notes, dateKey(date));
+    const { note, created } = existing ? { note: existing, created: false } : await openDailyNote(storage, date);
+    if (created) addLog({ source: 'Notes', message: `Created daily note: "${note.title}"`, type: 'info', isCloud: storage.isCloud });
+    setShowGraph(false);
+    setDailyMonth(date);
+    openNote(note);
+  };
+
+  // Tasks, projects and files open in their own apps
+  const openRecord = (kind: Exclude<WikiLinkKind, 'note'>, id: string) => {
+    if (kind === 'task') return launchApp(AppID.TASKS, { taskId: id });
+    if (kind === 'project') return launchApp(AppID.CRM, { projectId: id });
+    const file = fs.find(f => f.id === id);
+    if (!file) return;
+    if (file.type === 'text') return openNote(fileToNote(file));
+    if (file.type === 'image') launchApp(AppID.PHOTOS, { initialImageId: file.id });
+    else if (file.type === 'pdf') launchApp(AppID.PDF, { fileId: file.id });
+    else launchApp(AppID.FILES);
+  };
+
+  const openLink = (link: WikiLink) => {
+    if (link.kind !== 'note') return openRecord(link.kind, link.target);
+
+    const target = resolveNoteLink<Note>(link, documents);
+    if (target) {
+      openNote(target);
+    } else if (!link.byId) {
+      // Following a link to a note that doesn't exist yet creates it, as in most wikis
+      const newNote: Note = {
+        id: `note_${Date.now()}`,
+        title: link.target,
+        content: '',
+        folderId: selectedFolderId,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      };
+      noteRepo.put(newNote);
+      addLog({ source: 'Notes', message: `Created: "${newNote.title}"`, type: 'info', isCloud: storage.isCloud });
+      setSelectedNoteId(newNote.id);
     }
-  }, [authStatus, fileId]);
+  };
 
-  // --- File Save ---
-  const saveFile = (content: string) => {
-      setFileContent(content);
-      setIsSaving(true);
-      
-      clearTimeout(saveTimeoutRef.current);
-      saveTimeoutRef.current = setTimeout(() => {
-          if (fileId) {
-              updateFile(fileId, { content, size: content.length, updatedAt: Date.now() });
-              addLog({ source: 'Text Editor', message: 'File saved', type: 'success', isCloud: false });
-              setIsSaving(false);
-          }
-      }, 1000);
+  const suggestions: LinkSuggestion[] = useMemo(() => {
+    if (!linkQuery) return [];
+    const prefix = linkQuery.query.match(/^(task|project|file):(.*)$/i);
+    const kind = prefix ? (prefix[1].toLowerCase() as WikiLinkKind) : 'note';
+    const q = (prefix ? prefix[2] : linkQuery.query).trim().toLowerCase();
+    const matches = (title: string) => title.toLowerCase().includes(q);
+
+    if (kind === 'task') {
+      return linkTasks.filter(t => matches(t.title)).slice(0, MAX_SUGGESTIONS)
+        .map(t => ({ key: t.id, label: t.title, detail: 'Task', icon: CheckSquare, link: formatLink('task', t.id, t.title) }));
+    }
+    if (kind === 'project') {
+      return linkProjects.filter(p => matches(p.title)).slice(0, MAX_SUGGESTIONS)
+        .map(p => ({ key: p.id, label: p.title, detail: 'Project', icon: Briefcase, link: formatLink('project', p.id, p.title) }));
+    }
+    if (kind === 'file') {
+      return fs.filter(f => f.type !== 'folder' && matches(f.name)).slice(0, MAX_SUGGESTIONS)
+        .map(f => ({ key: f.id, label: f.name, detail: 'File', icon: FileIcon, link: formatLink('file', f.id, f.name) }));
+    }
+
+    const list: LinkSuggestion[] = notes
+      .filter(n => n.id !== selectedNoteId && n.title && matches(n.title))
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(0, MAX_SUGGESTIONS)
+      .map(n => ({ key: n.id, label: n.title, detail: allNotebooks.find(f => f.id === n.folderId)?.name || 'Note', icon: FileText, link: formatLink('note', n.title) }));
+    if (q && !notes.some(n => n.title.toLowerCase() === q)) {
+      list.push({ key: 'new', label: linkQuery.query.trim(), detail: 'New note', icon: Plus, link: formatLink('note', linkQuery.query.trim()) });
+    }
+    if (!q) {
+      list.push(
+        { key: 'hint-task', label: 'task:', detail: 'Link a task', icon: CheckSquare, link: '[[task:' },
+        { key: 'hint-project', label: 'project:', detail: 'Link a CRM project', icon: Briefcase, link: '[[project:' },
+        { key: 'hint-file', label: 'file:', detail: 'Link a file', icon: FileIcon, link: '[[file:' }
+      );
+    }
+    return list;
+  }, [linkQuery, notes, linkTasks, linkProjects, fs, selectedNoteId]);
+
+  // Tracks an unfinished [[... at the cursor to drive the suggestion popover
+  const updateLinkQuery = (el: HTMLTextAreaElement) => {
+    const next = el.selectionStart === el.selectionEnd ? linkQueryAt(el.value, el.selectionStart) : null;
+    setLinkQuery(prev => (prev?.start === next?.start && prev?.query === next?.query ? prev : next));
+    if (!next) return;
+    if (next.start !== linkQuery?.start) setSuggestionIndex(0);
+    const coords = caretCoordinates(el, next.start);
+    setSuggestionPosition({ top: el.offsetTop + coords.top + coords.lineHeight, left: el.offsetLeft + coords.left });
+  };
+
+  const applySuggestion = (suggestion: LinkSuggestion) => {
+    const el = editorRef.current;
+    if (!el || !linkQuery || !currentNote) return;
+    const { content, cursor } = completeLink(el.value, linkQuery, el.selectionStart, suggestion.link);
+    saveNote({ ...currentNote, content });
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(cursor, cursor);
+      updateLinkQuery(el);
+    });
+  };
+
+  // --- Attachments ---
+  // Inserted where the cursor is, or at the end when the editor isn't showing
+  const attachFiles = async (files: File[]) => {
+    const note = currentNote;
+    if (!note || files.length === 0) return;
+    const el = editorRef.current;
+    const start = el ? el.selectionStart : note.content.length;
+    const end = el ? el.selectionEnd : note.content.length;
+
+    try {
+      const attachments = await readAttachments(files, note.id);
+      addFiles([...missingAttachmentFolders(fs, note), ...attachments]);
+      const before = note.content.slice(0, start);
+      const inserted = `${before && !before.endsWith('\n') ? '\n' : ''}${attachments.map(embedMarkdown).join('\n')}\n`;
+      saveNote({ ...note, content: before + inserted + note.content.slice(end) });
+      addLog({ source: 'Notes', message: `Attached ${attachments.length} file(s) to "${note.title || 'Untitled'}"`, type: 'success', isCloud: storage.isCloud });
+      requestAnimationFrame(() => {
+        el?.focus();
+        el?.setSelectionRange(start + inserted.length, start + inserted.length);
+      });
+    } catch (e) {
+      console.error(e);
+      addLog({ source: 'Notes', message: 'Could not read the attached files', type: 'error', isCloud: storage.isCloud });
+    }
+  };
+
+  const handleEditorPaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files) as File[];
+    if (files.length === 0) return;
+    e.preventDefault();
+    attachFiles(files);
+  };
+
+  const handleEditorDrop = (e: React.DragEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.dataTransfer.files) as File[];
+    if (files.length === 0) return;
+    e.preventDefault();
+    attachFiles(files);
+  };
+
+  const handleAttachInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    attachFiles(Array.from(e.target.files || []) as File[]);
+    e.target.value = '';
+  };
+
+  const renderEmbed = (link: WikiLink) =>
+    link.kind === 'file' ? <AttachmentEmbed file={fs.find(f => f.id === link.target)} label={link.label} onOpen={() => openLink(link)} /> : null;
+
+  const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!linkQuery || suggestions.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSuggestionIndex(i => (i + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSuggestionIndex(i => (i - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      applySuggestion(suggestions[Math.min(suggestionIndex, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      e.stopPropagation();
+      setLinkQuery(null);
+    }
+  };
+
+  // Ctrl/Cmd+click follows the link under the cursor
+  const handleEditorClick = (e: React.MouseEvent<HTMLTextAreaElement>) => {
+    const el = e.currentTarget;
+    if (!(e.ctrlKey || e.metaKey)) return;
+    const link = linkAt(el.value, el.selectionStart);
+    if (link) {
+      e.preventDefault();
+      openLink(link);
+    }
+  };
+
+  const openGraphNode = (node: GraphNode) => {
+    if (node.kind === 'note') {
+      const note = notes.find(n => n.id === node.refId);
+      if (note) openNote(note);
+      setShowGraph(false);
+    } else if (node.kind !== 'tag') {
+      openRecord(node.kind, node.refId);
+    }
+  };
+
+  const openGraph = (local: boolean) => {
+    setGraphLocal(local);
+    setShowGraph(true);
+  };
+
+  const linkMentionIn = (other: Note, start: number, end: number) => {
+    if (!currentNote) return;
+    saveNote({ ...other, content: linkMention(other.content, start, end, currentNote.title) });
+  };
+
+  // --- History ---
+  useEffect(() => {
+    latestSnapshotsRef.current = new Map();
+  }, [storage]);
+
+  useEffect(() => {
+    setShowHistory(false);
+  }, [selectedNoteId]);
+
+  // Keeps `previous` as a snapshot when the save replacing it is big or late enough
+  const recordHistory = async (previous: VersionedText, next: VersionedText) => {
+    const known = latestSnapshotsRef.current;
+    let latest = known.get(previous.id);
+    if (latest === 'loading') return;
+    if (latest === undefined) {
+      known.set(previous.id, 'loading');
+      latest = latestSnapshot(await historyRepository(storage, previous.id).list()) ?? 'none';
+      known.set(previous.id, latest);
+    }
+    if (!isSnapshotDue(latest === 'none' ? undefined : latest, previous, next)) return;
+    await keepVersion(previous, 'auto');
+  };
+
+  const keepVersion = async (version: VersionedText, reason: SnapshotReason) => {
+    if (!version.content.trim()) return;
+    const known = latestSnapshotsRef.current;
+    known.set(version.id, 'loading');
+    try {
+      known.set(version.id, await saveSnapshot(storage, version, reason));
+    } catch (e) {
+      known.delete(version.id);
+      throw e;
+    }
+  };
+
+  const restoreSnapshot = async (snapshot: NoteSnapshot) => {
+    if (!currentNote || currentNote.id !== snapshot.noteId) return;
+    await keepVersion(currentNote, 'restore');
+    saveNote({ ...currentNote, title: snapshot.title, content: snapshot.content });
+    addLog({ source: 'Notes', message: `Restored version from ${new Date(snapshot.createdAt).toLocaleString()}`, type: 'success', isCloud: storage.isCloud });
+    setShowHistory(false);
   };
 
   // --- Note Save ---
   const saveNote = async (note: Note) => {
+    const previous = documents.find(n => n.id === note.id);
+    if (previous) recordHistory(previous, note).catch(console.error);
+    if (isFileNote(note)) return saveFileNote(note);
+
     setIsSaving(true);
     const updatedNote = { ...note, updatedAt: Date.now() };
 
     setNotes(prev => prev.map(n => n.id === note.id ? updatedNote : n));
-
-    const isCloud = authStatus === 'connected' && !!auth.currentUser;
-    if (isCloud && auth.currentUser) {
-      await update(ref(db, `users/${auth.currentUser.uid}/notes/${note.id}`), updatedNote);
-    } else {
-      const allNotes = notes.map(n => n.id === note.id ? updatedNote : n);
-      localStorage.setItem('nd_os_notes', JSON.stringify(allNotes));
-    }
+    await noteRepo.put(updatedNote);
     
     clearTimeout(saveTimeoutRef.current);
     saveTimeoutRef.current = setTimeout(() => {
-        addLog({ source: 'Notes', message: `Synced: "${note.title || 'Untitled'}"`, type: 'success', isCloud });
+        addLog({ source: 'Notes', message: `Synced: "${note.title || 'Untitled'}"`, type: 'success', isCloud: storage.isCloud });
         setIsSaving(false);
     }, 1500);
   };
 
-  const createNote = () => {
+  // Files are written once typing pauses; the title is the file name
+  const saveFileNote = (note: Note) => {
+    const draft = { title: note.title, content: note.content };
+    setFileDrafts(prev => ({ ...prev, [note.id]: draft }));
+    setIsSaving(true);
+
+    const timeouts = fileSaveTimeoutsRef.current;
+    clearTimeout(timeouts.get(note.id));
+    timeouts.set(note.id, setTimeout(() => {
+      timeouts.delete(note.id);
+      updateFile(note.id, { name: draft.title.trim() || 'Untitled', content: draft.content, size: draft.content.length, updatedAt: Date.now() });
+      setFileDrafts(prev => {
+        if (prev[note.id] !== draft) return prev;
+        const { [note.id]: _, ...rest } = prev;
+        return rest;
+      });
+      addLog({ source: 'Text Editor', message: 'File saved', type: 'success', isCloud: storage.isCloud });
+      setIsSaving(false);
+    }, 1000));
+  };
+
+  const createNote = (from?: { title: string; content: string }) => {
+    if (selectedFolderId === FILES_FOLDER_ID && !selectedTag) {
+      setSelectedNoteId(createTextFile(from?.title ? `${from.title}.md` : 'Untitled.md', from?.content ?? '').id);
+      return;
+    }
     const newNote: Note = {
       id: `note_${Date.now()}`,
-      title: '',
-      content: '',
-      folderId: selectedFolderId,
+      title: from?.title ?? '',
+      content: from?.content ?? (selectedTag ? `#${selectedTag} ` : ''),
+      folderId: selectedFolderId === FILES_FOLDER_ID ? DEFAULT_NOTEBOOK_ID : selectedFolderId,
       createdAt: Date.now(),
       updatedAt: Date.now(),
     };
 
-    const isCloud = authStatus === 'connected' && !!auth.currentUser;
-    if (isCloud && auth.currentUser) {
-      set(ref(db, `users/${auth.currentUser.uid}/notes/${newNote.id}`), newNote);
-    } else {
-      const newNotes = [newNote, ...notes];
-      setNotes(newNotes);
-      localStorage.setItem('nd_os_notes', JSON.stringify(newNotes));
-    }
-    
-    addLog({ source: 'Notes', message: `Created new note`, type: 'info', isCloud });
+    noteRepo.put(newNote);
+    addLog({ source: 'Notes', message: `Created new note`, type: 'info', isCloud: storage.isCloud });
     setSelectedNoteId(newNote.id);
   };
 
-  const deleteNote = (noteId: string) => {
-    const noteToDelete = notes.find(n => n.id === noteId);
-    const isCloud = authStatus === 'connected' && !!auth.currentUser;
+  const createTextFile = (name: string, content: string) => {
+    const file: FileNode = {
+      id: `file_${Date.now()}`,
+      parentId: NEW_FILE_FOLDER_ID,
+      name,
+      type: 'text',
+      size: content.length,
+      content,
+      mimeType: 'text/markdown',
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+    addFile(file);
+    addLog({ source: 'Notes', message: `Created file: Documents/${name}`, type: 'info', isCloud: storage.isCloud });
+    return file;
+  };
 
-    if (isCloud && auth.currentUser) {
-      remove(ref(db, `users/${auth.currentUser.uid}/notes/${noteId}`));
-    } else {
-      const newNotes = notes.filter(n => n.id !== noteId);
-      setNotes(newNotes);
-      localStorage.setItem('nd_os_notes', JSON.stringify(newNotes));
+  // --- Notes <-> Files ---
+  // Both conversions copy, so nothing that links to the original breaks
+  const saveNoteAsFile = (note: Note) => {
+    const file = createTextFile(noteFileName(note), note.content);
+    openNote(fileToNote(file));
+  };
+
+  const importFileAsNote = (fileNote: Note) => {
+    const note: Note = {
+      id: `note_${Date.now()}`,
+      title: fileNote.title.replace(/\.(md|markdown|txt)$/i, ''),
+      content: fileNote.content,
+      folderId: DEFAULT_NOTEBOOK_ID,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+    noteRepo.put(note);
+    addLog({ source: 'Notes', message: `Imported "${fileNote.title}" as a note`, type: 'info', isCloud: storage.isCloud });
+    openNote(note);
+  };
+
+  // --- Templates ---
+  // Templates with placeholders to fill in ask for them first
+  const startFromTemplate = (template: NoteTemplate) => {
+    setShowTemplateMenu(false);
+    setShowTemplateManager(false);
+    if (templatePrompts(template).length) setPendingTemplate(template);
+    else createNote(applyTemplate(template));
+  };
+
+  const finishTemplate = (values: Record<string, string>) => {
+    if (!pendingTemplate) return;
+    createNote(applyTemplate(pendingTemplate, values));
+    setPendingTemplate(null);
+  };
+
+  useEffect(() => {
+    if (!templateId || launchedTemplateRef.current === templateId) return;
+    const template = templates.find(t => t.id === templateId);
+    if (!template) return;
+    launchedTemplateRef.current = templateId;
+    startFromTemplate(template);
+  }, [templateId, templates]);
+
+  // --- Import / Export ---
+  const exportNote = (note: Note) => {
+    if (isFileNote(note)) downloadFile(note.title, note.content, 'text/plain');
+    else downloadFile(noteFileName(note), noteToMarkdown(note), 'text/markdown');
+    addLog({ source: 'Notes', message: `Exported: "${note.title || 'Untitled'}"`, type: 'info', isCloud: storage.isCloud });
+  };
+
+  // A notebook with everything nested in it, or the whole library
+  const exportNotebook = (notebook: Notebook | null) => {
+    // Notes in a missing notebook are shown, and exported, in the Inbox
+    const known = new Set(allNotebooks.map(n => n.id));
+    const inLibrary = notes.map((n): TransferNote => (known.has(n.folderId) ? n : { ...n, folderId: DEFAULT_NOTEBOOK_ID }));
+    const ids = notebook ? new Set(descendantIds(notebook.id, allNotebooks)) : null;
+    const selected = inLibrary.filter(n => !ids || ids.has(n.folderId));
+    if (!selected.length) {
+      addLog({ source: 'Notes', message: 'Nothing to export', type: 'warning', isCloud: storage.isCloud });
+      return;
     }
+    const zip = exportNotesZip(selected, allNotebooks);
+    downloadFile(`${notebook ? notebook.name : `Notes ${dateKey(new Date())}`}.zip`, zip, 'application/zip');
+    addLog({ source: 'Notes', message: `Exported ${selected.length} notes`, type: 'success', isCloud: storage.isCloud });
+  };
+
+  const handleImportFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const selectedFiles: File[] = Array.from(input.files || []);
+    input.value = '';
+    setShowImportMenu(false);
+    if (!selectedFiles.length) return;
+
+    try {
+      const files: MarkdownFile[] = (
+        await Promise.all(
+          selectedFiles.map(async file =>
+            /\.zip$/i.test(file.name)
+              ? readMarkdownZip(new Uint8Array(await file.arrayBuffer()))
+              : [{ path: file.webkitRelativePath || file.name, text: await file.text(), modifiedAt: file.lastModified }]
+          )
+        )
+      ).flat();
+      setPendingImport(planNotesImport(files, notes, allNotebooks));
+    } catch (err: any) {
+      console.error(err);
+      addLog({ source: 'Notes', message: `Import failed: ${err?.message || 'unreadable file'}`, type: 'error', isCloud: storage.isCloud });
+    }
+  };
+
+  const confirmImport = async () => {
+    if (!pendingImport) return;
+    const { notes: imported, notebooks: newNotebooks } = pendingImport;
+    setPendingImport(null);
+    // Notes with the same id are overwritten, so their current text goes into history first
+    const replaced = imported.map(n => notes.find(existing => existing.id === n.id)).filter((n): n is Note => !!n);
+    try {
+      await Promise.all(replaced.map(n => keepVersion(n, 'import')));
+    } catch (e) {
+      console.error(e);
+      addLog({ source: 'Notes', message: 'Import cancelled: could not save history for replaced notes', type: 'error', isCloud: false });
+      return;
+    }
+    try {
+      await Promise.all(newNotebooks.map(n => notebookRepo.put(n)));
+    } catch (e) {
+      console.error(e);
+      addLog({ source: 'Notes', message: 'Import cancelled: could not create notebooks', type: 'error', isCloud: false });
+      return;
+    }
+    // Notes are written independently, so report how many made it rather than all or nothing
+    const results = await Promise.allSettled(imported.map(n => noteRepo.put(n as Note)));
+    const failed = results.filter(r => r.status === 'rejected');
+    if (failed.length) {
+      console.error(...failed.map(r => (r as PromiseRejectedResult).reason));
+      addLog({ source: 'Notes', message: `Imported ${imported.length - failed.length} of ${imported.length} notes; ${failed.length} could not be saved`, type: 'error', isCloud: storage.isCloud });
+      return;
+    }
+    addLog({ source: 'Notes', message: `Imported ${imported.length} notes${newNotebooks.length ? ` into ${newNotebooks.length} new notebooks` : ''}`, type: 'success', isCloud: storage.isCloud });
+  };
+
+  const deleteNote = (noteId: string) => {
+    const noteToDelete = documents.find(n => n.id === noteId);
+    const isFile = !!noteToDelete && isFileNote(noteToDelete);
+    if (isFile && !confirm(`Delete the file "${noteToDelete.title}"?`)) return;
+
+    // Attachments live in Files and may be used elsewhere, so only ask when there is something to lose
+    const attachments = attachmentsOf(fs, noteId);
+    const attachedFiles = attachments.filter(f => f.type !== 'folder').length;
+    const removeAttachments = attachedFiles === 0 || confirm(`Also delete ${attachedFiles} attached file(s) of "${noteToDelete?.title || 'Untitled'}"?`);
+
+    // One call, since each file update starts from the same file list
+    const fileIds = [...(isFile ? [noteId] : []), ...(removeAttachments ? attachments.map(f => f.id) : [])];
+    deleteFiles(fileIds);
+    if (!isFile) noteRepo.remove(noteId);
+    storage.remove(`notes_history/${noteId}`);
+    latestSnapshotsRef.current.delete(noteId);
     
-    addLog({ source: 'Notes', message: `Deleted: "${noteToDelete?.title || 'Untitled'}"`, type: 'warning', isCloud });
+    addLog({ source: 'Notes', message: `Deleted: "${noteToDelete?.title || 'Untitled'}"`, type: 'warning', isCloud: storage.isCloud });
     if (selectedNoteId === noteId) setSelectedNoteId(null);
   };
 
+  // --- Notebooks ---
+  const selectNotebook = (id: string) => {
+    setSelectedFolderId(id);
+    setSelectedTag(null);
+    setShowGraph(false);
+  };
+
+  const selectTag = (tag: string) => {
+    setSelectedTag(selectedTag === tag && !showGraph ? null : tag);
+    setShowGraph(false);
+  };
+
+  const toggleNotebook = (id: string) => {
+    const next = new Set(collapsedNotebooks);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setCollapsedNotebooks(next);
+  };
+
+  const expandNotebook = (id: string | null) => {
+    if (!id || !collapsedNotebooks.has(id)) return;
+    const next = new Set(collapsedNotebooks);
+    next.delete(id);
+    setCollapsedNotebooks(next);
+  };
+
+  const startNewNotebook = (parentId: string | null) => {
+    expandNotebook(parentId);
+    setEditingNotebook({ id: null, parentId, name: '' });
+  };
+
+  const commitNotebookEdit = () => {
+    if (!editingNotebook) return;
+    const name = editingNotebook.name.trim();
+    setEditingNotebook(null);
+    if (!name) return;
+
+    if (editingNotebook.id) {
+      notebookRepo.patch(editingNotebook.id, { name });
+      return;
+    }
+    const notebook: Notebook = { id: `nb_${Date.now()}`, name, parentId: editingNotebook.parentId, createdAt: Date.now() };
+    notebookRepo.put(notebook);
+    addLog({ source: 'Notes', message: `Notebook created: "${name}"`, type: 'info', isCloud: storage.isCloud });
+    selectNotebook(notebook.id);
+  };
+
+  // Notes and sub-notebooks move up a level instead of being deleted
+  const deleteNotebook = (notebook: Notebook) => {
+    const parentId = notebook.parentId && allNotebooks.some(n => n.id === notebook.parentId) ? notebook.parentId : null;
+    notes.filter(n => n.folderId === notebook.id).forEach(n => noteRepo.patch(n.id, { folderId: parentId || DEFAULT_NOTEBOOK_ID }));
+    notebooks.filter(n => n.parentId === notebook.id).forEach(n => notebookRepo.patch(n.id, { parentId }));
+    notebookRepo.remove(notebook.id);
+
+    addLog({ source: 'Notes', message: `Notebook deleted: "${notebook.name}"`, type: 'warning', isCloud: storage.isCloud });
+    if (selectedFolderId === notebook.id) setSelectedFolderId(parentId || DEFAULT_NOTEBOOK_ID);
+  };
+
+  const handleNotebookDragOver = (e: React.DragEvent, targetId: string) => {
+    const types = e.dataTransfer.types;
+    // Only notebooks can be dropped at the top level
+    if (!types.includes(NOTEBOOK_DRAG_TYPE) && !(types.includes(NOTE_DRAG_TYPE) && targetId !== ROOT_DROP_TARGET)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setDropTargetId(targetId);
+  };
+
+  const handleNotebookDrop = (e: React.DragEvent, targetId: string) => {
+    e.preventDefault();
+    setDropTargetId(null);
+    const parentId = targetId === ROOT_DROP_TARGET ? null : targetId;
+    const target = allNotebooks.find(n => n.id === parentId);
+
+    const note = notes.find(n => n.id === e.dataTransfer.getData(NOTE_DRAG_TYPE));
+    if (note && target && note.folderId !== target.id) {
+      noteRepo.patch(note.id, { folderId: target.id });
+      addLog({ source: 'Notes', message: `Moved "${note.title || 'Untitled'}" to ${target.name}`, type: 'info', isCloud: storage.isCloud });
+      return;
+    }
+
+    const notebookId = e.dataTransfer.getData(NOTEBOOK_DRAG_TYPE);
+    if (notebookId && notebookId !== parentId && canMoveNotebook(notebookId, parentId, allNotebooks)) {
+      notebookRepo.patch(notebookId, { parentId });
+      expandNotebook(parentId);
+    }
+  };
+
   // --- AI Actions ---
   const handleAiAction = async (action: 'summarize' | 'grammar' | 'continue' | 'tone') => {
-      const activeNote = notes.find(n => n.id === selectedNoteId);
-      if (!activeNote && !fileId) return;
+      const activeNote = documents.find(n => n.id === selectedNoteId);
+      if (!activeNote) return;
       
-      const contentToProcess = fileId ? fileContent : activeNote?.content;
+      const contentToProcess = activeNote.content;
       if (!contentToProcess) return;
 
       const apiKey = localStorage.getItem('nd_os_api_key') || process.env.API_KEY;
@@ -198,18 +893,24 @@ export const NotesApp: React.FC<{ fileId?: string }> = ({ fileId }) => {
 
           const result = response.text || '';
 
+          // The note may have been edited or deleted while the model was working; applying the
+          // result then would silently throw those edits away
+          const current = documentsRef.current.find(n => n.id === activeNote.id);
+          if (!current || current.content !== contentToProcess) {
+              addLog({ source: 'AI', message: 'Note changed during the edit, result discarded', type: 'warning', isCloud: false });
+              return;
+          }
+
+          // AI edits can replace everything, so the text they started from is always kept
+          await keepVersion(current, 'ai');
+
           if (action === 'summarize') {
-              const newContent = `${contentToProcess}\n\n## Summary\n${result}`;
-              if (fileId) saveFile(newContent);
-              else if (activeNote) saveNote({ ...activeNote, content: newContent });
+              saveNote({ ...current, content: `${contentToProcess}\n\n## Summary\n${result}` });
           } else if (action === 'continue') {
-              const newContent = `${contentToProcess}\n${result}`;
-              if (fileId) saveFile(newContent);
-              else if (activeNote) saveNote({ ...activeNote, content: newContent });
+              saveNote({ ...current, content: `${contentToProcess}\n${result}` });
           } else {
               // Replace content for grammar/tone
-              if (fileId) saveFile(result);
-              else if (activeNote) saveNote({ ...activeNote, content: result });
+              saveNote({ ...current, content: result });
           }
           
           addLog({ source: 'AI', message: 'Neural Edit Complete', type: 'success', isCloud: true });
@@ -222,100 +923,219 @@ export const NotesApp: React.FC<{ fileId?: string }> = ({ fileId }) => {
       }
   };
 
-  // --- FILE MODE RENDER ---
-  if (fileId && fileNode) {
-      return (
-          <div className="flex flex-col h-full bg-nd-black text-nd-white font-sans">
-              <div className="h-[50px] border-b border-nd-gray flex items-center justify-between px-4 bg-nd-black z-10 shrink-0">
-                  <div className="flex items-center gap-2 text-sm font-mono">
-                      <FileText size={16} className="text-nd-gray" />
-                      <span className="font-bold">{fileNode.name}</span>
-                      <span className="text-nd-gray text-xs ml-2 opacity-50">{Math.round(fileNode.size / 1024)} KB</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                      <div className="relative">
-                          <button 
-                              onClick={() => setShowAiMenu(!showAiMenu)}
-                              disabled={isAiProcessing}
-                              className="flex items-center gap-2 px-3 py-1.5 border border-nd-gray rounded text-xs font-bold hover:bg-nd-gray/20 transition-colors disabled:opacity-50"
-                          >
-                              {isAiProcessing ? <Sparkles size={14} className="animate-spin text-nd-red"/> : <BrainCircuit size={14} className="text-nd-red"/>}
-                              <span className="hidden md:inline">AI ACTIONS</span>
-                          </button>
-                          
-                          {showAiMenu && (
-                              <div className="absolute top-full right-0 mt-2 w-48 bg-nd-black border border-nd-gray rounded-lg shadow-2xl z-50 overflow-hidden animate-in fade-in slide-in-from-top-2">
-                                  <button onClick={() => handleAiAction('grammar')} className="w-full text-left px-4 py-2 text-xs hover:bg-nd-white hover:text-nd-black flex items-center gap-2"><Wand2 size={12}/> Fix Grammar</button>
-                                  <button onClick={() => handleAiAction('tone')} className="w-full text-left px-4 py-2 text-xs hover:bg-nd-white hover:text-nd-black flex items-center gap-2"><PenTool size={12}/> Make Professional</button>
-                                  <button onClick={() => handleAiAction('summarize')} className="w-full text-left px-4 py-2 text-xs hover:bg-nd-white hover:text-nd-black flex items-center gap-2"><FileText size={12}/> Summarize</button>
-                                  <button onClick={() => handleAiAction('continue')} className="w-full text-left px-4 py-2 text-xs hover:bg-nd-white hover:text-nd-black flex items-center gap-2"><ChevronRight size={12}/> Continue Writing</button>
-                              </div>
-                          )}
-                      </div>
-                      
-                      {isSaving && (
-                          <div className="flex items-center gap-1 text-xs text-nd-gray font-mono animate-pulse mr-2">
-                              <Save size={12} />
-                              <span className="hidden md:inline">SAVING...</span>
-                          </div>
-                      )}
-                  </div>
-              </div>
-              <textarea
-                  value={fileContent}
-                  onChange={(e) => saveFile(e.target.value)}
-                  className="flex-1 bg-transparent resize-none outline-none text-sm md:text-base p-6 font-mono text-nd-white/90 leading-relaxed placeholder-nd-gray/30"
-                  spellCheck={false}
-                  placeholder="Type content here..."
-              />
-          </div>
-      );
-  }
+  // --- RENDER ---
 
-  // --- STANDARD NOTEBOOK MODE RENDER ---
+  const activeNote = currentNote;
+  const notebookIds = new Set(allNotebooks.map(n => n.id));
+  const notebookOf = (note: Note) => (notebookIds.has(note.folderId) ? note.folderId : DEFAULT_NOTEBOOK_ID);
+  const visibleNotebookIds = new Set(descendantIds(selectedFolderId, allNotebooks));
+  const notebookRows = flattenNotebookTree(notebookTree, collapsedNotebooks);
+  const notesPerNotebook = notes.reduce<Record<string, number>>((counts, n) => {
+    counts[notebookOf(n)] = (counts[notebookOf(n)] || 0) + 1;
+    return counts;
+  }, {});
+  const countWithin = (id: string) => descendantIds(id, allNotebooks).reduce((sum, nid) => sum + (notesPerNotebook[nid] || 0), 0);
 
-  const activeNote = notes.find(n => n.id === selectedNoteId);
-  const filteredNotes = notes
-    .filter(n => n.folderId === selectedFolderId)
+  const inFiles = selectedFolderId === FILES_FOLDER_ID && !selectedTag;
+  const filteredNotes = (inFiles ? fileNotes : selectedTag ? documents : notes)
+    .filter(n => inFiles || (selectedTag ? parseTags(n.content).includes(selectedTag) : visibleNotebookIds.has(notebookOf(n))))
     .filter(n => n.title.toLowerCase().includes(searchQuery.toLowerCase()) || n.content.toLowerCase().includes(searchQuery.toLowerCase()))
     .sort((a, b) => b.updatedAt - a.updatedAt);
 
   return (
     <div className="flex h-full bg-nd-black text-nd-white font-sans divide-x divide-nd-gray overflow-hidden relative">
       
-      {/* 1. Sidebar (Folders) */}
-      <div className={`w-[60px] md:w-[200px] flex-shrink-0 bg-nd-black flex-col ${activeNote ? 'hidden md:flex' : 'flex'}`}>
-        <div className="p-4 border-b border-nd-gray h-[50px] flex items-center justify-center md:justify-start">
+      {/* 1. Sidebar (Notebooks & Tags) */}
+      <div className={`w-[60px] md:w-[200px] flex-shrink-0 bg-nd-black flex-col ${activeNote && !showGraph ? 'hidden md:flex' : 'flex'}`}>
+        <div
+          onDragOver={(e) => handleNotebookDragOver(e, ROOT_DROP_TARGET)}
+          onDragLeave={() => setDropTargetId(null)}
+          onDrop={(e) => handleNotebookDrop(e, ROOT_DROP_TARGET)}
+          className={`p-4 border-b h-[50px] flex items-center justify-center md:justify-between ${dropTargetId === ROOT_DROP_TARGET ? 'border-nd-red bg-nd-red/10' : 'border-nd-gray'}`}
+        >
            <span className="font-mono text-xs text-nd-gray hidden md:inline-block">LIBRARY</span>
            <Book size={16} className="md:hidden text-nd-gray" />
+           <div className="hidden md:flex items-center gap-2">
+             <div className="relative">
+               <button onClick={() => setShowImportMenu(!showImportMenu)} title="Import Markdown" className="text-nd-gray hover:text-nd-white transition-colors">
+                 <Upload size={14} />
+               </button>
+               {showImportMenu && (
+                 <div className="absolute top-full left-0 mt-2 w-48 bg-nd-black border border-nd-gray rounded-lg shadow-2xl z-50 overflow-hidden animate-in fade-in slide-in-from-top-2">
+                   <button onClick={() => importFilesRef.current?.click()} className="w-full text-left px-4 py-2 text-xs hover:bg-nd-white hover:text-nd-black flex items-center gap-2">
+                     <FileText size={12} /> Markdown Files or .zip
+                   </button>
+                   <button onClick={() => importFolderRef.current?.click()} className="w-full text-left px-4 py-2 text-xs hover:bg-nd-white hover:text-nd-black flex items-center gap-2">
+                     <FolderOpen size={12} /> Folder (e.g. a Vault)
+                   </button>
+                 </div>
+               )}
+               <input ref={importFilesRef} type="file" multiple accept=".md,.markdown,.txt,.zip" className="hidden" onChange={handleImportFiles} />
+               <input ref={importFolderRef} type="file" webkitdirectory="" className="hidden" onChange={handleImportFiles} />
+             </div>
+             <button onClick={() => exportNotebook(null)} title="Export All as .zip" className="text-nd-gray hover:text-nd-white transition-colors">
+               <Download size={14} />
+             </button>
+             <button onClick={() => startNewNotebook(null)} title="New Notebook" className="text-nd-gray hover:text-nd-white transition-colors">
+               <FolderPlus size={14} />
+             </button>
+           </div>
         </div>
-        <div className="flex-1 py-4 flex flex-col gap-1">
-          {FOLDERS.map(folder => (
-            <button
-              key={folder.id}
-              onClick={() => setSelectedFolderId(folder.id)}
-              className={`flex items-center gap-3 px-0 justify-center md:justify-start md:px-4 py-3 mx-2 transition-all duration-200 border border-transparent ${
-                selectedFolderId === folder.id 
-                  ? 'bg-nd-white text-nd-black border-nd-white' 
-                  : 'text-nd-gray hover:text-nd-white hover:bg-nd-gray/10'
-              }`}
-            >
-              <folder.icon size={18} />
-              <span className="hidden md:inline font-medium text-sm">{folder.name}</span>
-              {selectedFolderId === folder.id && (
-                <div className="ml-auto w-1 h-1 bg-nd-red rounded-full hidden md:block" />
-              )}
-            </button>
-          ))}
+        <div className="flex-1 py-4 flex flex-col gap-1 overflow-y-auto min-h-0">
+          {notebookRows.map(({ notebook, depth, children }) => {
+            const isSelected = selectedFolderId === notebook.id && !selectedTag && !showGraph;
+            const isRenaming = editingNotebook?.id === notebook.id;
+            const builtIn = isBuiltInNotebook(notebook.id);
+            const collapsed = collapsedNotebooks.has(notebook.id);
+            const Icon = NOTEBOOK_ICONS[notebook.id] || (children.length && !collapsed ? FolderOpen : FolderIcon);
+            const count = countWithin(notebook.id);
+            return (
+              <React.Fragment key={notebook.id}>
+                <div
+                  draggable={!builtIn && !isRenaming}
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData(NOTEBOOK_DRAG_TYPE, notebook.id);
+                    e.dataTransfer.effectAllowed = 'move';
+                  }}
+                  onDragOver={(e) => handleNotebookDragOver(e, notebook.id)}
+                  onDragLeave={() => setDropTargetId(null)}
+                  onDrop={(e) => handleNotebookDrop(e, notebook.id)}
+                  onClick={() => selectNotebook(notebook.id)}
+                  onDoubleClick={() => !builtIn && setEditingNotebook({ id: notebook.id, parentId: notebook.parentId, name: notebook.name })}
+                  title={notebook.name}
+                  className={`group flex items-center gap-2 justify-center md:justify-start md:pr-2 py-2 mx-2 cursor-pointer transition-all duration-200 border ${
+                    isSelected
+                      ? 'bg-nd-white text-nd-black border-nd-white'
+                      : dropTargetId === notebook.id
+                      ? 'border-nd-red bg-nd-red/10 text-nd-white'
+                      : 'border-transparent text-nd-gray hover:text-nd-white hover:bg-nd-gray/10'
+                  }`}
+                >
+                  <span className="hidden md:block shrink-0" style={{ width: depth * 12 }} />
+                  <button
+                    onClick={(e) => { e.stopPropagation(); toggleNotebook(notebook.id); }}
+                    className={`hidden md:block shrink-0 ${children.length ? '' : 'invisible'}`}
+                  >
+                    <ChevronRight size={12} className={`transition-transform ${collapsed ? '' : 'rotate-90'}`} />
+                  </button>
+                  <Icon size={16} className="shrink-0" />
+                  {isRenaming ? (
+                    <NotebookNameInput
+                      value={editingNotebook!.name}
+                      onChange={(name) => setEditingNotebook({ ...editingNotebook!, name })}
+                      onCommit={commitNotebookEdit}
+                      onCancel={() => setEditingNotebook(null)}
+                    />
+                  ) : (
+                    <span className="hidden md:inline font-medium text-sm truncate flex-1">{notebook.name}</span>
+                  )}
+                  {!isRenaming && (
+                    <>
+                      <span className="hidden md:inline md:group-hover:hidden text-[10px] font-mono opacity-50">{count || ''}</span>
+                      <div className="hidden md:group-hover:flex items-center gap-1">
+                        <button onClick={(e) => { e.stopPropagation(); startNewNotebook(notebook.id); }} title="New Notebook Inside" className="hover:text-nd-red">
+                          <Plus size={12} />
+                        </button>
+                        <button onClick={(e) => { e.stopPropagation(); exportNotebook(notebook); }} title="Export as .zip" className="hover:text-nd-red">
+                          <Download size={12} />
+                        </button>
+                        {!builtIn && (
+                          <button onClick={(e) => { e.stopPropagation(); deleteNotebook(notebook); }} title="Delete Notebook" className="hover:text-nd-red">
+                            <Trash2 size={12} />
+                          </button>
+                        )}
+                      </div>
+                    </>
+                  )}
+                </div>
+                {editingNotebook && !editingNotebook.id && editingNotebook.parentId === notebook.id && (
+                  <NewNotebookRow depth={depth + 1} editing={editingNotebook} onChange={setEditingNotebook} onCommit={commitNotebookEdit} />
+                )}
+              </React.Fragment>
+            );
+          })}
+          {editingNotebook && !editingNotebook.id && !editingNotebook.parentId && (
+            <NewNotebookRow depth={0} editing={editingNotebook} onChange={setEditingNotebook} onCommit={commitNotebookEdit} />
+          )}
+
+          <button
+            onClick={() => selectNotebook(FILES_FOLDER_ID)}
+            title="Text files from the file system"
+            className={`flex items-center gap-2 justify-center md:justify-start md:pl-7 md:pr-2 py-2 mx-2 transition-all duration-200 border ${
+              inFiles && !showGraph
+                ? 'bg-nd-white text-nd-black border-nd-white'
+                : 'border-transparent text-nd-gray hover:text-nd-white hover:bg-nd-gray/10'
+            }`}
+          >
+            <Files size={16} className="shrink-0" />
+            <span className="hidden md:inline font-medium text-sm truncate flex-1 text-left">Files</span>
+            <span className="hidden md:inline text-[10px] font-mono opacity-50">{fileNotes.length || ''}</span>
+          </button>
+
+          {tagCounts.length > 0 && (
+            <div className="hidden md:flex flex-col gap-1">
+              <div className="h-px bg-nd-gray mx-4 my-2" />
+              <span className="px-4 py-1 font-mono text-[10px] text-nd-gray uppercase tracking-wider">Tags</span>
+              {tagCounts.map(({ tag, count }) => (
+                <button
+                  key={tag}
+                  onClick={() => selectTag(tag)}
+                  className={`flex items-center gap-2 px-4 py-1.5 mx-2 text-sm transition-all duration-200 border ${
+                    selectedTag === tag && !showGraph
+                      ? 'bg-nd-white text-nd-black border-nd-white'
+                      : 'border-transparent text-nd-gray hover:text-nd-white hover:bg-nd-gray/10'
+                  }`}
+                >
+                  <Hash size={12} className="shrink-0" />
+                  <span className="truncate flex-1 text-left">{tag}</span>
+                  <span className="text-[10px] font-mono opacity-50">{count}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="h-px bg-nd-gray mx-4 my-2" />
+          <button
+            onClick={() => openDaily(new Date())}
+            title="Today's Note"
+            className="flex items-center gap-3 px-0 justify-center md:justify-start md:px-4 py-3 mx-2 transition-all duration-200 border border-transparent text-nd-gray hover:text-nd-white hover:bg-nd-gray/10"
+          >
+            <CalendarDays size={18} />
+            <span className="hidden md:inline font-medium text-sm">Today</span>
+          </button>
+          <button
+            onClick={() => (showGraph ? setShowGraph(false) : openGraph(false))}
+            className={`flex items-center gap-3 px-0 justify-center md:justify-start md:px-4 py-3 mx-2 transition-all duration-200 border border-transparent ${
+              showGraph
+                ? 'bg-nd-white text-nd-black border-nd-white'
+                : 'text-nd-gray hover:text-nd-white hover:bg-nd-gray/10'
+            }`}
+          >
+            <Waypoints size={18} />
+            <span className="hidden md:inline font-medium text-sm">Graph</span>
+          </button>
         </div>
         <div className="p-4 mt-auto border-t border-nd-gray flex justify-center md:justify-start">
           <div className="flex items-center gap-2 text-[10px] font-mono text-nd-gray">
-            <div className={`w-2 h-2 rounded-full ${authStatus === 'connected' ? 'bg-green-500' : 'bg-nd-red'}`}></div>
-            <span className="hidden md:inline">{authStatus === 'connected' ? 'SYNC' : 'LOCAL'}</span>
+            <div className={`w-2 h-2 rounded-full ${storage.isCloud ? 'bg-green-500' : 'bg-nd-red'}`}></div>
+            <span className="hidden md:inline">{storage.isCloud ? 'SYNC' : 'LOCAL'}</span>
           </div>
         </div>
       </div>
 
+      {showGraph ? (
+        <NoteGraphView
+          notes={notes}
+          tasks={linkTasks}
+          projects={linkProjects}
+          files={fs}
+          notebooks={allNotebooks}
+          selectedNoteId={selectedNoteId}
+          local={graphLocal}
+          onLocalChange={setGraphLocal}
+          onOpen={openGraphNode}
+        />
+      ) : (
+      <>
       {/* 2. Note List */}
       <div className={`flex-1 md:w-[300px] md:flex-none flex flex-col bg-nd-black ${activeNote ? 'hidden md:flex' : 'flex'}`}>
         <div className="h-[50px] border-b border-nd-gray flex items-center px-3 gap-2">
@@ -328,13 +1148,58 @@ export const NotesApp: React.FC<{ fileId?: string }> = ({ fileId }) => {
               className="w-full bg-nd-gray/10 border border-transparent focus:border-nd-gray text-xs pl-8 pr-2 py-1.5 text-nd-white outline-none font-mono"
             />
           </div>
+          <div className="relative">
+            <button
+              onClick={() => setShowTemplateMenu(!showTemplateMenu)}
+              title="New from Template"
+              className={`p-1.5 border transition-colors ${showTemplateMenu ? 'border-nd-white bg-nd-white text-nd-black' : 'border-nd-gray text-nd-white hover:bg-nd-gray/20'}`}
+            >
+              <LayoutTemplate size={16} />
+            </button>
+            {showTemplateMenu && (
+              <div className="absolute top-full right-0 mt-2 w-56 bg-nd-black border border-nd-gray rounded-lg shadow-2xl z-50 overflow-hidden animate-in fade-in slide-in-from-top-2">
+                {templates.length === 0 && <p className="px-4 py-3 text-[10px] font-mono text-nd-gray">NO TEMPLATES YET</p>}
+                <div className="max-h-64 overflow-y-auto">
+                  {templates.map(template => (
+                    <button key={template.id} onClick={() => startFromTemplate(template)} className="w-full text-left px-4 py-2 text-xs hover:bg-nd-white hover:text-nd-black flex items-center gap-2">
+                      <FileText size={12} className="shrink-0" />
+                      <span className="truncate">{template.name}</span>
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={() => { setShowTemplateMenu(false); setShowTemplateManager(true); }}
+                  className="w-full text-left px-4 py-2 text-xs border-t border-nd-gray text-nd-gray hover:bg-nd-white hover:text-nd-black flex items-center gap-2"
+                >
+                  <Settings2 size={12} /> Manage Templates
+                </button>
+              </div>
+            )}
+          </div>
           <button 
-            onClick={createNote}
+            onClick={() => createNote()}
+            title="New Note"
             className="p-1.5 border border-nd-white text-nd-black bg-nd-white hover:bg-transparent hover:text-nd-white transition-colors"
           >
             <Plus size={16} />
           </button>
         </div>
+        <div className="px-4 py-2 border-b border-nd-gray flex items-center justify-between gap-2 text-[10px] font-mono text-nd-gray uppercase">
+          <span className="truncate">
+            {selectedTag ? `#${selectedTag}` : inFiles ? 'Files' : notebookPath(selectedFolderId, allNotebooks).map(n => n.name).join(' / ')}
+          </span>
+          <span>{filteredNotes.length}</span>
+        </div>
+        {selectedFolderId === DAILY_NOTEBOOK_ID && !selectedTag && (
+          <DailyCalendar
+            month={dailyMonth}
+            dates={new Set(notes.map(n => n.dailyDate).filter((d): d is string => !!d))}
+            selected={activeNote?.dailyDate}
+            onMonthChange={setDailyMonth}
+            onSelect={openDaily}
+            onEditTemplate={() => setShowDailyTemplate(true)}
+          />
+        )}
 
         <div className="flex-1 overflow-y-auto overflow-x-hidden">
           {filteredNotes.length === 0 ? (
@@ -345,6 +1210,12 @@ export const NotesApp: React.FC<{ fileId?: string }> = ({ fileId }) => {
             filteredNotes.map(note => (
               <div 
                 key={note.id}
+                draggable={!isFileNote(note)}
+                onDragStart={(e) => {
+                  e.dataTransfer.setData(NOTE_DRAG_TYPE, note.id);
+                  e.dataTransfer.effectAllowed = 'move';
+                }}
+                onDragEnd={() => setDropTargetId(null)}
                 onClick={() => setSelectedNoteId(note.id)}
                 className={`group px-4 py-4 border-b border-nd-gray cursor-pointer transition-all duration-200 ${
                   selectedNoteId === note.id 
@@ -395,6 +1266,16 @@ export const NotesApp: React.FC<{ fileId?: string }> = ({ fileId }) => {
                 </div>
                 <div className="hidden md:block w-px h-3 bg-nd-gray" />
                 <span className="hidden md:inline">{activeNote.content.split(/\s+/).filter(w => w.length > 0).length} words</span>
+                <div className="hidden lg:block w-px h-3 bg-nd-gray" />
+                {/* Where this text is stored */}
+                <span className="hidden lg:flex items-center gap-1 min-w-0 uppercase" title={isFileNote(activeNote) ? 'Stored as a file' : 'Stored in the notes database'}>
+                  {isFileNote(activeNote) ? <HardDrive size={12} className="flex-shrink-0" /> : <Database size={12} className="flex-shrink-0" />}
+                  <span className="truncate">
+                    {isFileNote(activeNote)
+                      ? `Files · ${fileLocation(activeNote.id, fs)}`
+                      : `Notes · ${notebookPath(notebookOf(activeNote), allNotebooks).map(n => n.name).join(' / ')}`}
+                  </span>
+                </span>
               </div>
               
               <div className="flex items-center gap-2 flex-shrink-0">
@@ -419,6 +1300,36 @@ export const NotesApp: React.FC<{ fileId?: string }> = ({ fileId }) => {
                       )}
                  </div>
 
+                 <EditorModeSwitch mode={editorMode} onChange={setEditorMode} />
+
+                 <button
+                    onClick={() => openGraph(true)}
+                    title="Local Graph"
+                    className="p-1.5 border border-nd-gray rounded text-nd-white hover:bg-nd-gray/20 transition-colors"
+                 >
+                    <Waypoints size={14} />
+                 </button>
+
+                 <button
+                    onClick={() => attachInputRef.current?.click()}
+                    title="Attach Files"
+                    className="p-1.5 border border-nd-gray rounded text-nd-white hover:bg-nd-gray/20 transition-colors"
+                 >
+                    <Paperclip size={14} />
+                 </button>
+                 <input ref={attachInputRef} type="file" multiple className="hidden" onChange={handleAttachInput} />
+
+                 <HistoryButton active={showHistory} onClick={() => setShowHistory(!showHistory)} />
+
+                 <button
+                    onClick={() => setShowLinks(!showLinks)}
+                    title="Links & Backlinks"
+                    className={`flex items-center gap-1.5 px-2 py-1.5 border rounded text-xs font-mono transition-colors ${showLinks ? 'border-nd-white bg-nd-white text-nd-black' : 'border-nd-gray text-nd-white hover:bg-nd-gray/20'}`}
+                 >
+                    <Link2 size={14} />
+                    <span>{backlinks.length}</span>
+                 </button>
+
                  <div className="w-px h-4 bg-nd-gray mx-1"></div>
 
                  {isSaving && (
@@ -427,6 +1338,20 @@ export const NotesApp: React.FC<{ fileId?: string }> = ({ fileId }) => {
                      <span className="hidden md:inline">SAVING</span>
                    </div>
                  )}
+                 <button
+                  onClick={() => (isFileNote(activeNote) ? importFileAsNote(activeNote) : saveNoteAsFile(activeNote))}
+                  title={isFileNote(activeNote) ? 'Import as Note' : 'Save as File'}
+                  className="p-2 text-nd-gray hover:text-nd-white hover:bg-nd-gray/10 transition-colors"
+                 >
+                   {isFileNote(activeNote) ? <FileInput size={16} /> : <FileOutput size={16} />}
+                 </button>
+                 <button
+                  onClick={() => exportNote(activeNote)}
+                  title="Export as Markdown"
+                  className="p-2 text-nd-gray hover:text-nd-white hover:bg-nd-gray/10 transition-colors"
+                 >
+                   <Download size={16} />
+                 </button>
                  <button 
                   onClick={() => deleteNote(activeNote.id)}
                   className="p-2 text-nd-gray hover:text-nd-red hover:bg-nd-red/10 transition-colors"
@@ -436,9 +1361,18 @@ export const NotesApp: React.FC<{ fileId?: string }> = ({ fileId }) => {
               </div>
             </div>
 
+            <div className="flex-1 flex min-h-0 relative">
+            {showHistory && (
+              <NoteHistoryView
+                current={{ id: activeNote.id, title: activeNote.title, content: activeNote.content }}
+                onRestore={restoreSnapshot}
+                onClose={() => setShowHistory(false)}
+              />
+            )}
             {/* Writing Area */}
+            {editorMode !== 'preview' && (
             <div className="flex-1 overflow-y-auto p-6 md:p-12">
-              <div className="max-w-3xl mx-auto flex flex-col gap-6 h-full">
+              <div className="max-w-3xl mx-auto flex flex-col gap-6 h-full relative">
                 <input
                   value={activeNote.title}
                   onChange={(e) => saveNote({ ...activeNote, title: e.target.value })}
@@ -446,13 +1380,118 @@ export const NotesApp: React.FC<{ fileId?: string }> = ({ fileId }) => {
                   className="bg-transparent text-2xl md:text-4xl font-bold text-nd-white placeholder-nd-gray/30 outline-none w-full border-none p-0 tracking-tight"
                 />
                 <textarea
+                  ref={editorRef}
                   value={activeNote.content}
                   onChange={(e) => saveNote({ ...activeNote, content: e.target.value })}
-                  placeholder="Start typing..."
+                  onSelect={(e) => updateLinkQuery(e.currentTarget)}
+                  onKeyDown={handleEditorKeyDown}
+                  onClick={handleEditorClick}
+                  onBlur={() => setLinkQuery(null)}
+                  onPaste={handleEditorPaste}
+                  onDragOver={(e) => e.dataTransfer.types.includes('Files') && e.preventDefault()}
+                  onDrop={handleEditorDrop}
+                  placeholder="Start typing... [[ links another note, paste or drop files to attach"
                   className="flex-1 bg-transparent resize-none outline-none text-sm md:text-base leading-loose font-mono text-nd-white/90 placeholder-nd-gray/30 min-h-[500px]"
                   spellCheck={false}
                 />
+
+                {/* Link Suggestions */}
+                {linkQuery && suggestions.length > 0 && (
+                  <div
+                    className="absolute z-30 w-64 bg-nd-black border border-nd-gray rounded-lg shadow-2xl overflow-hidden animate-in fade-in"
+                    style={{ top: suggestionPosition.top, left: Math.max(0, suggestionPosition.left - 16) }}
+                    onMouseDown={(e) => e.preventDefault()}
+                  >
+                    {suggestions.map((suggestion, i) => (
+                      <button
+                        key={suggestion.key}
+                        onClick={() => applySuggestion(suggestion)}
+                        onMouseEnter={() => setSuggestionIndex(i)}
+                        className={`w-full flex items-center gap-2 px-3 py-2 text-left text-xs ${i === suggestionIndex ? 'bg-nd-white text-nd-black' : 'text-nd-white hover:bg-nd-gray/10'}`}
+                      >
+                        <suggestion.icon size={12} className="shrink-0" />
+                        <span className="flex-1 truncate">{suggestion.label}</span>
+                        <span className={`text-[10px] font-mono ${i === suggestionIndex ? 'text-nd-black/60' : 'text-nd-gray'}`}>{suggestion.detail}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+            )}
+
+            {/* Preview */}
+            {editorMode !== 'edit' && (
+              <div className={`flex-1 overflow-y-auto p-6 md:p-12 ${editorMode === 'split' ? 'border-l border-nd-gray' : ''}`}>
+                <div className="max-w-3xl mx-auto text-nd-white/90">
+                  {editorMode === 'preview' && (
+                    <h1 className={`text-2xl md:text-4xl font-bold tracking-tight mb-6 ${activeNote.title ? 'text-nd-white' : 'text-nd-gray/30'}`}>
+                      {activeNote.title || 'Note Title'}
+                    </h1>
+                  )}
+                  {previewContent.trim() ? (
+                    <Markdown
+                      content={previewContent}
+                      className="text-sm md:text-base"
+                      onWikiLinkClick={openLink}
+                      renderEmbed={renderEmbed}
+                      onToggleTask={(line, checked) => saveNote({ ...activeNote, content: toggleTaskLine(activeNote.content, line, checked) })}
+                    />
+                  ) : (
+                    <p className="font-mono text-xs text-nd-gray/50">NOTHING TO PREVIEW</p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Links Panel */}
+            {showLinks && (
+              <div className="w-[260px] shrink-0 border-l border-nd-gray overflow-y-auto p-4 flex flex-col gap-6 text-xs">
+                <LinkSection title="Links" count={outgoingLinks.length} empty="Type [[ to link a note, task, project or file">
+                  {outgoingLinks.map(link => {
+                    const title = linkTargetTitle(link);
+                    const Icon = LINK_ICONS[link.kind];
+                    return (
+                      <button
+                        key={`${link.kind}:${link.target}`}
+                        onClick={() => openLink(link)}
+                        className="w-full flex items-center gap-2 px-2 py-1.5 text-left hover:bg-nd-gray/10 rounded"
+                      >
+                        <Icon size={12} className="shrink-0 text-nd-gray" />
+                        <span className={`truncate ${title ? 'text-nd-white' : 'text-nd-gray italic'}`}>{title ?? link.label}</span>
+                        {!title && <span className="ml-auto text-[10px] font-mono text-nd-gray">{link.kind === 'note' && !link.byId ? 'NEW' : 'MISSING'}</span>}
+                      </button>
+                    );
+                  })}
+                </LinkSection>
+
+                <LinkSection title="Backlinks" count={backlinks.length} empty="No notes link here yet">
+                  {backlinks.map(ref => (
+                    <button key={ref.note.id} onClick={() => openNote(ref.note)} className="w-full text-left px-2 py-1.5 hover:bg-nd-gray/10 rounded">
+                      <div className="font-bold text-nd-white truncate">{ref.note.title || 'Untitled Note'}</div>
+                      <div className="text-[10px] font-mono text-nd-gray line-clamp-2">{ref.context}</div>
+                    </button>
+                  ))}
+                </LinkSection>
+
+                <LinkSection title="Unlinked Mentions" count={unlinkedMentions.length} empty="No other notes mention this title">
+                  {unlinkedMentions.map(ref => (
+                    <div key={ref.note.id} className="px-2 py-1.5 hover:bg-nd-gray/10 rounded group">
+                      <div className="flex items-center gap-2">
+                        <button onClick={() => openNote(ref.note)} className="flex-1 text-left font-bold text-nd-white truncate">{ref.note.title || 'Untitled Note'}</button>
+                        <button
+                          onClick={() => linkMentionIn(ref.note, ref.start, ref.end)}
+                          className="text-[10px] font-mono text-nd-gray hover:text-nd-white border border-nd-gray/40 px-1.5 rounded opacity-0 group-hover:opacity-100"
+                        >
+                          LINK
+                        </button>
+                      </div>
+                      <div className="text-[10px] font-mono text-nd-gray line-clamp-2">{ref.context}</div>
+                    </div>
+                  ))}
+                </LinkSection>
               </div>
+            )}
             </div>
             
             {/* Status Bar */}
@@ -469,7 +1508,996 @@ export const NotesApp: React.FC<{ fileId?: string }> = ({ fileId }) => {
           </div>
         )}
       </div>
+      </>
+      )}
+
+      {showDailyTemplate && <DailyTemplateEditor onClose={() => setShowDailyTemplate(false)} />}
+      {showTemplateManager && <TemplateManager templates={templates} onUse={startFromTemplate} onClose={() => setShowTemplateManager(false)} />}
+      {pendingImport && <ImportDialog plan={pendingImport} existingIds={new Set(notes.map(n => n.id))} onConfirm={confirmImport} onCancel={() => setPendingImport(null)} />}
+      {pendingTemplate && <TemplateValuesDialog template={pendingTemplate} onSubmit={finishTemplate} onCancel={() => setPendingTemplate(null)} />}
+    </div>
+  );
+};
+
+// --- Sub Components ---
+
+const NotebookNameInput: React.FC<{ value: string; onChange: (value: string) => void; onCommit: () => void; onCancel: () => void }> = ({ value, onChange, onCommit, onCancel }) => (
+  <input
+    autoFocus
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+    onKeyDown={(e) => {
+      if (e.key === 'Enter') onCommit();
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        onCancel();
+      }
+    }}
+    onBlur={onCommit}
+    onClick={(e) => e.stopPropagation()}
+    placeholder="Notebook name"
+    className="flex-1 min-w-0 bg-transparent border-b border-nd-gray outline-none text-sm text-inherit placeholder-nd-gray/50"
+  />
+);
+
+const NewNotebookRow: React.FC<{
+  depth: number;
+  editing: { id: string | null; parentId: string | null; name: string };
+  onChange: (editing: { id: string | null; parentId: string | null; name: string } | null) => void;
+  onCommit: () => void;
+}> = ({ depth, editing, onChange, onCommit }) => (
+  <div className="hidden md:flex items-center gap-2 pr-2 py-2 mx-2 text-nd-white">
+    <span className="shrink-0" style={{ width: depth * 12 + 20 }} />
+    <FolderIcon size={16} className="shrink-0" />
+    <NotebookNameInput
+      value={editing.name}
+      onChange={(name) => onChange({ ...editing, name })}
+      onCommit={onCommit}
+      onCancel={() => onChange(null)}
+    />
+  </div>
+);
+
+const EditorModeSwitch: React.FC<{ mode: EditorMode; onChange: (mode: EditorMode) => void }> = ({ mode, onChange }) => (
+  <div className="flex border border-nd-gray rounded overflow-hidden">
+    {EDITOR_MODES.map(option => (
+      <button
+        key={option.mode}
+        onClick={() => onChange(option.mode)}
+        title={option.label}
+        className={`p-1.5 transition-colors ${mode === option.mode ? 'bg-nd-white text-nd-black' : 'text-nd-gray hover:text-nd-white hover:bg-nd-gray/20'}`}
+      >
+        <option.icon size={14} />
+      </button>
+    ))}
+  </div>
+);
+
+const HistoryButton: React.FC<{ active: boolean; onClick: () => void }> = ({ active, onClick }) => (
+  <button
+    onClick={onClick}
+    title="Version History"
+    className={`p-1.5 border rounded transition-colors ${active ? 'border-nd-white bg-nd-white text-nd-black' : 'border-nd-gray text-nd-white hover:bg-nd-gray/20'}`}
+  >
+    <History size={14} />
+  </button>
+);
+
+// Snapshots of the open note on the left, the selected one diffed against the current text on the right
+const NoteHistoryView: React.FC<{ current: VersionedText; onRestore: (snapshot: NoteSnapshot) => void; onClose: () => void }> = ({ current, onRestore, onClose }) => {
+  const { storage } = useOS();
+  const [snapshots, setSnapshots] = useState<NoteSnapshot[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    return historyRepository(storage, current.id).subscribe(list => setSnapshots(list.sort((a, b) => b.createdAt - a.createdAt)));
+  }, [storage, current.id]);
+
+  useEffect(() => {
+    const close = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', close);
+    return () => window.removeEventListener('keydown', close);
+  }, [onClose]);
+
+  const selected = snapshots.find(s => s.id === selectedId) ?? snapshots[0];
+  const rows = useMemo(() => (selected ? sideBySideDiff(selected.content, current.content) : []), [selected, current.content]);
+  const stats = diffStats(rows);
+  const titleChanged = selected && selected.title !== current.title;
+
+  return (
+    <div className="absolute inset-0 z-30 flex bg-nd-black divide-x divide-nd-gray animate-in fade-in">
+      <div className="w-56 shrink-0 flex flex-col">
+        <div className="flex items-center justify-between px-4 h-10 border-b border-nd-gray font-mono text-[10px] text-nd-gray uppercase tracking-wider">
+          <span className="flex items-center gap-2"><History size={12} /> History</span>
+          <span>{snapshots.length}</span>
+        </div>
+        <div className="flex-1 overflow-y-auto p-2 flex flex-col gap-0.5">
+          {snapshots.length === 0 && (
+            <p className="px-2 py-4 text-[10px] text-nd-gray/60 font-mono leading-relaxed">NO VERSIONS YET. THEY ARE KEPT AS YOU WRITE AND BEFORE AI EDITS.</p>
+          )}
+          {snapshots.map(snapshot => (
+            <button
+              key={snapshot.id}
+              onClick={() => setSelectedId(snapshot.id)}
+              className={`text-left px-3 py-2 rounded transition-colors ${snapshot === selected ? 'bg-nd-white text-nd-black' : 'text-nd-white hover:bg-nd-gray/20'}`}
+            >
+              <div className="text-xs font-mono truncate">{new Date(snapshot.createdAt).toLocaleString()}</div>
+              <div className="flex items-center gap-2 mt-1 text-[10px] font-mono uppercase opacity-60">
+                <span className={snapshot.reason === 'auto' ? '' : 'text-nd-red'}>{SNAPSHOT_REASONS[snapshot.reason]}</span>
+                <span className="truncate">{snapshot.content.length} chars</span>
+              </div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 min-w-0 flex flex-col">
+        <div className="flex items-center justify-between gap-4 px-4 h-10 border-b border-nd-gray shrink-0">
+          <div className="flex items-center gap-3 text-[10px] font-mono uppercase min-w-0">
+            {selected && (
+              <>
+                <span className="text-green-400">+{stats.added}</span>
+                <span className="text-nd-red">-{stats.removed}</span>
+                <span className="text-nd-gray">~{stats.changed}</span>
+                {titleChanged && <span className="text-nd-gray truncate">TITLE WAS "{selected.title}"</span>}
+              </>
+            )}
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <button
+              onClick={() => selected && onRestore(selected)}
+              disabled={!selected}
+              className="flex items-center gap-2 px-3 py-1 border border-nd-gray rounded text-xs font-bold text-nd-white hover:bg-nd-white hover:text-nd-black transition-colors disabled:opacity-30 disabled:pointer-events-none"
+            >
+              <RotateCcw size={12} /> RESTORE
+            </button>
+            <button onClick={onClose} title="Close" className="p-1.5 text-nd-gray hover:text-nd-white">
+              <X size={14} />
+            </button>
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto">
+          {selected ? (
+            <DiffView
+              before={selected.content}
+              after={current.content}
+              beforeLabel={new Date(selected.createdAt).toLocaleString()}
+              afterLabel="Current"
+              rows={rows}
+            />
+          ) : (
+            <div className="h-full flex items-center justify-center text-nd-gray font-mono text-xs">SELECT A VERSION</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const CALENDAR_WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+// Month grid for browsing daily notes; days that have one are marked
+const DailyCalendar: React.FC<{
+  month: Date;
+  dates: Set<string>;
+  selected?: string;
+  onMonthChange: (month: Date) => void;
+  onSelect: (date: Date) => void;
+  onEditTemplate: () => void;
+}> = ({ month, dates, selected, onMonthChange, onSelect, onEditTemplate }) => {
+  const year = month.getFullYear();
+  const monthIndex = month.getMonth();
+  const firstWeekday = new Date(year, monthIndex, 1).getDay();
+  const daysInMonth = new Date(year, monthIndex + 1, 0).getDate();
+  const today = dateKey(new Date());
+
+  return (
+    <div className="px-4 py-3 border-b border-nd-gray font-mono">
+      <div className="flex items-center justify-between mb-2 text-xs">
+        <button onClick={() => onMonthChange(new Date(year, monthIndex - 1, 1))} className="p-1 text-nd-gray hover:text-nd-white">
+          <ChevronLeft size={14} />
+        </button>
+        <button onClick={() => onMonthChange(new Date())} title="This Month" className="uppercase tracking-wider text-nd-white hover:text-nd-red">
+          {month.toLocaleDateString(undefined, { month: 'short', year: 'numeric' })}
+        </button>
+        <div className="flex items-center">
+          <button onClick={() => onMonthChange(new Date(year, monthIndex + 1, 1))} className="p-1 text-nd-gray hover:text-nd-white">
+            <ChevronRight size={14} />
+          </button>
+          <button onClick={onEditTemplate} title="Daily Note Template" className="p-1 text-nd-gray hover:text-nd-white">
+            <Settings2 size={14} />
+          </button>
+        </div>
+      </div>
+      <div className="grid grid-cols-7 gap-0.5 text-center text-[10px]">
+        {CALENDAR_WEEKDAYS.map((day, i) => (
+          <span key={i} className="py-1 text-nd-gray/60">{day}</span>
+        ))}
+        {Array.from({ length: firstWeekday }, (_, i) => <span key={`pad-${i}`} />)}
+        {Array.from({ length: daysInMonth }, (_, i) => {
+          const date = new Date(year, monthIndex, i + 1);
+          const key = dateKey(date);
+          return (
+            <button
+              key={key}
+              onClick={() => onSelect(date)}
+              title={dates.has(key) ? key : `Create note for ${key}`}
+              className={`relative py-1 rounded-sm transition-colors ${
+                key === selected
+                  ? 'bg-nd-white text-nd-black'
+                  : key === today
+                  ? 'text-nd-red hover:bg-nd-gray/20'
+                  : dates.has(key)
+                  ? 'text-nd-white hover:bg-nd-gray/20'
+                  : 'text-nd-gray hover:text-nd-white hover:bg-nd-gray/20'
+              }`}
+            >
+              {i + 1}
+              {dates.has(key) && <span className={`absolute bottom-0.5 left-1/2 -translate-x-1/2 w-1 h-1 rounded-full ${key === selected ? 'bg-nd-black' : 'bg-nd-red'}`} />}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+const DailyTemplateEditor: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { storage, addLog } = useOS();
+  const [config, setConfig] = useState<DailyNoteConfig | null>(null);
+  const templateRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    loadDailyConfig(storage).then(setConfig);
+  }, [storage]);
+
+  // Puts {{name}} at the cursor in the template
+  const insertVariable = (name: string) => {
+    const el = templateRef.current;
+    if (!config || !el) return;
+    const placeholder = `{{${name}}}`;
+    const template = config.template.slice(0, el.selectionStart) + placeholder + config.template.slice(el.selectionEnd);
+    const cursor = el.selectionStart + placeholder.length;
+    setConfig({ ...config, template });
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  const save = async () => {
+    if (!config) return;
+    await storage.set(DAILY_CONFIG_PATH, config);
+    addLog({ source: 'Notes', message: 'Daily note template saved', type: 'success', isCloud: storage.isCloud });
+    onClose();
+  };
+
+  return (
+    <div
+      onClick={onClose}
+      onKeyDown={(e) => e.key === 'Escape' && onClose()}
+      className="absolute inset-0 z-40 bg-nd-black/80 flex items-center justify-center p-4 animate-in fade-in"
+    >
+      <div onClick={(e) => e.stopPropagation()} className="w-full max-w-2xl max-h-full flex flex-col bg-nd-black border border-nd-gray rounded-lg shadow-2xl">
+        <div className="flex items-center justify-between px-4 h-12 border-b border-nd-gray shrink-0">
+          <span className="flex items-center gap-2 font-mono text-xs uppercase tracking-wider">
+            <CalendarDays size={14} className="text-nd-red" /> Daily Note Template
+          </span>
+          <button onClick={onClose} title="Close" className="p-1 text-nd-gray hover:text-nd-white">
+            <X size={14} />
+          </button>
+        </div>
+
+        {config ? (
+          <div className="flex-1 min-h-0 flex flex-col md:flex-row divide-y md:divide-y-0 md:divide-x divide-nd-gray">
+            <div className="flex-1 min-w-0 flex flex-col gap-3 p-4">
+              <label className="flex flex-col gap-1 font-mono text-[10px] text-nd-gray uppercase">
+                Title
+                <input
+                  value={config.title}
+                  onChange={(e) => setConfig({ ...config, title: e.target.value })}
+                  className="bg-nd-gray/10 border border-nd-gray focus:border-nd-white outline-none px-2 py-1.5 text-sm text-nd-white normal-case"
+                />
+              </label>
+              <label className="flex-1 flex flex-col gap-1 font-mono text-[10px] text-nd-gray uppercase min-h-0">
+                Content
+                <textarea
+                  ref={templateRef}
+                  autoFocus
+                  value={config.template}
+                  onChange={(e) => setConfig({ ...config, template: e.target.value })}
+                  spellCheck={false}
+                  className="flex-1 min-h-[240px] bg-nd-gray/10 border border-nd-gray focus:border-nd-white outline-none resize-none p-2 text-xs text-nd-white leading-relaxed normal-case"
+                />
+              </label>
+            </div>
+            <div className="md:w-56 shrink-0 p-4 overflow-y-auto">
+              <span className="font-mono text-[10px] text-nd-gray uppercase tracking-wider">Variables</span>
+              <div className="flex flex-col gap-1 mt-2">
+                {DAILY_VARIABLES.map(variable => (
+                  <button key={variable.name} onClick={() => insertVariable(variable.name)} className="text-left px-2 py-1 rounded hover:bg-nd-gray/20 group">
+                    <div className="font-mono text-xs text-nd-white group-hover:text-nd-red">{`{{${variable.name}}}`}</div>
+                    <div className="text-[10px] text-nd-gray">{variable.description}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="p-8 text-center font-mono text-xs text-nd-gray animate-pulse">LOADING...</div>
+        )}
+
+        <div className="flex items-center justify-between gap-2 px-4 py-3 border-t border-nd-gray shrink-0">
+          <button onClick={() => setConfig(DEFAULT_DAILY_CONFIG)} className="font-mono text-[10px] text-nd-gray hover:text-nd-white uppercase">
+            Reset to Default
+          </button>
+          <div className="flex items-center gap-2">
+            <button onClick={onClose} className="px-3 py-1.5 text-xs font-bold text-nd-gray hover:text-nd-white">CANCEL</button>
+            <button
+              onClick={save}
+              disabled={!config}
+              className="px-3 py-1.5 border border-nd-white bg-nd-white text-nd-black text-xs font-bold hover:bg-transparent hover:text-nd-white transition-colors disabled:opacity-30"
+            >
+              SAVE
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// What an import is about to change, before anything is written
+const ImportDialog: React.FC<{ plan: NotesImport; existingIds: Set<string>; onConfirm: () => void; onCancel: () => void }> = ({ plan, existingIds, onConfirm, onCancel }) => {
+  const replaced = plan.notes.filter(n => existingIds.has(n.id)).length;
+  const rows: [string, number][] = [
+    ['New notes', plan.notes.length - replaced],
+    ['Replaced notes', replaced],
+    ['New notebooks', plan.notebooks.length],
+    ['Skipped files', plan.skipped.length],
+  ];
+
+  return (
+    <div onClick={onCancel} className="absolute inset-0 z-40 bg-nd-black/80 flex items-center justify-center p-4 animate-in fade-in">
+      <div onClick={(e) => e.stopPropagation()} className="w-full max-w-sm bg-nd-black border border-nd-gray rounded-lg shadow-2xl">
+        <div className="flex items-center gap-2 px-4 h-12 border-b border-nd-gray font-mono text-xs uppercase tracking-wider">
+          <Upload size={14} className="text-nd-red" /> Import Notes
+        </div>
+        <div className="p-4 space-y-4">
+          <div className="border border-nd-gray p-4 font-mono text-xs space-y-1">
+            {rows.map(([label, count]) => (
+              <div key={label} className="flex justify-between"><span className="text-nd-gray">{label}</span><span>{count}</span></div>
+            ))}
+          </div>
+          {replaced > 0 && <p className="text-xs text-nd-gray">Replaced notes keep their current text in version history.</p>}
+          {plan.notes.length > 0 && (
+            <div className="max-h-40 overflow-y-auto text-xs text-nd-gray space-y-0.5">
+              {plan.notes.map(note => (
+                <div key={note.id} className="truncate"><FileText size={10} className="inline mr-1.5" />{note.title || 'Untitled'}</div>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-nd-gray">
+          <button onClick={onCancel} className="px-3 py-1.5 text-xs font-bold text-nd-gray hover:text-nd-white">CANCEL</button>
+          <button
+            onClick={onConfirm}
+            disabled={!plan.notes.length}
+            className="px-3 py-1.5 border border-nd-white bg-nd-white text-nd-black text-xs font-bold hover:bg-transparent hover:text-nd-white transition-colors disabled:opacity-30 disabled:pointer-events-none"
+          >
+            IMPORT
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Asks for the values of a template's placeholders before the note is created
+const TemplateValuesDialog: React.FC<{ template: NoteTemplate; onSubmit: (values: Record<string, string>) => void; onCancel: () => void }> = ({ template, onSubmit, onCancel }) => {
+  const prompts = useMemo(() => templatePrompts(template), [template]);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  return (
+    <div onClick={onCancel} className="absolute inset-0 z-40 bg-nd-black/80 flex items-center justify-center p-4 animate-in fade-in">
+      <form
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === 'Escape' && onCancel()}
+        onSubmit={(e) => {
+          e.preventDefault();
+          onSubmit(Object.fromEntries(prompts.map(name => [name, values[name] ?? ''])));
+        }}
+        className="w-full max-w-sm bg-nd-black border border-nd-gray rounded-lg shadow-2xl"
+      >
+        <div className="flex items-center gap-2 px-4 h-12 border-b border-nd-gray font-mono text-xs uppercase tracking-wider">
+          <LayoutTemplate size={14} className="text-nd-red" />
+          <span className="truncate">{template.name}</span>
+        </div>
+        <div className="p-4 flex flex-col gap-3">
+          {prompts.map((name, i) => (
+            <label key={name} className="flex flex-col gap-1 font-mono text-[10px] text-nd-gray uppercase">
+              {promptLabel(name)}
+              <input
+                autoFocus={i === 0}
+                value={values[name] ?? ''}
+                onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+                className="bg-nd-gray/10 border border-nd-gray focus:border-nd-white outline-none px-2 py-1.5 text-sm text-nd-white normal-case"
+              />
+            </label>
+          ))}
+        </div>
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-nd-gray">
+          <button type="button" onClick={onCancel} className="px-3 py-1.5 text-xs font-bold text-nd-gray hover:text-nd-white">CANCEL</button>
+          <button type="submit" className="px-3 py-1.5 border border-nd-white bg-nd-white text-nd-black text-xs font-bold hover:bg-transparent hover:text-nd-white transition-colors">
+            CREATE NOTE
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+const TemplateManager: React.FC<{ templates: NoteTemplate[]; onUse: (template: NoteTemplate) => void; onClose: () => void }> = ({ templates, onUse, onClose }) => {
+  const { storage, addLog, fs, addFile } = useOS();
+  const templateRepo = useMemo(() => templateRepository(storage), [storage]);
+  const [selectedId, setSelectedId] = useState<string | null>(templates[0]?.id ?? null);
+  const [draft, setDraft] = useState<NoteTemplate | null>(null);
+  const [showImport, setShowImport] = useState(false);
+
+  const selected = templates.find(t => t.id === selectedId);
+  const isDirty = !!draft && !!selected && (draft.name !== selected.name || draft.title !== selected.title || draft.content !== selected.content);
+  const templateFiles = fs.filter(f => f.type === 'text' && f.name.endsWith(TEMPLATE_FILE_SUFFIX));
+
+  // Reload the form when another template is picked or this one is saved
+  useEffect(() => {
+    setDraft(selected ? { ...selected } : null);
+  }, [selectedId, selected?.updatedAt]);
+
+  const addTemplates = async (items: Pick<NoteTemplate, 'name' | 'title' | 'content'>[]) => {
+    const now = Date.now();
+    const created = items.map((item, i) => ({ ...item, id: `tmpl_${now}_${i}`, createdAt: now, updatedAt: now }));
+    await Promise.all(created.map(t => templateRepo.put(t)));
+    setSelectedId(created[0]?.id ?? null);
+    return created;
+  };
+
+  const createTemplate = () => addTemplates([{ name: 'Untitled Template', title: '', content: '' }]);
+
+  const saveDraft = async () => {
+    if (!draft) return;
+    await templateRepo.put({ ...draft, name: draft.name.trim() || 'Untitled Template', updatedAt: Date.now() });
+    addLog({ source: 'Notes', message: `Template saved: "${draft.name}"`, type: 'success', isCloud: storage.isCloud });
+  };
+
+  const deleteTemplate = async (template: NoteTemplate) => {
+    if (!confirm(`Delete template "${template.name}"?`)) return;
+    await templateRepo.remove(template.id);
+    setSelectedId(templates.find(t => t.id !== template.id)?.id ?? null);
+    addLog({ source: 'Notes', message: `Template deleted: "${template.name}"`, type: 'warning', isCloud: storage.isCloud });
+  };
+
+  // Shared templates go to Documents as .template.md files
+  const exportTemplate = (template: NoteTemplate) => {
+    const content = serializeTemplate(template);
+    addFile({
+      id: `file_${Date.now()}`,
+      parentId: 'f_docs',
+      name: templateFileName(template),
+      type: 'text',
+      size: content.length,
+      content,
+      mimeType: 'text/markdown',
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+    addLog({ source: 'Notes', message: `Template exported to Documents/${templateFileName(template)}`, type: 'success', isCloud: storage.isCloud });
+  };
+
+  const importTemplate = async (file: FileNode) => {
+    setShowImport(false);
+    const [template] = await addTemplates([parseTemplateFile(file.content || '', file.name)]);
+    addLog({ source: 'Notes', message: `Template imported: "${template.name}"`, type: 'success', isCloud: storage.isCloud });
+  };
+
+  const prompts = draft ? templatePrompts(draft) : [];
+
+  return (
+    <div onClick={onClose} className="absolute inset-0 z-40 bg-nd-black/80 flex items-center justify-center p-4 animate-in fade-in">
+      <div
+        onClick={(e) => { e.stopPropagation(); setShowImport(false); }}
+        onKeyDown={(e) => e.key === 'Escape' && onClose()}
+        className="w-full max-w-4xl h-full max-h-[560px] flex flex-col bg-nd-black border border-nd-gray rounded-lg shadow-2xl"
+      >
+        <div className="flex items-center justify-between px-4 h-12 border-b border-nd-gray shrink-0">
+          <span className="flex items-center gap-2 font-mono text-xs uppercase tracking-wider">
+            <LayoutTemplate size={14} className="text-nd-red" /> Templates
+          </span>
+          <div className="flex items-center gap-1">
+            <div className="relative">
+              <button
+                onClick={(e) => { e.stopPropagation(); setShowImport(!showImport); }}
+                title="Import from Files"
+                className="flex items-center gap-1.5 px-2 py-1 text-[10px] font-mono text-nd-gray hover:text-nd-white uppercase"
+              >
+                <Upload size={12} /> Import
+              </button>
+              {showImport && (
+                <div onClick={(e) => e.stopPropagation()} className="absolute top-full right-0 mt-2 w-64 bg-nd-black border border-nd-gray rounded-lg shadow-2xl z-50 overflow-hidden">
+                  {templateFiles.length === 0 ? (
+                    <p className="px-4 py-3 text-[10px] font-mono text-nd-gray">NO {TEMPLATE_FILE_SUFFIX.toUpperCase()} FILES</p>
+                  ) : (
+                    <div className="max-h-64 overflow-y-auto">
+                      {templateFiles.map(file => (
+                        <button key={file.id} onClick={() => importTemplate(file)} className="w-full text-left px-4 py-2 text-xs hover:bg-nd-white hover:text-nd-black flex items-center gap-2">
+                          <FileIcon size={12} className="shrink-0" />
+                          <span className="truncate">{file.name}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+            <button onClick={onClose} title="Close" className="p-1 text-nd-gray hover:text-nd-white">
+              <X size={14} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 flex divide-x divide-nd-gray">
+          <div className="w-48 shrink-0 flex flex-col">
+            <div className="flex-1 overflow-y-auto p-2 flex flex-col gap-0.5">
+              {templates.map(template => (
+                <button
+                  key={template.id}
+                  onClick={() => setSelectedId(template.id)}
+                  className={`text-left px-3 py-2 rounded text-sm truncate transition-colors ${template.id === selectedId ? 'bg-nd-white text-nd-black' : 'text-nd-gray hover:text-nd-white hover:bg-nd-gray/20'}`}
+                >
+                  {template.name}
+                </button>
+              ))}
+              {templates.length === 0 && (
+                <button onClick={() => addTemplates(STARTER_TEMPLATES)} className="px-3 py-2 text-left text-[10px] font-mono text-nd-gray hover:text-nd-white uppercase leading-relaxed">
+                  Add meeting, brief and retro examples
+                </button>
+              )}
+            </div>
+            <button onClick={createTemplate} className="flex items-center justify-center gap-2 py-2 border-t border-nd-gray text-xs font-bold text-nd-gray hover:text-nd-white">
+              <Plus size={12} /> NEW TEMPLATE
+            </button>
+          </div>
+
+          {draft ? (
+            <div className="flex-1 min-w-0 flex flex-col">
+              <div className="flex-1 min-h-0 flex flex-col gap-3 p-4">
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="flex flex-col gap-1 font-mono text-[10px] text-nd-gray uppercase">
+                    Name
+                    <input
+                      value={draft.name}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                      className="bg-nd-gray/10 border border-nd-gray focus:border-nd-white outline-none px-2 py-1.5 text-sm text-nd-white normal-case"
+                    />
+                  </label>
+                  <label className="flex flex-col gap-1 font-mono text-[10px] text-nd-gray uppercase">
+                    Note Title
+                    <input
+                      value={draft.title}
+                      onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                      placeholder="e.g. {{client}} – {{date}}"
+                      className="bg-nd-gray/10 border border-nd-gray focus:border-nd-white outline-none px-2 py-1.5 text-sm text-nd-white normal-case placeholder-nd-gray/40"
+                    />
+                  </label>
+                </div>
+                <textarea
+                  value={draft.content}
+                  onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+                  spellCheck={false}
+                  placeholder="Markdown with {{placeholders}}..."
+                  className="flex-1 bg-nd-gray/10 border border-nd-gray focus:border-nd-white outline-none resize-none p-2 font-mono text-xs text-nd-white leading-relaxed placeholder-nd-gray/40"
+                />
+                <div className="flex flex-wrap items-center gap-1.5 font-mono text-[10px] text-nd-gray">
+                  <span className="uppercase mr-1">Asks for</span>
+                  {prompts.length ? prompts.map(name => <span key={name} className="px-1.5 py-0.5 border border-nd-gray rounded text-nd-white">{name}</span>) : <span className="opacity-60">nothing</span>}
+                  <span className="uppercase ml-3 mr-1">Filled in</span>
+                  {DATE_VARIABLES.map(v => <span key={v.name} title={v.description} className="px-1.5 py-0.5 bg-nd-gray/20 rounded">{v.name}</span>)}
+                </div>
+              </div>
+              <div className="flex items-center justify-between gap-2 px-4 py-3 border-t border-nd-gray">
+                <div className="flex items-center gap-3">
+                  <button onClick={() => selected && deleteTemplate(selected)} title="Delete Template" className="text-nd-gray hover:text-nd-red">
+                    <Trash2 size={14} />
+                  </button>
+                  <button onClick={() => exportTemplate(draft)} title="Export to Files" className="flex items-center gap-1.5 text-[10px] font-mono text-nd-gray hover:text-nd-white uppercase">
+                    <Download size={12} /> Export
+                  </button>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={saveDraft}
+                    disabled={!isDirty}
+                    className="px-3 py-1.5 border border-nd-gray text-xs font-bold text-nd-white hover:bg-nd-gray/20 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                  >
+                    SAVE
+                  </button>
+                  <button
+                    onClick={() => onUse(draft)}
+                    className="px-3 py-1.5 border border-nd-white bg-nd-white text-nd-black text-xs font-bold hover:bg-transparent hover:text-nd-white transition-colors"
+                  >
+                    USE
+                  </button>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-nd-gray font-mono text-xs">SELECT OR CREATE A TEMPLATE</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ATTACHMENT_ICONS: Partial<Record<FileType, React.ElementType>> = { pdf: FileText, audio: Music, video: Film, archive: Archive };
+
+// An embedded attachment in the preview; images show inline, everything else as a card
+const AttachmentEmbed: React.FC<{ file?: FileNode; label: string; onOpen: () => void }> = ({ file, label, onOpen }) => {
+  if (!file) {
+    return <span className="inline-flex items-center gap-1 px-2 py-0.5 border border-dashed border-nd-gray text-nd-gray text-xs font-mono">{label} · MISSING</span>;
+  }
+  if (file.type === 'image' && file.content) {
+    return (
+      <button onClick={onOpen} title={`Open ${file.name} in Photos`} className="block my-2 max-w-full">
+        <img src={file.content} alt={label} className="max-w-full rounded border border-nd-gray/50 hover:border-nd-white transition-colors" />
+      </button>
+    );
+  }
+  const Icon = ATTACHMENT_ICONS[file.type] || FileIcon;
+  return (
+    <button onClick={onOpen} title={`Open ${file.name}`} className="inline-flex items-center gap-2 max-w-full my-1 px-3 py-2 border border-nd-gray rounded text-xs text-nd-white hover:bg-nd-gray/20 transition-colors">
+      <Icon size={14} className="text-nd-red shrink-0" />
+      <span className="truncate">{file.name}</span>
+      <span className="font-mono text-[10px] text-nd-gray shrink-0">{formatSize(file.size)}</span>
+    </button>
+  );
+};
+
+const LinkSection: React.FC<{ title: string; count: number; empty: string; children: React.ReactNode }> = ({ title, count, empty, children }) => (
+  <div>
+    <div className="flex items-center justify-between mb-2 font-mono text-[10px] text-nd-gray uppercase tracking-wider">
+      <span>{title}</span>
+      <span>{count}</span>
+    </div>
+    {count === 0 ? <p className="px-2 text-[10px] text-nd-gray/60 font-mono">{empty}</p> : <div className="flex flex-col gap-0.5">{children}</div>}
+  </div>
+);
+
+interface GraphViewProps {
+  notes: Note[];
+  tasks: LinkTarget[];
+  projects: LinkTarget[];
+  files: FileNode[];
+  notebooks: Notebook[];
+  selectedNoteId: string | null;
+  local: boolean;
+  onLocalChange: (local: boolean) => void;
+  onOpen: (node: GraphNode) => void;
+}
+
+const MIN_ZOOM = 0.2;
+const MAX_ZOOM = 4;
+const LABEL_ZOOM = 0.7; // Below this only hovered and selected nodes are labelled
+const GRAPH_REBUILD_DELAY_MS = 600;
+
+const NoteGraphView: React.FC<GraphViewProps> = ({ notes, tasks, projects, files, notebooks, selectedNoteId, local, onLocalChange, onOpen }) => {
+  const [folderFilter, setFolderFilter] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [kinds, setKinds] = useState<GraphNodeKind[]>(['tag', 'task', 'project', 'file']);
+  const [depth, setDepth] = useState(1);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const [view, setView] = useState({ x: 0, y: 0, scale: 1 });
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [, setFrame] = useState(0);
+
+  const svgRef = useRef<SVGSVGElement>(null);
+  const simulationRef = useRef<GraphSimulation | null>(null);
+  const frameRef = useRef<number | undefined>(undefined);
+  const dragRef = useRef<{ nodeId: string | null; startX: number; startY: number; originX: number; originY: number; moved: boolean } | null>(null);
+
+  // Building the graph is the expensive part, so edits only rebuild it once typing pauses
+  const [sources, setSources] = useState({ notes, tasks, projects, files });
+  useEffect(() => {
+    const timeout = setTimeout(() => setSources({ notes, tasks, projects, files }), GRAPH_REBUILD_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [notes, tasks, projects, files]);
+
+  const graph = useMemo(
+    () => buildNoteGraph({ ...sources, files: sources.files.filter(f => f.type !== 'folder') }),
+    [sources]
+  );
+
+  const allTags = useMemo(() => graph.nodes.filter(n => n.kind === 'tag').map(n => n.refId).sort(), [graph]);
+  const centerId = local && selectedNoteId ? `note:${selectedNoteId}` : null;
+
+  const visible = useMemo(
+    () => filterGraph(graph, { folderIds: folderFilter ? descendantIds(folderFilter, notebooks) : null, tag: tagFilter || null, kinds, centerId, depth }),
+    [graph, folderFilter, tagFilter, kinds, centerId, depth, notebooks]
+  );
+
+  const degree = useMemo(() => {
+    const counts = new Map<string, number>();
+    visible.edges.forEach(e => {
+      counts.set(e.source, (counts.get(e.source) || 0) + 1);
+      counts.set(e.target, (counts.get(e.target) || 0) + 1);
+    });
+    return counts;
+  }, [visible]);
+
+  const neighbours = useMemo(() => {
+    if (!hoveredId) return null;
+    const set = new Set([hoveredId]);
+    visible.edges.forEach(e => {
+      if (e.source === hoveredId) set.add(e.target);
+      if (e.target === hoveredId) set.add(e.source);
+    });
+    return set;
+  }, [hoveredId, visible]);
+
+  // --- Simulation ---
+
+  const run = () => {
+    if (frameRef.current !== undefined) return;
+    const step = () => {
+      const moving = simulationRef.current?.tick() ?? false;
+      setFrame(f => f + 1);
+      frameRef.current = moving || dragRef.current?.nodeId ? requestAnimationFrame(step) : undefined;
+    };
+    frameRef.current = requestAnimationFrame(step);
+  };
+
+  useEffect(() => {
+    simulationRef.current = createGraphSimulation(visible, simulationRef.current?.positions);
+    run();
+  }, [visible]);
+
+  useEffect(() => () => {
+    if (frameRef.current !== undefined) cancelAnimationFrame(frameRef.current);
+  }, []);
+
+  // The origin sits in the middle of the canvas
+  useEffect(() => {
+    const el = svgRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => setSize({ width: entry.contentRect.width, height: entry.contentRect.height }));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // --- Pointer Handling ---
+
+  const toGraphPoint = (clientX: number, clientY: number) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: (clientX - rect.left - size.width / 2 - view.x) / view.scale,
+      y: (clientY - rect.top - size.height / 2 - view.y) / view.scale,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, nodeId: string | null) => {
+    e.stopPropagation();
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+    dragRef.current = { nodeId, startX: e.clientX, startY: e.clientY, originX: view.x, originY: view.y, moved: false };
+    if (nodeId) {
+      const position = simulationRef.current?.positions.get(nodeId);
+      if (position) position.pinned = true;
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (Math.abs(e.clientX - drag.startX) + Math.abs(e.clientY - drag.startY) > 3) drag.moved = true;
+    if (!drag.moved) return;
+
+    if (drag.nodeId) {
+      const position = simulationRef.current?.positions.get(drag.nodeId);
+      if (!position) return;
+      Object.assign(position, toGraphPoint(e.clientX, e.clientY));
+      simulationRef.current!.reheat();
+      run();
+    } else {
+      setView(v => ({ ...v, x: drag.originX + e.clientX - drag.startX, y: drag.originY + e.clientY - drag.startY }));
+    }
+  };
+
+  const handlePointerUp = (node: GraphNode | null) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag) return;
+    const position = drag.nodeId ? simulationRef.current?.positions.get(drag.nodeId) : null;
+    if (position) position.pinned = false;
+    if (drag.moved || !node) return;
+    // A click rather than a drag
+    if (node.kind === 'tag') setTagFilter(tagFilter === node.refId ? '' : node.refId);
+    else onOpen(node);
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const scale = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.scale * (e.deltaY < 0 ? 1.1 : 1 / 1.1)));
+    // Zoom around the cursor
+    const cx = e.clientX - rect.left - size.width / 2;
+    const cy = e.clientY - rect.top - size.height / 2;
+    setView({ scale, x: cx - ((cx - view.x) * scale) / view.scale, y: cy - ((cy - view.y) * scale) / view.scale });
+  };
+
+  const fitView = () => {
+    const positions = simulationRef.current?.positions;
+    if (!positions || !positions.size) return;
+    const list = [...positions.values()] as NodePosition[];
+    const xs = list.map(p => p.x);
+    const ys = list.map(p => p.y);
+    const width = Math.max(...xs) - Math.min(...xs) + 80;
+    const height = Math.max(...ys) - Math.min(...ys) + 80;
+    const scale = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.min(size.width / width, size.height / height)));
+    const midX = (Math.max(...xs) + Math.min(...xs)) / 2;
+    const midY = (Math.max(...ys) + Math.min(...ys)) / 2;
+    setView({ scale, x: -midX * scale, y: -midY * scale });
+  };
+
+  const toggleKind = (kind: GraphNodeKind) =>
+    setKinds(prev => (prev.includes(kind) ? prev.filter(k => k !== kind) : [...prev, kind]));
+
+  const positions = simulationRef.current?.positions;
+  const nodeRadius = (node: GraphNode) => (node.kind === 'note' ? 4 : 3) + Math.min(8, Math.sqrt(degree.get(node.id) || 0) * 1.5);
+
+  return (
+    <div className="flex-1 flex flex-col bg-nd-black min-w-0">
+      {/* Graph Toolbar */}
+      <div className="h-[50px] border-b border-nd-gray flex items-center gap-2 px-4 text-xs font-mono overflow-x-auto shrink-0">
+        <select
+          value={folderFilter}
+          onChange={(e) => setFolderFilter(e.target.value)}
+          className="bg-nd-black border border-nd-gray rounded px-2 py-1 text-nd-white outline-none"
+        >
+          <option value="">All notebooks</option>
+          {flattenNotebookTree(buildNotebookTree(notebooks)).map(({ notebook, depth }) => (
+            <option key={notebook.id} value={notebook.id}>{'\u00a0\u00a0'.repeat(depth)}{notebook.name}</option>
+          ))}
+        </select>
+        <select
+          value={tagFilter}
+          onChange={(e) => setTagFilter(e.target.value)}
+          className="bg-nd-black border border-nd-gray rounded px-2 py-1 text-nd-white outline-none"
+        >
+          <option value="">All tags</option>
+          {allTags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+        </select>
+
+        <div className="w-px h-4 bg-nd-gray mx-1 shrink-0" />
+
+        {GRAPH_KINDS.map(({ kind, label, icon: Icon }) => (
+          <button
+            key={kind}
+            onClick={() => toggleKind(kind)}
+            title={label}
+            className={`flex items-center gap-1.5 px-2 py-1 border rounded transition-colors ${kinds.includes(kind) ? 'border-nd-white text-nd-white' : 'border-nd-gray text-nd-gray opacity-50'}`}
+          >
+            <Icon size={12} />
+            <span className="hidden lg:inline">{label}</span>
+          </button>
+        ))}
+
+        <div className="w-px h-4 bg-nd-gray mx-1 shrink-0" />
+
+        <button
+          onClick={() => onLocalChange(!local)}
+          disabled={!selectedNoteId}
+          title={selectedNoteId ? 'Only show notes near the selected note' : 'Select a note first'}
+          className={`flex items-center gap-1.5 px-2 py-1 border rounded transition-colors disabled:opacity-30 ${local && selectedNoteId ? 'border-nd-white bg-nd-white text-nd-black' : 'border-nd-gray text-nd-white hover:bg-nd-gray/20'}`}
+        >
+          <LocateFixed size={12} />
+          <span>LOCAL</span>
+        </button>
+        {local && selectedNoteId && (
+          <select
+            value={depth}
+            onChange={(e) => setDepth(Number(e.target.value))}
+            title="Depth"
+            className="bg-nd-black border border-nd-gray rounded px-2 py-1 text-nd-white outline-none"
+          >
+            {[1, 2, 3].map(d => <option key={d} value={d}>{d} {d === 1 ? 'step' : 'steps'}</option>)}
+          </select>
+        )}
+
+        <button onClick={fitView} title="Fit to View" className="ml-auto p-1.5 text-nd-gray hover:text-nd-white transition-colors">
+          <Maximize size={14} />
+        </button>
+      </div>
 
+      {/* Canvas */}
+      <div className="flex-1 relative overflow-hidden bg-dot-pattern">
+        <svg
+          ref={svgRef}
+          className="absolute inset-0 w-full h-full cursor-grab active:cursor-grabbing touch-none select-none"
+          onPointerDown={(e) => handlePointerDown(e, null)}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => handlePointerUp(null)}
+          onWheel={handleWheel}
+        >
+          <g transform={`translate(${size.width / 2 + view.x}, ${size.height / 2 + view.y}) scale(${view.scale})`}>
+            {positions && visible.edges.map(edge => {
+              const a = positions.get(edge.source);
+              const b = positions.get(edge.target);
+              if (!a || !b) return null;
+              const style = GRAPH_EDGE_STYLES[edge.kind];
+              const dimmed = neighbours && !(neighbours.has(edge.source) && neighbours.has(edge.target));
+              return (
+                <line
+                  key={`${edge.source}|${edge.target}`}
+                  x1={a.x} y1={a.y} x2={b.x} y2={b.y}
+                  className={`${style.className} transition-opacity`}
+                  strokeDasharray={style.dash}
+                  strokeWidth={1 / view.scale}
+                  opacity={dimmed ? 0.15 : 1}
+                />
+              );
+            })}
+            {positions && visible.nodes.map(node => {
+              const p = positions.get(node.id);
+              if (!p) return null;
+              const radius = nodeRadius(node);
+              const isSelected = node.id === `note:${selectedNoteId}`;
+              const dimmed = neighbours && !neighbours.has(node.id);
+              const showLabel = view.scale >= LABEL_ZOOM || isSelected || node.id === hoveredId;
+              return (
+                <g
+                  key={node.id}
+                  transform={`translate(${p.x}, ${p.y})`}
+                  opacity={dimmed ? 0.2 : 1}
+                  className="cursor-pointer transition-opacity"
+                  onPointerDown={(e) => handlePointerDown(e, node.id)}
+                  onPointerUp={(e) => { e.stopPropagation(); handlePointerUp(node); }}
+                  onPointerEnter={() => setHoveredId(node.id)}
+                  onPointerLeave={() => setHoveredId(null)}
+                >
+                  {isSelected && <circle r={radius + 4} className="fill-none stroke-nd-red" strokeWidth={1.5} />}
+                  <circle r={radius} className={GRAPH_NODE_STYLES[node.kind]} />
+                  {showLabel && (
+                    <text
+                      y={radius + 10}
+                      textAnchor="middle"
+                      className={`font-mono pointer-events-none ${node.kind === 'tag' ? 'fill-nd-red' : 'fill-nd-white/70'}`}
+                      style={{ fontSize: 10 / Math.max(1, view.scale) }}
+                    >
+                      {node.label.length > 24 ? `${node.label.slice(0, 24)}…` : node.label}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </g>
+        </svg>
+
+        {visible.nodes.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none opacity-30">
+            <p className="font-mono text-xs">NO NOTES MATCH</p>
+          </div>
+        )}
+
+        {/* Legend */}
+        <div className="absolute bottom-3 left-3 flex flex-wrap items-center gap-3 text-[10px] font-mono text-nd-gray bg-nd-black/80 border border-nd-gray rounded px-3 py-2 pointer-events-none">
+          {(['note', 'tag', 'task', 'project', 'file'] as GraphNodeKind[]).map(kind => (
+            <span key={kind} className="flex items-center gap-1.5">
+              <svg width="8" height="8"><circle cx="4" cy="4" r="4" className={GRAPH_NODE_STYLES[kind]} /></svg>
+              {kind.toUpperCase()}
+            </span>
+          ))}
+          <span>{visible.nodes.length} NODES · {visible.edges.length} LINKS</span>
+        </div>
+      </div>
     </div>
   );
-};
\ No newline at end of file
+};
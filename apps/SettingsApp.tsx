@@ -14,15 +14,15 @@ import {
   Plus, BrainCircuit, Bot
 } from 'lucide-react';
 import { useOS } from '../context/OSContext';
-import { auth, db } from '../services/firebase';
+import { auth } from '../services/firebase';
 import { signInWithEmailAndPassword, createUserWithEmailAndPassword, signOut, updateProfile } from 'firebase/auth';
-import { ref, update, onValue, set } from 'firebase/database';
 import { AppID } from '../types';
+import { ShortcutDefinition, eventToBinding, findConflicts, formatBinding, IS_MAC } from '../services/shortcuts';
 import { APP_REGISTRY } from '../registry';
 
 // --- Types ---
 
-type CategoryID = 'system' | 'bluetooth' | 'network' | 'personalization' | 'apps' | 'accounts' | 'time' | 'gaming' | 'accessibility' | 'privacy' | 'update' | 'intelligence';
+type CategoryID = 'system' | 'bluetooth' | 'network' | 'personalization' | 'apps' | 'accounts' | 'time' | 'gaming' | 'accessibility' | 'privacy' | 'update' | 'intelligence' | 'shortcuts';
 
 interface SystemConfig {
   account: {
@@ -133,10 +133,23 @@ const Toggle = ({ checked, onChange }: { checked: boolean, onChange: (v: boolean
     </button>
 );
 
+const KeyChip = ({ binding, recording, conflict, onClick }: { binding: string | null, recording: boolean, conflict: boolean, onClick: () => void }) => (
+    <button
+        onClick={onClick}
+        className={`min-w-[110px] px-2.5 py-1 rounded border text-[11px] font-mono transition-colors ${
+            recording ? 'border-nd-red text-nd-red animate-pulse' :
+            conflict ? 'border-nd-red/60 text-nd-red hover:border-nd-red' :
+            binding ? 'border-nd-gray text-nd-white hover:border-nd-white' : 'border-dashed border-nd-gray/50 text-nd-gray hover:border-nd-gray'
+        }`}
+    >
+        {recording ? 'Press keys...' : formatBinding(binding) || 'Unassigned'}
+    </button>
+);
+
 // --- Main App ---
 
 export const SettingsApp: React.FC = () => {
-  const { authStatus, addLog, fs, powerState, launchApp, logs, clearLogs } = useOS();
+  const { authStatus, storage, addLog, fs, powerState, launchApp, logs, clearLogs, restoreSession, setRestoreSession, shortcuts, shortcutBindings, setShortcutBinding, resetShortcuts } = useOS();
   const [activeCategory, setActiveCategory] = useState<CategoryID>('system');
   const [config, setConfig] = useState<SystemConfig>(DEFAULT_CONFIG);
   const [apiKey, setApiKey] = useState('');
@@ -181,14 +194,15 @@ export const SettingsApp: React.FC = () => {
     const savedKey = localStorage.getItem('nd_os_api_key');
     if (savedKey) setApiKey(savedKey);
 
-    if (user) {
-       onValue(ref(db, `users/${user.uid}/settings`), snap => {
-           if (snap.val()) setConfig(prev => ({ ...prev, ...snap.val() }));
-       });
-    }
-
     return () => unsubAuth();
-  }, [user]);
+  }, []);
+
+  // Synced settings override the local copy
+  useEffect(() => {
+    return storage.subscribe<Partial<SystemConfig>>('settings', data => {
+        if (data) setConfig(prev => ({ ...prev, ...data }));
+    });
+  }, [storage]);
 
   // Handler
   const updateConfig = (section: keyof SystemConfig, key: string, value: any) => {
@@ -201,7 +215,7 @@ export const SettingsApp: React.FC = () => {
       };
       setConfig(newConfig);
       localStorage.setItem('nd_os_config', JSON.stringify(newConfig));
-      if (user) update(ref(db, `users/${user.uid}/settings`), newConfig);
+      storage.update('settings', newConfig as unknown as Record<string, unknown>);
 
       // Dispatch global event for App.tsx to catch
       window.dispatchEvent(new Event('theme-change'));
@@ -254,6 +268,46 @@ export const SettingsApp: React.FC = () => {
       }, 1500);
   };
 
+  // --- Shortcut Rebinding ---
+  const [recordingShortcut, setRecordingShortcut] = useState<string | null>(null);
+  const [pendingBinding, setPendingBinding] = useState<{ definition: ShortcutDefinition, binding: string, conflicts: ShortcutDefinition[] } | null>(null);
+
+  const applyBinding = (definition: ShortcutDefinition, binding: string | null) => {
+      setShortcutBinding(definition.id, binding);
+      setPendingBinding(null);
+      addLog({ source: 'Settings', message: `${definition.label}: ${formatBinding(binding) || 'unassigned'}`, type: 'info', isCloud: false });
+  };
+
+  // Captures the next key combination before the global dispatcher sees it; Esc cancels
+  useEffect(() => {
+      if (!recordingShortcut) return;
+      const definition = shortcuts.find(d => d.id === recordingShortcut);
+      const handleKeyDown = (e: KeyboardEvent) => {
+          e.preventDefault();
+          e.stopPropagation();
+          if (e.key === 'Escape' && !e.ctrlKey && !e.altKey && !e.shiftKey && !e.metaKey) {
+              setRecordingShortcut(null);
+              return;
+          }
+          const binding = eventToBinding(e);
+          if (!binding || !definition) return;
+          setRecordingShortcut(null);
+          if (binding === shortcutBindings[definition.id]) return;
+
+          const conflicts = findConflicts(definition, binding, shortcuts, shortcutBindings);
+          if (conflicts.length > 0) setPendingBinding({ definition, binding, conflicts });
+          else applyBinding(definition, binding);
+      };
+      window.addEventListener('keydown', handleKeyDown, true);
+      return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recordingShortcut, shortcuts, shortcutBindings]);
+
+  const shortcutCategories = useMemo(() => {
+      const groups: Record<string, ShortcutDefinition[]> = {};
+      shortcuts.forEach(d => { (groups[d.category] = groups[d.category] || []).push(d); });
+      return Object.entries(groups);
+  }, [shortcuts]);
+
   // --- Calculations ---
   const errorCount = logs.filter(l => l.type === 'error').length;
   const stabilityScore = Math.max(0, 100 - (errorCount * 5)); 
@@ -473,6 +527,13 @@ export const SettingsApp: React.FC = () => {
                           </select>
                       </SettingCard>
 
+                      <SettingCard title="Restore Windows" description="Reopen your last session's windows after signing in. Turn off to start clean." icon={Layers}>
+                          <div className="flex items-center gap-2">
+                              <span className="text-xs text-nd-gray uppercase font-bold">{restoreSession ? 'On' : 'Off'}</span>
+                              <Toggle checked={restoreSession} onChange={setRestoreSession} />
+                          </div>
+                      </SettingCard>
+
                       {/* About PC */}
                       <div className="bg-nd-black border border-nd-gray rounded-xl p-6">
                           <h3 className="font-bold text-sm mb-4">Device Specifications</h3>
@@ -502,6 +563,77 @@ export const SettingsApp: React.FC = () => {
                   </div>
               );
 
+          case 'shortcuts':
+              return (
+                  <div className="space-y-6 animate-in fade-in slide-in-from-right-4">
+                      <div className="flex items-center justify-between gap-4">
+                          <p className="text-xs text-nd-gray">Click a binding and press the new key combination. Esc cancels. While typing in a text field, only {IS_MAC ? 'Cmd' : 'Win'} or Ctrl (without Alt) shortcuts work.</p>
+                          <button onClick={() => { resetShortcuts(); setPendingBinding(null); }} className="flex-shrink-0 flex items-center gap-2 px-3 py-1.5 border border-nd-gray rounded text-xs hover:bg-nd-white hover:text-nd-black transition-colors">
+                              <RefreshCw size={12} /> Reset All
+                          </button>
+                      </div>
+
+                      {pendingBinding && (
+                          <div className="bg-nd-red/10 border border-nd-red/50 rounded-xl p-4 flex flex-col md:flex-row md:items-center justify-between gap-3 text-xs">
+                              <div className="flex items-center gap-2 text-nd-white">
+                                  <AlertCircle size={16} className="text-nd-red flex-shrink-0" />
+                                  <span>
+                                      <span className="font-mono font-bold">{formatBinding(pendingBinding.binding)}</span> is already used by {pendingBinding.conflicts.map(c => `${c.label} (${c.category})`).join(', ')}.
+                                  </span>
+                              </div>
+                              <div className="flex gap-2">
+                                  <button
+                                      onClick={() => {
+                                          pendingBinding.conflicts.forEach(c => setShortcutBinding(c.id, null));
+                                          applyBinding(pendingBinding.definition, pendingBinding.binding);
+                                      }}
+                                      className="px-3 py-1.5 bg-nd-red text-white rounded font-bold"
+                                  >
+                                      Reassign
+                                  </button>
+                                  <button onClick={() => setPendingBinding(null)} className="px-3 py-1.5 border border-nd-gray rounded hover:bg-nd-gray/20">Cancel</button>
+                              </div>
+                          </div>
+                      )}
+
+                      {shortcutCategories.map(([category, definitions]) => (
+                          <div key={category} className="space-y-2">
+                              <h3 className="text-xs font-bold text-nd-gray uppercase tracking-wider">{category}</h3>
+                              <div className="bg-nd-black border border-nd-gray/50 rounded-xl divide-y divide-nd-gray/20">
+                                  {definitions.map(definition => {
+                                      const binding = shortcutBindings[definition.id];
+                                      const hasConflict = !!binding && findConflicts(definition, binding, shortcuts, shortcutBindings).length > 0;
+                                      const isCustom = binding !== definition.defaultBinding;
+                                      return (
+                                          <div key={definition.id} className="flex items-center justify-between gap-4 px-4 py-2.5">
+                                              <span className="text-sm text-nd-white">{definition.label}</span>
+                                              <div className="flex items-center gap-2">
+                                                  {isCustom && (
+                                                      <button onClick={() => applyBinding(definition, definition.defaultBinding)} title={`Reset to ${formatBinding(definition.defaultBinding) || 'unassigned'}`} className="p-1 text-nd-gray hover:text-nd-white">
+                                                          <RefreshCw size={12} />
+                                                      </button>
+                                                  )}
+                                                  {binding && (
+                                                      <button onClick={() => applyBinding(definition, null)} title="Unassign" className="p-1 text-nd-gray hover:text-nd-red">
+                                                          <X size={12} />
+                                                      </button>
+                                                  )}
+                                                  <KeyChip
+                                                      binding={binding}
+                                                      recording={recordingShortcut === definition.id}
+                                                      conflict={hasConflict}
+                                                      onClick={() => { setPendingBinding(null); setRecordingShortcut(recordingShortcut === definition.id ? null : definition.id); }}
+                                                  />
+                                              </div>
+                                          </div>
+                                      );
+                                  })}
+                              </div>
+                          </div>
+                      ))}
+                  </div>
+              );
+
           case 'intelligence':
               return (
                   <div className="space-y-6 animate-in fade-in slide-in-from-right-4">
@@ -642,6 +774,7 @@ export const SettingsApp: React.FC = () => {
                 <NavItem id="accounts" label="Accounts" icon={User} active={activeCategory === 'accounts'} onClick={() => setActiveCategory('accounts')} />
                 <NavItem id="time" label="Time & language" icon={Clock} active={activeCategory === 'time'} onClick={() => setActiveCategory('time')} />
                 <NavItem id="gaming" label="Gaming" icon={Gamepad2} active={activeCategory === 'gaming'} onClick={() => setActiveCategory('gaming')} />
+                <NavItem id="shortcuts" label="Keyboard shortcuts" icon={Keyboard} active={activeCategory === 'shortcuts'} onClick={() => setActiveCategory('shortcuts')} />
                 <NavItem id="accessibility" label="Accessibility" icon={Accessibility} active={activeCategory === 'accessibility'} onClick={() => setActiveCategory('accessibility')} />
                 <NavItem id="privacy" label="Privacy & security" icon={Shield} active={activeCategory === 'privacy'} onClick={() => setActiveCategory('privacy')} />
                 <NavItem id="update" label="Windows Update" icon={RefreshCw} active={activeCategory === 'update'} onClick={() => setActiveCategory('update')} />
@@ -658,6 +791,7 @@ export const SettingsApp: React.FC = () => {
                     activeCategory === 'network' ? 'Network & internet' :
                     activeCategory === 'personalization' ? 'Personalization' :
                     activeCategory === 'intelligence' ? 'AI & Intelligence' :
+                    activeCategory === 'shortcuts' ? 'Keyboard shortcuts' :
                     activeCategory === 'update' ? 'Windows Update' : 
                     activeCategory.charAt(0).toUpperCase() + activeCategory.slice(1)
                 }</h1>
@@ -1,7 +1,6 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useOS } from '../context/OSContext';
 import { Activity, XCircle, Cpu, HardDrive, Wifi, MemoryStick, LayoutList, LineChart } from 'lucide-react';
-import { AppID } from '../types';
 
 // --- Types ---
 interface Process {
@@ -164,7 +163,7 @@ export const TaskManagerApp: React.FC = () => {
                                 <div className="col-span-1 text-center">
                                     {proc.name !== 'System Idle Process' && (
                                         <button 
-                                            onClick={() => closeApp(proc.id as AppID)}
+                                            onClick={() => closeApp(proc.id)}
                                             className="text-nd-gray hover:text-nd-red opacity-0 group-hover:opacity-100 transition-opacity"
                                             title="End Task"
                                         >
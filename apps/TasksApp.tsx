@@ -1,6 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { db, auth } from '../services/firebase';
-import { ref, onValue, set, remove, update } from 'firebase/database';
+import React, { useState, useEffect, useMemo } from 'react';
+import { createRepository } from '../services/storage';
 import { 
   Plus, Trash2, Calendar, CheckSquare, Square, 
   AlertCircle, ChevronRight, BrainCircuit, List,
@@ -47,8 +46,8 @@ const PRIORITIES: { id: Priority; color: string }[] = [
 ];
 
 // --- Component ---
-export const TasksApp: React.FC = () => {
-  const { authStatus, addLog } = useOS();
+export const TasksApp: React.FC<{ taskId?: string }> = ({ taskId }) => {
+  const { storage, addLog } = useOS();
   
   // State
   const [tasks, setTasks] = useState<Task[]>([]);
@@ -64,41 +63,25 @@ export const TasksApp: React.FC = () => {
   // Computed
   const activeTask = tasks.find(t => t.id === selectedTaskId);
 
+  // Deep link, e.g. from a search result
+  useEffect(() => {
+    if (taskId) setSelectedTaskId(taskId);
+  }, [taskId]);
+
   // --- Data Sync ---
+  const taskRepo = useMemo(() => createRepository<Task>(storage, 'tasks'), [storage]);
+
   useEffect(() => {
-    if (authStatus === 'connected' && auth.currentUser) {
-      const tasksRef = ref(db, `users/${auth.currentUser.uid}/tasks`);
-      const unsubscribe = onValue(tasksRef, (snapshot) => {
-        const data = snapshot.val();
-        if (data) {
-          const list = Object.values(data) as Task[];
-          setTasks(list.sort((a, b) => b.createdAt - a.createdAt));
-        } else {
-          setTasks([]);
-        }
-      });
-      return () => unsubscribe();
-    } else {
-      const local = localStorage.getItem('nd_os_tasks');
-      if (local) setTasks(JSON.parse(local));
-    }
-  }, [authStatus]);
+    return taskRepo.subscribe(list => setTasks(list.sort((a, b) => b.createdAt - a.createdAt)));
+  }, [taskRepo]);
 
   const saveTask = (task: Task, logMessage?: string) => {
     // Optimistic Update
-    const updatedTasks = tasks.map(t => t.id === task.id ? task : t);
-    setTasks(updatedTasks);
-
-    const isCloud = authStatus === 'connected' && !!auth.currentUser;
-
-    if (isCloud && auth.currentUser) {
-      update(ref(db, `users/${auth.currentUser.uid}/tasks/${task.id}`), task);
-    } else {
-      localStorage.setItem('nd_os_tasks', JSON.stringify(updatedTasks));
-    }
+    setTasks(prev => prev.map(t => t.id === task.id ? task : t));
+    taskRepo.put(task);
 
     if (logMessage) {
-        addLog({ source: 'Tasks', message: logMessage, type: 'success', isCloud });
+        addLog({ source: 'Tasks', message: logMessage, type: 'success', isCloud: storage.isCloud });
     }
   };
 
@@ -137,36 +120,20 @@ export const TasksApp: React.FC = () => {
       createdAt: Date.now(),
     };
 
-    const updatedTasks = [newTask, ...tasks];
-    setTasks(updatedTasks);
+    setTasks(prev => [newTask, ...prev]);
     setNewTaskInput('');
+    taskRepo.put(newTask);
     
-    const isCloud = authStatus === 'connected' && !!auth.currentUser;
-
-    if (isCloud && auth.currentUser) {
-      set(ref(db, `users/${auth.currentUser.uid}/tasks/${newTask.id}`), newTask);
-    } else {
-      localStorage.setItem('nd_os_tasks', JSON.stringify(updatedTasks));
-    }
-    
-    addLog({ source: 'Tasks', message: `Created: "${newTask.title}"`, type: 'info', isCloud });
+    addLog({ source: 'Tasks', message: `Created: "${newTask.title}"`, type: 'info', isCloud: storage.isCloud });
   };
 
   const deleteTask = (id: string) => {
     const taskToDelete = tasks.find(t => t.id === id);
-    const updated = tasks.filter(t => t.id !== id);
-    setTasks(updated);
+    setTasks(prev => prev.filter(t => t.id !== id));
     if (selectedTaskId === id) setSelectedTaskId(null);
+    taskRepo.remove(id);
 
-    const isCloud = authStatus === 'connected' && !!auth.currentUser;
-
-    if (isCloud && auth.currentUser) {
-      remove(ref(db, `users/${auth.currentUser.uid}/tasks/${id}`));
-    } else {
-      localStorage.setItem('nd_os_tasks', JSON.stringify(updated));
-    }
-
-    addLog({ source: 'Tasks', message: `Deleted: "${taskToDelete?.title || 'Task'}"`, type: 'warning', isCloud });
+    addLog({ source: 'Tasks', message: `Deleted: "${taskToDelete?.title || 'Task'}"`, type: 'warning', isCloud: storage.isCloud });
   };
 
   // --- AI Feature ---
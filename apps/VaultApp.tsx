@@ -1,36 +1,396 @@
-import React, { useState, useEffect } from 'react';
-import { db, auth } from '../services/firebase';
-import { ref, onValue, set, push, remove, update, get } from 'firebase/database';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   Shield, Lock, Unlock, Key, FileText, Plus, Trash2, 
   Copy, Eye, EyeOff, Search, AlertTriangle, Fingerprint,
-  RefreshCw, LogOut, X
+  RefreshCw, LogOut, X, Dices, ShieldAlert, ShieldCheck, Clock, Timer, Link2,
+  Upload, Download, ArrowRightLeft, KeyRound
 } from 'lucide-react';
 import { useOS } from '../context/OSContext';
+import { VaultItem, VaultItemType } from '../types';
+import { createRepository } from '../services/storage';
+import { EncryptedBlob, VaultKeyConfig, createVaultKey, unlockVaultKey, encryptJson, decryptJson } from '../services/vaultCrypto';
+import {
+  GeneratorOptions, DEFAULT_GENERATOR_OPTIONS, generatePassword, generatorEntropy,
+  estimateStrength, auditPasswords, AuditIssue, OLD_PASSWORD_DAYS
+} from '../services/passwords';
+import {
+  CsvImportResult, ImportedItem, VaultExportBundle, importCsv, exportCsv,
+  exportEncryptedBundle, importEncryptedBundle, isExportBundle
+} from '../services/vaultTransfer';
+import { TotpParams, DEFAULT_TOTP, parseOtpAuthUri, isValidBase32, normalizeBase32, generateTotp, secondsRemaining } from '../services/totp';
 
 // --- Types ---
 
-type VaultItemType = 'password' | 'note';
+const TAB_LABELS: Record<VaultItemType, string> = { password: 'passwords', note: 'notes', totp: '2FA codes' };
 
-interface VaultItem {
+// At rest only the id and timestamp are readable; the rest of the item is the encrypted payload
+interface StoredVaultItem extends EncryptedBlob {
   id: string;
-  type: VaultItemType;
-  title: string;
-  username?: string; // For passwords
-  secret: string;   // Password or Note Content
-  url?: string;     // For passwords
   createdAt: number;
 }
 
+type VaultPayload = Omit<VaultItem, 'id' | 'createdAt'>;
+
+const sealItem = async (key: CryptoKey, item: VaultItem): Promise<StoredVaultItem> => {
+  const { id, createdAt, ...payload } = item;
+  return { id, createdAt, ...(await encryptJson(key, payload, id)) };
+};
+
+const openItem = async (key: CryptoKey, stored: StoredVaultItem): Promise<VaultItem> => {
+  const payload = await decryptJson<VaultPayload>(key, { iv: stored.iv, data: stored.data }, stored.id);
+  return { id: stored.id, createdAt: stored.createdAt, ...payload };
+};
+
+// --- Security Policy ---
+
+interface VaultSettings {
+  autoLockMinutes: number;       // 0 = never
+  clipboardClearSeconds: number; // 0 = never
+}
+
+interface LockoutState {
+  failures: number;
+  lockedUntil: number;
+}
+
+// New master passphrases must hold up to offline guessing against a copy of the database.
+// Vaults set up with a short PIN still unlock, but are asked to switch to a passphrase.
+const MIN_PASSPHRASE_LENGTH = 12;
+const MIN_PASSPHRASE_SCORE = 2; // "Fair" or better
+
+const passphraseProblem = (passphrase: string, confirm: string): string | null => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) return `Use at least ${MIN_PASSPHRASE_LENGTH} characters`;
+  if (estimateStrength(passphrase).score < MIN_PASSPHRASE_SCORE) return 'Too easy to guess, add more words or characters';
+  if (passphrase !== confirm) return 'Passphrases do not match';
+  return null;
+};
+
+const DEFAULT_SETTINGS: VaultSettings = { autoLockMinutes: 5, clipboardClearSeconds: 30 };
+const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 0];
+const CLIPBOARD_CLEAR_OPTIONS = [15, 30, 60, 0];
+
+// The first few mistakes are free, then each failure doubles the wait.
+// This only slows down someone typing guesses into this window: the counter sits in the same
+// store as the vault and anyone with a copy of that data can guess offline without it. The
+// master passphrase's strength is what actually protects the vault.
+const FREE_ATTEMPTS = 3;
+const BASE_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 15 * 60 * 1000;
+
+const lockoutDuration = (failures: number) =>
+  failures < FREE_ATTEMPTS ? 0 : Math.min(MAX_LOCKOUT_MS, BASE_LOCKOUT_MS * 2 ** (failures - FREE_ATTEMPTS));
+
+// Module scope so a pending clear survives the Vault window closing
+let clipboardClearTimer: ReturnType<typeof setTimeout> | null = null;
+
+const scheduleClipboardClear = (text: string, seconds: number) => {
+  if (clipboardClearTimer) clearTimeout(clipboardClearTimer);
+  clipboardClearTimer = null;
+  if (!seconds) return;
+
+  clipboardClearTimer = setTimeout(async () => {
+    clipboardClearTimer = null;
+    try {
+      // Leave the clipboard alone if something else was copied since
+      if (await navigator.clipboard.readText() !== text) return;
+    } catch {
+      // Read permission denied: clear anyway, a stale secret is the worse outcome
+    }
+    navigator.clipboard.writeText('').catch(() => {});
+  }, seconds * 1000);
+};
+
+// --- Password Tools ---
+
+const STRENGTH_COLORS = ['bg-nd-red', 'bg-nd-red', 'bg-yellow-500', 'bg-green-500', 'bg-green-500'];
+
+const StrengthMeter: React.FC<{ password: string; showWarnings?: boolean }> = ({ password, showWarnings }) => {
+  const strength = useMemo(() => estimateStrength(password), [password]);
+  if (!password) return null;
+
+  return (
+    <div className="mt-2">
+      <div className="flex items-center gap-2">
+        <div className="flex gap-1 flex-1">
+          {[1, 2, 3, 4].map(i => (
+            <div key={i} className={`h-1 flex-1 rounded-full ${strength.score >= i ? STRENGTH_COLORS[strength.score] : 'bg-nd-gray/30'}`} />
+          ))}
+        </div>
+        <span className="text-[10px] font-mono uppercase text-nd-gray whitespace-nowrap">{strength.label} · {strength.entropy} bits</span>
+      </div>
+      {showWarnings && strength.warnings.length > 0 && (
+        <p className="text-[10px] text-nd-gray font-mono mt-1">{strength.warnings.join(' · ')}</p>
+      )}
+    </div>
+  );
+};
+
+// --- Master Passphrase ---
+
+type PassphraseMode = 'setup' | 'unlock' | 'change';
+
+const PASSPHRASE_TITLES: Record<PassphraseMode, string> = {
+  setup: 'Create Master Passphrase',
+  unlock: 'Security Locked',
+  change: 'Change Master Passphrase',
+};
+
+const MasterPassphraseForm: React.FC<{
+  mode: PassphraseMode;
+  busy: boolean;
+  lockoutRemaining?: number;
+  onSubmit: (passphrase: string) => void;
+  onCancel?: () => void;
+}> = ({ mode, busy, lockoutRemaining = 0, onSubmit, onCancel }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [reveal, setReveal] = useState(false);
+  const creating = mode !== 'unlock';
+  const problem = creating ? passphraseProblem(passphrase, confirm) : null;
+  const disabled = busy || lockoutRemaining > 0 || !passphrase || !!problem;
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (disabled) return;
+    onSubmit(passphrase);
+    if (!creating) setPassphrase('');
+  };
+
+  return (
+    <form onSubmit={submit} className="flex flex-col items-center gap-4 w-full max-w-sm px-6">
+      <div className="w-16 h-16 border-2 border-nd-red rounded-full flex items-center justify-center mb-2 shadow-[0_0_30px_rgba(235,0,0,0.2)]">
+        <Lock size={32} className="text-nd-red" />
+      </div>
+      <h2 className="text-xl font-bold uppercase tracking-widest text-center">{PASSPHRASE_TITLES[mode]}</h2>
+      {busy && <p className="text-[10px] text-nd-gray font-mono uppercase animate-pulse">Deriving Key...</p>}
+      {lockoutRemaining > 0 && (
+        <p className="text-[10px] text-nd-red font-mono uppercase flex items-center gap-1">
+          <AlertTriangle size={12} /> Too many attempts. Retry in {Math.ceil(lockoutRemaining / 1000)}s
+        </p>
+      )}
+
+      <div className="w-full relative">
+        <input
+          type={reveal ? 'text' : 'password'}
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder={creating ? 'New master passphrase' : 'Master passphrase'}
+          autoFocus
+          autoComplete={creating ? 'new-password' : 'current-password'}
+          disabled={busy}
+          className="w-full bg-nd-black border border-nd-gray focus:border-nd-white p-3 pr-10 text-sm text-nd-white outline-none font-mono"
+        />
+        <button type="button" onClick={() => setReveal(!reveal)} className="absolute right-3 top-1/2 -translate-y-1/2 text-nd-gray hover:text-nd-white">
+          {reveal ? <EyeOff size={14} /> : <Eye size={14} />}
+        </button>
+      </div>
+      {creating && (
+        <>
+          <div className="w-full -mt-2"><StrengthMeter password={passphrase} showWarnings /></div>
+          <input
+            type={reveal ? 'text' : 'password'}
+            value={confirm}
+            onChange={(e) => setConfirm(e.target.value)}
+            placeholder="Confirm passphrase"
+            autoComplete="new-password"
+            disabled={busy}
+            className="w-full bg-nd-black border border-nd-gray focus:border-nd-white p-3 text-sm text-nd-white outline-none font-mono"
+          />
+          {passphrase && problem && <p className="text-[10px] text-nd-red font-mono uppercase self-start">{problem}</p>}
+        </>
+      )}
+
+      <div className="flex gap-2 w-full">
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="flex-1 py-2 border border-nd-gray text-nd-gray hover:text-nd-white text-xs font-bold uppercase">
+            Cancel
+          </button>
+        )}
+        <button type="submit" disabled={disabled} className="flex-1 py-2 bg-nd-white text-nd-black hover:bg-nd-red hover:text-white text-xs font-bold uppercase transition-colors disabled:opacity-30 disabled:hover:bg-nd-white disabled:hover:text-nd-black">
+          {mode === 'unlock' ? 'Unlock' : mode === 'setup' ? 'Create Vault' : 'Re-encrypt Vault'}
+        </button>
+      </div>
+
+      {creating && (
+        <p className="text-xs text-nd-gray font-mono text-center mt-2">
+          WARNING: This passphrase encrypts your vault. It cannot be recovered if lost.
+        </p>
+      )}
+    </form>
+  );
+};
+
+const PasswordGenerator: React.FC<{ onUse: (password: string) => void }> = ({ onUse }) => {
+  const [options, setOptions] = useState<GeneratorOptions>(DEFAULT_GENERATOR_OPTIONS);
+  const [value, setValue] = useState(() => generatePassword(DEFAULT_GENERATOR_OPTIONS));
+
+  const update = (updates: Partial<GeneratorOptions>) => {
+    const next = { ...options, ...updates };
+    setOptions(next);
+    setValue(generatePassword(next));
+  };
+
+  const charsetToggles: { key: 'lowercase' | 'uppercase' | 'digits' | 'symbols'; label: string }[] = [
+    { key: 'lowercase', label: 'a-z' },
+    { key: 'uppercase', label: 'A-Z' },
+    { key: 'digits', label: '0-9' },
+    { key: 'symbols', label: '!@#' },
+  ];
+
+  return (
+    <div className="border border-nd-gray p-3 mt-2 space-y-3 bg-nd-gray/5">
+      <div className="flex gap-1">
+        {(['random', 'passphrase'] as const).map(mode => (
+          <button
+            key={mode}
+            onClick={() => update({ mode })}
+            className={`flex-1 py-1 text-[10px] font-bold uppercase tracking-widest border ${options.mode === mode ? 'bg-nd-white text-nd-black border-nd-white' : 'border-nd-gray text-nd-gray hover:text-nd-white'}`}
+          >
+            {mode}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 bg-nd-black border border-nd-gray/50 p-2">
+        <span className="font-mono text-xs break-all flex-1">{value}</span>
+        <button onClick={() => setValue(generatePassword(options))} className="p-1 text-nd-gray hover:text-nd-white" title="Regenerate">
+          <RefreshCw size={14} />
+        </button>
+      </div>
+
+      {options.mode === 'random' ? (
+        <>
+          <label className="flex items-center gap-3 text-[10px] font-mono uppercase text-nd-gray">
+            Length {options.length}
+            <input type="range" min={8} max={64} value={options.length} onChange={e => update({ length: Number(e.target.value) })} className="flex-1 accent-current" />
+          </label>
+          <div className="flex gap-1">
+            {charsetToggles.map(({ key, label }) => (
+              <button
+                key={key}
+                onClick={() => update({ [key]: !options[key] })}
+                className={`flex-1 py-1 text-[10px] font-mono border ${options[key] ? 'border-nd-white text-nd-white' : 'border-nd-gray/50 text-nd-gray/50'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </>
+      ) : (
+        <>
+          <label className="flex items-center gap-3 text-[10px] font-mono uppercase text-nd-gray">
+            Words {options.words}
+            <input type="range" min={3} max={12} value={options.words} onChange={e => update({ words: Number(e.target.value) })} className="flex-1 accent-current" />
+          </label>
+          <div className="flex items-center gap-3 text-[10px] font-mono uppercase text-nd-gray">
+            <span>Separator</span>
+            {['-', '.', '_', ' '].map(sep => (
+              <button
+                key={sep}
+                onClick={() => update({ separator: sep })}
+                className={`w-6 h-6 border ${options.separator === sep ? 'border-nd-white text-nd-white' : 'border-nd-gray/50'}`}
+              >
+                {sep === ' ' ? '␣' : sep}
+              </button>
+            ))}
+            <label className="flex items-center gap-1 ml-auto cursor-pointer">
+              <input type="checkbox" checked={options.capitalize} onChange={e => update({ capitalize: e.target.checked })} />
+              Capitalize
+            </label>
+          </div>
+        </>
+      )}
+
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-mono text-nd-gray">~{Math.round(generatorEntropy(options))} bits of entropy</span>
+        <button onClick={() => onUse(value)} className="px-3 py-1 bg-nd-white text-nd-black text-[10px] font-bold uppercase tracking-widest hover:bg-white/90">
+          Use Password
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const TotpCode: React.FC<{ item: VaultItem; onCopy: (code: string) => void; compact?: boolean }> = ({ item, onCopy, compact }) => {
+  const params: TotpParams = { ...DEFAULT_TOTP, ...item.totp, secret: item.secret };
+  const [code, setCode] = useState('');
+  const [remaining, setRemaining] = useState(secondsRemaining(params.period));
+
+  useEffect(() => {
+    let step = -1;
+    const tick = () => {
+      const now = Date.now();
+      setRemaining(secondsRemaining(params.period, now));
+      const currentStep = Math.floor(now / 1000 / params.period);
+      if (currentStep !== step) {
+        step = currentStep;
+        generateTotp(params, now).then(setCode).catch(() => setCode('ERROR'));
+      }
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [item.secret, params.period, params.digits, params.algorithm]);
+
+  const display = code.length === 6 ? `${code.slice(0, 3)} ${code.slice(3)}` : code;
+  const expiring = remaining <= 5;
+
+  return (
+    <div className={`flex items-center gap-3 ${compact ? '' : 'bg-nd-gray/10 p-3 rounded border border-nd-gray/20'}`}>
+      <span className={`font-mono tracking-widest flex-1 ${compact ? 'text-sm' : 'text-2xl'} ${expiring ? 'text-nd-red' : 'text-nd-white'}`}>{display}</span>
+      <div className="flex items-center gap-2">
+        <div className="w-12 h-1 bg-nd-gray/30 rounded-full overflow-hidden">
+          <div className={`h-full transition-all duration-1000 ease-linear ${expiring ? 'bg-nd-red' : 'bg-nd-white'}`} style={{ width: `${(remaining / params.period) * 100}%` }} />
+        </div>
+        <span className="text-[10px] font-mono text-nd-gray w-5 text-right">{remaining}s</span>
+        <button onClick={() => onCopy(code)} className="p-1.5 text-nd-gray hover:text-nd-white">
+          <Copy size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const downloadFile = (name: string, content: string, mime: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const CSV_FORMAT_LABELS: Record<CsvImportResult['format'], string> = {
+  bitwarden: 'Bitwarden',
+  '1password': '1Password',
+  chrome: 'Chrome / Edge',
+  generic: 'Generic CSV',
+};
+
+const AUDIT_LABELS: Record<AuditIssue, string> = {
+  reused: 'Reused',
+  weak: 'Weak',
+  old: `Older than ${OLD_PASSWORD_DAYS} days`,
+};
+
 // --- Component ---
 
 export const VaultApp: React.FC = () => {
-  const { authStatus, addLog } = useOS();
+  const { storage, addLog } = useOS();
+  const itemRepo = useMemo(() => createRepository<StoredVaultItem>(storage, 'vault/items'), [storage]);
   
   // App State
-  const [isLocked, setIsLocked] = useState(true);
-  const [hasSetupPin, setHasSetupPin] = useState<boolean | null>(null); // null = loading
-  const [pinInput, setPinInput] = useState('');
+  const [vaultKey, setVaultKey] = useState<CryptoKey | null>(null); // In memory only, dropped on lock
+  const [hasMasterKey, setHasMasterKey] = useState<boolean | null>(null); // null = loading
+  const [keyStatusFailed, setKeyStatusFailed] = useState(false);
+  const [isDeriving, setIsDeriving] = useState(false);
+  const [hasWeakKey, setHasWeakKey] = useState(false); // Unlocked with a secret too short to resist offline guessing
+  const [isChangingPassphrase, setIsChangingPassphrase] = useState(false);
+  const [settings, setSettings] = useState<VaultSettings>(DEFAULT_SETTINGS);
+  const [lockout, setLockout] = useState<LockoutState>({ failures: 0, lockedUntil: 0 });
+  const [now, setNow] = useState(Date.now());
+  const isLocked = !vaultKey;
+  const lockoutRemaining = Math.max(0, lockout.lockedUntil - now);
   
   // Data State
   const [items, setItems] = useState<VaultItem[]>([]);
@@ -43,6 +403,19 @@ export const VaultApp: React.FC = () => {
   const [newItemUsername, setNewItemUsername] = useState('');
   const [newItemSecret, setNewItemSecret] = useState('');
   const [newItemUrl, setNewItemUrl] = useState('');
+  const [showGenerator, setShowGenerator] = useState(false);
+  const [revealNewSecret, setRevealNewSecret] = useState(false);
+  const [showAudit, setShowAudit] = useState(false);
+  const [newItemTotp, setNewItemTotp] = useState<Omit<TotpParams, 'secret'>>(DEFAULT_TOTP);
+  const [newItemLinkedId, setNewItemLinkedId] = useState('');
+
+  // Import/Export State
+  const [transferMode, setTransferMode] = useState<'import' | 'export' | null>(null);
+  const [pendingImport, setPendingImport] = useState<CsvImportResult | null>(null);
+  const [pendingBundle, setPendingBundle] = useState<VaultExportBundle | null>(null);
+  const [transferPassphrase, setTransferPassphrase] = useState('');
+  const [transferConfirm, setTransferConfirm] = useState('');
+  const [isTransferring, setIsTransferring] = useState(false);
 
   // UI State
   const [visibleSecrets, setVisibleSecrets] = useState<Record<string, boolean>>({});
@@ -50,195 +423,444 @@ export const VaultApp: React.FC = () => {
   // --- Initialization ---
 
   useEffect(() => {
-    checkPinStatus();
-  }, [authStatus]);
-
-  const checkPinStatus = async () => {
-    if (authStatus === 'connected' && auth.currentUser) {
-      const pinRef = ref(db, `users/${auth.currentUser.uid}/vault/config/pin`);
-      const snapshot = await get(pinRef);
-      setHasSetupPin(snapshot.exists());
-    } else {
-      const localPin = localStorage.getItem('nd_os_vault_pin');
-      setHasSetupPin(!!localPin);
+    checkKeyStatus();
+  }, [storage]);
+
+  useEffect(() => {
+    const unsubSettings = storage.subscribe<Partial<VaultSettings>>('vault/config/settings', data => {
+      setSettings({ ...DEFAULT_SETTINGS, ...data });
+    });
+    const unsubLockout = storage.subscribe<LockoutState>('vault/config/lockout', data => {
+      setLockout(data || { failures: 0, lockedUntil: 0 });
+    });
+    return () => {
+      unsubSettings();
+      unsubLockout();
+    };
+  }, [storage]);
+
+  // Countdown while unlocking is locked out
+  useEffect(() => {
+    if (lockout.lockedUntil <= Date.now()) return;
+    setNow(Date.now());
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= lockout.lockedUntil) clearInterval(interval);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [lockout.lockedUntil]);
+
+  const checkKeyStatus = async () => {
+    setKeyStatusFailed(false);
+    try {
+      const [config, legacyPin] = await Promise.all([
+        storage.get<VaultKeyConfig>('vault/config/key'),
+        storage.get<string>('vault/config/pin')
+      ]);
+      setHasMasterKey(!!config || !!legacyPin);
+    } catch (err) {
+      console.error(err);
+      setKeyStatusFailed(true);
+      addLog({ source: 'Vault', message: 'Could not read the vault: storage unavailable', type: 'error', isCloud: false });
     }
   };
 
-  const loadVaultData = () => {
-    if (authStatus === 'connected' && auth.currentUser) {
-      const itemsRef = ref(db, `users/${auth.currentUser.uid}/vault/items`);
-      onValue(itemsRef, (snapshot) => {
-        const data = snapshot.val();
-        setItems(data ? Object.values(data) : []);
-      });
-    } else {
-      const localItems = localStorage.getItem('nd_os_vault_items');
-      if (localItems) setItems(JSON.parse(localItems));
-    }
+  // Items are only loaded and decrypted while unlocked
+  useEffect(() => {
+    if (!vaultKey) return;
+    let cancelled = false;
+    let latest = 0; // Decryption is async, so an older snapshot can finish after a newer one
+    const unsub = itemRepo.subscribe(async (stored) => {
+      const sequence = ++latest;
+      const results = await Promise.allSettled(stored.map(item => openItem(vaultKey, item)));
+      if (cancelled || sequence !== latest) return;
+      const opened = results.filter((r): r is PromiseFulfilledResult<VaultItem> => r.status === 'fulfilled').map(r => r.value);
+      if (opened.length < stored.length) {
+        addLog({ source: 'Vault', message: `${stored.length - opened.length} item(s) failed integrity check`, type: 'error', isCloud: false });
+      }
+      setItems(opened);
+    });
+    return () => {
+      cancelled = true;
+      unsub();
+    };
+  }, [vaultKey, itemRepo]);
+
+  const lockVault = () => {
+    setVaultKey(null);
+    setItems([]);
+    setVisibleSecrets({});
+    setIsChangingPassphrase(false);
+    setIsAdding(false);
+    setNewItemSecret('');
+    closeTransfer();
+  };
+
+  // Idle auto-lock: any input inside the OS counts as activity
+  useEffect(() => {
+    if (!vaultKey || !settings.autoLockMinutes) return;
+    let lastActivity = Date.now();
+    const markActive = () => { lastActivity = Date.now(); };
+    const events = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel'];
+    events.forEach(e => window.addEventListener(e, markActive, { passive: true }));
+
+    const interval = setInterval(() => {
+      if (Date.now() - lastActivity >= settings.autoLockMinutes * 60 * 1000) {
+        lockVault();
+        addLog({ source: 'Vault', message: 'Auto-locked after inactivity', type: 'warning', isCloud: false });
+      }
+    }, 5000);
+
+    return () => {
+      events.forEach(e => window.removeEventListener(e, markActive));
+      clearInterval(interval);
+    };
+  }, [vaultKey, settings.autoLockMinutes]);
+
+  const updateSettings = (updates: Partial<VaultSettings>) => {
+    setSettings(prev => ({ ...prev, ...updates }));
+    storage.update('vault/config/settings', updates);
+  };
+
+  // Items and the key config that opens them are written in one update, so a failed or
+  // interrupted write never leaves items sealed under a key that can't be derived
+  const commitRekey = (sealed: StoredVaultItem[], config: VaultKeyConfig, extra: Record<string, unknown> = {}) =>
+    storage.update('vault', {
+      ...Object.fromEntries(sealed.map(item => [`items/${item.id}`, item])),
+      'config/key': config,
+      ...extra
+    });
+
+  // Vaults created before encryption stored the raw PIN and plaintext items
+  const migrateLegacyVault = async (pin: string): Promise<CryptoKey> => {
+    const { key, config } = await createVaultKey(pin);
+    const legacyItems = await storage.get<Record<string, any>>('vault/items');
+    // Every record is sealed, even malformed ones, so no plaintext is left behind
+    const sealed = await Promise.all(
+      Object.entries(legacyItems || {}).map(([id, item]: [string, any]) => sealItem(key, {
+        ...item,
+        id,
+        type: item.type || 'password',
+        title: String(item.title ?? 'Untitled'),
+        secret: String(item.secret ?? ''),
+        createdAt: item.createdAt || Date.now()
+      }))
+    );
+
+    await commitRekey(sealed, config, { 'config/pin': null });
+    addLog({ source: 'Vault', message: `Encrypted ${sealed.length} legacy item(s)`, type: 'success', isCloud: storage.isCloud });
+    return key;
   };
 
   // --- Actions ---
 
-  const handlePinSubmit = async (pin: string) => {
-    // 1. Setup Mode
-    if (hasSetupPin === false) {
-      if (pin.length !== 4) return;
-      
-      if (authStatus === 'connected' && auth.currentUser) {
-        await set(ref(db, `users/${auth.currentUser.uid}/vault/config/pin`), pin);
+  const handleSetup = async (passphrase: string) => {
+    setIsDeriving(true);
+    try {
+      const { config } = await createVaultKey(passphrase);
+      await storage.set('vault/config/key', config);
+      addLog({ source: 'Vault', message: 'Master passphrase configured', type: 'success', isCloud: storage.isCloud });
+      setHasMasterKey(true);
+    } catch (err) {
+      console.error(err);
+      addLog({ source: 'Vault', message: 'Could not set up the vault', type: 'error', isCloud: false });
+    } finally {
+      setIsDeriving(false);
+    }
+  };
+
+  const handleUnlock = async (passphrase: string) => {
+    if (lockout.lockedUntil > Date.now()) return;
+
+    setIsDeriving(true);
+    let key: CryptoKey | null = null;
+    try {
+      const config = await storage.get<VaultKeyConfig>('vault/config/key');
+      if (config) {
+        key = await unlockVaultKey(passphrase, config);
       } else {
-        localStorage.setItem('nd_os_vault_pin', pin);
+        const legacyPin = await storage.get<string>('vault/config/pin');
+        if (legacyPin && passphrase === legacyPin) key = await migrateLegacyVault(passphrase);
       }
-      
-      addLog({ source: 'Vault', message: 'Security PIN Configured', type: 'success', isCloud: authStatus === 'connected' });
-      setHasSetupPin(true);
-      setPinInput('');
+    } catch (err) {
+      console.error(err);
+      addLog({ source: 'Vault', message: 'Could not unlock the vault: storage unavailable', type: 'error', isCloud: false });
       return;
+    } finally {
+      setIsDeriving(false);
     }
 
-    // 2. Unlock Mode
-    let storedPin = '';
-    if (authStatus === 'connected' && auth.currentUser) {
-       const snap = await get(ref(db, `users/${auth.currentUser.uid}/vault/config/pin`));
-       storedPin = snap.val();
+    if (key) {
+      setVaultKey(key);
+      setHasWeakKey(passphrase.length < MIN_PASSPHRASE_LENGTH);
+      if (lockout.failures) storage.remove('vault/config/lockout');
+      addLog({ source: 'Vault', message: 'Access Granted', type: 'success', isCloud: false });
     } else {
-       storedPin = localStorage.getItem('nd_os_vault_pin') || '';
+      const failures = lockout.failures + 1;
+      const wait = lockoutDuration(failures);
+      const next: LockoutState = { failures, lockedUntil: wait ? Date.now() + wait : 0 };
+      setLockout(next);
+      storage.set('vault/config/lockout', next);
+      addLog({
+        source: 'Vault',
+        message: wait ? `Access Denied: locked for ${Math.round(wait / 1000)}s after ${failures} failed attempts` : 'Access Denied: Invalid passphrase',
+        type: 'error',
+        isCloud: false
+      });
     }
+  };
 
-    if (pin === storedPin) {
-      setIsLocked(false);
-      loadVaultData();
-      addLog({ source: 'Vault', message: 'Access Granted', type: 'success', isCloud: false });
-    } else {
-      setPinInput('');
-      addLog({ source: 'Vault', message: 'Access Denied: Invalid PIN', type: 'error', isCloud: false });
-      // Shake animation effect logic could go here
+  // Re-encrypts every item under a key from the new passphrase; the old key stops working
+  const changePassphrase = async (passphrase: string) => {
+    if (!vaultKey) return;
+    setIsDeriving(true);
+    try {
+      // Items that don't open now would be unreadable for good once the key changes
+      const stored = await itemRepo.list();
+      const results = await Promise.allSettled(stored.map(item => openItem(vaultKey, item)));
+      const opened = results.filter((r): r is PromiseFulfilledResult<VaultItem> => r.status === 'fulfilled').map(r => r.value);
+      if (opened.length < stored.length) {
+        addLog({ source: 'Vault', message: `Passphrase not changed: ${stored.length - opened.length} item(s) failed integrity check`, type: 'error', isCloud: false });
+        return;
+      }
+
+      const { key, config } = await createVaultKey(passphrase);
+      const sealed = await Promise.all(opened.map(item => sealItem(key, item)));
+      await commitRekey(sealed, config);
+      setVaultKey(key);
+      setHasWeakKey(false);
+      setIsChangingPassphrase(false);
+      addLog({ source: 'Vault', message: `Re-encrypted ${sealed.length} item(s) with the new passphrase`, type: 'success', isCloud: storage.isCloud });
+    } catch (err) {
+      console.error(err);
+      addLog({ source: 'Vault', message: 'Could not change the passphrase', type: 'error', isCloud: false });
+    } finally {
+      setIsDeriving(false);
     }
   };
 
-  const addItem = () => {
-    if (!newItemTitle || !newItemSecret) return;
+  // Pasting an otpauth:// URI fills in the whole form
+  const handleTotpSecretChange = (value: string) => {
+    const parsed = parseOtpAuthUri(value);
+    if (!parsed) {
+      setNewItemSecret(value);
+      return;
+    }
+    const { secret, issuer, account, ...params } = parsed;
+    setNewItemSecret(secret);
+    setNewItemTotp(params);
+    if (issuer && !newItemTitle) setNewItemTitle(issuer);
+    if (account && !newItemUsername) setNewItemUsername(account);
+    const match = items.find(i => i.type === 'password' && issuer && i.title.toLowerCase().includes(issuer.toLowerCase()));
+    if (match && !newItemLinkedId) setNewItemLinkedId(match.id);
+  };
+
+  const addItem = async () => {
+    if (!newItemTitle || !newItemSecret || !vaultKey) return;
+    if (activeTab === 'totp' && !isValidBase32(newItemSecret)) {
+      addLog({ source: 'Vault', message: 'Invalid 2FA secret: expected a Base32 key or otpauth:// URI', type: 'error', isCloud: false });
+      return;
+    }
 
     const newItem: VaultItem = {
       id: `v_${Date.now()}`,
       type: activeTab,
       title: newItemTitle,
-      username: activeTab === 'password' ? newItemUsername : undefined,
+      username: activeTab !== 'note' ? newItemUsername : undefined,
       url: activeTab === 'password' ? newItemUrl : undefined,
-      secret: newItemSecret,
+      secret: activeTab === 'totp' ? normalizeBase32(newItemSecret) : newItemSecret,
+      totp: activeTab === 'totp' ? newItemTotp : undefined,
+      linkedItemId: activeTab === 'totp' && newItemLinkedId ? newItemLinkedId : undefined,
       createdAt: Date.now()
     };
 
-    if (authStatus === 'connected' && auth.currentUser) {
-      set(ref(db, `users/${auth.currentUser.uid}/vault/items/${newItem.id}`), newItem);
-    } else {
-      const newItems = [...items, newItem];
-      setItems(newItems);
-      localStorage.setItem('nd_os_vault_items', JSON.stringify(newItems));
+    try {
+      await itemRepo.put(await sealItem(vaultKey, newItem));
+    } catch (err) {
+      console.error(err);
+      addLog({ source: 'Vault', message: 'Could not save the item', type: 'error', isCloud: false });
+      return;
     }
 
     setIsAdding(false);
+    setShowGenerator(false);
+    setRevealNewSecret(false);
     setNewItemTitle('');
     setNewItemUsername('');
     setNewItemSecret('');
     setNewItemUrl('');
-    addLog({ source: 'Vault', message: `Encrypted new ${activeTab}`, type: 'info', isCloud: authStatus === 'connected' });
+    setNewItemTotp(DEFAULT_TOTP);
+    setNewItemLinkedId('');
+    addLog({ source: 'Vault', message: `Encrypted new ${activeTab === 'totp' ? '2FA code' : activeTab}`, type: 'info', isCloud: storage.isCloud });
   };
 
   const deleteItem = (id: string) => {
     if (confirm('Permanently delete this item?')) {
-      if (authStatus === 'connected' && auth.currentUser) {
-        remove(ref(db, `users/${auth.currentUser.uid}/vault/items/${id}`));
-      } else {
-        const newItems = items.filter(i => i.id !== id);
-        setItems(newItems);
-        localStorage.setItem('nd_os_vault_items', JSON.stringify(newItems));
-      }
+      itemRepo.remove(id);
     }
   };
 
-  const copyToClipboard = (text: string) => {
-    navigator.clipboard.writeText(text);
-    addLog({ source: 'Vault', message: 'Copied to clipboard', type: 'info', isCloud: false });
+  // --- Import / Export ---
+
+  const closeTransfer = () => {
+    setTransferMode(null);
+    setPendingImport(null);
+    setPendingBundle(null);
+    setTransferPassphrase('');
+    setTransferConfirm('');
   };
 
-  // --- Render Sub-Components ---
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
 
-  const PinPad = () => {
-    const handleNum = (num: string) => {
-      if (pinInput.length < 4) {
-        const newPin = pinInput + num;
-        setPinInput(newPin);
-        if (newPin.length === 4) {
-          setTimeout(() => handlePinSubmit(newPin), 200);
-        }
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = reader.result as string;
+      if (file.name.toLowerCase().endsWith('.json')) {
+        try {
+          const parsed = JSON.parse(text);
+          if (isExportBundle(parsed)) {
+            setPendingBundle(parsed);
+            return;
+          }
+        } catch { /* Fall through to the error below */ }
+        addLog({ source: 'Vault', message: 'Not a vault export bundle', type: 'error', isCloud: false });
+        return;
       }
+      setPendingImport(importCsv(text));
     };
+    reader.readAsText(file);
+  };
 
-    return (
-      <div className="flex flex-col items-center justify-center h-full bg-nd-black text-nd-white animate-in fade-in zoom-in duration-300">
-        <div className="mb-8 flex flex-col items-center gap-4">
-          <div className="w-16 h-16 border-2 border-nd-red rounded-full flex items-center justify-center mb-2 shadow-[0_0_30px_rgba(235,0,0,0.2)]">
-            <Lock size={32} className="text-nd-red" />
-          </div>
-          <h2 className="text-xl font-bold uppercase tracking-widest">
-            {hasSetupPin === false ? 'Create Access PIN' : 'Security Locked'}
-          </h2>
-          <div className="flex gap-4 mt-4">
-            {[0, 1, 2, 3].map(i => (
-              <div 
-                key={i} 
-                className={`w-3 h-3 rounded-full transition-all duration-300 ${
-                  i < pinInput.length ? 'bg-nd-red scale-125 shadow-[0_0_10px_var(--color-accent)]' : 'bg-nd-gray/30'
-                }`} 
-              />
-            ))}
-          </div>
-        </div>
+  // Writes imported items as new entries, skipping exact duplicates of what is already stored
+  const commitImport = async (incoming: ImportedItem[]) => {
+    if (!vaultKey) return;
+    const fingerprint = (i: Pick<VaultItem, 'type' | 'title' | 'username' | 'secret'>) => `${i.type}|${i.title}|${i.username || ''}|${i.secret}`;
+    const existing = new Map<string, string>(items.map((item: VaultItem) => [fingerprint(item), item.id]));
+    const baseId = Date.now();
+    // Duplicates keep the id of the entry already in the vault, so 2FA codes still link to it
+    const ids = new Map<number, string>(incoming.map((item, i) => [item.ref, existing.get(fingerprint(item)) ?? `v_${baseId}_${i}`]));
 
-        <div className="grid grid-cols-3 gap-6 mb-8">
-          {[1, 2, 3, 4, 5, 6, 7, 8, 9].map(num => (
-            <button
-              key={num}
-              onClick={() => handleNum(num.toString())}
-              className="w-16 h-16 rounded-full border border-nd-gray hover:border-nd-white hover:bg-nd-white/10 text-xl font-mono transition-all active:scale-95"
-            >
-              {num}
-            </button>
-          ))}
-          <div />
-          <button
-              onClick={() => handleNum('0')}
-              className="w-16 h-16 rounded-full border border-nd-gray hover:border-nd-white hover:bg-nd-white/10 text-xl font-mono transition-all active:scale-95"
-            >
-              0
-            </button>
-          <button 
-             onClick={() => setPinInput('')}
-             className="w-16 h-16 rounded-full border border-transparent text-nd-red hover:bg-nd-red/10 flex items-center justify-center"
-          >
-             <RefreshCw size={20} />
-          </button>
-        </div>
-        
-        {hasSetupPin === false && (
-            <p className="text-xs text-nd-gray font-mono max-w-xs text-center mt-4">
-                WARNING: This PIN will be required to access your vault. Do not lose it.
-            </p>
-        )}
-      </div>
-    );
+    const fresh: VaultItem[] = incoming
+      .filter(item => !existing.has(fingerprint(item)))
+      .map(({ ref, linkedRef, ...item }) => ({
+        ...item,
+        id: ids.get(ref)!,
+        linkedItemId: linkedRef !== undefined ? ids.get(linkedRef) : item.linkedItemId,
+        createdAt: item.createdAt || Date.now()
+      }));
+
+    setIsTransferring(true);
+    try {
+      const sealed = await Promise.all(fresh.map(item => sealItem(vaultKey, item)));
+      await Promise.all(sealed.map(item => itemRepo.put(item)));
+    } catch (err) {
+      console.error(err);
+      addLog({ source: 'Vault', message: 'Import failed: items could not be saved', type: 'error', isCloud: false });
+      return;
+    } finally {
+      setIsTransferring(false);
+    }
+
+    const duplicates = incoming.length - fresh.length;
+    addLog({
+      source: 'Vault',
+      message: `Imported ${fresh.length} item(s)${duplicates ? `, ${duplicates} duplicate(s) skipped` : ''}`,
+      type: 'success',
+      isCloud: storage.isCloud
+    });
+    closeTransfer();
+  };
+
+  const importBundle = async () => {
+    if (!pendingBundle) return;
+    setIsTransferring(true);
+    const bundleItems = await importEncryptedBundle(pendingBundle, transferPassphrase).catch(() => null);
+    setIsTransferring(false);
+    if (!bundleItems) {
+      addLog({ source: 'Vault', message: 'Wrong passphrase or corrupted bundle', type: 'error', isCloud: false });
+      return;
+    }
+    // Re-key ids and links so repeated imports never overwrite existing entries
+    const refs = new Map(bundleItems.map((item, i) => [item.id, i]));
+    await commitImport(bundleItems.map(({ id, linkedItemId, ...item }, i) => ({
+      ...item,
+      ref: i,
+      linkedRef: linkedItemId !== undefined ? refs.get(linkedItemId) : undefined
+    })));
+  };
+
+  const exportBundle = async () => {
+    if (transferPassphrase.length < 8 || transferPassphrase !== transferConfirm) return;
+    setIsTransferring(true);
+    let bundle;
+    try {
+      bundle = await exportEncryptedBundle(items, transferPassphrase);
+    } catch (err) {
+      console.error(err);
+      addLog({ source: 'Vault', message: 'Export failed: bundle could not be encrypted', type: 'error', isCloud: false });
+      return;
+    } finally {
+      setIsTransferring(false);
+    }
+    downloadFile(`vault-export-${new Date().toISOString().slice(0, 10)}.json`, JSON.stringify(bundle, null, 2), 'application/json');
+    addLog({ source: 'Vault', message: `Exported ${items.length} item(s) as encrypted bundle`, type: 'success', isCloud: false });
+    closeTransfer();
   };
 
+  const exportPlainCsv = () => {
+    if (!confirm('The CSV file will contain every password and note in PLAIN TEXT. Anyone with the file can read them. Continue?')) return;
+    downloadFile(`vault-export-${new Date().toISOString().slice(0, 10)}.csv`, exportCsv(items), 'text/csv');
+    addLog({ source: 'Vault', message: `Exported ${items.length} item(s) as unencrypted CSV`, type: 'warning', isCloud: false });
+    closeTransfer();
+  };
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    scheduleClipboardClear(text, settings.clipboardClearSeconds);
+    const suffix = settings.clipboardClearSeconds ? ` (clears in ${settings.clipboardClearSeconds}s)` : '';
+    addLog({ source: 'Vault', message: `Copied to clipboard${suffix}`, type: 'info', isCloud: false });
+  };
+
+  // --- Render Sub-Components ---
+
   const filteredItems = items.filter(i => 
     i.type === activeTab && 
     (i.title.toLowerCase().includes(searchQuery.toLowerCase()) || i.username?.toLowerCase().includes(searchQuery.toLowerCase()))
   );
 
+  const passwordItems = items.filter(i => i.type === 'password');
+  const audit = useMemo(() => auditPasswords(passwordItems), [items]);
+  const flagged = audit.filter(a => a.issues.length > 0);
+  const issueCount = (issue: AuditIssue) => audit.filter(a => a.issues.includes(issue)).length;
+
   // --- Main Render ---
 
   if (isLocked) {
-    return <PinPad />;
+    return (
+      <div className="flex flex-col items-center justify-center h-full bg-nd-black text-nd-white animate-in fade-in zoom-in duration-300">
+        {hasMasterKey === null && keyStatusFailed && (
+          <div className="flex flex-col items-center gap-4 text-center px-6">
+            <AlertTriangle size={32} className="text-nd-red" />
+            <p className="text-xs text-nd-gray font-mono uppercase">Vault storage is unavailable</p>
+            <button onClick={checkKeyStatus} className="flex items-center gap-2 px-4 py-2 border border-nd-gray hover:border-nd-white text-xs font-bold uppercase">
+              <RefreshCw size={14} /> Retry
+            </button>
+          </div>
+        )}
+        {hasMasterKey !== null && (
+          <MasterPassphraseForm
+            key={hasMasterKey ? 'unlock' : 'setup'}
+            mode={hasMasterKey ? 'unlock' : 'setup'}
+            busy={isDeriving}
+            lockoutRemaining={lockoutRemaining}
+            onSubmit={hasMasterKey ? handleUnlock : handleSetup}
+          />
+        )}
+      </div>
+    );
   }
 
   return (
@@ -255,24 +877,78 @@ export const VaultApp: React.FC = () => {
         </div>
 
         <button 
-          onClick={() => setActiveTab('password')}
-          className={`flex items-center gap-3 px-4 py-3 mx-2 mb-1 transition-all border border-transparent ${activeTab === 'password' ? 'bg-nd-white text-nd-black border-nd-white' : 'text-nd-gray hover:text-nd-white hover:bg-nd-gray/10'}`}
+          onClick={() => { setActiveTab('password'); setShowAudit(false); }}
+          className={`flex items-center gap-3 px-4 py-3 mx-2 mb-1 transition-all border border-transparent ${!showAudit && activeTab === 'password' ? 'bg-nd-white text-nd-black border-nd-white' : 'text-nd-gray hover:text-nd-white hover:bg-nd-gray/10'}`}
         >
           <Key size={18} />
           <span className="hidden md:inline font-medium text-sm">Passwords</span>
         </button>
 
         <button 
-          onClick={() => setActiveTab('note')}
-          className={`flex items-center gap-3 px-4 py-3 mx-2 mb-1 transition-all border border-transparent ${activeTab === 'note' ? 'bg-nd-white text-nd-black border-nd-white' : 'text-nd-gray hover:text-nd-white hover:bg-nd-gray/10'}`}
+          onClick={() => { setActiveTab('note'); setShowAudit(false); }}
+          className={`flex items-center gap-3 px-4 py-3 mx-2 mb-1 transition-all border border-transparent ${!showAudit && activeTab === 'note' ? 'bg-nd-white text-nd-black border-nd-white' : 'text-nd-gray hover:text-nd-white hover:bg-nd-gray/10'}`}
         >
           <FileText size={18} />
           <span className="hidden md:inline font-medium text-sm">Secure Notes</span>
         </button>
 
-        <div className="mt-auto p-4 border-t border-nd-gray">
+        <button 
+          onClick={() => { setActiveTab('totp'); setShowAudit(false); }}
+          className={`flex items-center gap-3 px-4 py-3 mx-2 mb-1 transition-all border border-transparent ${!showAudit && activeTab === 'totp' ? 'bg-nd-white text-nd-black border-nd-white' : 'text-nd-gray hover:text-nd-white hover:bg-nd-gray/10'}`}
+        >
+          <Timer size={18} />
+          <span className="hidden md:inline font-medium text-sm">2FA Codes</span>
+        </button>
+
+        <button 
+          onClick={() => setShowAudit(true)}
+          className={`flex items-center gap-3 px-4 py-3 mx-2 mb-1 transition-all border border-transparent ${showAudit ? 'bg-nd-white text-nd-black border-nd-white' : 'text-nd-gray hover:text-nd-white hover:bg-nd-gray/10'}`}
+        >
+          <ShieldAlert size={18} />
+          <span className="hidden md:inline font-medium text-sm flex-1 text-left">Security Audit</span>
+          {flagged.length > 0 && <span className="hidden md:inline text-[10px] font-mono text-nd-red">{flagged.length}</span>}
+        </button>
+
+        <div className="mt-auto px-4 pb-4 space-y-3 hidden md:block">
+          <label className="block">
+            <span className="text-[10px] text-nd-gray font-mono uppercase">Auto-Lock</span>
+            <select
+              value={settings.autoLockMinutes}
+              onChange={(e) => updateSettings({ autoLockMinutes: Number(e.target.value) })}
+              className="mt-1 w-full bg-nd-black border border-nd-gray text-xs font-mono p-1.5 focus:border-nd-white outline-none"
+            >
+              {AUTO_LOCK_OPTIONS.map(m => <option key={m} value={m}>{m ? `${m} min idle` : 'Never'}</option>)}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-[10px] text-nd-gray font-mono uppercase">Clear Clipboard</span>
+            <select
+              value={settings.clipboardClearSeconds}
+              onChange={(e) => updateSettings({ clipboardClearSeconds: Number(e.target.value) })}
+              className="mt-1 w-full bg-nd-black border border-nd-gray text-xs font-mono p-1.5 focus:border-nd-white outline-none"
+            >
+              {CLIPBOARD_CLEAR_OPTIONS.map(s => <option key={s} value={s}>{s ? `After ${s}s` : 'Never'}</option>)}
+            </select>
+          </label>
+        </div>
+
+        <div className="p-4 border-t border-nd-gray space-y-4">
+          <button 
+            onClick={() => setTransferMode('import')}
+            className="flex items-center gap-3 text-nd-gray hover:text-nd-white transition-colors w-full"
+          >
+            <ArrowRightLeft size={18} />
+            <span className="hidden md:inline font-mono text-xs uppercase">Import / Export</span>
+          </button>
+          <button 
+            onClick={() => setIsChangingPassphrase(true)}
+            className="flex items-center gap-3 text-nd-gray hover:text-nd-white transition-colors w-full"
+          >
+            <KeyRound size={18} />
+            <span className="hidden md:inline font-mono text-xs uppercase">Change Passphrase</span>
+          </button>
           <button 
-            onClick={() => { setIsLocked(true); setPinInput(''); }}
+            onClick={lockVault}
             className="flex items-center gap-3 text-nd-red hover:text-white transition-colors w-full"
           >
             <LogOut size={18} />
@@ -291,7 +967,7 @@ export const VaultApp: React.FC = () => {
               <input 
                  value={searchQuery}
                  onChange={e => setSearchQuery(e.target.value)}
-                 placeholder={`Search ${activeTab}s...`}
+                 placeholder={`Search ${TAB_LABELS[activeTab]}...`}
                  className="w-full bg-nd-gray/10 border border-nd-gray/50 focus:border-nd-white rounded-full py-1.5 pl-9 pr-4 text-sm text-nd-white outline-none font-mono placeholder-nd-gray/50"
               />
            </div>
@@ -303,7 +979,65 @@ export const VaultApp: React.FC = () => {
            </button>
         </div>
 
-        {/* Content List */}
+        {hasWeakKey && (
+          <div className="flex items-center gap-3 px-6 py-2 border-b border-nd-red bg-nd-red/10 text-xs font-mono text-nd-red">
+            <ShieldAlert size={14} className="shrink-0" />
+            <span className="flex-1">This vault is protected by a short PIN that can be guessed from a copy of its data. Switch to a master passphrase.</span>
+            <button onClick={() => setIsChangingPassphrase(true)} className="uppercase font-bold hover:text-white">Change</button>
+          </div>
+        )}
+
+        {/* Security Audit */}
+        {showAudit ? (
+        <div className="flex-1 overflow-y-auto p-6">
+           <div className="grid grid-cols-3 gap-4 mb-6">
+              {(['reused', 'weak', 'old'] as AuditIssue[]).map(issue => (
+                 <div key={issue} className="border border-nd-gray p-4">
+                    <div className={`text-3xl font-mono ${issueCount(issue) ? 'text-nd-red' : 'text-nd-white'}`}>{issueCount(issue)}</div>
+                    <div className="text-[10px] text-nd-gray font-mono uppercase tracking-widest mt-1">{AUDIT_LABELS[issue]}</div>
+                 </div>
+              ))}
+           </div>
+
+           {flagged.length === 0 ? (
+               <div className="flex flex-col items-center justify-center py-16 text-nd-gray opacity-50 gap-4">
+                  <ShieldCheck size={48} />
+                  <p className="font-mono text-xs tracking-widest">
+                     {passwordItems.length ? `ALL ${passwordItems.length} PASSWORDS PASSED` : 'NO PASSWORDS TO AUDIT'}
+                  </p>
+               </div>
+           ) : (
+             <div className="space-y-2">
+               {flagged.map(entry => {
+                 const item = passwordItems.find(i => i.id === entry.id)!;
+                 return (
+                   <div key={entry.id} className="border border-nd-gray p-4 flex items-center gap-4">
+                      <Key size={16} className="text-nd-gray shrink-0" />
+                      <div className="flex-1 min-w-0">
+                         <h3 className="font-bold text-sm truncate">{item.title}</h3>
+                         <p className="text-[10px] text-nd-gray font-mono">
+                            {item.username || 'No username'} · {entry.ageDays}d old
+                            {entry.reuseCount > 0 && ` · shared with ${entry.reuseCount} other item(s)`}
+                         </p>
+                         {entry.strength.warnings.length > 0 && (
+                            <p className="text-[10px] text-nd-gray/70 font-mono">{entry.strength.warnings.join(' · ')}</p>
+                         )}
+                      </div>
+                      <div className="flex gap-1 shrink-0">
+                         {entry.issues.map(issue => (
+                            <span key={issue} className="flex items-center gap-1 text-[10px] font-mono uppercase border border-nd-red text-nd-red px-2 py-0.5">
+                               {issue === 'old' && <Clock size={10} />}{issue}
+                            </span>
+                         ))}
+                      </div>
+                   </div>
+                 );
+               })}
+             </div>
+           )}
+        </div>
+        ) : (
+        /* Content List */
         <div className="flex-1 overflow-y-auto p-6">
            {filteredItems.length === 0 ? (
                <div className="flex flex-col items-center justify-center h-full text-nd-gray opacity-30 gap-4">
@@ -317,7 +1051,7 @@ export const VaultApp: React.FC = () => {
                     <div className="flex justify-between items-start mb-4">
                        <div className="flex items-center gap-3">
                           <div className="p-2 bg-nd-gray/20 rounded-md">
-                             {item.type === 'password' ? <Key size={16} /> : <FileText size={16} />}
+                             {item.type === 'password' ? <Key size={16} /> : item.type === 'totp' ? <Timer size={16} /> : <FileText size={16} />}
                           </div>
                           <div>
                              <h3 className="font-bold text-sm">{item.title}</h3>
@@ -331,6 +1065,9 @@ export const VaultApp: React.FC = () => {
                        </div>
                     </div>
 
+                    {item.type === 'totp' ? (
+                      <TotpCode item={item} onCopy={copyToClipboard} />
+                    ) : (
                     <div className="bg-nd-gray/10 p-3 rounded border border-nd-gray/20 flex items-center justify-between gap-2">
                        <div className="font-mono text-xs text-nd-white truncate flex-1">
                           {visibleSecrets[item.id] ? item.secret : '••••••••••••••••'}
@@ -351,6 +1088,27 @@ export const VaultApp: React.FC = () => {
                        </div>
                     </div>
                     
+                    )}
+
+                    {item.type === 'password' && <StrengthMeter password={item.secret} />}
+
+                    {/* Credentials and their second factor are shown together */}
+                    {item.type === 'password' && items.filter(i => i.type === 'totp' && i.linkedItemId === item.id).map(code => (
+                        <div key={code.id} className="mt-3 pt-3 border-t border-nd-gray/30">
+                            <div className="text-[10px] text-nd-gray font-mono uppercase flex items-center gap-1 mb-1"><Timer size={10} /> 2FA · {code.title}</div>
+                            <TotpCode item={code} onCopy={copyToClipboard} compact />
+                        </div>
+                    ))}
+                    {item.type === 'totp' && item.linkedItemId && items.some(i => i.id === item.linkedItemId) && (
+                        <div className="mt-3 text-[10px] text-nd-gray font-mono uppercase flex items-center gap-1">
+                            <Link2 size={10} /> Linked to {items.find(i => i.id === item.linkedItemId)!.title}
+                        </div>
+                    )}
+
+                    {item.notes && (
+                        <p className="mt-3 text-xs text-nd-gray font-mono whitespace-pre-wrap break-words">{item.notes}</p>
+                    )}
+
                     {item.url && (
                         <div className="mt-3 text-xs text-nd-gray hover:text-nd-red cursor-pointer flex items-center gap-1 w-max">
                             <span onClick={() => window.open(item.url?.startsWith('http') ? item.url : `https://${item.url}`, '_blank')}>
@@ -363,6 +1121,146 @@ export const VaultApp: React.FC = () => {
              </div>
            )}
         </div>
+        )}
+
+        {/* Change Passphrase Modal */}
+        {isChangingPassphrase && (
+           <div className="absolute inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+              <div className="bg-nd-black border border-nd-white py-6 shadow-2xl animate-in zoom-in-95 duration-200">
+                 <MasterPassphraseForm
+                   mode="change"
+                   busy={isDeriving}
+                   onSubmit={changePassphrase}
+                   onCancel={() => setIsChangingPassphrase(false)}
+                 />
+              </div>
+           </div>
+        )}
+
+        {/* Import / Export Modal */}
+        {transferMode && (
+           <div className="absolute inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+              <div className="bg-nd-black border border-nd-white p-6 w-full max-w-md shadow-2xl animate-in zoom-in-95 duration-200">
+                 <div className="flex items-center justify-between mb-6 border-b border-nd-gray pb-4">
+                    <div className="flex gap-4">
+                       {(['import', 'export'] as const).map(mode => (
+                          <button
+                             key={mode}
+                             onClick={() => { closeTransfer(); setTransferMode(mode); }}
+                             className={`font-bold text-lg uppercase tracking-wide ${transferMode === mode ? 'text-nd-white' : 'text-nd-gray hover:text-nd-white'}`}
+                          >
+                             {mode}
+                          </button>
+                       ))}
+                    </div>
+                    <button onClick={closeTransfer}><X size={20} className="text-nd-gray hover:text-nd-white"/></button>
+                 </div>
+
+                 {transferMode === 'import' && !pendingImport && !pendingBundle && (
+                    <label className="flex flex-col items-center justify-center gap-3 border border-dashed border-nd-gray p-8 cursor-pointer hover:border-nd-white transition-colors">
+                       <Upload size={24} className="text-nd-gray" />
+                       <span className="text-xs font-mono text-center text-nd-gray">
+                          CSV from Bitwarden, 1Password or Chrome<br />or an encrypted vault bundle (.json)
+                       </span>
+                       <input type="file" accept=".csv,.json" className="hidden" onChange={handleImportFile} />
+                    </label>
+                 )}
+
+                 {pendingImport && (
+                    <div className="space-y-4">
+                       <div className="border border-nd-gray p-4 font-mono text-xs space-y-1">
+                          <div className="flex justify-between"><span className="text-nd-gray">Format</span><span>{CSV_FORMAT_LABELS[pendingImport.format]}</span></div>
+                          {(['password', 'note', 'totp'] as VaultItemType[]).map(type => (
+                             <div key={type} className="flex justify-between">
+                                <span className="text-nd-gray capitalize">{TAB_LABELS[type]}</span>
+                                <span>{pendingImport.items.filter(i => i.type === type).length}</span>
+                             </div>
+                          ))}
+                          {pendingImport.skipped > 0 && (
+                             <div className="flex justify-between text-nd-red"><span>Skipped rows</span><span>{pendingImport.skipped}</span></div>
+                          )}
+                       </div>
+                       <p className="text-[10px] text-nd-gray font-mono">Items are encrypted with your vault key before they are saved. Delete the source CSV afterwards.</p>
+                       <button
+                          onClick={() => commitImport(pendingImport.items)}
+                          disabled={isTransferring || pendingImport.items.length === 0}
+                          className="w-full bg-nd-white text-nd-black font-bold py-3 text-sm hover:bg-white/90 disabled:opacity-50 uppercase tracking-widest"
+                       >
+                          {isTransferring ? 'Encrypting...' : `Import ${pendingImport.items.length} Items`}
+                       </button>
+                    </div>
+                 )}
+
+                 {pendingBundle && (
+                    <div className="space-y-4">
+                       <p className="text-xs font-mono text-nd-gray">
+                          Encrypted bundle from {new Date(pendingBundle.exportedAt).toLocaleString()}
+                       </p>
+                       <input
+                          autoFocus
+                          type="password"
+                          value={transferPassphrase}
+                          onChange={e => setTransferPassphrase(e.target.value)}
+                          onKeyDown={e => e.key === 'Enter' && importBundle()}
+                          className="w-full bg-nd-gray/10 border border-nd-gray p-2 text-sm text-nd-white outline-none focus:border-nd-white font-mono"
+                          placeholder="Export passphrase"
+                       />
+                       <button
+                          onClick={importBundle}
+                          disabled={isTransferring || !transferPassphrase}
+                          className="w-full bg-nd-white text-nd-black font-bold py-3 text-sm hover:bg-white/90 disabled:opacity-50 uppercase tracking-widest"
+                       >
+                          {isTransferring ? 'Decrypting...' : 'Decrypt & Import'}
+                       </button>
+                    </div>
+                 )}
+
+                 {transferMode === 'export' && (
+                    <div className="space-y-6">
+                       <div className="space-y-3">
+                          <h4 className="text-[10px] uppercase text-nd-gray font-bold tracking-widest flex items-center gap-2"><Lock size={12} /> Encrypted Bundle</h4>
+                          <input
+                             type="password"
+                             value={transferPassphrase}
+                             onChange={e => setTransferPassphrase(e.target.value)}
+                             className="w-full bg-nd-gray/10 border border-nd-gray p-2 text-sm text-nd-white outline-none focus:border-nd-white font-mono"
+                             placeholder="Passphrase (min. 8 characters)"
+                          />
+                          <input
+                             type="password"
+                             value={transferConfirm}
+                             onChange={e => setTransferConfirm(e.target.value)}
+                             className="w-full bg-nd-gray/10 border border-nd-gray p-2 text-sm text-nd-white outline-none focus:border-nd-white font-mono"
+                             placeholder="Confirm passphrase"
+                          />
+                          {transferConfirm && transferPassphrase !== transferConfirm && (
+                             <p className="text-[10px] text-nd-red font-mono">Passphrases do not match</p>
+                          )}
+                          <button
+                             onClick={exportBundle}
+                             disabled={isTransferring || transferPassphrase.length < 8 || transferPassphrase !== transferConfirm}
+                             className="w-full bg-nd-white text-nd-black font-bold py-3 text-sm hover:bg-white/90 disabled:opacity-50 uppercase tracking-widest flex items-center justify-center gap-2"
+                          >
+                             <Download size={14} /> {isTransferring ? 'Encrypting...' : `Export ${items.length} Items`}
+                          </button>
+                       </div>
+
+                       <div className="space-y-3 border-t border-nd-gray pt-6">
+                          <h4 className="text-[10px] uppercase text-nd-red font-bold tracking-widest flex items-center gap-2"><AlertTriangle size={12} /> Unencrypted CSV</h4>
+                          <p className="text-[10px] text-nd-gray font-mono">For importing into another password manager. Secrets are written in plain text.</p>
+                          <button
+                             onClick={exportPlainCsv}
+                             disabled={items.length === 0}
+                             className="w-full border border-nd-red text-nd-red font-bold py-3 text-sm hover:bg-nd-red hover:text-white disabled:opacity-50 uppercase tracking-widest transition-colors"
+                          >
+                             Export CSV
+                          </button>
+                       </div>
+                    </div>
+                 )}
+              </div>
+           </div>
+        )}
 
         {/* Add Item Modal */}
         {isAdding && (
@@ -370,9 +1268,9 @@ export const VaultApp: React.FC = () => {
               <div className="bg-nd-black border border-nd-white p-6 w-full max-w-md shadow-2xl animate-in zoom-in-95 duration-200">
                  <div className="flex items-center justify-between mb-6 border-b border-nd-gray pb-4">
                     <h3 className="font-bold text-lg uppercase tracking-wide">
-                        Add {activeTab === 'password' ? 'Credentials' : 'Secure Note'}
+                        Add {activeTab === 'password' ? 'Credentials' : activeTab === 'totp' ? '2FA Code' : 'Secure Note'}
                     </h3>
-                    <button onClick={() => setIsAdding(false)}><X size={20} className="text-nd-gray hover:text-nd-white"/></button>
+                    <button onClick={() => { setIsAdding(false); setShowGenerator(false); }}><X size={20} className="text-nd-gray hover:text-nd-white"/></button>
                  </div>
                  
                  <div className="space-y-4">
@@ -410,19 +1308,73 @@ export const VaultApp: React.FC = () => {
                         </>
                     )}
 
+                    {activeTab === 'totp' && (
+                        <>
+                            <div>
+                                <label className="text-[10px] uppercase text-nd-gray font-bold tracking-widest mb-1 block">Account</label>
+                                <input 
+                                    value={newItemUsername}
+                                    onChange={e => setNewItemUsername(e.target.value)}
+                                    className="w-full bg-nd-gray/10 border border-nd-gray p-2 text-sm text-nd-white outline-none focus:border-nd-white"
+                                    placeholder="user@example.com"
+                                />
+                            </div>
+                            <div>
+                                <label className="text-[10px] uppercase text-nd-gray font-bold tracking-widest mb-1 block">Link to Password (Optional)</label>
+                                <select
+                                    value={newItemLinkedId}
+                                    onChange={e => setNewItemLinkedId(e.target.value)}
+                                    className="w-full bg-nd-black border border-nd-gray p-2 text-sm text-nd-white outline-none focus:border-nd-white"
+                                >
+                                    <option value="">None</option>
+                                    {items.filter(i => i.type === 'password').map(i => (
+                                        <option key={i.id} value={i.id}>{i.title}{i.username ? ` (${i.username})` : ''}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </>
+                    )}
+
                     <div>
                         <label className="text-[10px] uppercase text-nd-gray font-bold tracking-widest mb-1 block">
-                            {activeTab === 'password' ? 'Password' : 'Content'}
+                            {activeTab === 'password' ? 'Password' : activeTab === 'totp' ? 'Secret Key or otpauth:// URI' : 'Content'}
                         </label>
-                        {activeTab === 'password' ? (
-                             <div className="relative">
+                        {activeTab === 'totp' ? (
+                             <div>
                                  <input 
-                                    type="password"
                                     value={newItemSecret}
-                                    onChange={e => setNewItemSecret(e.target.value)}
+                                    onChange={e => handleTotpSecretChange(e.target.value)}
                                     className="w-full bg-nd-gray/10 border border-nd-gray p-2 text-sm text-nd-white outline-none focus:border-nd-white font-mono"
-                                    placeholder="••••••••"
+                                    placeholder="JBSW Y3DP EHPK 3PXP"
                                  />
+                                 <p className="text-[10px] text-nd-gray font-mono mt-1">
+                                     {newItemTotp.algorithm} · {newItemTotp.digits} digits · {newItemTotp.period}s
+                                     {newItemSecret && !isValidBase32(newItemSecret) && <span className="text-nd-red"> · Not a valid key</span>}
+                                 </p>
+                             </div>
+                        ) : activeTab === 'password' ? (
+                             <div>
+                                 <div className="relative">
+                                     <input 
+                                        type={revealNewSecret ? 'text' : 'password'}
+                                        value={newItemSecret}
+                                        onChange={e => setNewItemSecret(e.target.value)}
+                                        className="w-full bg-nd-gray/10 border border-nd-gray p-2 pr-16 text-sm text-nd-white outline-none focus:border-nd-white font-mono"
+                                        placeholder="••••••••"
+                                     />
+                                     <div className="absolute right-1 top-1/2 -translate-y-1/2 flex">
+                                         <button onClick={() => setRevealNewSecret(!revealNewSecret)} className="p-1.5 text-nd-gray hover:text-nd-white">
+                                             {revealNewSecret ? <EyeOff size={14} /> : <Eye size={14} />}
+                                         </button>
+                                         <button onClick={() => setShowGenerator(!showGenerator)} className={`p-1.5 hover:text-nd-white ${showGenerator ? 'text-nd-white' : 'text-nd-gray'}`} title="Generate">
+                                             <Dices size={14} />
+                                         </button>
+                                     </div>
+                                 </div>
+                                 <StrengthMeter password={newItemSecret} showWarnings />
+                                 {showGenerator && (
+                                     <PasswordGenerator onUse={(pw) => { setNewItemSecret(pw); setShowGenerator(false); }} />
+                                 )}
                              </div>
                         ) : (
                             <textarea 
@@ -1,6 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { db, auth } from '../services/firebase';
-import { ref, onValue, set, push, remove, update } from 'firebase/database';
+import React, { useState, useEffect, useMemo } from 'react';
+import { createRepository } from '../services/storage';
 import { 
   CreditCard, TrendingUp, TrendingDown, LayoutDashboard, 
   Plus, History, DollarSign, Wallet, ArrowUpRight, ArrowDownLeft,
@@ -48,7 +47,7 @@ const ACCT_ICONS = {
 // --- Component ---
 
 export const WalletApp: React.FC = () => {
-  const { authStatus, addLog } = useOS();
+  const { storage, addLog } = useOS();
   
   // View State
   const [view, setView] = useState<'dashboard' | 'accounts' | 'transactions' | 'analytics'>('dashboard');
@@ -78,43 +77,15 @@ export const WalletApp: React.FC = () => {
   const [txNote, setTxNote] = useState('');
 
   // --- Sync ---
-  useEffect(() => {
-    if (authStatus === 'connected' && auth.currentUser) {
-      const uid = auth.currentUser.uid;
-      const acctRef = ref(db, `users/${uid}/wallet/accounts`);
-      const txRef = ref(db, `users/${uid}/wallet/transactions`);
-
-      const unsubA = onValue(acctRef, s => setAccounts(s.val() ? Object.values(s.val()) : []));
-      const unsubT = onValue(txRef, s => {
-          const data = s.val() ? Object.values(s.val()) : [];
-          // Sort by date desc
-          setTransactions((data as Transaction[]).sort((a, b) => b.date - a.date));
-      });
+  const accountRepo = useMemo(() => createRepository<Account>(storage, 'wallet/accounts'), [storage]);
+  const txRepo = useMemo(() => createRepository<Transaction>(storage, 'wallet/transactions'), [storage]);
 
+  useEffect(() => {
+      const unsubA = accountRepo.subscribe(setAccounts);
+      // Sort by date desc
+      const unsubT = txRepo.subscribe(list => setTransactions(list.sort((a, b) => b.date - a.date)));
       return () => { unsubA(); unsubT(); };
-    } else {
-       // Local Storage
-       const la = localStorage.getItem('nd_os_wallet_accounts');
-       if (la) setAccounts(JSON.parse(la));
-       const lt = localStorage.getItem('nd_os_wallet_transactions');
-       if (lt) setTransactions(JSON.parse(lt));
-    }
-  }, [authStatus]);
-
-  // --- Persistence Helpers ---
-  const persistAccounts = (data: Account[]) => {
-      if (authStatus !== 'connected') {
-          localStorage.setItem('nd_os_wallet_accounts', JSON.stringify(data));
-          setAccounts(data);
-      }
-  };
-  
-  const persistTransactions = (data: Transaction[]) => {
-      if (authStatus !== 'connected') {
-          localStorage.setItem('nd_os_wallet_transactions', JSON.stringify(data));
-          setTransactions(data);
-      }
-  };
+  }, [accountRepo, txRepo]);
 
   // --- Actions ---
 
@@ -132,11 +103,7 @@ export const WalletApp: React.FC = () => {
         color: newCardColor
     };
 
-    if (authStatus === 'connected' && auth.currentUser) {
-        set(ref(db, `users/${auth.currentUser.uid}/wallet/accounts/${newAcct.id}`), newAcct);
-    } else {
-        persistAccounts([...accounts, newAcct]);
-    }
+    accountRepo.put(newAcct);
     
     // Reset Form
     setNewAcctName('');
@@ -145,7 +112,7 @@ export const WalletApp: React.FC = () => {
     setNewAcctBalance('');
     setIsAddingAccount(false);
     
-    addLog({ source: 'Wallet', message: `Card Added: ${newAcct.bankName}`, type: 'success', isCloud: authStatus === 'connected' });
+    addLog({ source: 'Wallet', message: `Card Added: ${newAcct.bankName}`, type: 'success', isCloud: storage.isCloud });
   };
 
   const addTransaction = () => {
@@ -169,52 +136,28 @@ export const WalletApp: React.FC = () => {
       const newBalance = txType === 'income' ? acct.balance + amountVal : acct.balance - amountVal;
       const updatedAcct = { ...acct, balance: newBalance };
 
-      if (authStatus === 'connected' && auth.currentUser) {
-          const uid = auth.currentUser.uid;
-          set(ref(db, `users/${uid}/wallet/transactions/${newTx.id}`), newTx);
-          update(ref(db, `users/${uid}/wallet/accounts/${acct.id}`), updatedAcct);
-      } else {
-          persistTransactions([newTx, ...transactions]);
-          const newAccounts = accounts.map(a => a.id === acct.id ? updatedAcct : a);
-          persistAccounts(newAccounts);
-      }
+      txRepo.put(newTx);
+      accountRepo.put(updatedAcct);
 
       setTxAmount('');
       setTxNote('');
       setIsAddingTx(false);
-      addLog({ source: 'Wallet', message: `Tx: ${txType.toUpperCase()} $${amountVal}`, type: 'info', isCloud: authStatus === 'connected' });
+      addLog({ source: 'Wallet', message: `Tx: ${txType.toUpperCase()} $${amountVal}`, type: 'info', isCloud: storage.isCloud });
   };
 
   const deleteTransaction = (tx: Transaction) => {
       const acct = accounts.find(a => a.id === tx.accountId);
       
-      if (authStatus === 'connected' && auth.currentUser) {
-          const uid = auth.currentUser.uid;
-          remove(ref(db, `users/${uid}/wallet/transactions/${tx.id}`));
-          if (acct) {
-              const revertedBalance = tx.type === 'income' ? acct.balance - tx.amount : acct.balance + tx.amount;
-              update(ref(db, `users/${uid}/wallet/accounts/${acct.id}`), { balance: revertedBalance });
-          }
-      } else {
-          const newTxs = transactions.filter(t => t.id !== tx.id);
-          persistTransactions(newTxs);
-           if (acct) {
-              const revertedBalance = tx.type === 'income' ? acct.balance - tx.amount : acct.balance + tx.amount;
-              const newAccts = accounts.map(a => a.id === acct.id ? { ...a, balance: revertedBalance } : a);
-              persistAccounts(newAccts);
-          }
+      txRepo.remove(tx.id);
+      if (acct) {
+          const revertedBalance = tx.type === 'income' ? acct.balance - tx.amount : acct.balance + tx.amount;
+          accountRepo.patch(acct.id, { balance: revertedBalance });
       }
   };
 
   const deleteAccount = (id: string) => {
       if (confirm('Delete this card? This cannot be undone.')) {
-        if (authStatus === 'connected' && auth.currentUser) {
-             const uid = auth.currentUser.uid;
-             remove(ref(db, `users/${uid}/wallet/accounts/${id}`));
-        } else {
-            const newAccts = accounts.filter(a => a.id !== id);
-            persistAccounts(newAccts);
-        }
+        accountRepo.remove(id);
       }
   };
 
@@ -1,15 +1,19 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { useOS } from '../../context/OSContext';
+import { useOS, useShortcuts } from '../../context/OSContext';
 import { APP_REGISTRY } from '../../registry';
 import { WIDGET_REGISTRY } from '../widgets/WidgetRegistry';
 import { 
   Search, Command, AppWindow, File as FileIcon, 
   Power, Lock, Moon, Wifi, Smartphone, Calculator,
-  ChevronRight, ArrowRight, Layout
+  ChevronRight, ArrowRight, Layout, Monitor, Plus, Zap
 } from 'lucide-react';
-import { AppID, FileNode, WidgetType } from '../../types';
+import { AppID, AppCommand, AppConfig, CommandArgumentOption, FileNode, WidgetType } from '../../types';
+import { HighlightedText, SEARCH_TYPE_LABELS, parseSearchQuery } from '../../services/search';
+import { CaptureAccount, CaptureParse, CaptureResult, commitCapture, parseCapture } from '../../services/quickCapture';
+import { createRepository } from '../../services/storage';
+import { formatBinding } from '../../services/shortcuts';
 
-type ResultType = 'app' | 'file' | 'action' | 'widget';
+type ResultType = 'app' | 'file' | 'action' | 'widget' | 'workspace' | 'command' | 'content' | 'capture';
 
 interface SearchResult {
   id: string;
@@ -18,48 +22,216 @@ interface SearchResult {
   subtitle?: string;
   icon: React.ElementType;
   action: () => void;
+  keepOpen?: boolean; // The action moves on to an argument prompt instead of finishing
+  titleHighlight?: HighlightedText;
+  subtitleHighlight?: HighlightedText;
+  badge?: string;
 }
 
+// An app command waiting for its arguments, collected one prompt at a time
+interface PendingCommand {
+  app: AppConfig;
+  command: AppCommand;
+  step: number;
+  values: Record<string, string>;
+}
+
+const Highlight: React.FC<{ value: HighlightedText }> = ({ value }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  value.ranges.forEach(([start, end], i) => {
+    if (start < cursor) return;
+    if (start > cursor) parts.push(value.text.slice(cursor, start));
+    parts.push(<mark key={i} className="bg-nd-red/30 text-inherit rounded-sm">{value.text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(value.text.slice(cursor));
+  return <>{parts}</>;
+};
+
+// --- Quick Capture ---
+
+const CAPTURE_PREFIX = '+'; // Forces capture mode, even for text the parser isn't sure about
+
+const CAPTURE_APPS: Record<CaptureResult['kind'], AppID> = { task: AppID.TASKS, event: AppID.CALENDAR, transaction: AppID.WALLET };
+
+const NO_ACCOUNT = 'No Wallet account';
+
+const formatDay = (value: number | string) =>
+  new Date(typeof value === 'string' ? `${value}T00:00` : value).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+const formatClock = (value: number) => new Date(value).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+
+const captureTitle = (result: CaptureResult) => {
+  if (result.kind === 'task') return `Create Task: ${result.title}`;
+  if (result.kind === 'event') return `Add Event: ${result.title}`;
+  return `Log ${result.type === 'income' ? 'Income' : 'Expense'}: $${result.amount.toFixed(2)}`;
+};
+
+const captureFields = (result: CaptureResult): [string, string][] => {
+  if (result.kind === 'task') {
+    return [
+      ['Title', result.title],
+      ['Due', result.dueDate ? `${formatDay(result.dueDate)}${result.time ? ` at ${result.time}` : ''}` : 'No date'],
+      ['Priority', result.priority.charAt(0).toUpperCase() + result.priority.slice(1)],
+    ];
+  }
+  if (result.kind === 'event') {
+    return [
+      ['Title', result.title],
+      ['When', `${formatDay(result.start)}, ${formatClock(result.start)} – ${formatClock(result.end)}`],
+    ];
+  }
+  return [
+    ['Amount', `${result.type === 'income' ? '+' : '-'}$${result.amount.toFixed(2)}`],
+    ['Account', result.accountName ? `${result.accountName}${result.accountGuessed ? ' (default)' : ''}` : NO_ACCOUNT],
+    ['Category', result.category],
+    ['Date', formatDay(result.date)],
+    ...(result.note ? [['Note', result.note] as [string, string]] : []),
+  ];
+};
+
+const CONTENT_LIMIT = 6; // Content hits shown next to apps and actions; a type filter shows more
+const RESULT_LIMIT = 12;
+
+const matchesCommand = (app: AppConfig, command: AppCommand, query: string) =>
+  [command.title, app.title, ...(command.keywords || [])].some(text => text.toLowerCase().includes(query));
+
 export const CommandPalette: React.FC = () => {
   const { 
     launchApp, 
+    storage,
+    addLog,
     fs, 
+    searchContent,
     setPowerState, 
     addWidget,
     isCommandPaletteOpen,
     setCommandPaletteOpen,
     commandPaletteQuery,
-    setCommandPaletteQuery
+    setCommandPaletteQuery,
+    workspaces,
+    activeWorkspaceId,
+    switchWorkspace,
+    createWorkspace,
+    shortcutBindings
   } = useOS();
 
   const [selectedIndex, setSelectedIndex] = useState(0);
+  const [pending, setPending] = useState<PendingCommand | null>(null);
+  const [argInput, setArgInput] = useState('');
+  const [argOptions, setArgOptions] = useState<CommandArgumentOption[] | null>(null);
+  const [accounts, setAccounts] = useState<CaptureAccount[]>([]);
   const inputRef = useRef<HTMLInputElement>(null);
   const listRef = useRef<HTMLDivElement>(null);
 
   // --- Keyboard Listeners ---
+  useShortcuts({ 'palette-toggle': () => setCommandPaletteOpen(!isCommandPaletteOpen) });
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.metaKey || e.ctrlKey) && e.key === 'k') {
-        e.preventDefault();
-        setCommandPaletteOpen(!isCommandPaletteOpen);
-      }
       if (e.key === 'Escape') {
-        setCommandPaletteOpen(false);
+        // Leave an argument prompt first, then the palette itself
+        if (pending) setPending(null);
+        else setCommandPaletteOpen(false);
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isCommandPaletteOpen, setCommandPaletteOpen]);
+  }, [isCommandPaletteOpen, setCommandPaletteOpen, pending]);
 
   useEffect(() => {
     if (isCommandPaletteOpen) {
       setTimeout(() => inputRef.current?.focus(), 50);
       // Don't clear query if it was set externally (e.g. from context menu)
       setSelectedIndex(0);
+    } else {
+      setPending(null);
     }
   }, [isCommandPaletteOpen]);
 
+  // --- App Commands ---
+  const activeArg = pending ? pending.command.args![pending.step] : null;
+
+  const executeCommand = (app: AppConfig, command: AppCommand, values: Record<string, string>) => {
+    setPending(null);
+    setCommandPaletteOpen(false);
+    Promise.resolve(command.run(values, { storage, launchApp, addLog })).catch((err: any) => {
+      addLog({ source: app.title, message: `${command.title} failed: ${err?.message || err}`, type: 'error', isCloud: false });
+    });
+  };
+
+  const startCommand = (app: AppConfig, command: AppCommand) => {
+    if (!command.args?.length) {
+      executeCommand(app, command, {});
+      return;
+    }
+    setPending({ app, command, step: 0, values: {} });
+    setArgInput('');
+    setSelectedIndex(0);
+  };
+
+  const submitArgument = (raw: string) => {
+    if (!pending || !activeArg) return;
+    const value = raw.trim() || activeArg.defaultValue || '';
+    if (!value && !activeArg.optional) return;
+    if (activeArg.type === 'number' && value && isNaN(Number(value))) return;
+
+    const values = { ...pending.values, [activeArg.name]: value };
+    if (pending.step + 1 < pending.command.args!.length) {
+      setPending({ ...pending, step: pending.step + 1, values });
+      setArgInput('');
+      setSelectedIndex(0);
+    } else {
+      executeCommand(pending.app, pending.command, values);
+    }
+  };
+
+  // Select arguments may load their choices from storage
+  useEffect(() => {
+    if (!activeArg || activeArg.type !== 'select') {
+      setArgOptions(null);
+      return;
+    }
+    let cancelled = false;
+    const apply = (options: CommandArgumentOption[]) => {
+      if (cancelled) return;
+      setArgOptions(options);
+      setSelectedIndex(Math.max(0, options.findIndex(o => o.value === activeArg.defaultValue)));
+    };
+    if (typeof activeArg.options === 'function') {
+      setArgOptions(null);
+      activeArg.options({ storage, launchApp, addLog }).then(apply).catch(() => apply([]));
+    } else {
+      apply(activeArg.options || []);
+    }
+    return () => { cancelled = true; };
+  }, [activeArg, storage, launchApp, addLog]);
+
+  // --- Quick Capture ---
+
+  // Wallet accounts let "from Visa" resolve while typing
+  useEffect(() => {
+    if (!isCommandPaletteOpen) return;
+    return createRepository<CaptureAccount>(storage, 'wallet/accounts').subscribe(setAccounts);
+  }, [isCommandPaletteOpen, storage]);
+
+  const isCaptureMode = commandPaletteQuery.startsWith(CAPTURE_PREFIX);
+
+  const capture: CaptureParse | null = useMemo(() => {
+    if (parseSearchQuery(commandPaletteQuery).filter) return null;
+    const parsed = parseCapture(isCaptureMode ? commandPaletteQuery.slice(CAPTURE_PREFIX.length) : commandPaletteQuery, new Date(), accounts);
+    return parsed && (isCaptureMode || parsed.confident) ? parsed : null;
+  }, [commandPaletteQuery, isCaptureMode, accounts]);
+
+  const saveCapture = (result: CaptureResult) => {
+    commitCapture(result, { storage, addLog }).catch((err: any) => {
+      addLog({ source: 'Quick Capture', message: err?.message || 'Could not save', type: 'error', isCloud: false });
+    });
+    setCommandPaletteQuery('');
+  };
+
   // --- Search Logic ---
   const results: SearchResult[] = useMemo(() => {
     if (!commandPaletteQuery) return [];
@@ -67,6 +239,31 @@ export const CommandPalette: React.FC = () => {
     const lowerQ = commandPaletteQuery.toLowerCase();
     const res: SearchResult[] = [];
 
+    const contentResults: SearchResult[] = searchContent(commandPaletteQuery, RESULT_LIMIT).map(hit => ({
+      id: `content-${hit.document.id}`,
+      type: 'content',
+      title: hit.document.title,
+      subtitle: hit.snippet.text || undefined,
+      titleHighlight: hit.title,
+      subtitleHighlight: hit.snippet.text ? hit.snippet : undefined,
+      badge: SEARCH_TYPE_LABELS[hit.document.type],
+      icon: APP_REGISTRY[hit.document.appId]?.icon || FileIcon,
+      action: () => launchApp(hit.document.appId, hit.document.launchProps)
+    }));
+
+    // A type filter ("t: ...") narrows the palette to content of that type
+    if (parseSearchQuery(commandPaletteQuery).filter) return contentResults;
+
+    const captureResult: SearchResult | null = capture && {
+      id: 'capture',
+      type: 'capture',
+      title: captureTitle(capture.result),
+      subtitle: 'Quick Capture',
+      icon: APP_REGISTRY[CAPTURE_APPS[capture.result.kind]].icon,
+      action: () => saveCapture(capture.result)
+    };
+    if (isCaptureMode) return captureResult ? [captureResult] : [];
+
     // 1. Apps
     Object.values(APP_REGISTRY).forEach(app => {
       if (app.title.toLowerCase().includes(lowerQ)) {
@@ -81,12 +278,50 @@ export const CommandPalette: React.FC = () => {
       }
     });
 
-    // 2. System Actions
+    // 2. App Commands
+    Object.values(APP_REGISTRY).forEach(app => {
+      app.commands?.forEach(command => {
+        if (!matchesCommand(app, command, lowerQ)) return;
+        res.push({
+          id: `cmd-${command.id}`,
+          type: 'command',
+          title: command.title,
+          subtitle: `${app.title} • Command`,
+          icon: app.icon,
+          action: () => startCommand(app, command),
+          keepOpen: !!command.args?.length
+        });
+      });
+    });
+
+    // 3. Quick Capture, after exact app and command matches so short queries still launch apps
+    if (captureResult) res.push(captureResult);
+
+    // 4. System Actions
     if ('lock'.includes(lowerQ)) res.push({ id: 'act-lock', type: 'action', title: 'Lock Screen', icon: Lock, action: () => setPowerState('LOCKED') });
     if ('sleep'.includes(lowerQ)) res.push({ id: 'act-sleep', type: 'action', title: 'Sleep', icon: Moon, action: () => setPowerState('SLEEP') });
     if ('shutdown'.includes(lowerQ)) res.push({ id: 'act-off', type: 'action', title: 'Shut Down', icon: Power, action: () => setPowerState('OFF') });
     
-    // 3. Files
+    // 5. Workspaces
+    workspaces.forEach((workspace, i) => {
+      if (workspace.id === activeWorkspaceId) return;
+      if (workspace.name.toLowerCase().includes(lowerQ) || 'desktop'.includes(lowerQ) || 'workspace'.includes(lowerQ)) {
+        const binding = formatBinding(shortcutBindings[`workspace-${i + 1}`]);
+        res.push({
+          id: `ws-${workspace.id}`,
+          type: 'workspace',
+          title: `Switch to ${workspace.name}`,
+          subtitle: binding ? `Workspace • ${binding}` : 'Workspace',
+          icon: Monitor,
+          action: () => switchWorkspace(workspace.id)
+        });
+      }
+    });
+    if ('new desktop'.includes(lowerQ) || 'new workspace'.includes(lowerQ)) {
+      res.push({ id: 'ws-new', type: 'workspace', title: 'New Desktop', subtitle: 'Workspace', icon: Plus, action: () => createWorkspace() });
+    }
+
+    // 6. Files
     fs.forEach(file => {
       if (file.name.toLowerCase().includes(lowerQ)) {
         res.push({
@@ -105,7 +340,10 @@ export const CommandPalette: React.FC = () => {
       }
     });
 
-    // 4. Widgets
+    // 7. Content
+    res.push(...contentResults.slice(0, CONTENT_LIMIT));
+
+    // 8. Widgets
     Object.entries(WIDGET_REGISTRY).forEach(([type, config]) => {
         if (config.label.toLowerCase().includes(lowerQ) || 'widget'.includes(lowerQ)) {
             res.push({
@@ -119,7 +357,7 @@ export const CommandPalette: React.FC = () => {
         }
     });
 
-    // 5. Quick Math (Easter Egg)
+    // 9. Quick Math (Easter Egg)
     if (/^[0-9+\-*/().\s]+$/.test(commandPaletteQuery)) {
         try {
             // eslint-disable-next-line no-eval
@@ -135,32 +373,61 @@ export const CommandPalette: React.FC = () => {
         } catch (e) {}
     }
 
-    return res.slice(0, 8); // Limit results
-  }, [commandPaletteQuery, fs, launchApp, setPowerState, addWidget, setCommandPaletteOpen]);
+    return res.slice(0, RESULT_LIMIT);
+  }, [commandPaletteQuery, capture, isCaptureMode, fs, searchContent, launchApp, storage, addLog, setPowerState, addWidget, setCommandPaletteOpen, workspaces, activeWorkspaceId, switchWorkspace, createWorkspace, shortcutBindings]);
+
+  // While prompting for a select argument the list shows its choices instead of search results
+  const optionResults: SearchResult[] = useMemo(() => {
+    if (!argOptions) return [];
+    const lowerInput = argInput.toLowerCase();
+    return argOptions
+      .filter(option => option.label.toLowerCase().includes(lowerInput))
+      .map(option => ({
+        id: `opt-${option.value}`,
+        type: 'action' as ResultType,
+        title: option.label,
+        icon: ChevronRight,
+        action: () => submitArgument(option.value),
+        keepOpen: true
+      }));
+  }, [argOptions, argInput, pending]);
+
+  const items = pending ? optionResults : results;
+  const showCapturePreview = !!capture && !pending && (isCaptureMode || items[selectedIndex]?.type === 'capture');
+
+  const activate = (item: SearchResult) => {
+    item.action();
+    if (!item.keepOpen) setCommandPaletteOpen(false);
+  };
 
   // --- Navigation Logic ---
+  useEffect(() => {
+      (listRef.current?.children[selectedIndex] as HTMLElement | undefined)?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
   useEffect(() => {
       const handleNav = (e: KeyboardEvent) => {
           if (!isCommandPaletteOpen) return;
 
-          if (e.key === 'ArrowDown') {
+          if (e.key === 'ArrowDown' && items.length) {
               e.preventDefault();
-              setSelectedIndex(prev => (prev + 1) % results.length);
-          } else if (e.key === 'ArrowUp') {
+              setSelectedIndex(prev => (prev + 1) % items.length);
+          } else if (e.key === 'ArrowUp' && items.length) {
               e.preventDefault();
-              setSelectedIndex(prev => (prev - 1 + results.length) % results.length);
+              setSelectedIndex(prev => (prev - 1 + items.length) % items.length);
           } else if (e.key === 'Enter') {
               e.preventDefault();
-              if (results[selectedIndex]) {
-                  results[selectedIndex].action();
-                  setCommandPaletteOpen(false);
+              if (activeArg && activeArg.type !== 'select') {
+                  submitArgument(argInput);
+              } else if (items[selectedIndex]) {
+                  activate(items[selectedIndex]);
               }
           }
       };
 
       window.addEventListener('keydown', handleNav);
       return () => window.removeEventListener('keydown', handleNav);
-  }, [isCommandPaletteOpen, results, selectedIndex, setCommandPaletteOpen]);
+  }, [isCommandPaletteOpen, items, selectedIndex, setCommandPaletteOpen, activeArg, argInput, pending]);
 
   if (!isCommandPaletteOpen) return null;
 
@@ -171,14 +438,33 @@ export const CommandPalette: React.FC = () => {
     >
         <div className="w-full max-w-xl bg-nd-black/90 backdrop-blur-xl border border-nd-gray rounded-xl shadow-2xl overflow-hidden flex flex-col animate-in zoom-in-95 duration-200">
             
+            {/* Argument Prompt */}
+            {pending && activeArg && (
+                <div className="flex items-center gap-2 px-4 pt-3 text-[10px] font-mono uppercase tracking-wider text-nd-gray">
+                    <pending.app.icon size={12} />
+                    <span>{pending.app.title}</span>
+                    <ChevronRight size={10} />
+                    <span className="text-nd-white">{pending.command.title}</span>
+                    <span className="ml-auto">{pending.step + 1}/{pending.command.args!.length}</span>
+                </div>
+            )}
+
             {/* Input */}
             <div className="flex items-center px-4 py-4 border-b border-nd-gray/50">
-                <Search size={20} className="text-nd-gray mr-3" />
+                {pending ? <Zap size={20} className="text-nd-red mr-3" /> : <Search size={20} className="text-nd-gray mr-3" />}
                 <input
+                    key={pending ? `${pending.command.id}-${pending.step}` : 'search'}
                     ref={inputRef}
-                    value={commandPaletteQuery}
-                    onChange={(e) => setCommandPaletteQuery(e.target.value)}
-                    placeholder="Type a command or search..."
+                    autoFocus
+                    value={pending ? argInput : commandPaletteQuery}
+                    onChange={(e) => {
+                        if (pending) { setArgInput(e.target.value); setSelectedIndex(0); }
+                        else setCommandPaletteQuery(e.target.value);
+                    }}
+                    inputMode={activeArg?.type === 'number' ? 'decimal' : undefined}
+                    placeholder={activeArg
+                        ? `${activeArg.label}${activeArg.optional ? ' (optional)' : ''}${activeArg.placeholder ? ` — ${activeArg.placeholder}` : activeArg.defaultValue ? ` — ${activeArg.defaultValue}` : ''}`
+                        : `Type a command, search, or ${CAPTURE_PREFIX} to capture...`}
                     className="flex-1 bg-transparent text-lg text-nd-white outline-none placeholder-nd-gray/50 font-mono"
                 />
                 <div className="hidden md:flex items-center gap-1 text-[10px] text-nd-gray border border-nd-gray/30 px-2 py-1 rounded">
@@ -186,11 +472,33 @@ export const CommandPalette: React.FC = () => {
                 </div>
             </div>
 
+            {/* Quick Capture Preview */}
+            {showCapturePreview && capture && (
+                <div className="mx-2 mt-2 border border-nd-gray/40 rounded-lg p-3 bg-nd-gray/5">
+                    <div className="flex items-center justify-between mb-2 text-[10px] font-mono uppercase tracking-wider text-nd-gray">
+                        <span>Preview • {APP_REGISTRY[CAPTURE_APPS[capture.result.kind]].title}</span>
+                        <span>Enter to save</span>
+                    </div>
+                    <div className="grid grid-cols-[80px_1fr] gap-y-1 text-xs">
+                        {captureFields(capture.result).map(([label, value]) => (
+                            <React.Fragment key={label}>
+                                <span className="text-nd-gray">{label}</span>
+                                <span className={`truncate ${value === NO_ACCOUNT ? 'text-nd-red' : 'text-nd-white'}`}>{value}</span>
+                            </React.Fragment>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* Results */}
             <div className="max-h-[300px] overflow-y-auto p-2" ref={listRef}>
-                {results.length === 0 ? (
+                {pending && activeArg?.type !== 'select' ? (
+                    <div className="p-6 text-center text-xs font-mono text-nd-gray">
+                        Press <strong className="text-nd-white">Enter</strong> to {pending.step + 1 < pending.command.args!.length ? 'continue' : 'run'}
+                    </div>
+                ) : items.length === 0 ? (
                     <div className="p-8 text-center text-nd-gray">
-                        {commandPaletteQuery ? 'No results found.' : (
+                        {pending ? (argOptions ? 'No matching choices.' : 'Loading...') : commandPaletteQuery ? 'No results found.' : (
                             <div className="flex flex-col items-center gap-2 opacity-50">
                                 <Command size={32} />
                                 <span className="text-xs font-mono">waiting for input...</span>
@@ -198,10 +506,10 @@ export const CommandPalette: React.FC = () => {
                         )}
                     </div>
                 ) : (
-                    results.map((item, idx) => (
+                    items.map((item, idx) => (
                         <button
                             key={item.id}
-                            onClick={() => { item.action(); setCommandPaletteOpen(false); }}
+                            onClick={() => activate(item)}
                             onMouseEnter={() => setSelectedIndex(idx)}
                             className={`w-full flex items-center justify-between px-3 py-3 rounded-lg transition-all group ${
                                 idx === selectedIndex 
@@ -209,16 +517,24 @@ export const CommandPalette: React.FC = () => {
                                     : 'text-nd-gray hover:bg-nd-gray/10 hover:text-nd-white'
                             }`}
                         >
-                            <div className="flex items-center gap-3">
-                                <item.icon size={18} className={idx === selectedIndex ? 'text-nd-black' : 'text-nd-white'} />
-                                <div className="text-left">
-                                    <div className="text-sm font-bold">{item.title}</div>
-                                    {item.subtitle && <div className={`text-[10px] ${idx === selectedIndex ? 'text-nd-black/60' : 'text-nd-gray'}`}>{item.subtitle}</div>}
+                            <div className="flex items-center gap-3 min-w-0">
+                                <item.icon size={18} className={`shrink-0 ${idx === selectedIndex ? 'text-nd-black' : 'text-nd-white'}`} />
+                                <div className="text-left min-w-0">
+                                    <div className="text-sm font-bold">
+                                        {item.titleHighlight ? <Highlight value={item.titleHighlight} /> : item.title}
+                                    </div>
+                                    {item.subtitle && (
+                                        <div className={`text-[10px] line-clamp-2 ${idx === selectedIndex ? 'text-nd-black/60' : 'text-nd-gray'}`}>
+                                            {item.subtitleHighlight ? <Highlight value={item.subtitleHighlight} /> : item.subtitle}
+                                        </div>
+                                    )}
                                 </div>
                             </div>
                             
-                            {idx === selectedIndex && (
-                                <ArrowRight size={16} className="animate-in slide-in-from-left-2 fade-in duration-200" />
+                            {idx === selectedIndex ? (
+                                <ArrowRight size={16} className="shrink-0 animate-in slide-in-from-left-2 fade-in duration-200" />
+                            ) : item.badge && (
+                                <span className="shrink-0 ml-3 text-[9px] font-mono uppercase tracking-wider border border-nd-gray/30 px-1.5 py-0.5 rounded">{item.badge}</span>
                             )}
                         </button>
                     ))
@@ -228,7 +544,9 @@ export const CommandPalette: React.FC = () => {
             {/* Footer */}
             <div className="bg-nd-gray/10 px-4 py-2 border-t border-nd-gray/20 flex justify-between items-center text-[10px] text-nd-gray font-mono">
                 <div className="flex gap-4">
-                    <span><strong>ProTip:</strong> Use arrow keys to navigate</span>
+                    {pending
+                        ? <span><strong>ESC</strong> to go back to search</span>
+                        : <span><strong>ProTip:</strong> Filter with n: t: p: c: cb: m:</span>}
                 </div>
                 <div className="flex items-center gap-2">
                     <div className="w-2 h-2 rounded-full bg-nd-red animate-pulse"></div>
@@ -1,17 +1,17 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { AppID } from '../../types';
+import { AppID, LaunchOptions, WindowState } from '../../types';
 import { APP_REGISTRY } from '../../registry';
 import { useOS } from '../../context/OSContext';
 import { Settings, Plus, X, GripHorizontal, Check } from 'lucide-react';
 
 interface DockProps {
-  onOpenApp: (id: AppID) => void;
-  activeApp: string | null;
+  onOpenApp: (id: AppID, props?: any, options?: LaunchOptions) => void;
+  activeApp: AppID | null; // App of the focused window
   hasOpenWindows: boolean;
 }
 
 export const Dock: React.FC<DockProps> = ({ onOpenApp, activeApp, hasOpenWindows }) => {
-  const { dockApps, toggleDockApp } = useOS();
+  const { dockApps, toggleDockApp, windows, activeWorkspaceId } = useOS();
   const [isEditing, setIsEditing] = useState(false);
   
   // Auto-hide Logic
@@ -168,6 +168,7 @@ export const Dock: React.FC<DockProps> = ({ onOpenApp, activeApp, hasOpenWindows
 
               const isAi = appId === AppID.AI_CHAT;
               const isActive = activeApp === app.id;
+              const instanceCount = (Object.values(windows) as WindowState[]).filter(w => w.appId === app.id && w.workspaceId === activeWorkspaceId).length;
               
               return (
                 <div 
@@ -195,7 +196,11 @@ export const Dock: React.FC<DockProps> = ({ onOpenApp, activeApp, hasOpenWindows
                   )}
 
                   <div 
-                    onClick={() => !isEditing && onOpenApp(app.id)}
+                    onClick={(e) => {
+                        if (isEditing) return;
+                        // Shift+Click opens another window for multi-instance apps
+                        onOpenApp(app.id, undefined, e.shiftKey && app.multiInstance ? { newInstance: true } : undefined);
+                    }}
                     className={`
                         relative flex flex-col items-center justify-center cursor-pointer transition-all duration-500 ease-expo
                         ${isEditing ? 'animate-[wiggle_0.3s_infinite] pointer-events-none' : 'hover:-translate-y-2'}
@@ -212,17 +217,20 @@ export const Dock: React.FC<DockProps> = ({ onOpenApp, activeApp, hasOpenWindows
                       <app.icon size={24} strokeWidth={1.5} className="md:w-6 md:h-6" />
                     </div>
 
-                    {/* Active Indicator */}
-                    <div className={`
-                        absolute -bottom-2.5 left-1/2 -translate-x-1/2 w-1 h-1 rounded-full transition-all duration-300
-                        ${isActive && !isEditing ? 'bg-nd-white shadow-[0_0_8px_white] w-1.5 h-1.5' : 'bg-transparent w-0'}
-                    `} />
+                    {/* Running Indicator: one dot per open window, capped at three */}
+                    {!isEditing && instanceCount > 0 && (
+                        <div className="absolute -bottom-2.5 left-1/2 -translate-x-1/2 flex gap-0.5">
+                            {Array.from({ length: Math.min(instanceCount, 3) }).map((_, i) => (
+                                <div key={i} className={`rounded-full transition-all duration-300 ${isActive ? 'bg-nd-white shadow-[0_0_8px_white] w-1.5 h-1.5' : 'bg-nd-gray w-1 h-1'}`} />
+                            ))}
+                        </div>
+                    )}
                   </div>
                   
                   {/* Tooltip */}
                   {!isEditing && (
                       <div className="absolute -top-12 left-1/2 -translate-x-1/2 px-3 py-1.5 bg-nd-black/90 border border-nd-gray rounded-lg opacity-0 group-hover:opacity-100 transition-all duration-200 transform translate-y-2 group-hover:translate-y-0 pointer-events-none z-20 shadow-xl">
-                        <span className="text-[10px] font-bold text-nd-white whitespace-nowrap tracking-wide uppercase">{app.title}</span>
+                        <span className="text-[10px] font-bold text-nd-white whitespace-nowrap tracking-wide uppercase">{app.title}{instanceCount > 1 ? ` (${instanceCount})` : ''}</span>
                         {/* Triangle */}
                         <div className="absolute -bottom-1 left-1/2 -translate-x-1/2 w-2 h-2 bg-nd-black border-r border-b border-nd-gray transform rotate-45"></div>
                       </div>
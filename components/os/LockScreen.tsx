@@ -1,11 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { useOS } from '../../context/OSContext';
+import { useOS, LOCAL_ACCOUNT_ID } from '../../context/OSContext';
 import { ArrowRight, Lock, User, Mail, AlertCircle, Loader2 } from 'lucide-react';
 import { auth } from '../../services/firebase';
 import { signInWithEmailAndPassword, createUserWithEmailAndPassword } from 'firebase/auth';
 
 export const LockScreen: React.FC = () => {
-  const { setPowerState, authStatus } = useOS();
+  const { setPowerState, authStatus, accountId } = useOS();
   const [time, setTime] = useState(new Date());
   
   // Auth State
@@ -17,6 +17,9 @@ export const LockScreen: React.FC = () => {
 
   // Check if we are "Locked" (Session active) or "Logged Out"
   const currentUser = auth.currentUser;
+  // With an injected storage backend there is no account to sign in to
+  const isLocal = accountId === LOCAL_ACCOUNT_ID;
+  const signedIn = !!currentUser || isLocal;
 
   useEffect(() => {
     const i = setInterval(() => setTime(new Date()), 1000);
@@ -29,7 +32,7 @@ export const LockScreen: React.FC = () => {
     if (!password.trim()) return;
     
     // Unlock Mode (User already authenticated in session)
-    if (currentUser) {
+    if (signedIn) {
         // In a real OS, we'd verify the password again here.
         // For this web sim, since firebase persistence is on, we just "Unlock" the UI.
         // To make it feel real, we'll just add a fake delay.
@@ -96,7 +99,7 @@ export const LockScreen: React.FC = () => {
                    )}
                </div>
                <h2 className="text-lg font-bold tracking-wide">
-                   {currentUser ? (currentUser.displayName || currentUser.email || 'User') : (isRegistering ? 'Create Account' : 'Sign In')}
+                   {currentUser ? (currentUser.displayName || currentUser.email || 'User') : isLocal ? 'Local User' : (isRegistering ? 'Create Account' : 'Sign In')}
                </h2>
            </div>
 
@@ -107,7 +110,7 @@ export const LockScreen: React.FC = () => {
                    </div>
                )}
 
-               {!currentUser && (
+               {!signedIn && (
                    <div className="relative">
                        <Mail size={16} className="absolute left-4 top-1/2 -translate-y-1/2 text-nd-gray" />
                        <input 
@@ -116,7 +119,7 @@ export const LockScreen: React.FC = () => {
                          onChange={(e) => { setEmail(e.target.value); setError(null); }}
                          placeholder="Email Address"
                          className="w-full bg-white/5 border border-white/20 rounded-full py-3 pl-12 pr-6 text-sm outline-none focus:border-nd-white/50 transition-all placeholder-white/30 backdrop-blur-md"
-                         autoFocus={!currentUser}
+                         autoFocus={!signedIn}
                        />
                    </div>
                )}
@@ -129,7 +132,7 @@ export const LockScreen: React.FC = () => {
                      onChange={(e) => { setPassword(e.target.value); setError(null); }}
                      placeholder="Password"
                      className="w-full bg-white/5 border border-white/20 rounded-full py-3 pl-12 pr-12 text-sm outline-none focus:border-nd-white/50 transition-all placeholder-white/30 backdrop-blur-md"
-                     autoFocus={!!currentUser}
+                     autoFocus={signedIn}
                    />
                    <button 
                      type="submit"
@@ -141,7 +144,7 @@ export const LockScreen: React.FC = () => {
                </div>
            </form>
            
-           {!currentUser && (
+           {!signedIn && (
                <button 
                  onClick={() => { setIsRegistering(!isRegistering); setError(null); }}
                  className="text-xs text-nd-gray font-mono cursor-pointer hover:text-nd-white transition-colors"
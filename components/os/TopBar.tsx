@@ -1,9 +1,10 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Battery, Wifi, Power, LogOut, Moon, Command, Check, Maximize2, Minus, Scissors, Copy, Clipboard, Monitor, LayoutList, HelpCircle, FilePlus, X, Activity } from 'lucide-react';
+import { Battery, Wifi, WifiOff, Power, LogOut, Moon, Command, Check, Maximize2, Minus, Scissors, Copy, Clipboard, Monitor, LayoutList, HelpCircle, FilePlus, X, Activity, Plus, Pencil, Trash2, ArrowRightLeft, LayoutGrid, PanelLeft, PanelRight } from 'lucide-react';
 import { useOS } from '../../context/OSContext';
 import { ControlCenter } from './ControlCenter';
 import { auth } from '../../services/firebase';
-import { AppID } from '../../types';
+import { AppID, WindowState } from '../../types';
+import { formatBinding, tileShortcutId } from '../../services/shortcuts';
 
 export const TopBar: React.FC = () => {
   const { 
@@ -15,7 +16,19 @@ export const TopBar: React.FC = () => {
       minimizeApp, 
       focusApp, 
       setCommandPaletteOpen,
-      updateWindowState
+      updateWindowState,
+      tileWindow,
+      autoTileWindows,
+      isOnline,
+      pendingSyncCount,
+      workspaces,
+      activeWorkspaceId,
+      switchWorkspace,
+      createWorkspace,
+      renameWorkspace,
+      removeWorkspace,
+      moveWindowToWorkspace,
+      shortcutBindings
   } = useOS();
 
   const [time, setTime] = useState(new Date());
@@ -62,17 +75,30 @@ export const TopBar: React.FC = () => {
       setActiveMenu(null);
   };
 
+  // Menu labels show the live bindings from the shortcut registry
+  const keyFor = (id: string) => formatBinding(shortcutBindings[id]) || undefined;
+
+  // New Window opens another instance of the focused app, falling back to Files
+  const activeAppId = activeWindowId ? windows[activeWindowId]?.appId : undefined;
+  const workspaceWindows = (Object.values(windows) as WindowState[]).filter(w => w.workspaceId === activeWorkspaceId);
+  const activeWorkspace = workspaces.find(w => w.id === activeWorkspaceId);
+
+  const handleRenameWorkspace = () => {
+      const name = prompt('Rename workspace', activeWorkspace?.name);
+      if (name) renameWorkspace(activeWorkspaceId, name);
+  };
+
   const menuItems: Record<string, any[]> = {
       file: [
-          { label: 'New Window', icon: FilePlus, action: () => launchApp(AppID.FILES), shortcut: 'Ctrl+N' },
-          { label: 'Open...', icon: Command, action: () => setCommandPaletteOpen(true), shortcut: 'Ctrl+K' },
+          { label: 'New Window', icon: FilePlus, action: () => launchApp(activeAppId ?? AppID.FILES, undefined, { newInstance: true }), shortcut: keyFor('window-new') },
+          { label: 'Open...', icon: Command, action: () => setCommandPaletteOpen(true), shortcut: keyFor('palette-toggle') },
           { separator: true },
           { 
               label: 'Close Window', 
               icon: X,
-              action: () => activeWindowId && closeApp(activeWindowId as AppID), 
+              action: () => activeWindowId && closeApp(activeWindowId), 
               disabled: !activeWindowId, 
-              shortcut: 'Ctrl+W' 
+              shortcut: keyFor('window-close')
           },
           { separator: true },
           { label: 'Log Out', icon: LogOut, action: handleLogout },
@@ -83,7 +109,7 @@ export const TopBar: React.FC = () => {
           { label: 'Copy', icon: Copy, action: () => handleEditAction('copy'), shortcut: 'Ctrl+C' },
           { label: 'Paste', icon: Clipboard, action: () => handleEditAction('paste'), shortcut: 'Ctrl+V' },
           { separator: true },
-          { label: 'Clipboard History', icon: LayoutList, action: () => launchApp(AppID.CLIPBOARD) }
+          { label: 'Clipboard History', icon: LayoutList, action: () => launchApp(AppID.CLIPBOARD), shortcut: keyFor('clipboard-history') }
       ],
       view: [
           { 
@@ -91,28 +117,77 @@ export const TopBar: React.FC = () => {
               action: () => {
                   if (activeWindowId) {
                       const w = windows[activeWindowId];
-                      updateWindowState(activeWindowId as AppID, { isMaximized: !w.isMaximized });
+                      updateWindowState(activeWindowId, { isMaximized: !w.isMaximized });
                   }
               }, 
               disabled: !activeWindowId,
+              shortcut: keyFor('window-maximize'),
               icon: Maximize2
           },
           { 
               label: 'Minimize All', 
-              action: () => Object.keys(windows).forEach(id => minimizeApp(id as AppID)), 
-              shortcut: 'Win+D',
+              action: () => workspaceWindows.forEach(w => minimizeApp(w.id)), 
+              shortcut: keyFor('window-minimize-all'),
               icon: Minus
           },
+          { separator: true },
+          {
+              label: 'Auto-Tile Windows',
+              action: autoTileWindows,
+              disabled: !workspaceWindows.some(w => !w.isMinimized),
+              shortcut: keyFor('window-auto-tile'),
+              icon: LayoutGrid
+          },
+          {
+              label: 'Tile Left',
+              action: () => activeWindowId && tileWindow(activeWindowId, 'left-half'),
+              disabled: !activeWindowId,
+              shortcut: keyFor(tileShortcutId('left-half')),
+              icon: PanelLeft
+          },
+          {
+              label: 'Tile Right',
+              action: () => activeWindowId && tileWindow(activeWindowId, 'right-half'),
+              disabled: !activeWindowId,
+              shortcut: keyFor(tileShortcutId('right-half')),
+              icon: PanelRight
+          },
       ],
       window: [
-          { label: 'Task Manager', icon: Activity, action: () => launchApp(AppID.TASK_MANAGER), shortcut: 'Ctrl+Esc' },
+          { label: 'Task Manager', icon: Activity, action: () => launchApp(AppID.TASK_MANAGER), shortcut: keyFor('task-manager') },
           { separator: true },
-          ...(Object.values(windows).length > 0 ? Object.values(windows).map(w => ({
+          ...(workspaceWindows.length > 0 ? workspaceWindows.map(w => ({
               label: w.title,
-              action: () => focusApp(w.id as AppID),
+              action: () => focusApp(w.id),
               checked: activeWindowId === w.id,
               isWindowItem: true
-          })) : [{ label: 'No Active Windows', disabled: true }])
+          })) : [{ label: 'No Active Windows', disabled: true }]),
+          { separator: true },
+          ...workspaces
+              .filter(w => w.id !== activeWorkspaceId)
+              .map(w => ({
+                  label: `Move Window to ${w.name}`,
+                  icon: ArrowRightLeft,
+                  action: () => activeWindowId && moveWindowToWorkspace(activeWindowId, w.id),
+                  disabled: !activeWindowId
+              }))
+      ],
+      desktops: [
+          ...workspaces.map((w, i) => ({
+              label: w.name,
+              action: () => switchWorkspace(w.id),
+              checked: w.id === activeWorkspaceId,
+              shortcut: i < 9 ? keyFor(`workspace-${i + 1}`) : undefined
+          })),
+          { separator: true },
+          { label: 'New Desktop', icon: Plus, action: () => createWorkspace() },
+          { label: 'Rename Desktop...', icon: Pencil, action: handleRenameWorkspace },
+          {
+              label: 'Remove Desktop',
+              icon: Trash2,
+              action: () => confirm(`Remove "${activeWorkspace?.name}"? Its windows close and its widgets are deleted.`) && removeWorkspace(activeWorkspaceId),
+              disabled: workspaces.length <= 1
+          }
       ],
       help: [
           { label: 'Ask AI Assistant', icon: Command, action: () => launchApp(AppID.AI_CHAT) },
@@ -217,6 +292,22 @@ export const TopBar: React.FC = () => {
         
         {/* Right: Status Tray */}
         <div className="flex items-center gap-4 h-full relative" ref={controlRef}>
+            {/* Workspace Switcher */}
+            {workspaces.length > 1 && (
+                <div className="hidden sm:flex items-center gap-1">
+                    {workspaces.map((w, i) => (
+                        <button
+                            key={w.id}
+                            onClick={() => switchWorkspace(w.id)}
+                            title={w.name}
+                            className={`min-w-[20px] h-5 px-1.5 rounded text-[10px] font-mono font-bold transition-colors ${w.id === activeWorkspaceId ? 'bg-nd-white text-nd-black' : 'text-nd-gray hover:bg-nd-white/10 hover:text-nd-white'}`}
+                        >
+                            {w.id === activeWorkspaceId ? w.name : i + 1}
+                        </button>
+                    ))}
+                </div>
+            )}
+
             <button 
                 onClick={() => setShowControlCenter(!showControlCenter)}
                 className={`flex items-center gap-3 hover:bg-nd-white/10 px-2 py-1 rounded transition-colors ${showControlCenter ? 'bg-nd-white/10' : ''}`}
@@ -225,7 +316,14 @@ export const TopBar: React.FC = () => {
                     <span className="hidden sm:inline text-xs font-bold">100%</span>
                     <Battery size={16} />
                 </div>
-                <Wifi size={16} />
+                {isOnline ? (
+                    <Wifi size={16} />
+                ) : (
+                    <span className="flex items-center gap-1.5 text-nd-red" title="Offline: changes are saved locally">
+                        <WifiOff size={16} />
+                        {pendingSyncCount > 0 && <span className="text-[10px] font-mono font-bold">{pendingSyncCount}</span>}
+                    </span>
+                )}
                 <div className="w-px h-4 bg-nd-gray mx-1" />
                 <span className="text-xs font-mono font-bold">
                     {time.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
@@ -1,10 +1,10 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { useOS } from '../../context/OSContext';
+import { useOS, DEFAULT_WORKSPACE_ID } from '../../context/OSContext';
 import { WIDGET_REGISTRY } from '../widgets/WidgetRegistry';
 import { Move, X, GripHorizontal } from 'lucide-react';
 
 export const WidgetLayer: React.FC = () => {
-  const { widgets, updateWidget, removeWidget } = useOS();
+  const { widgets, updateWidget, removeWidget, activeWorkspaceId } = useOS();
   const containerRef = useRef<HTMLDivElement>(null);
 
   // --- Drag Logic ---
@@ -48,7 +48,7 @@ export const WidgetLayer: React.FC = () => {
 
   return (
     <div ref={containerRef} className="absolute inset-0 pointer-events-none z-0 overflow-hidden">
-        {widgets.map(widget => {
+        {widgets.filter(widget => (widget.workspaceId || DEFAULT_WORKSPACE_ID) === activeWorkspaceId).map(widget => {
             const config = WIDGET_REGISTRY[widget.type];
             if (!config) return null;
             const WidgetComponent = config.component;
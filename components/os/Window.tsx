@@ -1,14 +1,16 @@
 import React, { useState, useEffect, useRef, Suspense } from 'react';
-import { X, Minus, Square, Loader2 } from 'lucide-react';
+import { X, Minus, Square, Loader2, LayoutGrid } from 'lucide-react';
 import { AppID, WindowState } from '../../types';
 import { useOS } from '../../context/OSContext';
 import { ErrorBoundary } from '../ui/ErrorBoundary';
+import { TILE_LAYOUTS, TileLayout, tileRect } from '../../services/tiling';
+import { formatBinding, tileShortcutId } from '../../services/shortcuts';
 
 interface WindowProps {
   app: WindowState;
-  onClose: (id: AppID) => void;
-  onFocus: (id: AppID) => void;
-  onMinimize: (id: AppID) => void;
+  onClose: (id: string) => void; // Window instance id
+  onFocus: (id: string) => void;
+  onMinimize: (id: string) => void;
   children: React.ReactNode;
 }
 
@@ -18,6 +20,45 @@ type SnapType = 'left' | 'right' | 'maximize' | null;
 const SNAP_THRESHOLD = 20;
 const TOP_BAR_HEIGHT = 40; 
 
+const LAYOUT_GROUPS = ['Halves', 'Thirds', 'Quarters'] as const;
+
+// Layout picker shown from the title bar; each option is a thumbnail of the screen area it fills
+const LayoutPicker = ({ onSelect, bindings }: { onSelect: (layout: TileLayout) => void, bindings: Record<string, string | null> }) => (
+  <div
+    onMouseDown={(e) => e.stopPropagation()}
+    onDoubleClick={(e) => e.stopPropagation()}
+    className="absolute top-full right-0 mt-1 w-56 bg-nd-black/95 backdrop-blur-xl border border-nd-gray/50 rounded-lg shadow-2xl p-3 z-50 animate-in fade-in zoom-in-95 duration-75 space-y-3"
+  >
+      {LAYOUT_GROUPS.map(group => (
+          <div key={group}>
+              <div className="text-[9px] font-mono uppercase tracking-widest text-nd-gray mb-1.5">{group}</div>
+              <div className="flex flex-wrap gap-1.5">
+                  {(Object.entries(TILE_LAYOUTS) as [TileLayout, typeof TILE_LAYOUTS[TileLayout]][])
+                    .filter(([, config]) => config.group === group)
+                    .map(([layout, config]) => (
+                      <button
+                          key={layout}
+                          onClick={() => onSelect(layout)}
+                          title={bindings[tileShortcutId(layout)] ? `${config.label} (${formatBinding(bindings[tileShortcutId(layout)])})` : config.label}
+                          className="relative w-9 h-6 border border-nd-gray/60 rounded-sm hover:border-nd-white group/tile"
+                      >
+                          <span
+                              className="absolute bg-nd-gray/50 group-hover/tile:bg-nd-red rounded-[1px] transition-colors"
+                              style={{
+                                  left: `calc(${config.rect.x * 100}% + 1px)`,
+                                  top: `calc(${config.rect.y * 100}% + 1px)`,
+                                  width: `calc(${config.rect.w * 100}% - 2px)`,
+                                  height: `calc(${config.rect.h * 100}% - 2px)`,
+                              }}
+                          />
+                      </button>
+                  ))}
+              </div>
+          </div>
+      ))}
+  </div>
+);
+
 // Loading Spinner for Lazy Apps
 const WindowLoader = () => (
   <div className="flex flex-col items-center justify-center h-full text-nd-gray gap-3 bg-transparent">
@@ -27,7 +68,9 @@ const WindowLoader = () => (
 );
 
 export const Window: React.FC<WindowProps> = ({ app, onClose, onFocus, onMinimize, children }) => {
-  const { updateWindowState } = useOS();
+  const { updateWindowState, tileWindow, shortcutBindings } = useOS();
+  const [showLayouts, setShowLayouts] = useState(false);
+  const layoutRef = useRef<HTMLDivElement>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [isResizing, setIsResizing] = useState(false);
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
@@ -49,6 +92,15 @@ export const Window: React.FC<WindowProps> = ({ app, onClose, onFocus, onMinimiz
     }
   }, [app.position, app.size, isDragging, isResizing]);
 
+  useEffect(() => {
+    if (!showLayouts) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (layoutRef.current && !layoutRef.current.contains(e.target as Node)) setShowLayouts(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [showLayouts]);
+
   // --- Handlers ---
 
   const handleMouseDown = (e: React.MouseEvent) => {
@@ -146,12 +198,9 @@ export const Window: React.FC<WindowProps> = ({ app, onClose, onFocus, onMinimiz
         if (isDragging) {
             setIsDragging(false);
             if (snapPreview) {
-                const screenW = window.innerWidth;
-                const screenH = window.innerHeight - 32;
-                
                 if (snapPreview === 'maximize') updateWindowState(app.id, { isMaximized: true });
-                else if (snapPreview === 'left') updateWindowState(app.id, { isMaximized: false, position: { x: 0, y: 32 }, size: { width: screenW / 2, height: screenH } });
-                else if (snapPreview === 'right') updateWindowState(app.id, { isMaximized: false, position: { x: screenW / 2, y: 32 }, size: { width: screenW / 2, height: screenH } });
+                else if (snapPreview === 'left') updateWindowState(app.id, { isMaximized: false, ...tileRect('left-half') });
+                else if (snapPreview === 'right') updateWindowState(app.id, { isMaximized: false, ...tileRect('right-half') });
                 setSnapPreview(null);
             } else {
                 updateWindowState(app.id, { position });
@@ -266,6 +315,12 @@ export const Window: React.FC<WindowProps> = ({ app, onClose, onFocus, onMinimiz
                     <button onClick={() => onMinimize(app.id)} className="p-1.5 hover:bg-nd-gray/20 rounded text-nd-gray hover:text-nd-white transition-colors">
                         <Minus size={14} />
                     </button>
+                    <div className="relative hidden md:block" ref={layoutRef}>
+                        <button onClick={() => setShowLayouts(!showLayouts)} title="Tile Window" className={`p-1.5 hover:bg-nd-gray/20 rounded hover:text-nd-white transition-colors ${showLayouts ? 'text-nd-white bg-nd-gray/20' : 'text-nd-gray'}`}>
+                            <LayoutGrid size={12} />
+                        </button>
+                        {showLayouts && <LayoutPicker bindings={shortcutBindings} onSelect={(layout) => { tileWindow(app.id, layout); setShowLayouts(false); }} />}
+                    </div>
                     <button onClick={handleToggleMaximize} className="hidden md:block p-1.5 hover:bg-nd-gray/20 rounded text-nd-gray hover:text-nd-white transition-colors">
                         <Square size={10} />
                     </button>
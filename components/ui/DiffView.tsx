@@ -0,0 +1,95 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronsUpDown } from 'lucide-react';
+import { DiffCell, DiffRow, sideBySideDiff } from '../../services/diff';
+
+interface DiffViewProps {
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+  rows?: DiffRow[]; // Precomputed by the caller, e.g. to show stats as well
+}
+
+const CONTEXT_LINES = 3; // Unchanged lines kept around each change
+
+const CELL_STYLES: Record<DiffCell['type'], string> = {
+  equal: '',
+  delete: 'bg-nd-red/15',
+  insert: 'bg-green-500/15',
+  change: '',
+};
+
+const DiffCellView: React.FC<{ cell: DiffCell | null; side: 'left' | 'right' }> = ({ cell, side }) => {
+  if (!cell) return <div className="bg-nd-gray/10 col-span-2" />;
+  const changeStyle = side === 'left' ? 'bg-nd-red/10' : 'bg-green-500/10';
+  const wordStyle = side === 'left' ? 'bg-nd-red/40 line-through decoration-nd-red/60' : 'bg-green-500/40';
+  return (
+    <>
+      <div className={`text-right pr-2 select-none text-nd-gray/60 ${cell.type === 'change' ? changeStyle : CELL_STYLES[cell.type]}`}>{cell.line}</div>
+      <div className={`pr-3 whitespace-pre-wrap break-words ${cell.type === 'change' ? changeStyle : CELL_STYLES[cell.type]}`}>
+        {cell.words
+          ? cell.words.map((word, i) => (word.type === 'equal' ? word.value : <span key={i} className={`rounded-sm ${wordStyle}`}>{word.value}</span>))
+          : cell.text || ' '}
+      </div>
+    </>
+  );
+};
+
+// Two-column diff with long unchanged stretches folded away
+export const DiffView: React.FC<DiffViewProps> = ({ before, after, beforeLabel, afterLabel, rows: precomputed }) => {
+  const rows = useMemo(() => precomputed ?? sideBySideDiff(before, after), [precomputed, before, after]);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  // Runs of unchanged rows far from any change, keyed by their first row
+  const folds = useMemo(() => {
+    const changed = rows.map(r => r.left?.type !== 'equal' || r.right?.type !== 'equal');
+    const near = changed.map((_, i) => changed.slice(Math.max(0, i - CONTEXT_LINES), i + CONTEXT_LINES + 1).some(Boolean));
+    const result = new Map<number, number>(); // start -> length
+    for (let i = 0; i < rows.length;) {
+      if (near[i]) { i++; continue; }
+      let end = i;
+      while (end < rows.length && !near[end]) end++;
+      if (end - i > 1) result.set(i, end - i);
+      i = end;
+    }
+    return result;
+  }, [rows]);
+
+  const content: React.ReactNode[] = [];
+  for (let i = 0; i < rows.length; i++) {
+    const fold = folds.get(i);
+    if (fold && !expanded.has(i)) {
+      content.push(
+        <button
+          key={`fold-${i}`}
+          onClick={() => setExpanded(new Set(expanded).add(i))}
+          className="col-span-4 flex items-center justify-center gap-2 py-1 my-1 bg-nd-gray/10 text-nd-gray hover:text-nd-white text-[10px] uppercase"
+        >
+          <ChevronsUpDown size={10} /> {fold} unchanged lines
+        </button>
+      );
+      i += fold - 1;
+      continue;
+    }
+    content.push(
+      <React.Fragment key={i}>
+        <DiffCellView cell={rows[i].left} side="left" />
+        <DiffCellView cell={rows[i].right} side="right" />
+      </React.Fragment>
+    );
+  }
+
+  return (
+    <div className="font-mono text-xs leading-relaxed">
+      <div className="grid grid-cols-[3rem_1fr_3rem_1fr] sticky top-0 bg-nd-black border-b border-nd-gray z-10 text-[10px] text-nd-gray uppercase tracking-wider">
+        <div className="col-span-2 py-2 pl-2 truncate">{beforeLabel}</div>
+        <div className="col-span-2 py-2 pl-2 truncate border-l border-nd-gray">{afterLabel}</div>
+      </div>
+      {rows.every(r => r.left?.type === 'equal' && r.right?.type === 'equal') ? (
+        <p className="p-6 text-center text-nd-gray">NO DIFFERENCES</p>
+      ) : (
+        <div className="grid grid-cols-[3rem_1fr_3rem_1fr]">{content}</div>
+      )}
+    </div>
+  );
+};
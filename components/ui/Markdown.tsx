@@ -0,0 +1,154 @@
+import React, { useMemo } from 'react';
+import { Copy } from 'lucide-react';
+import { MarkdownBlock, MarkdownInline, CodeTokenKind, parseMarkdown, highlightCode } from '../../services/markdown';
+import { WikiLink } from '../../services/wikiLinks';
+
+interface MarkdownProps {
+  content: string;
+  className?: string;
+  onWikiLinkClick?: (link: WikiLink) => void;       // Enables [[wiki link]] parsing
+  renderEmbed?: (link: WikiLink) => React.ReactNode; // Content for ![[embeds]]; those it returns nothing for show as links
+  onToggleTask?: (line: number, checked: boolean) => void; // Makes task list checkboxes clickable
+}
+
+const HEADING_STYLES = [
+  'text-2xl font-bold tracking-tight mt-6 mb-3',
+  'text-xl font-bold tracking-tight mt-5 mb-2',
+  'text-lg font-bold mt-4 mb-2',
+  'text-base font-bold mt-3 mb-1',
+  'text-sm font-bold uppercase tracking-wider mt-3 mb-1',
+  'text-xs font-bold uppercase tracking-wider opacity-70 mt-3 mb-1',
+];
+
+const TOKEN_STYLES: Record<CodeTokenKind, string> = {
+  plain: '',
+  keyword: 'text-nd-red',
+  string: 'text-green-400',
+  comment: 'text-nd-white/40 italic',
+  number: 'text-yellow-400',
+  literal: 'text-blue-400',
+};
+
+const CodeBlock: React.FC<{ lang: string; text: string }> = ({ lang, text }) => {
+  const tokens = useMemo(() => highlightCode(text, lang), [text, lang]);
+  return (
+    <div className="bg-nd-gray/20 rounded-md border border-nd-gray/50 overflow-hidden my-2">
+      <div className="flex justify-between items-center px-3 py-1 bg-nd-black/50 border-b border-nd-gray/30 text-[10px] text-nd-gray">
+        <span className="font-mono uppercase">{lang || 'CODE'}</span>
+        <button onClick={() => navigator.clipboard.writeText(text)} className="hover:text-nd-white flex items-center gap-1">
+          <Copy size={10} /> COPY
+        </button>
+      </div>
+      <pre className="p-3 text-xs font-mono overflow-x-auto text-nd-white/90">
+        <code>
+          {tokens.map((token, i) => (token.kind === 'plain' ? token.text : <span key={i} className={TOKEN_STYLES[token.kind]}>{token.text}</span>))}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+// Renders Markdown as React elements; see services/markdown for what is supported and why it is safe
+export const Markdown: React.FC<MarkdownProps> = ({ content, className = '', onWikiLinkClick, renderEmbed, onToggleTask }) => {
+  const blocks = useMemo(() => parseMarkdown(content, { wikiLinks: !!onWikiLinkClick }), [content, !!onWikiLinkClick]);
+
+  const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] =>
+    nodes.map((node, i) => {
+      switch (node.type) {
+        case 'text': return node.text;
+        case 'break': return <br key={i} />;
+        case 'code': return <code key={i} className="px-1 py-0.5 rounded bg-nd-gray/40 font-mono text-[0.9em]">{node.text}</code>;
+        case 'strong': return <strong key={i} className="font-bold">{renderInline(node.children)}</strong>;
+        case 'em': return <em key={i}>{renderInline(node.children)}</em>;
+        case 'del': return <del key={i} className="opacity-60">{renderInline(node.children)}</del>;
+        case 'image': return <img key={i} src={node.src} alt={node.alt} title={node.title} className="max-w-full rounded my-2 border border-nd-gray/50" />;
+        case 'link':
+          return (
+            <a key={i} href={node.href} title={node.title} target="_blank" rel="noopener noreferrer nofollow" className="underline decoration-nd-red underline-offset-2 hover:text-nd-red">
+              {renderInline(node.children)}
+            </a>
+          );
+        case 'embed': {
+          const embedded = renderEmbed?.(node.link);
+          if (embedded) return <React.Fragment key={i}>{embedded}</React.Fragment>;
+        }
+        // falls through
+        case 'wikilink':
+          return (
+            <button key={i} onClick={() => onWikiLinkClick?.(node.link)} className="text-nd-red hover:underline underline-offset-2">
+              {node.link.label}
+            </button>
+          );
+      }
+    });
+
+  const renderBlocks = (list: MarkdownBlock[], tight = false): React.ReactNode[] =>
+    list.map((block, i) => {
+      switch (block.type) {
+        case 'heading': {
+          const Tag = `h${block.level}` as 'h1';
+          return <Tag key={i} className={HEADING_STYLES[block.level - 1]}>{renderInline(block.children)}</Tag>;
+        }
+        case 'paragraph':
+          return tight ? <React.Fragment key={i}>{renderInline(block.children)}</React.Fragment> : <p key={i} className="my-2">{renderInline(block.children)}</p>;
+        case 'code':
+          return <CodeBlock key={i} lang={block.lang} text={block.text} />;
+        case 'quote':
+          return <blockquote key={i} className="border-l-2 border-nd-red pl-4 my-3 opacity-80">{renderBlocks(block.children)}</blockquote>;
+        case 'rule':
+          return <hr key={i} className="border-nd-gray my-4" />;
+        case 'list': {
+          const Tag = block.ordered ? 'ol' : 'ul';
+          return (
+            <Tag key={i} start={block.ordered ? block.start : undefined} className={`my-2 pl-6 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+              {block.items.map((item, j) => (
+                <li key={j} className={item.checked !== null ? 'list-none -ml-6 flex items-start gap-2' : ''}>
+                  {item.checked !== null && (
+                    <input
+                      type="checkbox"
+                      checked={item.checked}
+                      disabled={!onToggleTask}
+                      onChange={(e) => onToggleTask?.(item.line, e.target.checked)}
+                      className="mt-1.5 accent-[var(--color-accent)] shrink-0"
+                    />
+                  )}
+                  <div className={`min-w-0 ${item.checked ? 'line-through opacity-50' : ''}`}>
+                    {renderBlocks(item.children, item.children.length === 1 || item.children[1]?.type === 'list')}
+                  </div>
+                </li>
+              ))}
+            </Tag>
+          );
+        }
+        case 'table':
+          return (
+            <div key={i} className="overflow-x-auto my-3">
+              <table className="border-collapse text-sm">
+                <thead>
+                  <tr>
+                    {block.header.map((cell, c) => (
+                      <th key={c} style={{ textAlign: block.align[c] || undefined }} className="border border-nd-gray px-3 py-1.5 font-bold bg-nd-gray/20">
+                        {renderInline(cell)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {block.rows.map((row, r) => (
+                    <tr key={r}>
+                      {row.map((cell, c) => (
+                        <td key={c} style={{ textAlign: block.align[c] || undefined }} className="border border-nd-gray px-3 py-1.5">
+                          {renderInline(cell)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          );
+      }
+    });
+
+  return <div className={`leading-relaxed break-words ${className}`}>{renderBlocks(blocks)}</div>;
+};
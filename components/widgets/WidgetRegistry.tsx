@@ -6,8 +6,7 @@ import {
   HardDrive, BrainCircuit, TrendingUp, TrendingDown, ArrowUp, ArrowDown
 } from 'lucide-react';
 import { useOS } from '../../context/OSContext';
-import { db, auth } from '../../services/firebase';
-import { ref, onValue, update, set } from 'firebase/database';
+import { toList } from '../../services/storage';
 
 // --- Types ---
 
@@ -17,45 +16,23 @@ interface WidgetProps {
 }
 
 // --- Helper: Data Fetching Hook ---
-function useWidgetData<T>(path: string, storageKey: string, defaultValue: T): [T, (val: T) => void] {
-  const { authStatus } = useOS();
+function useWidgetData<T>(path: string, defaultValue: T): [T, (val: T) => void] {
+  const { storage } = useOS();
   const [data, setData] = useState<T>(defaultValue);
 
   useEffect(() => {
-    if (authStatus === 'connected' && auth.currentUser) {
-      const dbRef = ref(db, `users/${auth.currentUser.uid}/${path}`);
-      const unsub = onValue(dbRef, (snap) => {
-        const val = snap.val();
+    return storage.subscribe(path, (val) => {
         if (val) {
             // Handle array vs object
-            if (Array.isArray(defaultValue)) {
-                setData(Object.values(val) as any);
-            } else {
-                setData(val);
-            }
+            setData(Array.isArray(defaultValue) ? toList(val) as any : val);
         } else {
             setData(defaultValue);
         }
-      });
-      return () => unsub();
-    } else {
-      const local = localStorage.getItem(storageKey);
-      if (local) setData(JSON.parse(local));
-    }
-  }, [authStatus, path, storageKey]);
-
-  const updateData = (newData: T) => {
-      // Optimistic update
-      setData(newData);
-      
-      if (authStatus === 'connected' && auth.currentUser) {
-          // For simple widgets we might just overwrite the path or update specific items
-      } else {
-          localStorage.setItem(storageKey, JSON.stringify(newData));
-      }
-  };
-
-  return [data, updateData];
+    });
+  }, [storage, path]);
+
+  // Optimistic update; widgets persist the specific items they change
+  return [data, setData];
 }
 
 // 1. Clock Widget
@@ -165,7 +142,7 @@ const StatsWidget: React.FC<WidgetProps> = () => {
 
 // 6. Calendar Widget
 const CalendarWidget: React.FC<WidgetProps> = () => {
-    const [events] = useWidgetData<any[]>('calendar/events', 'nd_os_calendar_events', []);
+    const [events] = useWidgetData<any[]>('calendar/events', []);
     const today = new Date();
     
     // Filter today's upcoming events
@@ -210,8 +187,8 @@ const CalendarWidget: React.FC<WidgetProps> = () => {
 
 // 7. Tasks Widget
 const TasksWidget: React.FC<WidgetProps> = () => {
-    const { authStatus } = useOS();
-    const [tasks, setTasks] = useWidgetData<any[]>('tasks', 'nd_os_tasks', []);
+    const { storage } = useOS();
+    const [tasks, setTasks] = useWidgetData<any[]>('tasks', []);
     
     // Get top 3 pending tasks
     const pendingTasks = tasks.filter(t => !t.completed).slice(0, 3);
@@ -221,12 +198,8 @@ const TasksWidget: React.FC<WidgetProps> = () => {
         setTasks(updatedTasks);
         
         // Persist
-        if (authStatus === 'connected' && auth.currentUser) {
-            const task = updatedTasks.find(t => t.id === taskId);
-            if(task) update(ref(db, `users/${auth.currentUser.uid}/tasks/${taskId}`), task);
-        } else {
-            localStorage.setItem('nd_os_tasks', JSON.stringify(updatedTasks));
-        }
+        const task = updatedTasks.find(t => t.id === taskId);
+        if (task) storage.update(`tasks/${taskId}`, task);
     };
 
     return (
@@ -255,9 +228,9 @@ const TasksWidget: React.FC<WidgetProps> = () => {
 
 // 8. Habits Widget
 const HabitsWidget: React.FC<WidgetProps> = () => {
-    const { authStatus } = useOS();
-    const [habits] = useWidgetData<any[]>('habits', 'nd_os_habits', []);
-    const [logs, setLogs] = useWidgetData<any>('habit_logs', 'nd_os_habit_logs', {});
+    const { storage } = useOS();
+    const [habits] = useWidgetData<any[]>('habits', []);
+    const [logs, setLogs] = useWidgetData<any>('habit_logs', {});
     
     const todayKey = (() => {
         const d = new Date();
@@ -277,11 +250,7 @@ const HabitsWidget: React.FC<WidgetProps> = () => {
         
         setLogs(updatedAllLogs);
 
-        if (authStatus === 'connected' && auth.currentUser) {
-            update(ref(db, `users/${auth.currentUser.uid}/habit_logs`), { [todayKey]: newLogs });
-        } else {
-            localStorage.setItem('nd_os_habit_logs', JSON.stringify(updatedAllLogs));
-        }
+        storage.update('habit_logs', { [todayKey]: newLogs });
     };
 
     return (
@@ -313,7 +282,7 @@ const HabitsWidget: React.FC<WidgetProps> = () => {
 
 // 9. Wallet Widget
 const WalletWidget: React.FC<WidgetProps> = () => {
-    const [accounts] = useWidgetData<any[]>('wallet/accounts', 'nd_os_wallet_accounts', []);
+    const [accounts] = useWidgetData<any[]>('wallet/accounts', []);
     
     const totalBalance = accounts.reduce((acc, a) => acc + (a.balance || 0), 0);
 
@@ -398,8 +367,8 @@ const StorageWidget: React.FC<WidgetProps> = () => {
 
 // 12. Focus Widget
 const FocusWidget: React.FC<WidgetProps> = () => {
-    // Read from localStorage/FB for simplicity in widget
-    const [sessions] = useWidgetData<any[]>('focus_sessions', 'nd_os_focus_history', []);
+    // Read-only view of the Clock app's focus history
+    const [sessions] = useWidgetData<any[]>('focus_sessions', []);
     
     const todayMinutes = sessions
         .filter(s => new Date(s.timestamp).toDateString() === new Date().toDateString())
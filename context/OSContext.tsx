@@ -1,9 +1,13 @@
-import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
-import { AppID, WindowState, OSContextState, LogEntry, WidgetInstance, WidgetType, AppUsageStats, SystemPowerState, FileNode } from '../types';
+import React, { createContext, useContext, useState, useEffect, useRef, useMemo } from 'react';
+import { AppID, WindowState, WindowSession, Workspace, LaunchOptions, OSContextState, LogEntry, WidgetInstance, WidgetType, AppUsageStats, SystemPowerState, FileNode } from '../types';
 import { APP_REGISTRY } from '../registry';
-import { auth, db } from '../services/firebase';
+import { auth } from '../services/firebase';
 import { onAuthStateChanged } from 'firebase/auth';
-import { ref, onValue, set as firebaseSet, push, update, get, remove } from 'firebase/database';
+import { StorageBackend, createFirebaseStorage, getLocalStorage } from '../services/storage';
+import { TileLayout, tileRect, autoTileRects } from '../services/tiling';
+import { ShortcutDefinition, ShortcutBindings, SYSTEM_SHORTCUTS, eventToBinding, firesWhileTyping, isAltGraph, isTypingTarget, matchShortcut, resolveBindings } from '../services/shortcuts';
+import { SearchDocument, SearchHit, SearchIndex, STORAGE_SEARCH_SOURCES, buildSearchIndex, searchIndexes, fileDocuments } from '../services/search';
+import { readSnapshot, writeSnapshot, enqueueMutation, listMutations, updateMutation, deleteMutation, MutationOp, QueuedMutation } from '../services/offlineStore';
 
 const OSContext = createContext<OSContextState | undefined>(undefined);
 
@@ -19,23 +23,118 @@ const DEFAULT_DOCK: AppID[] = [
   AppID.SETTINGS
 ];
 
+export const DEFAULT_WORKSPACE_ID = 'ws_default';
+
+// Account the shell's data belongs to when a storage backend is injected instead of signing in
+export const LOCAL_ACCOUNT_ID = 'local';
+
+const DEFAULT_WORKSPACES: Workspace[] = [{ id: DEFAULT_WORKSPACE_ID, name: 'Desktop 1' }];
+
 const DEFAULT_FS: FileNode[] = [
     { id: 'f_desktop', parentId: 'root', name: 'Desktop', type: 'folder', size: 0, createdAt: Date.now(), updatedAt: Date.now() },
     { id: 'f_docs', parentId: 'root', name: 'Documents', type: 'folder', size: 0, createdAt: Date.now(), updatedAt: Date.now() },
     { id: 'f_imgs', parentId: 'root', name: 'Images', type: 'folder', size: 0, createdAt: Date.now(), updatedAt: Date.now() },
 ];
 
-export const OSProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+const MAX_REPLAY_ATTEMPTS = 5;
+const REPLAY_RETRY_MS = 30_000;
+
+// Rejected by the server rather than lost on the way; retrying won't help
+const isPermanentSyncError = (err: any) => /permission[_ ]denied|invalid/i.test(String(err?.code || err?.message || err));
+
+let windowCounter = 0;
+const createWindowId = (appId: AppID) => `${appId}_${Date.now().toString(36)}${(windowCounter++).toString(36)}`;
+
+const sameLaunchProps = (a: any, b: any) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Accepts a window instance id, or an AppID meaning every window of that app
+const resolveWindowIds = (windows: Record<string, WindowState>, id: string): string[] =>
+  windows[id] ? [id] : Object.values(windows).filter(w => w.appId === id).map(w => w.id);
+
+// Moves windows off workspaces that no longer exist (e.g. deleted on another device) so they
+// don't become unreachable. Returns the same object when nothing needed moving.
+const remapWorkspaces = (windows: Record<string, WindowState>, workspaceIds: string[], fallbackId: string) => {
+  const orphans = Object.values(windows).filter(w => !workspaceIds.includes(w.workspaceId));
+  if (orphans.length === 0) return windows;
+  const next = { ...windows };
+  orphans.forEach(w => { next[w.id] = { ...w, workspaceId: fallbackId }; });
+  return next;
+};
+
+// Keeps only windows of apps that still exist; strips undefined values (Firebase rejects them).
+// With `workspaceIds`, windows on unknown workspaces go to the session's active one, else the first.
+const sanitizeSession = (session: Partial<WindowSession> | null | undefined, workspaceIds?: string[]): WindowSession | null => {
+  if (!session?.windows) return null;
+  let windows: Record<string, WindowState> = {};
+  Object.values(session.windows).forEach((w: WindowState) => {
+    if (w && APP_REGISTRY[w.appId]) windows[w.id] = { ...w, workspaceId: w.workspaceId || DEFAULT_WORKSPACE_ID, isOpen: true };
+  });
+  if (workspaceIds?.length) {
+    const fallbackId = session.activeWorkspaceId && workspaceIds.includes(session.activeWorkspaceId) ? session.activeWorkspaceId : workspaceIds[0];
+    windows = remapWorkspaces(windows, workspaceIds, fallbackId);
+  }
+  const activeWindowId = session.activeWindowId && windows[session.activeWindowId] ? session.activeWindowId : null;
+  return JSON.parse(JSON.stringify({ windows, activeWindowId, activeWorkspaceId: session.activeWorkspaceId, savedAt: session.savedAt || 0 }));
+};
+
+interface StoredSession {
+  restore?: boolean;
+  state?: WindowSession;
+}
+
+interface OSProviderProps {
+  children: React.ReactNode;
+  storage?: StorageBackend; // Overrides backend selection (e.g. createMemoryStorage() in tests)
+}
+
+export const OSProvider: React.FC<OSProviderProps> = ({ children, storage: storageOverride }) => {
   const [windows, setWindows] = useState<Record<string, WindowState>>({});
+  const windowsRef = useRef<Record<string, WindowState>>(windows);
+  windowsRef.current = windows;
   const [activeWindowId, setActiveWindowId] = useState<string | null>(null);
   const [authStatus, setAuthStatus] = useState<'connecting' | 'connected' | 'error'>('connecting');
+  const [uid, setUid] = useState<string | null>(null); // Firebase uid, or LOCAL_ACCOUNT_ID with an injected backend
+  const uidRef = useRef<string | null>(null);
+  const shellListenersRef = useRef<(() => void)[]>([]); // Backend subscriptions of the connected account
+  const connectionRef = useRef(0); // Bumped on every connect and disconnect, so stale async work can tell
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [widgets, setWidgets] = useState<WidgetInstance[]>([]);
   const [powerState, setPowerState] = useState<SystemPowerState>('BOOTING');
   const [fs, setFs] = useState<FileNode[]>([]);
   const [dockApps, setDockApps] = useState<AppID[]>(DEFAULT_DOCK);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(DEFAULT_WORKSPACES);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState(DEFAULT_WORKSPACE_ID);
+  // Falls back to the first workspace if the active one was removed on another device
+  const currentWorkspaceId: string = workspaces.some((w: Workspace) => w.id === activeWorkspaceId) ? activeWorkspaceId : workspaces[0].id;
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  // Offline queue bookkeeping. Writes may only go straight to the cloud once the queue is known
+  // to be empty; otherwise they'd land before older queued ones and be overwritten on replay.
+  const queueLoadedRef = useRef(false);
+  const queuedCountRef = useRef(0); // Queued or being queued, not yet replayed
+  const enqueueChainRef = useRef<Promise<unknown>>(Promise.resolve()); // Queue writes, in order
+  const replayRef = useRef<Promise<void> | null>(null); // The running replay, if any
+  const replayRetryRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Window Session: undefined until the user's saved session has been read
+  const [savedSession, setSavedSession] = useState<WindowSession | null | undefined>(undefined);
+  const [restoreSession, setRestoreSessionState] = useState(true);
+  const restoreSessionRef = useRef(true);
+  const savedSessionRef = useRef<WindowSession | null>(null);
+  const sessionReadyRef = useRef(false); // Saving starts only once the saved session was applied
+  const sessionSaveRef = useRef<NodeJS.Timeout | null>(null);
   
+  // Keyboard Shortcuts: definitions and bindings are state, handlers are not
+  const [shortcuts, setShortcuts] = useState<ShortcutDefinition[]>(() => [
+      ...SYSTEM_SHORTCUTS,
+      ...Object.values(APP_REGISTRY).flatMap(app => app.shortcuts ?? []),
+  ]);
+  const [shortcutOverrides, setShortcutOverrides] = useState<ShortcutBindings>({});
+  const shortcutHandlers = useRef<Record<string, (() => void)[]>>({});
+
+  // Content Search: one index per source
+  const [searchSources, setSearchSources] = useState<Record<string, SearchIndex>>({});
+
   // Command Palette State
   const [isCommandPaletteOpen, setCommandPaletteOpen] = useState(false);
   const [commandPaletteQuery, setCommandPaletteQuery] = useState('');
@@ -44,6 +143,12 @@ export const OSProvider: React.FC<{ children: React.ReactNode }> = ({ children }
   const appStartTimes = useRef<Record<string, number>>({}); 
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Signed-in users sync through Firebase, everyone else stays on this device
+  const storage = useMemo<StorageBackend>(() => {
+      if (storageOverride) return storageOverride;
+      return uid ? createFirebaseStorage(uid) : getLocalStorage();
+  }, [storageOverride, uid]);
+
   // --- Network Sentinel ---
   useEffect(() => {
       const handleOnline = () => {
@@ -52,7 +157,7 @@ export const OSProvider: React.FC<{ children: React.ReactNode }> = ({ children }
       };
       const handleOffline = () => {
           setIsOnline(false);
-          addLog({ source: 'Network', message: 'Connection Lost: Offline Mode Enforced', type: 'error', isCloud: false });
+          addLog({ source: 'Network', message: 'Connection Lost: Changes will sync on reconnect', type: 'warning', isCloud: false });
       };
 
       window.addEventListener('online', handleOnline);
@@ -64,125 +169,382 @@ export const OSProvider: React.FC<{ children: React.ReactNode }> = ({ children }
       };
   }, []);
 
+  // --- Offline Queue ---
+
+  // Where the shell (files, widgets, dock, workspaces, session) is kept for an account: the
+  // injected backend if there is one, else the user's Firebase data
+  const shellBackend = (account: string): StorageBackend => storageOverride ?? createFirebaseStorage(account);
+
+  const applyRemoteMutation = (uid: string, mutation: Pick<QueuedMutation, 'op' | 'path' | 'value'>) => {
+      const remote = shellBackend(uid);
+      if (mutation.op === 'set') return remote.set(mutation.path, mutation.value);
+      if (mutation.op === 'update') return remote.update(mutation.path, mutation.value);
+      return remote.remove(mutation.path);
+  };
+
+  const refreshPendingCount = (uid: string) => {
+      listMutations(uid)
+        .then(list => setPendingSyncCount(list.length))
+        .catch(() => setPendingSyncCount(0));
+  };
+
+  const queueMutation = (uid: string, op: MutationOp, path: string, value?: any) => {
+      queuedCountRef.current++;
+      enqueueChainRef.current = enqueueChainRef.current
+        .then(() => enqueueMutation({ uid, op, path, value }))
+        .then(() => refreshPendingCount(uid))
+        .catch(err => console.error("Offline queue write failed", err));
+  };
+
+  // Counts what earlier sessions left in the queue; runs before anything this session queues
+  const loadQueue = (uid: string) => {
+      queueLoadedRef.current = false;
+      queuedCountRef.current = 0;
+      enqueueChainRef.current = enqueueChainRef.current
+        .then(() => listMutations(uid))
+        .then(list => { queuedCountRef.current += list.length; })
+        .catch(err => console.error("Offline queue unavailable", err))
+        .finally(() => { queueLoadedRef.current = true; });
+      return enqueueChainRef.current;
+  };
+
+  // Writes go straight to the cloud when online and nothing older is waiting; otherwise they
+  // join the queue behind it, so the cloud always sees them in the order they were made.
+  const commitMutation = (op: MutationOp, path: string, value?: any) => {
+      const account = uidRef.current;
+      if (!account) return;
+
+      // Local backends can't be offline, so there is nothing to queue
+      if (!shellBackend(account).isCloud) {
+          applyRemoteMutation(account, { op, path, value }).catch(err => console.error("Shell write failed", err));
+          return;
+      }
+
+      if (!isOnline || !queueLoadedRef.current || queuedCountRef.current > 0) {
+          queueMutation(account, op, path, value);
+          // A replay waiting out a failure is left to its timer
+          if (isOnline && queueLoadedRef.current && !replayRetryRef.current) replayMutations(account);
+          return;
+      }
+
+      applyRemoteMutation(account, { op, path, value }).catch(err => {
+          console.error("Cloud write failed, queued for retry", err);
+          queueMutation(account, op, path, value);
+      });
+  };
+
+  const cacheSnapshot = (path: string, value: unknown) => {
+      if (!uidRef.current) return;
+      writeSnapshot(uidRef.current, path, value).catch(err => console.error("Snapshot cache failed", err));
+  };
+
+  // Single-flight: a call while a replay runs joins it, and the replay keeps going until the
+  // queue is empty, picking up whatever was queued meanwhile. A mutation that keeps failing is
+  // dropped after MAX_REPLAY_ATTEMPTS (at once if the server rejected it) so it can't block the rest.
+  const replayMutations = (uid: string): Promise<void> => {
+      if (replayRef.current) return replayRef.current;
+      if (replayRetryRef.current) clearTimeout(replayRetryRef.current);
+      replayRetryRef.current = null;
+
+      const run = async () => {
+          let replayed = 0;
+          let dropped = 0;
+          let halted = false;
+          while (!halted) {
+              await enqueueChainRef.current;
+              const queued = await listMutations(uid);
+              if (queued.length === 0) break;
+
+              for (const mutation of queued) {
+                  try {
+                      await applyRemoteMutation(uid, mutation);
+                      await deleteMutation(mutation.id!);
+                      replayed++;
+                  } catch (err) {
+                      const attempts = (mutation.attempts || 0) + 1;
+                      if (attempts < MAX_REPLAY_ATTEMPTS && !isPermanentSyncError(err)) {
+                          console.error("Replay paused, retrying later", err);
+                          await updateMutation({ ...mutation, attempts });
+                          replayRetryRef.current = setTimeout(() => replayMutations(uid), REPLAY_RETRY_MS);
+                          halted = true;
+                          break;
+                      }
+                      console.error("Replay dropped a change", err);
+                      await deleteMutation(mutation.id!);
+                      dropped++;
+                      addLog({ source: 'Sync', message: `Discarded a change to "${mutation.path}" the server keeps rejecting`, type: 'error', isCloud: true });
+                  }
+                  queuedCountRef.current = Math.max(0, queuedCountRef.current - 1);
+              }
+          }
+
+          refreshPendingCount(uid);
+          if (replayed > 0) {
+              addLog({ source: 'Sync', message: `Replayed ${replayed} offline change(s)`, type: halted || dropped ? 'warning' : 'success', isCloud: true });
+          }
+      };
+
+      replayRef.current = run()
+        .catch(err => console.error("Replay failed", err))
+        .finally(() => { replayRef.current = null; });
+      return replayRef.current;
+  };
+
+  const hydrateFromCache = async (uid: string) => {
+      try {
+          const [cachedFiles, cachedWidgets, cachedDock, cachedWorkspaces, cachedSession] = await Promise.all([
+              readSnapshot<FileNode[]>(uid, 'files'),
+              readSnapshot<WidgetInstance[]>(uid, 'widgets'),
+              readSnapshot<AppID[]>(uid, 'dock'),
+              readSnapshot<Workspace[]>(uid, 'workspaces'),
+              readSnapshot<StoredSession>(uid, 'session'),
+          ]);
+          if (uidRef.current !== uid) return; // Signed out or switched accounts meanwhile
+          if (cachedFiles) setFs(cachedFiles);
+          if (cachedWidgets) setWidgets(cachedWidgets);
+          if (Array.isArray(cachedDock)) setDockApps(cachedDock);
+          if (Array.isArray(cachedWorkspaces) && cachedWorkspaces.length > 0) setWorkspaces(cachedWorkspaces);
+          if (cachedSession) applyStoredSession(cachedSession);
+      } catch (err) {
+          console.error("Local cache unavailable", err);
+      }
+  };
+
+  const applyStoredSession = (stored: StoredSession) => {
+      const restore = stored.restore !== false;
+      restoreSessionRef.current = restore;
+      setRestoreSessionState(restore);
+      savedSessionRef.current = sanitizeSession(stored.state);
+      setSavedSession(savedSessionRef.current);
+  };
+
+  // Flush the queue whenever connectivity returns
+  useEffect(() => {
+      const account = uidRef.current;
+      if (isOnline && account && queueLoadedRef.current && shellBackend(account).isCloud) {
+          replayMutations(account);
+      }
+  }, [isOnline]);
+
   // --- Cloud Sync ---
+
+  // Loads the account's shell: cached copy first, then the backend, which it keeps following
+  const connectAccount = (account: string) => {
+      releaseShellListeners();
+      const connection = ++connectionRef.current;
+      uidRef.current = account;
+      setUid(account);
+      setAuthStatus('connected');
+
+      // Local cache first so the desktop is usable before (or without) the network
+      hydrateFromCache(account).finally(() => {
+          if (connectionRef.current !== connection) return; // Signed out or switched accounts meanwhile
+          refreshPendingCount(account);
+          const remote = shellBackend(account);
+          if (remote.isCloud) {
+              loadQueue(account).then(() => {
+                  if (navigator.onLine && uidRef.current === account) replayMutations(account);
+              });
+          }
+
+          // Window Session (read once; the cloud copy wins if it is newer than the cache)
+          remote.get<StoredSession>('session')
+            .then(data => {
+                if (sessionReadyRef.current || uidRef.current !== account) return;
+                const cached = savedSessionRef.current;
+                if (data && (!cached || (data.state?.savedAt || 0) >= cached.savedAt)) applyStoredSession(data);
+                else if (!cached) setSavedSession(null);
+            })
+            .catch(() => {
+                if (uidRef.current !== account) return;
+                if (!sessionReadyRef.current && !savedSessionRef.current) setSavedSession(null);
+            });
+
+          const listeners = shellListenersRef.current;
+
+          // Sync Widgets
+          listeners.push(remote.subscribe<Record<string, WidgetInstance>>('widgets', (data) => {
+              if (data) {
+                  const list = Object.values(data);
+                  setWidgets(list);
+                  writeSnapshot(account, 'widgets', list).catch(() => {});
+              }
+          }));
+
+          // Sync Dock
+          listeners.push(remote.subscribe<AppID[]>('dock', (data) => {
+              if (Array.isArray(data)) {
+                  setDockApps(data);
+                  writeSnapshot(account, 'dock', data).catch(() => {});
+              } else if (data === null) {
+                  // Initialize default dock if empty on server
+                  remote.set('dock', DEFAULT_DOCK);
+                  setDockApps(DEFAULT_DOCK);
+              }
+          }));
+
+          // Sync Workspaces
+          listeners.push(remote.subscribe<Workspace[]>('workspaces', (data) => {
+              if (Array.isArray(data) && data.length > 0) {
+                  setWorkspaces(data);
+                  writeSnapshot(account, 'workspaces', data).catch(() => {});
+              } else if (data === null) {
+                  remote.set('workspaces', DEFAULT_WORKSPACES);
+                  setWorkspaces(DEFAULT_WORKSPACES);
+              }
+          }));
+
+          // Sync Files
+          listeners.push(remote.subscribe<Record<string, FileNode>>('files', (data) => {
+              if (data) {
+                  const list = Object.values(data);
+                  setFs(list);
+                  writeSnapshot(account, 'files', list).catch(() => {});
+              } else {
+                  // Init default FS if empty in cloud
+                  const updates: Record<string, any> = {};
+                  DEFAULT_FS.forEach(f => updates[f.id] = f);
+                  remote.update('files', updates);
+              }
+          }));
+      });
+  };
+
+  // Without this the previous account's listeners keep writing into the next session
+  const releaseShellListeners = () => {
+      shellListenersRef.current.forEach(unsubscribe => unsubscribe());
+      shellListenersRef.current = [];
+  };
+
+  const disconnectAccount = () => {
+      // Logged out: the next user starts from their own session, queue and shell
+      releaseShellListeners();
+      connectionRef.current++;
+      uidRef.current = null;
+      queueLoadedRef.current = false;
+      if (replayRetryRef.current) clearTimeout(replayRetryRef.current);
+      replayRetryRef.current = null;
+      sessionReadyRef.current = false;
+      savedSessionRef.current = null;
+      setSavedSession(undefined);
+      setWindows({});
+      setActiveWindowId(null);
+      setWorkspaces(DEFAULT_WORKSPACES);
+      setActiveWorkspaceId(DEFAULT_WORKSPACE_ID);
+      setFs([]);
+      setWidgets([]);
+      setDockApps(DEFAULT_DOCK);
+      setUid(null);
+      setAuthStatus('connecting'); // Or 'disconnected' conceptually, but using 'connecting' to show loading/lock screen state if needed
+      // We do NOT sign in anonymously automatically anymore.
+      // The LockScreen will handle login.
+  };
+
   useEffect(() => {
-    // Zero-Tolerance: Only run if online
-    if (!isOnline) {
-        setAuthStatus('error');
-        return;
+    addLog({ source: 'Kernel', message: 'Second Brain OS v3.1.0 Stable', type: 'info', isCloud: false });
+
+    // An injected backend needs no sign-in; the shell runs as the local account
+    if (storageOverride) {
+      connectAccount(LOCAL_ACCOUNT_ID);
+      addLog({ source: 'System', message: `Using ${storageOverride.kind} storage`, type: 'info', isCloud: storageOverride.isCloud });
+      return releaseShellListeners;
     }
 
     const unsubscribe = onAuthStateChanged(auth, (user) => {
       if (user) {
-        setAuthStatus('connected');
+        connectAccount(user.uid);
         addLog({ source: 'System', message: 'Neural Link Established (Firebase)', type: 'success', isCloud: true });
-        
-        // Sync Widgets
-        const widgetsRef = ref(db, `users/${user.uid}/widgets`);
-        onValue(widgetsRef, (snapshot) => {
-            const data = snapshot.val();
-            if (data) setWidgets(Object.values(data));
-        });
-
-        // Sync Dock
-        const dockRef = ref(db, `users/${user.uid}/dock`);
-        onValue(dockRef, (snapshot) => {
-            const data = snapshot.val();
-            if (Array.isArray(data)) {
-                setDockApps(data);
-            } else if (data === null) {
-                // Initialize default dock if empty on server
-                firebaseSet(dockRef, DEFAULT_DOCK);
-                setDockApps(DEFAULT_DOCK);
-            }
-        });
-
-        // Sync Files
-        const filesRef = ref(db, `users/${user.uid}/files`);
-        onValue(filesRef, (snapshot) => {
-            const data = snapshot.val();
-            if (data) {
-                setFs(Object.values(data));
-            } else {
-                // Init default FS if empty in cloud
-                const updates: Record<string, any> = {};
-                DEFAULT_FS.forEach(f => updates[f.id] = f);
-                update(filesRef, updates);
-            }
-        });
-
       } else {
-        // Logged out
-        setAuthStatus('connecting'); // Or 'disconnected' conceptually, but using 'connecting' to show loading/lock screen state if needed
-        // We do NOT sign in anonymously automatically anymore.
-        // The LockScreen will handle login.
+        disconnectAccount();
       }
     });
-    
-    addLog({ source: 'Kernel', message: 'Second Brain OS v3.1.0 Stable', type: 'info', isCloud: false });
 
-    return () => unsubscribe();
-  }, [isOnline]);
+    return () => {
+      unsubscribe();
+      releaseShellListeners();
+    };
+  }, []);
 
-  // --- Strict Cloud Methods ---
+  // --- Offline-First Methods ---
 
   const addFile = (file: FileNode) => {
-      if (!isOnline || !auth.currentUser) return; // Block offline writes
+      if (!uid) return;
       const newFs = [...fs, file];
       setFs(newFs); // Optimistic UI
-      firebaseSet(ref(db, `users/${auth.currentUser.uid}/files/${file.id}`), file);
+      cacheSnapshot('files', newFs);
+      commitMutation('set', `files/${file.id}`, file);
+  };
+
+  const addFiles = (files: FileNode[]) => {
+      if (!uid || files.length === 0) return;
+      const newFs = [...fs, ...files];
+      setFs(newFs);
+      cacheSnapshot('files', newFs);
+      files.forEach(file => commitMutation('set', `files/${file.id}`, file));
   };
 
   const deleteFile = (id: string) => {
-      if (!isOnline || !auth.currentUser) return;
+      if (!uid) return;
       const newFs = fs.filter(f => f.id !== id);
       setFs(newFs);
-      remove(ref(db, `users/${auth.currentUser.uid}/files/${id}`));
+      cacheSnapshot('files', newFs);
+      commitMutation('remove', `files/${id}`);
+  };
+
+  const deleteFiles = (ids: string[]) => {
+      if (!uid || ids.length === 0) return;
+      const newFs = fs.filter(f => !ids.includes(f.id));
+      setFs(newFs);
+      cacheSnapshot('files', newFs);
+      ids.forEach(id => commitMutation('remove', `files/${id}`));
   };
 
   const updateFile = (id: string, updates: Partial<FileNode>) => {
-      if (!isOnline || !auth.currentUser) return;
+      if (!uid) return;
       const newFs = fs.map(f => f.id === id ? { ...f, ...updates } : f);
       setFs(newFs);
-      update(ref(db, `users/${auth.currentUser.uid}/files/${id}`), updates);
+      cacheSnapshot('files', newFs);
+      commitMutation('update', `files/${id}`, updates);
   };
 
-  const recordAppUsage = async (id: string, event: 'launch' | 'close') => {
-      if (!isOnline || !auth.currentUser) return;
+  // Stats are per app; start times are per window so concurrent instances each count
+  const recordAppUsage = async (id: string, event: 'launch' | 'close', windowId: string = id) => {
+      if (storage.isCloud && !isOnline) return;
       const now = Date.now();
       let durationToAdd = 0;
 
       if (event === 'launch') {
-          appStartTimes.current[id] = now;
+          appStartTimes.current[windowId] = now;
       } else if (event === 'close') {
-          const start = appStartTimes.current[id];
+          const start = appStartTimes.current[windowId];
           if (start) {
               durationToAdd = (now - start) / 60000; 
-              delete appStartTimes.current[id];
+              delete appStartTimes.current[windowId];
           }
       }
 
-      const statsRef = ref(db, `users/${auth.currentUser.uid}/system/usage/${id}`);
-      get(statsRef).then(snap => {
-          const current: AppUsageStats = snap.val() || { launches: 0, minutesOpen: 0, lastOpened: 0 };
+      const statsPath = `system/usage/${id}`;
+      storage.get<AppUsageStats>(statsPath).then(stored => {
+          const current: AppUsageStats = stored || { launches: 0, minutesOpen: 0, lastOpened: 0 };
           const updates: AppUsageStats = {
               launches: event === 'launch' ? current.launches + 1 : current.launches,
               minutesOpen: current.minutesOpen + durationToAdd,
               lastOpened: event === 'launch' ? now : current.lastOpened
           };
-          update(statsRef, updates);
+          storage.update(statsPath, { ...updates });
       });
   };
 
   const persistWidgets = (newWidgets: WidgetInstance[]) => {
-      if (!isOnline || !auth.currentUser) return;
+      if (!uid) return;
       setWidgets(newWidgets);
       
       if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
       saveTimeoutRef.current = setTimeout(() => {
           const updates: Record<string, any> = {};
           newWidgets.forEach(w => updates[w.id] = w);
-          firebaseSet(ref(db, `users/${auth.currentUser!.uid}/widgets`), updates);
+          cacheSnapshot('widgets', newWidgets);
+          commitMutation('set', 'widgets', updates);
       }, 1000);
   };
 
@@ -192,7 +554,8 @@ export const OSProvider: React.FC<{ children: React.ReactNode }> = ({ children }
           type,
           x: 100 + (widgets.length * 20),
           y: 100 + (widgets.length * 20),
-          data: {}
+          data: {},
+          workspaceId: currentWorkspaceId
       };
       const updated = [...widgets, newWidget];
       setWidgets(updated);
@@ -225,81 +588,121 @@ export const OSProvider: React.FC<{ children: React.ReactNode }> = ({ children }
       addLog({ source: 'System', message: 'System Logs Purged', type: 'info', isCloud: false });
   };
 
-  const launchApp = (id: AppID, props?: any) => {
-    if (!isOnline) return; // Prevent launch if offline
+  const windowTitle = (config: typeof APP_REGISTRY[AppID], props?: any) => {
+      const file = props?.fileId ? fs.find(f => f.id === props.fileId) : undefined;
+      return file ? `${config.title} — ${file.name}` : config.title;
+  };
+
+  // Reuses a running window unless the app is multi-instance and the props differ (e.g. another fileId)
+  const launchApp = (id: AppID, props?: any, options: LaunchOptions = {}) => {
+    const config = APP_REGISTRY[id];
+    if (!config) return;
+
+    const current: Record<string, WindowState> = windowsRef.current;
+    const allInstances = Object.values(current)
+      .filter(w => w.appId === id)
+      .sort((a, b) => b.zIndex - a.zIndex);
+    // Multi-instance apps open per workspace; single-instance apps are found wherever they are
+    const instances = config.multiInstance ? allInstances.filter(w => w.workspaceId === currentWorkspaceId) : allInstances;
+
+    let target: WindowState | undefined;
+    if (!options.newInstance) {
+      if (props === undefined) target = instances[0];
+      else target = instances.find(w => sameLaunchProps(w.launchProps, props)) ?? (config.multiInstance ? undefined : instances[0]);
+    }
+
+    const windowId = target?.id ?? createWindowId(id);
+    if (!target) recordAppUsage(id, 'launch', windowId);
+    if (target && target.workspaceId !== currentWorkspaceId) setActiveWorkspaceId(target.workspaceId);
+
     setWindows((prev) => {
       // Calculate max Z-Index to bring window to front
       const maxZ = Math.max(0, ...Object.values(prev).map(w => w.zIndex));
 
-      if (prev[id]) {
-        // App is already open, update it to active and bring to front
+      if (prev[windowId]) {
+        // Window is already open, update it to active and bring to front
         return {
           ...prev,
-          [id]: { 
-            ...prev[id], 
+          [windowId]: { 
+            ...prev[windowId], 
             isOpen: true, 
             isMinimized: false, 
-            launchProps: props,
+            title: props === undefined ? prev[windowId].title : windowTitle(config, props),
+            launchProps: props === undefined ? prev[windowId].launchProps : props,
             zIndex: maxZ + 1 
           }
         };
       }
       
-      // App is not open, launch it
-      recordAppUsage(id, 'launch');
-      const config = APP_REGISTRY[id];
-      if (!config) return prev;
+      // Cascade additional windows of the same app so they don't stack exactly
+      const cascade = instances.length * 30;
+      const position = config.defaultPosition || { x: 100, y: 80 };
       
       return {
         ...prev,
-        [id]: {
-          id,
-          title: config.title,
+        [windowId]: {
+          id: windowId,
+          appId: id,
+          workspaceId: currentWorkspaceId,
+          title: windowTitle(config, props),
           isOpen: true,
           isMinimized: false,
           isMaximized: false,
           zIndex: maxZ + 1,
-          position: config.defaultPosition || { x: 100, y: 80 },
+          position: { x: position.x + cascade, y: position.y + cascade },
           size: config.defaultSize,
           launchProps: props
         }
       };
     });
-    setActiveWindowId(id);
+    setActiveWindowId(windowId);
   };
 
-  const closeApp = (id: AppID) => {
-    recordAppUsage(id, 'close');
+  const closeApp = (id: string) => {
+    const ids = resolveWindowIds(windowsRef.current, id);
+    if (ids.length === 0) return;
+    ids.forEach(windowId => recordAppUsage(windowsRef.current[windowId].appId, 'close', windowId));
     setWindows((prev) => {
       const newWindows = { ...prev };
-      delete newWindows[id];
+      ids.forEach(windowId => delete newWindows[windowId]);
       return newWindows;
     });
-    if (activeWindowId === id) setActiveWindowId(null);
+    if (activeWindowId && ids.includes(activeWindowId)) setActiveWindowId(null);
   };
 
-  const focusApp = (id: AppID) => {
-    setActiveWindowId(id);
+  const focusApp = (id: string) => {
+    // An AppID focuses that app's frontmost window, preferring the current workspace
+    const current: Record<string, WindowState> = windowsRef.current;
+    const windowId = resolveWindowIds(current, id)
+      .sort((a, b) => Number(current[b].workspaceId === currentWorkspaceId) - Number(current[a].workspaceId === currentWorkspaceId) || current[b].zIndex - current[a].zIndex)[0];
+    if (!windowId) return;
+
+    if (current[windowId].workspaceId !== currentWorkspaceId) setActiveWorkspaceId(current[windowId].workspaceId);
+    setActiveWindowId(windowId);
     setWindows((prev) => {
       const maxZ = Math.max(0, ...Object.values(prev).map(w => w.zIndex));
-      if (prev[id] && prev[id].zIndex === maxZ) return prev;
-      if (!prev[id]) return prev;
+      if (!prev[windowId]) return prev;
+      if (prev[windowId].zIndex === maxZ && !prev[windowId].isMinimized) return prev;
       return {
         ...prev,
-        [id]: { ...prev[id], zIndex: maxZ + 1 }
+        [windowId]: { ...prev[windowId], isMinimized: false, zIndex: maxZ + 1 }
       };
     });
   };
 
-  const minimizeApp = (id: AppID) => {
-    setWindows((prev) => ({
-      ...prev,
-      [id]: { ...prev[id], isMinimized: true }
-    }));
-    if (activeWindowId === id) setActiveWindowId(null);
+  const minimizeApp = (id: string) => {
+    const ids = resolveWindowIds(windowsRef.current, id);
+    setWindows((prev) => {
+      const next = { ...prev };
+      ids.forEach(windowId => {
+        if (next[windowId]) next[windowId] = { ...next[windowId], isMinimized: true };
+      });
+      return next;
+    });
+    if (activeWindowId && ids.includes(activeWindowId)) setActiveWindowId(null);
   };
 
-  const updateWindowState = (id: AppID, updates: Partial<WindowState>) => {
+  const updateWindowState = (id: string, updates: Partial<WindowState>) => {
     setWindows((prev) => {
         if (!prev[id]) return prev;
         return {
@@ -309,6 +712,224 @@ export const OSProvider: React.FC<{ children: React.ReactNode }> = ({ children }
     });
   };
 
+  // --- Tiling ---
+
+  const tileWindow = (id: string, layout: TileLayout) => {
+    if (!windowsRef.current[id]) return;
+    updateWindowState(id, { ...tileRect(layout), isMaximized: false, isMinimized: false });
+  };
+
+  // Keeps the current left-to-right, top-to-bottom order so windows move as little as possible
+  const autoTileWindows = () => {
+    const current: Record<string, WindowState> = windowsRef.current;
+    const visible = Object.values(current)
+      .filter(w => w.workspaceId === currentWorkspaceId && w.isOpen && !w.isMinimized)
+      .sort((a, b) => a.position.y - b.position.y || a.position.x - b.position.x);
+    if (visible.length === 0) return;
+
+    const rects = autoTileRects(visible.length);
+    setWindows(prev => {
+      const next = { ...prev };
+      visible.forEach((w, i) => {
+        if (next[w.id]) next[w.id] = { ...next[w.id], ...rects[i], isMaximized: false };
+      });
+      return next;
+    });
+  };
+
+  // --- Keyboard Shortcuts ---
+
+  const shortcutBindings = useMemo<Record<string, string | null>>(
+      () => resolveBindings(shortcuts, shortcutOverrides),
+      [shortcuts, shortcutOverrides]
+  );
+
+  useEffect(() => {
+      return storage.subscribe<ShortcutBindings>('shortcuts', data => setShortcutOverrides(data || {}));
+  }, [storage]);
+
+  // The most recent registration handles a command; unregistering restores the previous one
+  const registerShortcut = (definition: ShortcutDefinition | string, handler: () => void) => {
+      const id = typeof definition === 'string' ? definition : definition.id;
+      if (typeof definition !== 'string') {
+          setShortcuts(prev => prev.some(d => d.id === id) ? prev : [...prev, definition]);
+      }
+      shortcutHandlers.current[id] = [...(shortcutHandlers.current[id] || []), handler];
+      return () => {
+          shortcutHandlers.current[id] = (shortcutHandlers.current[id] || []).filter(h => h !== handler);
+      };
+  };
+
+  const setShortcutBinding = (id: string, binding: string | null) => {
+      const definition = shortcuts.find((d: ShortcutDefinition) => d.id === id);
+      if (!definition) return;
+      if (binding === definition.defaultBinding) {
+          setShortcutOverrides(prev => {
+              const next = { ...prev };
+              delete next[id];
+              return next;
+          });
+          storage.remove(`shortcuts/${id}`);
+      } else {
+          setShortcutOverrides(prev => ({ ...prev, [id]: binding ?? '' }));
+          storage.update('shortcuts', { [id]: binding ?? '' });
+      }
+  };
+
+  const resetShortcuts = () => {
+      setShortcutOverrides({});
+      storage.remove('shortcuts');
+  };
+
+  // Single dispatcher for every registered command
+  const shortcutStateRef = useRef({ shortcuts, shortcutBindings, windows, activeWindowId, powerState });
+  shortcutStateRef.current = { shortcuts, shortcutBindings, windows, activeWindowId, powerState };
+
+  useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+          const state = shortcutStateRef.current;
+          if (state.powerState !== 'ACTIVE' || isAltGraph(e)) return;
+          const binding = eventToBinding(e);
+          if (!binding) return;
+          if (isTypingTarget(e.target) && !firesWhileTyping(binding)) return;
+
+          const focusedApp = state.activeWindowId ? state.windows[state.activeWindowId]?.appId : undefined;
+          const command = matchShortcut(binding, state.shortcuts, state.shortcutBindings, focusedApp);
+          const handlers = command ? shortcutHandlers.current[command.id] : undefined;
+          if (!handlers?.length) return;
+
+          e.preventDefault();
+          handlers[handlers.length - 1]();
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // --- Content Search ---
+
+  const publishSearchDocuments = (source: string, documents: SearchDocument[]) => {
+      setSearchSources(prev => ({ ...prev, [source]: buildSearchIndex(documents) }));
+  };
+
+  useEffect(() => {
+      const unsubscribers = STORAGE_SEARCH_SOURCES.map(source =>
+          storage.subscribe(source.path, data => publishSearchDocuments(source.id, source.toDocuments(data)))
+      );
+      return () => unsubscribers.forEach(unsub => unsub());
+  }, [storage]);
+
+  useEffect(() => {
+      publishSearchDocuments('files', fileDocuments(fs));
+  }, [fs]);
+
+  const searchContent = (query: string, limit?: number): SearchHit[] =>
+      searchIndexes(Object.values(searchSources) as SearchIndex[], query, limit);
+
+  // --- Window Session ---
+
+  // Restore once the user is past the BootSequence and LockScreen
+  useEffect(() => {
+      if (powerState !== 'ACTIVE' || savedSession === undefined || sessionReadyRef.current) return;
+      sessionReadyRef.current = true;
+      if (!restoreSessionRef.current || !savedSession) return;
+
+      const restored: Record<string, WindowState> = sanitizeSession(savedSession, workspaces.map((w: Workspace) => w.id))!.windows;
+      const count = Object.keys(restored).length;
+      if (count === 0) return;
+
+      Object.keys(restored).forEach(windowId => { appStartTimes.current[windowId] = Date.now(); });
+      setWindows(prev => ({ ...restored, ...prev }));
+      setActiveWindowId(prev => prev ?? savedSession.activeWindowId);
+      if (savedSession.activeWorkspaceId) setActiveWorkspaceId(savedSession.activeWorkspaceId);
+      addLog({ source: 'Session', message: `Restored ${count} window(s)`, type: 'info', isCloud: false });
+  }, [powerState, savedSession]);
+
+  // Debounced like widgets: dragging and resizing fire many updates
+  useEffect(() => {
+      if (!sessionReadyRef.current || !uidRef.current) return;
+      if (sessionSaveRef.current) clearTimeout(sessionSaveRef.current);
+      sessionSaveRef.current = setTimeout(() => {
+          const state = sanitizeSession({ windows, activeWindowId, activeWorkspaceId: currentWorkspaceId, savedAt: Date.now() });
+          if (!state) return;
+          savedSessionRef.current = state;
+          cacheSnapshot('session', { restore: restoreSessionRef.current, state });
+          commitMutation('set', 'session/state', state);
+      }, 1000);
+  }, [windows, activeWindowId, currentWorkspaceId]);
+
+  const setRestoreSession = (enabled: boolean) => {
+      restoreSessionRef.current = enabled;
+      setRestoreSessionState(enabled);
+      cacheSnapshot('session', { restore: enabled, state: savedSessionRef.current });
+      commitMutation('set', 'session/restore', enabled);
+  };
+
+  // --- Workspaces ---
+
+  // The list can change under open windows when another device deletes a workspace
+  useEffect(() => {
+      const ids = workspaces.map((w: Workspace) => w.id);
+      setWindows(prev => remapWorkspaces(prev, ids, currentWorkspaceId));
+  }, [workspaces]);
+
+  const persistWorkspaces = (list: Workspace[]) => {
+      setWorkspaces(list);
+      cacheSnapshot('workspaces', list);
+      commitMutation('set', 'workspaces', list);
+  };
+
+  const frontmostWindow = (workspaceId: string): string | null => {
+      const current: Record<string, WindowState> = windowsRef.current;
+      const candidates = Object.values(current)
+        .filter(w => w.workspaceId === workspaceId && !w.isMinimized)
+        .sort((a, b) => b.zIndex - a.zIndex);
+      return candidates[0]?.id ?? null;
+  };
+
+  const switchWorkspace = (id: string) => {
+      if (id === currentWorkspaceId || !workspaces.some((w: Workspace) => w.id === id)) return;
+      setActiveWorkspaceId(id);
+      setActiveWindowId(frontmostWindow(id));
+  };
+
+  const createWorkspace = (name?: string) => {
+      const workspace: Workspace = { id: `ws_${Date.now()}`, name: name?.trim() || `Desktop ${workspaces.length + 1}` };
+      persistWorkspaces([...workspaces, workspace]);
+      setActiveWorkspaceId(workspace.id);
+      setActiveWindowId(null);
+      addLog({ source: 'Desktop', message: `Created workspace "${workspace.name}"`, type: 'info', isCloud: false });
+  };
+
+  const renameWorkspace = (id: string, name: string) => {
+      if (!name.trim()) return;
+      persistWorkspaces(workspaces.map((w: Workspace) => w.id === id ? { ...w, name: name.trim() } : w));
+  };
+
+  const removeWorkspace = (id: string) => {
+      if (workspaces.length <= 1) return;
+      const index = workspaces.findIndex((w: Workspace) => w.id === id);
+      if (index === -1) return;
+
+      const current: Record<string, WindowState> = windowsRef.current;
+      Object.values(current).filter(w => w.workspaceId === id).forEach(w => closeApp(w.id));
+      const remainingWidgets = widgets.filter((w: WidgetInstance) => (w.workspaceId || DEFAULT_WORKSPACE_ID) !== id);
+      if (remainingWidgets.length !== widgets.length) persistWidgets(remainingWidgets);
+
+      const remaining = workspaces.filter((w: Workspace) => w.id !== id);
+      persistWorkspaces(remaining);
+      if (id === currentWorkspaceId) {
+          const next = remaining[Math.max(0, index - 1)].id;
+          setActiveWorkspaceId(next);
+          setActiveWindowId(frontmostWindow(next));
+      }
+  };
+
+  const moveWindowToWorkspace = (windowId: string, workspaceId: string) => {
+      if (!windowsRef.current[windowId]) return;
+      updateWindowState(windowId, { workspaceId });
+      if (windowId === activeWindowId && workspaceId !== currentWorkspaceId) setActiveWindowId(null);
+  };
+
   const toggleDockApp = (id: AppID) => {
       // 1. Optimistic Update (Always run regardless of auth)
       setDockApps((prevDock) => {
@@ -322,11 +943,9 @@ export const OSProvider: React.FC<{ children: React.ReactNode }> = ({ children }
               newDock = [...current, id];
           }
           
-          // 2. Background Sync (Fire & Forget)
-          if (isOnline && auth.currentUser) {
-              firebaseSet(ref(db, `users/${auth.currentUser.uid}/dock`), newDock)
-                .catch(err => console.error("Dock sync failed", err));
-          }
+          // 2. Background Sync (Queued while offline)
+          cacheSnapshot('dock', newDock);
+          commitMutation('set', 'dock', newDock);
           
           return newDock;
       });
@@ -337,20 +956,36 @@ export const OSProvider: React.FC<{ children: React.ReactNode }> = ({ children }
       windows,
       activeWindowId,
       authStatus,
+      accountId: uid,
+      storage,
       isOnline,
+      pendingSyncCount,
       logs,
       dockApps,
+      workspaces,
+      activeWorkspaceId: currentWorkspaceId,
+      switchWorkspace,
+      createWorkspace,
+      renameWorkspace,
+      removeWorkspace,
+      moveWindowToWorkspace,
+      restoreSession,
+      setRestoreSession,
       widgets,
       powerState,
       fs,
       addFile,
+      addFiles,
       deleteFile,
+      deleteFiles,
       updateFile,
       launchApp,
       closeApp,
       focusApp,
       minimizeApp,
       updateWindowState,
+      tileWindow,
+      autoTileWindows,
       toggleDockApp,
       addWidget,
       removeWidget,
@@ -358,6 +993,13 @@ export const OSProvider: React.FC<{ children: React.ReactNode }> = ({ children }
       addLog,
       setPowerState,
       clearLogs,
+      shortcuts,
+      shortcutBindings,
+      registerShortcut,
+      setShortcutBinding,
+      resetShortcuts,
+      searchContent,
+      publishSearchDocuments,
       isCommandPaletteOpen,
       setCommandPaletteOpen,
       commandPaletteQuery,
@@ -374,4 +1016,21 @@ export const useOS = () => {
     throw new Error('useOS must be used within an OSProvider');
   }
   return context;
+};
+
+// Registers handlers for shortcut commands while the calling component is mounted.
+// Pass `definitions` to declare app commands; built-in ones (SYSTEM_SHORTCUTS) only need a handler.
+export const useShortcuts = (handlers: Record<string, () => void>, definitions: ShortcutDefinition[] = []) => {
+  const { registerShortcut } = useOS();
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const ids = Object.keys(handlers).join(',');
+
+  useEffect(() => {
+    const unregister = Object.keys(handlersRef.current).map(id => {
+      const definition = definitions.find(d => d.id === id) ?? id;
+      return registerShortcut(definition, () => handlersRef.current[id]?.());
+    });
+    return () => unregister.forEach(fn => fn());
+  }, [ids]);
 };
\ No newline at end of file
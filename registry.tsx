@@ -1,5 +1,6 @@
 import React, { lazy } from 'react';
 import { AppID, AppConfig } from './types';
+import { TASK_COMMANDS, NOTE_COMMANDS, WALLET_COMMANDS, CLOCK_COMMANDS, VAULT_COMMANDS } from './services/appCommands';
 import { Settings, FileText, CheckSquare, Folder, Cpu, Calendar, Activity, Briefcase, CreditCard, Shield, Clock, CalendarDays, Calculator, Mail, BarChart2, Image as ImageIcon, BookOpen, Clipboard, Monitor } from 'lucide-react';
 
 // Lazy Load Apps
@@ -63,6 +64,11 @@ export const APP_REGISTRY: Record<AppID, AppConfig> = {
     component: CalculatorApp,
     defaultSize: { width: 800, height: 600 },
     showInDock: true,
+    shortcuts: [
+      { id: 'calculator-evaluate', label: 'Evaluate', category: 'Calculator', defaultBinding: 'Enter', appId: AppID.CALCULATOR },
+      { id: 'calculator-backspace', label: 'Delete Last Character', category: 'Calculator', defaultBinding: 'Backspace', appId: AppID.CALCULATOR },
+      { id: 'calculator-clear', label: 'Clear', category: 'Calculator', defaultBinding: 'Esc', appId: AppID.CALCULATOR },
+    ],
   },
   [AppID.CALENDAR]: {
     id: AppID.CALENDAR,
@@ -79,6 +85,7 @@ export const APP_REGISTRY: Record<AppID, AppConfig> = {
     component: ClockApp,
     defaultSize: { width: 700, height: 500 },
     showInDock: true,
+    commands: CLOCK_COMMANDS,
   },
   [AppID.VAULT]: {
     id: AppID.VAULT,
@@ -87,6 +94,7 @@ export const APP_REGISTRY: Record<AppID, AppConfig> = {
     component: VaultApp,
     defaultSize: { width: 900, height: 600 },
     showInDock: true,
+    commands: VAULT_COMMANDS,
   },
   [AppID.WALLET]: {
     id: AppID.WALLET,
@@ -95,6 +103,7 @@ export const APP_REGISTRY: Record<AppID, AppConfig> = {
     component: WalletApp,
     defaultSize: { width: 1000, height: 700 },
     showInDock: true,
+    commands: WALLET_COMMANDS,
   },
   [AppID.CRM]: {
     id: AppID.CRM,
@@ -127,6 +136,8 @@ export const APP_REGISTRY: Record<AppID, AppConfig> = {
     component: NotesApp,
     defaultSize: { width: 900, height: 600 },
     showInDock: true,
+    multiInstance: true,
+    commands: NOTE_COMMANDS,
   },
   [AppID.TASKS]: {
     id: AppID.TASKS,
@@ -135,6 +146,7 @@ export const APP_REGISTRY: Record<AppID, AppConfig> = {
     component: TasksApp,
     defaultSize: { width: 950, height: 650 },
     showInDock: true,
+    commands: TASK_COMMANDS,
   },
   [AppID.HABITS]: {
     id: AppID.HABITS,
@@ -159,6 +171,7 @@ export const APP_REGISTRY: Record<AppID, AppConfig> = {
     component: FilesApp,
     defaultSize: { width: 700, height: 450 },
     showInDock: true,
+    multiInstance: true,
   },
   [AppID.PHOTOS]: {
     id: AppID.PHOTOS,
@@ -175,5 +188,6 @@ export const APP_REGISTRY: Record<AppID, AppConfig> = {
     component: PdfApp,
     defaultSize: { width: 800, height: 800 },
     showInDock: false,
+    multiInstance: true,
   },
 };
\ No newline at end of file
@@ -0,0 +1,191 @@
+import { AppCommand, AppCommandContext, AppID, CommandArgumentOption } from '../types';
+import { createRepository, toList } from './storage';
+import { Notebook, DEFAULT_NOTEBOOK_ID, withBuiltInNotebooks, buildNotebookTree, flattenNotebookTree, notebookPath } from './noteLibrary';
+import { openDailyNote } from './dailyNotes';
+import { templateRepository, templatePrompts, applyTemplate } from './noteTemplates';
+
+// Command Palette actions contributed by apps. They live outside the app components because
+// apps are lazy-loaded: a command has to run straight against storage, without a window.
+// Records written here must keep the shapes the apps themselves write.
+
+// --- Tasks ---
+
+export const TASK_COMMANDS: AppCommand[] = [
+  {
+    id: 'tasks-new',
+    title: 'New Task',
+    keywords: ['todo', 'add'],
+    args: [
+      { name: 'title', label: 'Task', placeholder: 'What needs doing?' },
+      {
+        name: 'priority',
+        label: 'Priority',
+        type: 'select',
+        defaultValue: 'medium',
+        options: [
+          { value: 'low', label: 'Low' },
+          { value: 'medium', label: 'Medium' },
+          { value: 'high', label: 'High' },
+        ],
+      },
+    ],
+    run: async ({ title, priority }, { storage, addLog }) => {
+      const task = {
+        id: `task_${Date.now()}`,
+        title,
+        description: '',
+        completed: false,
+        priority,
+        dueDate: null,
+        subtasks: [],
+        createdAt: Date.now(),
+      };
+      await createRepository(storage, 'tasks').put(task);
+      addLog({ source: 'Tasks', message: `Created: "${title}"`, type: 'info', isCloud: storage.isCloud });
+    },
+  },
+];
+
+// --- Notes ---
+
+// Every notebook, nested ones labelled with their path ("Work / Clients")
+const notebookOptions = async ({ storage }: AppCommandContext): Promise<CommandArgumentOption[]> => {
+  const notebooks = withBuiltInNotebooks(toList(await storage.get<Record<string, Notebook>>('notebooks')));
+  return flattenNotebookTree(buildNotebookTree(notebooks)).map(({ notebook }) => ({
+    value: notebook.id,
+    label: notebookPath(notebook.id, notebooks).map(n => n.name).join(' / '),
+  }));
+};
+
+const createNote = async (title: string, folderId: string, context: AppCommandContext, content = '') => {
+  const { storage, addLog, launchApp } = context;
+  const note = { id: `note_${Date.now()}`, title, content, folderId, createdAt: Date.now(), updatedAt: Date.now() };
+  await createRepository(storage, 'notes').put(note);
+  addLog({ source: 'Notes', message: `Created new note`, type: 'info', isCloud: storage.isCloud });
+  launchApp(AppID.NOTES, { noteId: note.id, folderId });
+};
+
+export const NOTE_COMMANDS: AppCommand[] = [
+  {
+    id: 'notes-new',
+    title: 'New Note',
+    keywords: ['write'],
+    args: [
+      { name: 'title', label: 'Title', placeholder: 'Untitled', optional: true },
+      { name: 'folderId', label: 'Notebook', type: 'select', defaultValue: DEFAULT_NOTEBOOK_ID, options: notebookOptions },
+    ],
+    run: ({ title, folderId }, context) => createNote(title, folderId, context),
+  },
+  {
+    id: 'notes-template',
+    title: 'New Note from Template',
+    keywords: ['template', 'meeting', 'brief', 'retro'],
+    args: [
+      {
+        name: 'templateId',
+        label: 'Template',
+        type: 'select',
+        options: async ({ storage }) =>
+          (await templateRepository(storage).list()).sort((a, b) => a.name.localeCompare(b.name)).map(t => ({ value: t.id, label: t.name })),
+      },
+      { name: 'folderId', label: 'Notebook', type: 'select', defaultValue: DEFAULT_NOTEBOOK_ID, options: notebookOptions },
+    ],
+    run: async ({ templateId, folderId }, context) => {
+      const template = (await templateRepository(context.storage).list()).find(t => t.id === templateId);
+      if (!template) return;
+      // Values for the template's own placeholders are asked for in the Notes window
+      if (templatePrompts(template).length) return context.launchApp(AppID.NOTES, { templateId, folderId });
+      const { title, content } = applyTemplate(template);
+      await createNote(title, folderId, context, content);
+    },
+  },
+  {
+    id: 'notes-today',
+    title: "Today's Note",
+    keywords: ['daily', 'journal', 'diary', 'morning'],
+    run: async (_, { storage, addLog, launchApp }) => {
+      const { note, created } = await openDailyNote(storage, new Date());
+      if (created) addLog({ source: 'Notes', message: `Created daily note: "${note.title}"`, type: 'info', isCloud: storage.isCloud });
+      launchApp(AppID.NOTES, { noteId: note.id, folderId: note.folderId });
+    },
+  },
+  {
+    id: 'notes-journal',
+    title: 'New Note in Journal',
+    keywords: ['journal', 'diary', 'entry'],
+    args: [{ name: 'title', label: 'Title', placeholder: "Today's date", optional: true }],
+    run: ({ title }, context) => createNote(title || new Date().toLocaleDateString(), 'journal', context),
+  },
+];
+
+// --- Wallet ---
+
+interface AccountSummary {
+  id: string;
+  name: string;
+  balance: number;
+  currency: string;
+}
+
+export const WALLET_COMMANDS: AppCommand[] = [
+  {
+    id: 'wallet-expense',
+    title: 'Log Expense',
+    keywords: ['spend', 'payment', 'transaction', 'money'],
+    args: [
+      { name: 'amount', label: 'Amount', type: 'number', placeholder: '0.00' },
+      {
+        name: 'accountId',
+        label: 'Account',
+        type: 'select',
+        options: async ({ storage }) =>
+          toList(await storage.get<Record<string, AccountSummary>>('wallet/accounts')).map(a => ({ value: a.id, label: `${a.name} (${a.currency})` })),
+      },
+      {
+        name: 'category',
+        label: 'Category',
+        type: 'select',
+        options: ['Food', 'Transport', 'Tech', 'Home', 'Work', 'Health'].map(c => ({ value: c, label: c })),
+      },
+      { name: 'note', label: 'Note', optional: true },
+    ],
+    run: async ({ amount, accountId, category, note }, { storage, addLog }) => {
+      const amountVal = parseFloat(amount);
+      const accounts = createRepository<AccountSummary>(storage, 'wallet/accounts');
+      const account = (await accounts.list()).find(a => a.id === accountId);
+      if (!account || !(amountVal > 0)) return;
+
+      const tx = { id: `tx_${Date.now()}`, accountId, amount: amountVal, type: 'expense', category, date: Date.now(), note };
+      await createRepository(storage, 'wallet/transactions').put(tx);
+      await accounts.patch(accountId, { balance: account.balance - amountVal });
+      addLog({ source: 'Wallet', message: `Tx: EXPENSE $${amountVal}`, type: 'info', isCloud: storage.isCloud });
+    },
+  },
+];
+
+// --- Clock ---
+
+export const CLOCK_COMMANDS: AppCommand[] = [
+  {
+    id: 'clock-focus',
+    title: 'Start Focus Session',
+    keywords: ['pomodoro', 'timer', 'deep work'],
+    args: [{ name: 'minutes', label: 'Minutes', type: 'number', defaultValue: '25' }],
+    run: async ({ minutes }, { storage, addLog }) => {
+      const duration = Math.max(1, Math.round(Number(minutes) || 25));
+      await storage.update('clock/state', { focus: { isActive: true, endTime: Date.now() + duration * 60 * 1000, duration } });
+      addLog({ source: 'Clock', message: `Focus Session Started (${duration}m)`, type: 'info', isCloud: storage.isCloud });
+    },
+  },
+];
+
+// --- Vault ---
+
+export const VAULT_COMMANDS: AppCommand[] = [
+  {
+    id: 'vault-open',
+    title: 'Open Vault',
+    keywords: ['password', 'unlock', 'security'],
+    run: (_, { launchApp }) => launchApp(AppID.VAULT),
+  },
+];
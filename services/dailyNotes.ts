@@ -0,0 +1,153 @@
+import { StorageBackend, createRepository, toList } from './storage';
+import { fillTemplate, dateKey, dateVariables, DATE_VARIABLES } from './noteTemplates';
+
+// Daily notes: one note per day in the Journal, created from a template the user can edit.
+// The template is filled in once, when the note is created, with that day's calendar events,
+// open tasks due that day and habits not yet checked off. A daily note is found by its
+// `dailyDate` (YYYY-MM-DD), so renaming or moving it doesn't create a second one.
+
+export const DAILY_NOTEBOOK_ID = 'journal';
+export const DAILY_CONFIG_PATH = 'notes_config/daily';
+
+export interface DailyNoteConfig {
+  title: string;
+  template: string;
+}
+
+export const DEFAULT_DAILY_CONFIG: DailyNoteConfig = {
+  title: '{{date}}',
+  template: [
+    '# {{weekday}}, {{date_long}}',
+    '',
+    '## Schedule',
+    '{{events}}',
+    '',
+    '## Due Today',
+    '{{tasks}}',
+    '',
+    '## Habits',
+    '{{habits}}',
+    '',
+    '## Notes',
+    '',
+  ].join('\n'),
+};
+
+export const DAILY_VARIABLES: { name: string; description: string }[] = [
+  ...DATE_VARIABLES,
+  { name: 'yesterday', description: 'Previous day as YYYY-MM-DD' },
+  { name: 'tomorrow', description: 'Next day as YYYY-MM-DD' },
+  { name: 'events', description: 'Calendar events as a list' },
+  { name: 'tasks', description: 'Open tasks due that day as a checklist' },
+  { name: 'habits', description: 'Habits not yet done that day as a checklist' },
+];
+
+// The fields daily notes need; the Notes app writes the full record shape
+export interface DailyNote {
+  id: string;
+  title: string;
+  content: string;
+  folderId: string;
+  dailyDate?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Records from other apps, read-only here
+interface DayEvent {
+  id: string;
+  title: string;
+  start: number;
+  end: number;
+  type: 'event' | 'timeblock' | 'habit';
+}
+
+interface DayTask {
+  id: string;
+  title: string;
+  dueDate: string | null;
+  completed: boolean;
+}
+
+interface DayHabit {
+  id: string;
+  title: string;
+}
+
+export interface DailyContext {
+  date: Date;
+  events: DayEvent[];
+  tasks: DayTask[];
+  habits: DayHabit[];
+}
+
+// --- Dates ---
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// --- Template ---
+
+export const loadDailyContext = async (storage: StorageBackend, date: Date): Promise<DailyContext> => {
+  const key = dateKey(date);
+  const dayStart = addDays(date, 0).getTime();
+  const dayEnd = addDays(date, 1).getTime();
+  const [events, tasks, habits, habitLogs] = await Promise.all([
+    storage.get<Record<string, DayEvent>>('calendar/events'),
+    storage.get<Record<string, DayTask>>('tasks'),
+    storage.get<Record<string, DayHabit>>('habits'),
+    storage.get<Record<string, string[]>>('habit_logs'),
+  ]);
+  const done = new Set(habitLogs?.[key] || []);
+
+  return {
+    date,
+    // Habit instances on the calendar are listed under habits instead
+    events: toList(events)
+      .filter(e => e.type !== 'habit' && e.start < dayEnd && e.end > dayStart)
+      .sort((a, b) => a.start - b.start),
+    tasks: toList(tasks).filter(t => !t.completed && t.dueDate === key),
+    habits: toList(habits).filter(h => !done.has(h.id)),
+  };
+};
+
+export const dailyVariables = ({ date, events, tasks, habits }: DailyContext): Record<string, string> => ({
+  ...dateVariables(date),
+  yesterday: dateKey(addDays(date, -1)),
+  tomorrow: dateKey(addDays(date, 1)),
+  events: events.map(e => `- ${formatTime(e.start)}–${formatTime(e.end)} ${e.title}`).join('\n') || '- No events',
+  tasks: tasks.map(t => `- [ ] ${t.title}`).join('\n') || '- Nothing due',
+  habits: habits.map(h => `- [ ] ${h.title}`).join('\n') || '- All done',
+});
+
+export const loadDailyConfig = async (storage: StorageBackend): Promise<DailyNoteConfig> => ({
+  ...DEFAULT_DAILY_CONFIG,
+  ...(await storage.get<Partial<DailyNoteConfig>>(DAILY_CONFIG_PATH)),
+});
+
+// --- Notes ---
+
+export const findDailyNote = <T extends { dailyDate?: string }>(notes: T[], key: string) => notes.find(n => n.dailyDate === key);
+
+// The day's note, created from the template if it doesn't exist yet
+export const openDailyNote = async (storage: StorageBackend, date: Date): Promise<{ note: DailyNote; created: boolean }> => {
+  const repo = createRepository<DailyNote>(storage, 'notes');
+  const key = dateKey(date);
+  const existing = findDailyNote(await repo.list(), key);
+  if (existing) return { note: existing, created: false };
+
+  const [config, context] = await Promise.all([loadDailyConfig(storage), loadDailyContext(storage, date)]);
+  const variables = dailyVariables(context);
+  const note: DailyNote = {
+    id: `note_${Date.now()}`,
+    title: fillTemplate(config.title, variables).trim() || key,
+    content: fillTemplate(config.template, variables),
+    folderId: DAILY_NOTEBOOK_ID,
+    dailyDate: key,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  };
+  await repo.put(note);
+  return { note, created: true };
+};
@@ -0,0 +1,148 @@
+// Line and word diffs for comparing text versions. The diff is a plain longest-common-subsequence
+// table after trimming the common head and tail, which is plenty for notes; inputs too big for the
+// table fall back to "everything changed" rather than freezing the UI.
+
+export type DiffOpType = 'equal' | 'delete' | 'insert';
+
+export interface DiffOp {
+  type: DiffOpType;
+  value: string;
+}
+
+const MAX_TABLE_CELLS = 4_000_000;
+
+export const diffSequences = (a: string[], b: string[]): DiffOp[] => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head: DiffOp[] = a.slice(0, start).map(value => ({ type: 'equal', value }));
+  const tail: DiffOp[] = a.slice(endA).map(value => ({ type: 'equal', value }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_TABLE_CELLS) {
+    return [
+      ...head,
+      ...midA.map(value => ({ type: 'delete' as const, value })),
+      ...midB.map(value => ({ type: 'insert' as const, value })),
+      ...tail,
+    ];
+  }
+
+  // lengths[i * width + j] = LCS of midA[i..] and midB[j..]
+  const width = midB.length + 1;
+  const lengths = new Uint32Array((midA.length + 1) * width);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = midA[i] === midB[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const middle: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: 'equal', value: midA[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      middle.push({ type: 'delete', value: midA[i++] });
+    } else {
+      middle.push({ type: 'insert', value: midB[j++] });
+    }
+  }
+  while (i < midA.length) middle.push({ type: 'delete', value: midA[i++] });
+  while (j < midB.length) middle.push({ type: 'insert', value: midB[j++] });
+
+  return [...head, ...middle, ...tail];
+};
+
+const WORD_PATTERN = /\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu;
+
+export const diffWords = (before: string, after: string): DiffOp[] =>
+  diffSequences(before.match(WORD_PATTERN) || [], after.match(WORD_PATTERN) || []);
+
+// --- Side by Side ---
+
+export interface DiffCell {
+  line: number;             // 1-based line number on its side
+  text: string;
+  type: DiffOpType | 'change';
+  words?: DiffOp[];         // For changed lines: the equal parts plus this side's edits
+}
+
+export interface DiffRow {
+  left: DiffCell | null;
+  right: DiffCell | null;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+// Rows for a two-column view. Removed and added lines next to each other are paired up as
+// changed lines with a word-level diff; the rest get an empty cell on the other side.
+export const sideBySideDiff = (before: string, after: string): DiffRow[] => {
+  const ops = diffSequences(before.split('\n'), after.split('\n'));
+  const rows: DiffRow[] = [];
+  let leftLine = 1;
+  let rightLine = 1;
+
+  for (let k = 0; k < ops.length;) {
+    if (ops[k].type === 'equal') {
+      rows.push({
+        left: { line: leftLine++, text: ops[k].value, type: 'equal' },
+        right: { line: rightLine++, text: ops[k].value, type: 'equal' },
+      });
+      k++;
+      continue;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (k < ops.length && ops[k].type !== 'equal') {
+      (ops[k].type === 'delete' ? removed : added).push(ops[k].value);
+      k++;
+    }
+
+    for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+      const oldText = removed[n];
+      const newText = added[n];
+      if (oldText !== undefined && newText !== undefined) {
+        const words = diffWords(oldText, newText);
+        rows.push({
+          left: { line: leftLine++, text: oldText, type: 'change', words: words.filter(w => w.type !== 'insert') },
+          right: { line: rightLine++, text: newText, type: 'change', words: words.filter(w => w.type !== 'delete') },
+        });
+      } else if (oldText !== undefined) {
+        rows.push({ left: { line: leftLine++, text: oldText, type: 'delete' }, right: null });
+      } else {
+        rows.push({ left: null, right: { line: rightLine++, text: newText, type: 'insert' } });
+      }
+    }
+  }
+
+  return rows;
+};
+
+export const diffStats = (rows: DiffRow[]): DiffStats =>
+  rows.reduce(
+    (stats, row) => {
+      if (row.left?.type === 'change') stats.changed++;
+      else if (row.left?.type === 'delete') stats.removed++;
+      else if (row.right?.type === 'insert') stats.added++;
+      return stats;
+    },
+    { added: 0, removed: 0, changed: 0 }
+  );
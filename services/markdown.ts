@@ -0,0 +1,547 @@
+import { WikiLink, parseLinks } from './wikiLinks';
+
+// Markdown parsing shared by Notes, AI Chat and Mail. The parser produces a small syntax tree
+// that the Markdown component renders as React elements, so nothing is ever injected as HTML:
+// raw HTML in the source shows up as text and every URL goes through sanitizeUrl.
+// Supported: headings, paragraphs, emphasis, strikethrough, inline code, fenced code, block
+// quotes, nested and task lists, tables, rules, links, images, autolinks, [[wiki links]] and
+// ![[embeds]], which the caller renders (Notes shows attachments inline).
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; title?: string; children: MarkdownInline[] }
+  | { type: 'image'; src: string; alt: string; title?: string }
+  | { type: 'wikilink'; link: WikiLink }
+  | { type: 'embed'; link: WikiLink }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export interface MarkdownListItem {
+  checked: boolean | null; // null for a plain item, else a task list checkbox
+  line: number;            // Source line of the item, for toggling checkboxes
+  children: MarkdownBlock[];
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; lang: string; text: string }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+  | { type: 'table'; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'rule' };
+
+export interface MarkdownOptions {
+  wikiLinks?: boolean; // Parse [[links]] as links instead of text
+}
+
+// --- URLs ---
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+const SAFE_IMAGE_DATA = /^data:image\/(png|jpe?g|gif|webp);base64,[a-z0-9+/=\s]+$/i;
+
+// Only web, mail and phone links, or relative ones. Anything else (javascript:, data:, vbscript:...)
+// is dropped; browsers ignore control characters and whitespace in a scheme, so those are stripped first.
+export const sanitizeUrl = (url: string, { image = false } = {}): string | null => {
+  const trimmed = url.trim();
+  const compact = trimmed.replace(/[\u0000- \u007f-\u009f]/g, '');
+  if (image && SAFE_IMAGE_DATA.test(trimmed)) return trimmed;
+  const scheme = compact.match(/^([a-z][a-z0-9+.-]*):/i);
+  if (!scheme) return /^[#/?.]/.test(compact) || !compact.includes(':') ? trimmed : null;
+  return SAFE_PROTOCOLS.includes(scheme[1].toLowerCase() + ':') ? trimmed : null;
+};
+
+// --- Inline ---
+
+const ESCAPABLE = /[\\`*_{}\[\]()#+\-.!|~<>"']/;
+const BARE_URL = /https?:\/\/[^\s<>"'`]+/y;
+const AUTOLINK = /<((?:https?:\/\/|mailto:)[^\s<>]+)>/iy;
+const BACKTICKS = /`+/y;
+
+// Sticky match at a position, without slicing the text
+const matchAt = (pattern: RegExp, text: string, index: number) => {
+  pattern.lastIndex = index;
+  return pattern.exec(text);
+};
+const TRAILING_PUNCTUATION = /[.,:;!?)\]'"]+$/;
+
+const DESTINATION = /\(\s*(<[^>\n]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)(?:\s+"([^"\n]*)")?\s*\)/y;
+
+// "(url "title")" after a link's text; returns the destination and where it ends
+const parseDestination = (text: string, start: number) => {
+  const match = matchAt(DESTINATION, text, start);
+  if (!match) return null;
+  const url = match[1].startsWith('<') ? match[1].slice(1, -1) : match[1];
+  return { url, title: match[2], end: start + match[0].length };
+};
+
+// Closing bracket for the [ at `start`, allowing nested brackets
+const findBracketEnd = (text: string, start: number) => {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text[i] === '[') depth++;
+    else if (text[i] === ']' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+// Closing run of `delimiter` that isn't preceded by whitespace
+const findClosing = (text: string, start: number, delimiter: string) => {
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') { i++; continue; }
+    if (text[i] === '`') {
+      const close = text.indexOf('`', i + 1);
+      if (close !== -1) { i = close; continue; }
+    }
+    if (text.startsWith(delimiter, i) && i > start && !/\s/.test(text[i - 1])) {
+      // A single * must not close on the first half of a **
+      if (delimiter.length === 1 && text[i + 1] === delimiter && text[i - 1] !== delimiter) { i++; continue; }
+      return i;
+    }
+  }
+  return -1;
+};
+
+export const parseInline = (text: string, options: MarkdownOptions = {}): MarkdownInline[] => {
+  // Last scan per delimiter. Scanning again from anywhere in [from, close) finds the same result,
+  // and an opener with no closer means none after it either, so each delimiter's text is walked
+  // about once instead of once per opener (which made long notes quadratic)
+  const scans = new Map<string, { from: number; close: number }>();
+  const closing = (start: number, delimiter: string) => {
+    const last = scans.get(delimiter);
+    if (last && start >= last.from && (last.close === -1 || start < last.close)) return last.close;
+    const close = findClosing(text, start, delimiter);
+    scans.set(delimiter, { from: start, close });
+    return close;
+  };
+
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+  const push = (node: MarkdownInline) => {
+    flush();
+    nodes.push(node);
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\\' && text[i + 1] === '\n') {
+      push({ type: 'break' });
+      i += 2;
+      continue;
+    }
+    if (ch === '\\' && ESCAPABLE.test(text[i + 1] || '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+    if (ch === '\n') {
+      // Notes and chat are written informally, so every newline is a line break
+      buffer = buffer.replace(/ +$/, '');
+      push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (ch === '`') {
+      const run = matchAt(BACKTICKS, text, i)![0];
+      const close = text.indexOf(run, i + run.length);
+      if (close !== -1) {
+        const code = text.slice(i + run.length, close);
+        push({ type: 'code', text: code.length > 2 && code.startsWith(' ') && code.endsWith(' ') ? code.slice(1, -1) : code });
+        i = close + run.length;
+        continue;
+      }
+      buffer += run;
+      i += run.length;
+      continue;
+    }
+
+    if (options.wikiLinks && (text.startsWith('[[', i) || text.startsWith('![[', i))) {
+      const embed = ch === '!';
+      const close = text.indexOf(']]', i);
+      const link = close !== -1 ? parseLinks(text.slice(embed ? i + 1 : i, close + 2))[0] : undefined;
+      if (link && link.start === 0) {
+        push(embed ? { type: 'embed', link } : { type: 'wikilink', link });
+        i = close + 2;
+        continue;
+      }
+    }
+
+    if (ch === '!' && text[i + 1] === '[') {
+      const end = findBracketEnd(text, i + 1);
+      const destination = end !== -1 ? parseDestination(text, end + 1) : null;
+      if (destination) {
+        const src = sanitizeUrl(destination.url, { image: true });
+        const alt = text.slice(i + 2, end);
+        if (src) push({ type: 'image', src, alt, title: destination.title });
+        else buffer += alt;
+        i = destination.end;
+        continue;
+      }
+    }
+
+    if (ch === '[') {
+      const end = findBracketEnd(text, i);
+      const destination = end !== -1 ? parseDestination(text, end + 1) : null;
+      if (destination) {
+        const children = parseInline(text.slice(i + 1, end), options);
+        const href = sanitizeUrl(destination.url);
+        if (href) push({ type: 'link', href, title: destination.title, children });
+        else { flush(); nodes.push(...children); }
+        i = destination.end;
+        continue;
+      }
+    }
+
+    if (ch === '<') {
+      const auto = matchAt(AUTOLINK, text, i);
+      if (auto) {
+        push({ type: 'link', href: auto[1], children: [{ type: 'text', text: auto[1].replace(/^mailto:/i, '') }] });
+        i += auto[0].length;
+        continue;
+      }
+    }
+
+    if ((ch === 'h' || ch === 'H') && !/[\p{L}\p{N}]/u.test(text[i - 1] || '')) {
+      const bare = matchAt(BARE_URL, text, i);
+      if (bare) {
+        const url = bare[0].replace(TRAILING_PUNCTUATION, '');
+        push({ type: 'link', href: url, children: [{ type: 'text', text: url }] });
+        i += url.length;
+        continue;
+      }
+    }
+
+    if (ch === '~' && text[i + 1] === '~') {
+      const close = closing(i + 2, '~~');
+      if (close !== -1 && !/\s/.test(text[i + 2])) {
+        push({ type: 'del', children: parseInline(text.slice(i + 2, close), options) });
+        i = close + 2;
+        continue;
+      }
+    }
+
+    if (ch === '*' || ch === '_') {
+      const double = text[i + 1] === ch;
+      const delimiter = double ? ch + ch : ch;
+      const after = text[i + delimiter.length];
+      // Intraword underscores (snake_case) are not emphasis
+      const intraword = ch === '_' && /[\p{L}\p{N}]/u.test(text[i - 1] || '');
+      if (after && !/\s/.test(after) && !intraword) {
+        const close = closing(i + delimiter.length, delimiter);
+        const closesIntraword = ch === '_' && close !== -1 && /[\p{L}\p{N}]/u.test(text[close + delimiter.length] || '');
+        if (close !== -1 && !closesIntraword) {
+          push({ type: double ? 'strong' : 'em', children: parseInline(text.slice(i + delimiter.length, close), options) });
+          i = close + delimiter.length;
+          continue;
+        }
+      }
+      buffer += delimiter;
+      i += delimiter.length;
+      continue;
+    }
+
+    buffer += ch;
+    i++;
+  }
+
+  flush();
+  return nodes;
+};
+
+// --- Blocks ---
+
+interface SourceLine {
+  text: string;
+  line: number; // Line number in the original content
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)[^`]*$/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])([ \t]+|$)(.*)$/;
+const TASK = /^\[([ xX])\](?:[ \t]+|$)/;
+const TABLE_DIVIDER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+const isBlank = (line: SourceLine | undefined) => !line || line.text.trim() === '';
+
+const splitRow = (row: string) => {
+  const trimmed = row.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  const cells: string[] = [];
+  let cell = '';
+  let inCode = false;
+  for (let i = 0; i < trimmed.length; i++) {
+    const ch = trimmed[i];
+    if (ch === '\\' && trimmed[i + 1] === '|') { cell += '|'; i++; continue; }
+    if (ch === '`') inCode = !inCode;
+    if (ch === '|' && !inCode) { cells.push(cell.trim()); cell = ''; continue; }
+    cell += ch;
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const startsBlock = (text: string) =>
+  FENCE.test(text) || HEADING.test(text) || RULE.test(text) || QUOTE.test(text) || LIST_ITEM.test(text);
+
+const parseBlockLines = (lines: SourceLine[], options: MarkdownOptions): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const { text } = lines[i];
+
+    if (text.trim() === '') {
+      i++;
+      continue;
+    }
+
+    const fence = text.match(FENCE);
+    if (fence) {
+      const [, marker, lang] = fence;
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`).test(lines[i].text)) {
+        code.push(lines[i].text);
+        i++;
+      }
+      i++; // Closing fence, or the end of the document
+      blocks.push({ type: 'code', lang: lang.toLowerCase(), text: code.join('\n') });
+      continue;
+    }
+
+    const heading = text.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2] || '', options) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(text)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(text)) {
+      const inner: SourceLine[] = [];
+      // Lazy continuation: plain lines right after a quote still belong to it
+      while (i < lines.length && !isBlank(lines[i]) && (QUOTE.test(lines[i].text) || (inner.length && !startsBlock(lines[i].text)))) {
+        const match = lines[i].text.match(QUOTE);
+        inner.push({ text: match ? match[1] : lines[i].text, line: lines[i].line });
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseBlockLines(inner, options) });
+      continue;
+    }
+
+    const item = text.match(LIST_ITEM);
+    if (item) {
+      const ordered = /\d/.test(item[2]);
+      const list: Extract<MarkdownBlock, { type: 'list' }> = { type: 'list', ordered, start: ordered ? parseInt(item[2], 10) : 1, items: [] };
+
+      while (i < lines.length) {
+        const match = lines[i].text.match(LIST_ITEM);
+        if (!match || /\d/.test(match[2]) !== ordered) break;
+        const contentIndent = match[1].length + match[2].length + Math.min(match[3].length || 1, 4);
+        const itemLine = lines[i].line;
+        let first = match[4];
+        let checked: boolean | null = null;
+        const task = first.match(TASK);
+        if (task) {
+          checked = task[1] !== ' ';
+          first = first.slice(task[0].length);
+        }
+
+        const body: SourceLine[] = [{ text: first, line: itemLine }];
+        i++;
+        while (i < lines.length) {
+          const next = lines[i];
+          const indent = next.text.match(/^\s*/)![0].length;
+          if (isBlank(next)) {
+            // A blank line continues the item only if indented content follows
+            const following = lines.slice(i + 1).find(l => !isBlank(l));
+            if (!following || following.text.match(/^\s*/)![0].length < contentIndent) break;
+            body.push({ text: '', line: next.line });
+          } else if (indent >= contentIndent || (indent > match[1].length && LIST_ITEM.test(next.text))) {
+            // Sub-lists only need to be indented past the parent's marker
+            body.push({ text: next.text.slice(Math.min(indent, contentIndent)), line: next.line });
+          } else if (!LIST_ITEM.test(next.text) && !startsBlock(next.text) && !isBlank(body[body.length - 1])) {
+            body.push({ text: next.text.trim(), line: next.line }); // Lazy continuation
+          } else {
+            break;
+          }
+          i++;
+        }
+
+        list.items.push({ checked, line: itemLine, children: parseBlockLines(body, options) });
+        // Blank lines between items of the same list
+        while (isBlank(lines[i]) && i < lines.length && lines.slice(i).find(l => !isBlank(l))?.text.match(LIST_ITEM)) i++;
+      }
+
+      blocks.push(list);
+      continue;
+    }
+
+    if (text.includes('|') && lines[i + 1] && TABLE_DIVIDER.test(lines[i + 1].text) && lines[i + 1].text.includes('-')) {
+      const header = splitRow(text);
+      const align = splitRow(lines[i + 1].text).map(cell =>
+        cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : null
+      );
+      if (align.length === header.length) {
+        const rows: MarkdownInline[][][] = [];
+        i += 2;
+        while (i < lines.length && !isBlank(lines[i]) && lines[i].text.includes('|')) {
+          const cells = splitRow(lines[i].text);
+          rows.push(header.map((_, c) => parseInline(cells[c] || '', options)));
+          i++;
+        }
+        blocks.push({ type: 'table', align, header: header.map(cell => parseInline(cell, options)), rows });
+        continue;
+      }
+    }
+
+    // Paragraph: runs until a blank line or the start of another block
+    const paragraph: string[] = [text.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i].text)) {
+      if (lines[i + 1] && lines[i].text.includes('|') && TABLE_DIVIDER.test(lines[i + 1].text)) break;
+      paragraph.push(lines[i].text.trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n'), options) });
+  }
+
+  return blocks;
+};
+
+export const parseMarkdown = (content: string, options: MarkdownOptions = {}): MarkdownBlock[] =>
+  parseBlockLines(
+    content.replace(/\r\n?/g, '\n').split('\n').map((text, line) => ({ text: text.replace(/\t/g, '    '), line })),
+    options
+  );
+
+// Flips the task list checkbox on a source line
+export const toggleTaskLine = (content: string, line: number, checked: boolean) => {
+  const lines = content.split('\n');
+  lines[line] = lines[line]?.replace(/^(\s*(?:>\s*)*(?:[-*+]|\d{1,9}[.)])[ \t]+)\[[ xX]\]/, `$1[${checked ? 'x' : ' '}]`);
+  return lines.join('\n');
+};
+
+// --- Syntax Highlighting ---
+
+export type CodeTokenKind = 'plain' | 'keyword' | 'string' | 'comment' | 'number' | 'literal';
+
+export interface CodeToken {
+  kind: CodeTokenKind;
+  text: string;
+}
+
+interface LanguageSpec {
+  comments: string[];          // Regex sources
+  strings: string[];           // Regex sources
+  keywords: string[];
+  literals?: string[];
+  caseInsensitive?: boolean;
+}
+
+const C_COMMENTS = ['\\/\\/[^\\n]*', '\\/\\*[\\s\\S]*?(?:\\*\\/|$)'];
+const HASH_COMMENT = ['#[^\\n]*'];
+const QUOTED = ['"(?:[^"\\\\\\n]|\\\\.)*"?', "'(?:[^'\\\\\\n]|\\\\.)*'?"];
+
+const words = (list: string) => list.split(' ');
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  js: {
+    comments: C_COMMENTS,
+    strings: [...QUOTED, '`(?:[^`\\\\]|\\\\.)*`?'],
+    keywords: words('async await break case catch class const continue debugger default delete do else export extends finally for from function if import in instanceof let new of return static super switch this throw try typeof var void while yield type interface enum implements private public protected readonly as keyof declare namespace'),
+    literals: words('true false null undefined NaN Infinity'),
+  },
+  python: {
+    comments: HASH_COMMENT,
+    strings: ['"""[\\s\\S]*?(?:"""|$)', "'''[\\s\\S]*?(?:'''|$)", ...QUOTED],
+    keywords: words('and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield match case'),
+    literals: words('True False None self'),
+  },
+  bash: {
+    comments: HASH_COMMENT,
+    strings: QUOTED,
+    keywords: words('if then else elif fi for while until do done case esac in function return local export echo exit source sudo cd'),
+  },
+  css: {
+    comments: ['\\/\\*[\\s\\S]*?(?:\\*\\/|$)'],
+    strings: QUOTED,
+    keywords: words('important media import keyframes supports from to root'),
+  },
+  sql: {
+    comments: ['--[^\\n]*', '\\/\\*[\\s\\S]*?(?:\\*\\/|$)'],
+    strings: ["'(?:[^']|'')*'?", '"[^"\\n]*"?'],
+    keywords: words('select from where and or not insert into values update set delete create table drop alter add join left right inner outer full on as group by order having limit offset union all distinct case when then else end is in like between primary key foreign references index view'),
+    literals: words('null true false'),
+    caseInsensitive: true,
+  },
+  c: {
+    comments: C_COMMENTS,
+    strings: QUOTED,
+    keywords: words('auto break case catch char class const continue default do double else enum extern final float for fn func go goto if impl import int let long match mod mut namespace new package private protected pub public return short signed sizeof static struct super switch template this throw trait try typedef union unsigned use var void volatile while defer chan select interface map range type string bool'),
+    literals: words('true false null nil None NULL nullptr'),
+  },
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  javascript: 'js', jsx: 'js', ts: 'js', tsx: 'js', typescript: 'js', json: 'js', mjs: 'js',
+  py: 'python',
+  sh: 'bash', shell: 'bash', zsh: 'bash', console: 'bash',
+  scss: 'css', less: 'css',
+  mysql: 'sql', postgres: 'sql', postgresql: 'sql', sqlite: 'sql',
+  cpp: 'c', 'c++': 'c', h: 'c', cs: 'c', csharp: 'c', java: 'c', kotlin: 'c', go: 'c', golang: 'c', rust: 'c', rs: 'c', swift: 'c',
+};
+
+const tokenPatterns = new Map<string, RegExp>();
+
+const tokenPattern = (language: string, spec: LanguageSpec) => {
+  let pattern = tokenPatterns.get(language);
+  if (!pattern) {
+    const keywords = [...spec.keywords, ...(spec.literals || [])].map(w => w.replace(/[+]/g, '\\+')).join('|');
+    pattern = new RegExp(
+      `(${spec.comments.join('|')})|(${spec.strings.join('|')})|(\\b(?:0x[\\da-f]+|\\d+(?:\\.\\d+)?(?:e[+-]?\\d+)?)\\b)|(\\b(?:${keywords})\\b)`,
+      spec.caseInsensitive ? 'gi' : 'g'
+    );
+    tokenPatterns.set(language, pattern);
+  }
+  return pattern;
+};
+
+// Unknown languages come back as one plain token
+export const highlightCode = (code: string, lang: string): CodeToken[] => {
+  const language = LANGUAGE_ALIASES[lang] || lang;
+  const spec = LANGUAGES[language];
+  if (!spec) return [{ kind: 'plain', text: code }];
+
+  const literals = new Set((spec.literals || []).map(w => (spec.caseInsensitive ? w.toLowerCase() : w)));
+  const pattern = tokenPattern(language, spec);
+  const tokens: CodeToken[] = [];
+  let last = 0;
+  for (const match of code.matchAll(pattern)) {
+    if (match[0] === '') continue;
+    if (match.index! > last) tokens.push({ kind: 'plain', text: code.slice(last, match.index) });
+    const word = spec.caseInsensitive ? match[0].toLowerCase() : match[0];
+    const kind: CodeTokenKind = match[1] ? 'comment' : match[2] ? 'string' : match[3] ? 'number' : literals.has(word) ? 'literal' : 'keyword';
+    tokens.push({ kind, text: match[0] });
+    last = match.index! + match[0].length;
+  }
+  if (last < code.length) tokens.push({ kind: 'plain', text: code.slice(last) });
+  return tokens;
+};
@@ -0,0 +1,81 @@
+import { FileNode, FileType } from '../types';
+import { formatLink } from './wikiLinks';
+
+// Images and files pasted or dropped into a note. Each one becomes a FileNode in a folder of its
+// own for that note ("Note Attachments/<note title>"), so it also shows up in Files and Photos,
+// and the note references it with an embed: ![[file:file_123|photo.png]]. Embeds are ordinary
+// wiki links with a "!" in front, so they count as links and backlinks like any other.
+
+const ATTACHMENTS_FOLDER_ID = 'f_attachments';
+const ATTACHMENTS_FOLDER_NAME = 'Note Attachments';
+
+export const attachmentFolderId = (noteId: string) => `att_${noteId}`;
+
+const fileTypeOf = (mimeType: string, name: string): FileType => {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType === 'application/pdf') return 'pdf';
+  if (mimeType.startsWith('text/') || /\.(md|json|txt|csv)$/i.test(name)) return 'text';
+  if (mimeType.includes('zip') || mimeType.includes('compressed')) return 'archive';
+  return 'unknown';
+};
+
+const readAsDataUrl = (file: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+// Pasted screenshots arrive as "image.png"; they get a timestamped name instead so they don't collide
+const attachmentName = (file: File, index: number) => {
+  if (file.name && file.name !== 'image.png') return file.name;
+  const extension = file.type.split('/')[1]?.replace('jpeg', 'jpg') || 'bin';
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-');
+  return `Pasted ${stamp}${index ? ` ${index + 1}` : ''}.${extension}`;
+};
+
+// Folders the note's attachments go in that don't exist yet
+export const missingAttachmentFolders = (fs: FileNode[], note: { id: string; title: string }): FileNode[] => {
+  const now = Date.now();
+  const folder = (id: string, parentId: string, name: string): FileNode => ({ id, parentId, name, type: 'folder', size: 0, createdAt: now, updatedAt: now });
+  return [
+    folder(ATTACHMENTS_FOLDER_ID, 'root', ATTACHMENTS_FOLDER_NAME),
+    folder(attachmentFolderId(note.id), ATTACHMENTS_FOLDER_ID, note.title.trim() || 'Untitled'),
+  ].filter(f => !fs.some(existing => existing.id === f.id));
+};
+
+// The note's attachment folder and everything in it, for deleting along with the note
+export const attachmentsOf = (fs: FileNode[], noteId: string): FileNode[] => {
+  const found: FileNode[] = [];
+  const collect = (id: string) => {
+    const node = fs.find(f => f.id === id);
+    if (!node) return;
+    found.push(node);
+    fs.filter(f => f.parentId === id).forEach(child => collect(child.id));
+  };
+  collect(attachmentFolderId(noteId));
+  return found;
+};
+
+export const readAttachments = async (files: File[], noteId: string): Promise<FileNode[]> => {
+  const now = Date.now();
+  return Promise.all(files.map(async (file, i): Promise<FileNode> => {
+    const type = fileTypeOf(file.type, file.name);
+    return {
+      id: `file_${now}_${i}`,
+      parentId: attachmentFolderId(noteId),
+      name: attachmentName(file, i),
+      type,
+      size: file.size,
+      mimeType: file.type,
+      content: type === 'text' ? await file.text() : await readAsDataUrl(file),
+      createdAt: now,
+      updatedAt: now,
+    };
+  }));
+};
+
+export const embedMarkdown = (file: Pick<FileNode, 'id' | 'name'>) => `!${formatLink('file', file.id, file.name.replace(/[[\]|\n]+/g, ' '))}`;
@@ -0,0 +1,347 @@
+import { parseLinks, normalizeTitle } from './wikiLinks';
+import { parseTags } from './noteLibrary';
+
+// Knowledge graph over notes and the records they touch. Nodes are notes, #tags, tasks, CRM
+// projects and files; edges come from [[links]], plain-text title mentions, shared tags and
+// notes that share several uncommon words (each note's closest few). Only records a note actually connects to become nodes,
+// so a large task list or file system doesn't drown out the notes.
+
+export type GraphNodeKind = 'note' | 'tag' | 'task' | 'project' | 'file';
+export type GraphEdgeKind = 'link' | 'mention' | 'tag' | 'similar';
+
+export interface GraphNode {
+  id: string;        // `${kind}:${refId}`
+  kind: GraphNodeKind;
+  refId: string;     // Record id, or the tag name
+  label: string;
+  folderId?: string; // Notes only
+  tags: string[];    // Notes only
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  kind: GraphEdgeKind;
+  weight: number;    // Pulls harder in the layout, 1 for direct links
+}
+
+export interface NoteGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface GraphSources {
+  notes: { id: string; title: string; content: string; folderId: string }[];
+  tasks: { id: string; title: string }[];
+  projects: { id: string; title: string }[];
+  files: { id: string; name: string }[];
+}
+
+// --- Building ---
+
+const nodeId = (kind: GraphNodeKind, refId: string) => `${kind}:${refId}`;
+
+const STOP_WORDS = new Set(
+  ('about above after again against also because been before being below between both could does doing down during each from further ' +
+   'have having here into itself just more most much must once only other over same should some such than that their theirs them then there ' +
+   'these they this those through under until very were what when where which while whom will with would your yours')
+    .split(' ')
+);
+
+const MIN_WORD_LENGTH = 4;
+const MIN_SHARED_WORDS = 3;
+const MAX_WORD_DOC_SHARE = 0.3; // Words in more notes than this say nothing about them
+const MIN_MENTION_LENGTH = 4;   // Shorter titles match too much ordinary text
+const MAX_SIMILAR_PER_NOTE = 5; // Only the strongest matches; common vocabulary would otherwise connect everything
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const titlePattern = (title: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(title.trim()).replace(/\s+/g, '\\s+')}(?![\\p{L}\\p{N}])`, 'iu');
+
+const wordsOf = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+const distinctiveWords = (text: string) =>
+  new Set(wordsOf(text).filter(w => w.length >= MIN_WORD_LENGTH && !STOP_WORDS.has(w) && !/^\d+$/.test(w)));
+
+export const buildNoteGraph = ({ notes, tasks, projects, files }: GraphSources): NoteGraph => {
+  const nodes = new Map<string, GraphNode>();
+  const edges = new Map<string, GraphEdge>();
+
+  const addEdge = (source: string, target: string, kind: GraphEdgeKind, weight: number) => {
+    if (source === target) return;
+    const key = source < target ? `${source}|${target}` : `${target}|${source}`;
+    const existing = edges.get(key);
+    // One edge per pair; the strongest relation wins
+    if (!existing || existing.weight < weight) edges.set(key, { source, target, kind, weight });
+  };
+
+  // Everything that can be mentioned by name; patterns are built the first time a title is a candidate
+  const mentionable = [
+    ...notes.map(n => ({ kind: 'note' as const, id: n.id, title: n.title })),
+    ...tasks.map(t => ({ kind: 'task' as const, id: t.id, title: t.title })),
+    ...projects.map(p => ({ kind: 'project' as const, id: p.id, title: p.title })),
+  ]
+    .filter(m => m.title && m.title.trim().length >= MIN_MENTION_LENGTH)
+    .map(m => ({ ...m, pattern: null as RegExp | null, words: wordsOf(m.title) }));
+  // Each title is indexed under its rarest word, so a note only runs the patterns of the few
+  // titles that could possibly match it
+  const titleWordCounts = new Map<string, number>();
+  mentionable.forEach(m => new Set(m.words).forEach(w => titleWordCounts.set(w, (titleWordCounts.get(w) || 0) + 1)));
+  const mentionIndex = new Map<string, typeof mentionable>();
+  const wordless = mentionable.filter(m => m.words.length === 0);
+  mentionable.forEach(m => {
+    if (!m.words.length) return;
+    const key = m.words.reduce((rarest, w) => (titleWordCounts.get(w)! < titleWordCounts.get(rarest)! ? w : rarest));
+    const list = mentionIndex.get(key);
+    if (list) list.push(m);
+    else mentionIndex.set(key, [m]);
+  });
+  const byTitle = new Map(notes.filter(n => n.title).map(n => [normalizeTitle(n.title), n]));
+  const linkables: Record<'task' | 'project' | 'file', Map<string, { id: string; label: string }>> = {
+    task: new Map(tasks.map(t => [t.id, { id: t.id, label: t.title }])),
+    project: new Map(projects.map(p => [p.id, { id: p.id, label: p.title }])),
+    file: new Map(files.map(f => [f.id, { id: f.id, label: f.name }])),
+  };
+
+  const addRecord = (kind: 'task' | 'project' | 'file', id: string) => {
+    const record = linkables[kind].get(id);
+    if (!record) return null;
+    const key = nodeId(kind, id);
+    if (!nodes.has(key)) nodes.set(key, { id: key, kind, refId: id, label: record.label || 'Untitled', tags: [] });
+    return key;
+  };
+
+  notes.forEach(note => {
+    nodes.set(nodeId('note', note.id), {
+      id: nodeId('note', note.id),
+      kind: 'note',
+      refId: note.id,
+      label: note.title || 'Untitled Note',
+      folderId: note.folderId,
+      tags: parseTags(note.content),
+    });
+  });
+
+  notes.forEach(note => {
+    const source = nodeId('note', note.id);
+    const node = nodes.get(source)!;
+
+    // Explicit links
+    parseLinks(note.content).forEach(link => {
+      if (link.kind === 'note') {
+        const target = link.byId ? notes.find(n => n.id === link.target) : byTitle.get(normalizeTitle(link.target));
+        if (target) addEdge(source, nodeId('note', target.id), 'link', 1);
+      } else {
+        const target = addRecord(link.kind, link.target);
+        if (target) addEdge(source, target, 'link', 1);
+      }
+    });
+
+    // Titles mentioned in plain text
+    const noteWords = new Set(wordsOf(note.content));
+    const candidates = [...wordless];
+    noteWords.forEach(w => { mentionIndex.get(w)?.forEach(m => candidates.push(m)); });
+    candidates.forEach(m => {
+      if (m.kind === 'note' && m.id === note.id) return;
+      if (!m.words.every(w => noteWords.has(w)) || !(m.pattern ??= titlePattern(m.title)).test(note.content)) return;
+      const target = m.kind === 'note' ? nodeId('note', m.id) : addRecord(m.kind, m.id);
+      if (target) addEdge(source, target, 'mention', 0.6);
+    });
+
+    // Tags
+    node.tags.forEach(tag => {
+      const key = nodeId('tag', tag);
+      if (!nodes.has(key)) nodes.set(key, { id: key, kind: 'tag', refId: tag, label: `#${tag}`, tags: [] });
+      addEdge(source, key, 'tag', 0.8);
+    });
+  });
+
+  // Shared uncommon words between notes, counted through each word's list of notes rather than
+  // by comparing every pair
+  const words = notes.map(n => distinctiveWords(`${n.title} ${n.content}`));
+  const notesWithWord = new Map<string, number[]>();
+  words.forEach((set, i) => set.forEach(w => {
+    const list = notesWithWord.get(w);
+    if (list) list.push(i);
+    else notesWithWord.set(w, [i]);
+  }));
+  const maxFrequency = Math.max(2, Math.floor(notes.length * MAX_WORD_DOC_SHARE));
+  const usefulWords = words.map(set => [...set].filter(w => {
+    const df = notesWithWord.get(w)!.length;
+    return df > 1 && df <= maxFrequency;
+  }));
+
+  const similar: { other: number; shared: number }[][] = notes.map(() => []);
+  const counts = new Uint32Array(notes.length);
+  for (let i = 0; i < notes.length; i++) {
+    const touched: number[] = [];
+    usefulWords[i].forEach(w => notesWithWord.get(w)!.forEach(j => {
+      if (j <= i) return;
+      if (counts[j]++ === 0) touched.push(j);
+    }));
+    touched.forEach(j => {
+      const shared = counts[j];
+      counts[j] = 0;
+      if (shared < MIN_SHARED_WORDS) return;
+      similar[i].push({ other: j, shared });
+      similar[j].push({ other: i, shared });
+    });
+  }
+
+  similar.forEach((matches, i) => {
+    matches
+      .sort((a, b) => b.shared - a.shared)
+      .slice(0, MAX_SIMILAR_PER_NOTE)
+      .forEach(({ other, shared }) => {
+        addEdge(nodeId('note', notes[i].id), nodeId('note', notes[other].id), 'similar', Math.min(0.5, 0.1 * shared));
+      });
+  });
+
+  return { nodes: [...nodes.values()], edges: [...edges.values()] };
+};
+
+// --- Filtering ---
+
+export interface GraphFilter {
+  folderIds?: string[] | null; // Notebooks whose notes to keep
+  tag?: string | null;
+  kinds?: GraphNodeKind[];   // Node kinds to keep; notes always stay
+  centerId?: string | null;  // Local graph: only nodes within `depth` steps of this one
+  depth?: number;
+}
+
+export const filterGraph = (graph: NoteGraph, { folderIds, tag, kinds, centerId, depth = 1 }: GraphFilter): NoteGraph => {
+  let keep = new Set(
+    graph.nodes
+      .filter(n => n.kind !== 'note' || ((!folderIds || folderIds.includes(n.folderId!)) && (!tag || n.tags.includes(tag))))
+      .filter(n => n.kind === 'note' || !kinds || kinds.includes(n.kind))
+      .map(n => n.id)
+  );
+  if (centerId) keep.add(centerId);
+  let edges = graph.edges.filter(e => keep.has(e.source) && keep.has(e.target));
+
+  if (centerId) {
+    const reached = new Set([centerId]);
+    let frontier = [centerId];
+    for (let step = 0; step < depth && frontier.length; step++) {
+      const next: string[] = [];
+      edges.forEach(e => {
+        const other = frontier.includes(e.source) ? e.target : frontier.includes(e.target) ? e.source : null;
+        if (other && !reached.has(other)) {
+          reached.add(other);
+          next.push(other);
+        }
+      });
+      frontier = next;
+    }
+    keep = reached;
+    edges = edges.filter(e => keep.has(e.source) && keep.has(e.target));
+  }
+
+  // Records only make sense next to the notes that reference them
+  const connected = new Set(edges.flatMap(e => [e.source, e.target]));
+  return {
+    nodes: graph.nodes.filter(n => keep.has(n.id) && (n.kind === 'note' || connected.has(n.id))),
+    edges,
+  };
+};
+
+// --- Layout ---
+
+export interface NodePosition {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  pinned: boolean; // Held by the user while dragging
+}
+
+export interface GraphSimulation {
+  positions: Map<string, NodePosition>;
+  tick: () => boolean; // False once the layout has settled
+  reheat: () => void;
+}
+
+const REPULSION = 1800;
+const SPRING_LENGTH = 70;
+const SPRING_STRENGTH = 0.04;
+const GRAVITY = 0.012;
+const DAMPING = 0.82;
+const ALPHA_DECAY = 0.985;
+const ALPHA_MIN = 0.02;
+
+// Force-directed layout: nodes repel each other, edges act as springs and a weak pull keeps
+// everything near the origin. Positions from a previous simulation are reused so the graph
+// doesn't jump when a note changes.
+export const createGraphSimulation = (graph: NoteGraph, previous?: Map<string, NodePosition>): GraphSimulation => {
+  const positions = new Map<string, NodePosition>();
+  const count = graph.nodes.length;
+  graph.nodes.forEach((node, i) => {
+    const old = previous?.get(node.id);
+    // New nodes start on a spiral so no two share a position
+    const angle = i * 2.4;
+    const radius = 12 * Math.sqrt(i + 1);
+    positions.set(node.id, old ? { ...old, pinned: false } : { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius, vx: 0, vy: 0, pinned: false });
+  });
+
+  const reusedAll = count > 0 && graph.nodes.every(n => previous?.has(n.id));
+  let alpha = reusedAll ? 0.3 : 1;
+
+  const tick = () => {
+    if (alpha < ALPHA_MIN) return false;
+    const list = [...positions.entries()];
+
+    for (let i = 0; i < list.length; i++) {
+      const [, a] = list[i];
+      for (let j = i + 1; j < list.length; j++) {
+        const [, b] = list[j];
+        let dx = a.x - b.x;
+        let dy = a.y - b.y;
+        let dist2 = dx * dx + dy * dy;
+        if (dist2 < 0.01) {
+          dx = Math.random() - 0.5;
+          dy = Math.random() - 0.5;
+          dist2 = 0.5;
+        }
+        const force = (REPULSION / dist2) * alpha;
+        const dist = Math.sqrt(dist2);
+        a.vx += (dx / dist) * force;
+        a.vy += (dy / dist) * force;
+        b.vx -= (dx / dist) * force;
+        b.vy -= (dy / dist) * force;
+      }
+    }
+
+    graph.edges.forEach(edge => {
+      const a = positions.get(edge.source);
+      const b = positions.get(edge.target);
+      if (!a || !b) return;
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+      const force = (dist - SPRING_LENGTH) * SPRING_STRENGTH * edge.weight * alpha;
+      a.vx += (dx / dist) * force;
+      a.vy += (dy / dist) * force;
+      b.vx -= (dx / dist) * force;
+      b.vy -= (dy / dist) * force;
+    });
+
+    positions.forEach(p => {
+      if (p.pinned) {
+        p.vx = 0;
+        p.vy = 0;
+        return;
+      }
+      p.vx = (p.vx - p.x * GRAVITY * alpha) * DAMPING;
+      p.vy = (p.vy - p.y * GRAVITY * alpha) * DAMPING;
+      p.x += p.vx;
+      p.y += p.vy;
+    });
+
+    alpha *= ALPHA_DECAY;
+    return true;
+  };
+
+  return { positions, tick, reheat: () => { alpha = Math.max(alpha, 0.5); } };
+};
@@ -0,0 +1,74 @@
+import { StorageBackend, Repository, createRepository } from './storage';
+
+// Version history for notes (and text files opened in Notes). A snapshot keeps content that is
+// about to be replaced: autosave takes one when enough time has passed or enough text has changed
+// since the last snapshot, and AI rewrites, restores and imports that overwrite a note always take
+// one first.
+// Snapshots live under "notes_history/<note id>", one collection per note.
+
+export type SnapshotReason = 'auto' | 'ai' | 'restore' | 'import';
+
+export interface NoteSnapshot {
+  id: string;
+  noteId: string;
+  title: string;
+  content: string;
+  reason: SnapshotReason;
+  createdAt: number;
+}
+
+export interface VersionedText {
+  id: string;
+  title: string;
+  content: string;
+}
+
+export const SNAPSHOT_INTERVAL = 10 * 60 * 1000;
+export const SNAPSHOT_MIN_CHANGE = 400; // Characters changed since the last snapshot
+export const MAX_SNAPSHOTS = 50;
+
+export const historyRepository = (storage: StorageBackend, noteId: string): Repository<NoteSnapshot> =>
+  createRepository<NoteSnapshot>(storage, `notes_history/${noteId}`);
+
+export const latestSnapshot = (snapshots: NoteSnapshot[]): NoteSnapshot | undefined =>
+  snapshots.reduce<NoteSnapshot | undefined>((latest, s) => (!latest || s.createdAt > latest.createdAt ? s : latest), undefined);
+
+// Rough size of an edit: the span between the common start and end of both texts
+export const changedLength = (before: string, after: string) => {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let end = 0;
+  while (end < before.length - start && end < after.length - start && before[before.length - 1 - end] === after[after.length - 1 - end]) end++;
+  return Math.max(before.length - start - end, after.length - start - end);
+};
+
+// Whether an autosave replacing `previous` with `next` should keep `previous` first
+export const isSnapshotDue = (
+  latest: Pick<NoteSnapshot, 'content' | 'createdAt'> | undefined,
+  previous: VersionedText,
+  next: VersionedText,
+  now = Date.now()
+) => {
+  if (!previous.content.trim() || previous.content === next.content) return false;
+  if (!latest) return true;
+  if (latest.content === previous.content) return false;
+  return now - latest.createdAt >= SNAPSHOT_INTERVAL || changedLength(latest.content, next.content) >= SNAPSHOT_MIN_CHANGE;
+};
+
+// Writes a snapshot of `version` and drops the oldest ones past MAX_SNAPSHOTS
+export const saveSnapshot = async (storage: StorageBackend, version: VersionedText, reason: SnapshotReason): Promise<NoteSnapshot> => {
+  const repo = historyRepository(storage, version.id);
+  const snapshot: NoteSnapshot = {
+    id: `snap_${Date.now()}`,
+    noteId: version.id,
+    title: version.title,
+    content: version.content,
+    reason,
+    createdAt: Date.now(),
+  };
+  await repo.put(snapshot);
+
+  const snapshots = (await repo.list()).sort((a, b) => b.createdAt - a.createdAt);
+  await Promise.all(snapshots.slice(MAX_SNAPSHOTS).map(s => repo.remove(s.id)));
+  return snapshot;
+};
@@ -0,0 +1,130 @@
+import { parseLinks } from './wikiLinks';
+
+// Notebooks and #tags for Notes. Notebooks are user records in the "notebooks" collection and
+// nest through parentId; Inbox, Journal and Archive always exist and can't be renamed, moved or
+// deleted. Notes keep their notebook in `folderId`, and one pointing at a notebook that no longer
+// exists is treated as being in the Inbox.
+
+export interface Notebook {
+  id: string;
+  name: string;
+  parentId: string | null;
+  createdAt: number;
+}
+
+export const BUILT_IN_NOTEBOOKS: Notebook[] = [
+  { id: 'inbox', name: 'Inbox', parentId: null, createdAt: 0 },
+  { id: 'journal', name: 'Journal', parentId: null, createdAt: 0 },
+  { id: 'archive', name: 'Archive', parentId: null, createdAt: 0 },
+];
+
+export const DEFAULT_NOTEBOOK_ID = 'inbox';
+
+export const isBuiltInNotebook = (id: string) => BUILT_IN_NOTEBOOKS.some(n => n.id === id);
+
+// Built-ins first, whatever is stored
+export const withBuiltInNotebooks = (notebooks: Notebook[]): Notebook[] => [
+  ...BUILT_IN_NOTEBOOKS,
+  ...notebooks.filter(n => !isBuiltInNotebook(n.id)),
+];
+
+// --- Tree ---
+
+export interface NotebookTreeNode {
+  notebook: Notebook;
+  depth: number;
+  children: NotebookTreeNode[];
+}
+
+// Expects the built-ins included. Built-ins keep their order, the rest sort by name; a notebook
+// whose parent is gone shows at the root rather than disappearing.
+export const buildNotebookTree = (notebooks: Notebook[]): NotebookTreeNode[] => {
+  const ids = new Set(notebooks.map(n => n.id));
+  const childrenOf = new Map<string | null, Notebook[]>();
+  notebooks.forEach(n => {
+    const parent = n.parentId && ids.has(n.parentId) && n.parentId !== n.id ? n.parentId : null;
+    childrenOf.set(parent, [...(childrenOf.get(parent) || []), n]);
+  });
+
+  const order = (a: Notebook, b: Notebook) => {
+    const builtInA = BUILT_IN_NOTEBOOKS.findIndex(n => n.id === a.id);
+    const builtInB = BUILT_IN_NOTEBOOKS.findIndex(n => n.id === b.id);
+    if (builtInA !== -1 || builtInB !== -1) return (builtInA === -1 ? Infinity : builtInA) - (builtInB === -1 ? Infinity : builtInB);
+    return a.name.localeCompare(b.name);
+  };
+
+  const visited = new Set<string>();
+  const build = (parentId: string | null, depth: number): NotebookTreeNode[] =>
+    (childrenOf.get(parentId) || [])
+      .filter(n => !visited.has(n.id))
+      .sort(order)
+      .map(notebook => {
+        visited.add(notebook.id);
+        return { notebook, depth, children: build(notebook.id, depth + 1) };
+      });
+
+  const tree = build(null, 0);
+  // Parent cycles can't come from the UI, but a notebook caught in one still shows up
+  notebooks.forEach(n => {
+    if (visited.has(n.id)) return;
+    visited.add(n.id);
+    tree.push({ notebook: n, depth: 0, children: build(n.id, 1) });
+  });
+  return tree;
+};
+
+// Depth-first rows for a sidebar, skipping the contents of collapsed notebooks
+export const flattenNotebookTree = (tree: NotebookTreeNode[], collapsed: Set<string> = new Set()): NotebookTreeNode[] =>
+  tree.flatMap(node => [node, ...(collapsed.has(node.notebook.id) ? [] : flattenNotebookTree(node.children, collapsed))]);
+
+// The notebook and everything nested inside it
+export const descendantIds = (id: string, notebooks: Notebook[]): string[] => {
+  const result = [id];
+  for (let i = 0; i < result.length; i++) {
+    notebooks.forEach(n => {
+      if (n.parentId === result[i] && !result.includes(n.id)) result.push(n.id);
+    });
+  }
+  return result;
+};
+
+export const canMoveNotebook = (id: string, parentId: string | null, notebooks: Notebook[]) =>
+  !isBuiltInNotebook(id) && (parentId === null || !descendantIds(id, notebooks).includes(parentId));
+
+// Root-first chain of notebooks, e.g. for a breadcrumb
+export const notebookPath = (id: string, notebooks: Notebook[]): Notebook[] => {
+  const path: Notebook[] = [];
+  let current = notebooks.find(n => n.id === id);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId ? notebooks.find(n => n.id === current!.parentId) : undefined;
+  }
+  return path;
+};
+
+// --- Tags ---
+
+const TAG_PATTERN = /(?<![\p{L}\p{N}_&#/])#([\p{L}_][\p{L}\p{N}_\-/]*)/gu;
+
+// #tags in note content, lowercased and without the #. Tags inside [[links]] don't count.
+export const parseTags = (content: string): string[] => {
+  const masked = parseLinks(content).reduce(
+    (text, link) => text.slice(0, link.start) + ' '.repeat(link.end - link.start) + text.slice(link.end),
+    content
+  );
+  return [...new Set([...masked.matchAll(TAG_PATTERN)].map(m => m[1].replace(/[-/]+$/, '').toLowerCase()))];
+};
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// Most used first
+export const countTags = (notes: { content: string }[]): TagCount[] => {
+  const counts = new Map<string, number>();
+  notes.forEach(note => parseTags(note.content).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
@@ -0,0 +1,118 @@
+import { StorageBackend, Repository, createRepository } from './storage';
+
+// Text templates for notes. Placeholders are written {{name}} and replaced by the variable of the
+// same name; placeholders without a value are left as they are so nothing typed is lost.
+// Templates in the library fill the date variables below themselves and ask for every other
+// placeholder ({{client}}, {{project_name}}, ...) when a note is created from them.
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+export const fillTemplate = (template: string, variables: Record<string, string>) =>
+  template.replace(PLACEHOLDER_PATTERN, (match, name: string) => variables[name] ?? match);
+
+// Names used in a template, in order of first appearance
+export const templatePlaceholders = (template: string): string[] =>
+  [...new Set([...template.matchAll(PLACEHOLDER_PATTERN)].map(m => m[1]))];
+
+// --- Dates ---
+
+export const dateKey = (date: Date) => {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+};
+
+export const dateVariables = (date: Date): Record<string, string> => ({
+  date: dateKey(date),
+  date_long: date.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' }),
+  weekday: date.toLocaleDateString(undefined, { weekday: 'long' }),
+  time: date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+});
+
+export const DATE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'date', description: 'Date as YYYY-MM-DD' },
+  { name: 'date_long', description: 'Date written out, e.g. October 19, 2026' },
+  { name: 'weekday', description: 'Day of the week' },
+  { name: 'time', description: 'Current time' },
+];
+
+// --- Library ---
+
+export interface NoteTemplate {
+  id: string;
+  name: string;
+  title: string;   // Title for new notes, may use placeholders too
+  content: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export const templateRepository = (storage: StorageBackend): Repository<NoteTemplate> =>
+  createRepository<NoteTemplate>(storage, 'note_templates');
+
+export const STARTER_TEMPLATES: Omit<NoteTemplate, 'id' | 'createdAt' | 'updatedAt'>[] = [
+  {
+    name: 'Meeting Notes',
+    title: '{{meeting}} – {{date}}',
+    content: '# {{meeting}}\n{{weekday}}, {{date_long}} · {{time}}\n\n**Attendees:** {{attendees}}\n\n## Agenda\n- \n\n## Notes\n\n\n## Decisions\n- \n\n## Action Items\n- [ ] \n',
+  },
+  {
+    name: 'Client Brief',
+    title: '{{client}} – Brief',
+    content: '# {{client}}: {{project}}\n\n## Background\n\n\n## Goals\n- \n\n## Deliverables\n- [ ] \n\n## Timeline\nDeadline: {{deadline}}\n\n## Budget\n\n\n## Contacts\n- \n',
+  },
+  {
+    name: 'Retrospective',
+    title: 'Retro – {{sprint}}',
+    content: '# Retro: {{sprint}}\n{{date_long}}\n\n## What went well\n- \n\n## What could be better\n- \n\n## Action Items\n- [ ] \n',
+  },
+];
+
+// Placeholders the user is asked to fill in, i.e. everything that isn't a date variable
+export const templatePrompts = (template: Pick<NoteTemplate, 'title' | 'content'>): string[] =>
+  templatePlaceholders(`${template.title}\n${template.content}`).filter(name => !DATE_VARIABLES.some(v => v.name === name));
+
+// "project_name" -> "Project name"
+export const promptLabel = (name: string) => {
+  const words = name.replace(/[_.-]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export const applyTemplate = (
+  template: Pick<NoteTemplate, 'title' | 'content'>,
+  values: Record<string, string> = {},
+  now = new Date()
+) => {
+  const variables = { ...values, ...dateVariables(now) };
+  return { title: fillTemplate(template.title, variables).trim(), content: fillTemplate(template.content, variables) };
+};
+
+// --- Files ---
+
+// Templates are shared as Markdown files with the template's name and title in a header:
+//   ---
+//   template: Meeting Notes
+//   title: {{meeting}} – {{date}}
+//   ---
+export const TEMPLATE_FILE_SUFFIX = '.template.md';
+
+export const templateFileName = (template: Pick<NoteTemplate, 'name'>) =>
+  `${template.name.replace(/[\\/:*?"<>|]+/g, '-').trim() || 'Template'}${TEMPLATE_FILE_SUFFIX}`;
+
+export const serializeTemplate = (template: Pick<NoteTemplate, 'name' | 'title' | 'content'>) =>
+  `---\ntemplate: ${template.name}\ntitle: ${template.title}\n---\n${template.content}`;
+
+// Files without the header import whole, named after the file
+export const parseTemplateFile = (text: string, fileName: string): Pick<NoteTemplate, 'name' | 'title' | 'content'> => {
+  const fallbackName = fileName.endsWith(TEMPLATE_FILE_SUFFIX) ? fileName.slice(0, -TEMPLATE_FILE_SUFFIX.length) : fileName.replace(/\.[^.]+$/, '');
+  const header = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(text);
+  if (!header) return { name: fallbackName, title: '', content: text };
+
+  const fields: Record<string, string> = {};
+  header[1].split(/\r?\n/).forEach(line => {
+    const match = /^(\w+):\s?(.*)$/.exec(line);
+    if (match) fields[match[1].toLowerCase()] = match[2].trim();
+  });
+  return { name: fields.template || fallbackName, title: fields.title || '', content: text.slice(header[0].length) };
+};
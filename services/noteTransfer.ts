@@ -0,0 +1,206 @@
+import { Notebook, DEFAULT_NOTEBOOK_ID, notebookPath, parseTags } from './noteLibrary';
+import { createZip, readZip } from './zip';
+
+// Moving notes in and out as Markdown files. Each note becomes a .md file with YAML front-matter
+// for what the text itself doesn't carry (dates, notebook, tags); exports of several notes are
+// zipped with one folder per notebook. Imports take .md files, a folder of them (an Obsidian
+// vault, say) or a zip, and rebuild notebooks from the folders they were in.
+
+// The fields notes are exported and imported with
+export interface TransferNote {
+  id: string;
+  title: string;
+  content: string;
+  folderId: string;
+  dailyDate?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface MarkdownFile {
+  path: string;           // Relative, "/"-separated, e.g. "Vault/Work/Meeting.md"
+  text: string;
+  modifiedAt: number;
+}
+
+export interface NotesImport {
+  notes: TransferNote[];     // Notes whose id already exists replace that note
+  notebooks: Notebook[];     // Notebooks to create for folders that don't match one
+  skipped: string[];         // Paths of files that aren't Markdown
+}
+
+const MARKDOWN_EXTENSIONS = /\.(md|markdown|txt)$/i;
+
+// --- Front-matter ---
+
+type FrontMatterValue = string | number | boolean | string[];
+
+const quote = (value: string) =>
+  /^[\w][\w ./@-]*$/.test(value) && !/^(true|false|null|yes|no|~|\d[\d.eE+-]*)$/i.test(value) && value.trim() === value
+    ? value
+    : JSON.stringify(value);
+
+export const serializeFrontMatter = (fields: Record<string, FrontMatterValue | undefined>) => {
+  const lines = Object.entries(fields)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => {
+      if (Array.isArray(value)) return value.length ? `${key}:\n${value.map(v => `  - ${quote(v)}`).join('\n')}` : `${key}: []`;
+      return `${key}: ${typeof value === 'string' ? quote(value) : value}`;
+    });
+  return `---\n${lines.join('\n')}\n---\n`;
+};
+
+const parseScalar = (raw: string): string => {
+  const value = raw.trim();
+  if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length > 1) return value.slice(1, -1).replace(/''/g, "'");
+  return value.replace(/\s+#.*$/, '');
+};
+
+// The YAML subset front-matter uses in practice: scalars, [inline, lists] and "- item" lists.
+// Values come back as strings; nested maps are ignored.
+export const parseFrontMatter = (text: string): { fields: Record<string, string | string[]>; body: string } => {
+  const match = /^\uFEFF?---\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/.exec(text);
+  if (!match) return { fields: {}, body: text };
+
+  const fields: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+  match[1].split(/\r?\n/).forEach(line => {
+    const item = /^\s+-\s+(.*)$|^-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      (fields[listKey] as string[]).push(parseScalar(item[1] ?? item[2]));
+      return;
+    }
+    const pair = /^([\w-]+):(?:\s+(.*))?$/.exec(line);
+    if (!pair) return;
+    const key = pair[1];
+    const value = (pair[2] || '').trim();
+    listKey = null;
+    if (!value) {
+      fields[key] = [];
+      listKey = key;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      fields[key] = value.slice(1, -1).split(',').map(parseScalar).filter(Boolean);
+    } else {
+      fields[key] = parseScalar(value);
+    }
+  });
+  return { fields, body: text.slice(match[0].length) };
+};
+
+// --- Export ---
+
+export const noteToMarkdown = (note: TransferNote) =>
+  serializeFrontMatter({
+    id: note.id,
+    title: note.title,
+    createdAt: new Date(note.createdAt).toISOString(),
+    updatedAt: new Date(note.updatedAt).toISOString(),
+    folderId: note.folderId,
+    dailyDate: note.dailyDate,
+    tags: parseTags(note.content),
+  }) + note.content;
+
+const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|#^[\]]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 120);
+
+export const noteFileName = (note: TransferNote) => `${safeFileName(note.title) || 'Untitled'}.md`;
+
+// One folder per notebook; notes with the same title in a folder get a counter
+export const exportNotesZip = (notes: TransferNote[], notebooks: Notebook[]) => {
+  const used = new Set<string>();
+  const files = notes.map(note => {
+    const folder = notebookPath(note.folderId, notebooks).map(n => safeFileName(n.name) || n.id).join('/') || 'Inbox';
+    const base = noteFileName(note).slice(0, -3);
+    let path = `${folder}/${base}.md`;
+    for (let n = 2; used.has(path.toLowerCase()); n++) path = `${folder}/${base} ${n}.md`;
+    used.add(path.toLowerCase());
+    return { name: path, data: noteToMarkdown(note), modifiedAt: note.updatedAt };
+  });
+  return createZip(files);
+};
+
+// --- Import ---
+
+const parseDate = (value: string | string[] | undefined) => {
+  if (typeof value !== 'string' || !value) return null;
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(time) ? time : null;
+};
+
+export const readMarkdownZip = async (zip: Uint8Array): Promise<MarkdownFile[]> => {
+  const decoder = new TextDecoder();
+  return (await readZip(zip)).map(entry => ({ path: entry.name, text: decoder.decode(entry.data), modifiedAt: entry.modifiedAt }));
+};
+
+// Hidden files and folders (".obsidian", ".trash", "__MACOSX") are app data, not notes
+const isHiddenPath = (path: string) => path.split('/').some(part => part.startsWith('.') || part === '__MACOSX');
+
+export const planNotesImport = (
+  files: MarkdownFile[],
+  existingNotes: { id: string }[],
+  existingNotebooks: Notebook[]
+): NotesImport => {
+  const visible = files.filter(f => !isHiddenPath(f.path));
+  const skipped = visible.filter(f => !MARKDOWN_EXTENSIONS.test(f.path)).map(f => f.path);
+  const markdown = visible.filter(f => MARKDOWN_EXTENSIONS.test(f.path));
+  const noteIds = new Set(existingNotes.map(n => n.id));
+  const notebookIds = new Set(existingNotebooks.map(n => n.id));
+  const notebooks = [...existingNotebooks];
+  const created: Notebook[] = [];
+  const now = Date.now();
+
+  // Folders map onto notebooks with the same name under the same parent, created where missing
+  const notebookFor = (folders: string[]) => {
+    let parentId: string | null = null;
+    folders.forEach(name => {
+      const existing = notebooks.find(n => n.parentId === parentId && n.name.toLowerCase() === name.toLowerCase());
+      if (existing) {
+        parentId = existing.id;
+        return;
+      }
+      const notebook: Notebook = { id: `nb_${now}_${created.length}`, name, parentId, createdAt: now };
+      notebooks.push(notebook);
+      created.push(notebook);
+      parentId = notebook.id;
+    });
+    return parentId ?? DEFAULT_NOTEBOOK_ID;
+  };
+
+  const notes = markdown.map((file, i): TransferNote => {
+    const { fields, body } = parseFrontMatter(file.text);
+    const str = (key: string) => (typeof fields[key] === 'string' ? (fields[key] as string) : undefined);
+    const parts = file.path.split('/').filter(Boolean);
+    const fileName = parts.pop() || '';
+
+    // Folder of an exported note is kept when that notebook still exists
+    const folderId = str('folderId') && notebookIds.has(str('folderId')!) ? str('folderId')! : notebookFor(parts);
+
+    // Front-matter tags that the text doesn't mention yet are added at the end
+    const tags = [fields.tags].flat().filter((t): t is string => !!t).flatMap(t => t.split(/[\s,]+/)).map(t => t.replace(/^#/, '')).filter(Boolean);
+    const present = new Set(parseTags(body));
+    const missing = [...new Set(tags.map(t => t.toLowerCase()))].filter(t => !present.has(t));
+    const content = missing.length ? `${body.replace(/\s*$/, '')}\n\n${missing.map(t => `#${t}`).join(' ')}\n` : body;
+
+    const createdAt = parseDate(str('createdAt') ?? str('created') ?? str('date')) ?? file.modifiedAt;
+    const updatedAt = parseDate(str('updatedAt') ?? str('updated') ?? str('modified')) ?? file.modifiedAt;
+    const id = str('id');
+
+    return {
+      id: id && /^[\w-]+$/.test(id) && (noteIds.has(id) || id.startsWith('note_')) ? id : `note_${now}_${i}`,
+      title: str('title') || fileName.replace(MARKDOWN_EXTENSIONS, ''),
+      content,
+      folderId,
+      ...(str('dailyDate') ? { dailyDate: str('dailyDate') } : {}),
+      createdAt,
+      updatedAt: Math.max(updatedAt, createdAt),
+    };
+  });
+
+  return { notes, notebooks: created, skipped };
+};
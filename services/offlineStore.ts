@@ -0,0 +1,77 @@
+// Local persistence for the OS shell (files, widgets, dock).
+// Snapshots keep the last known state per user so the desktop hydrates without a network,
+// and the mutation log records writes made while offline so they can be replayed on reconnect.
+
+export type MutationOp = 'set' | 'update' | 'remove';
+
+export interface QueuedMutation {
+  id?: number;
+  uid: string;
+  op: MutationOp;
+  path: string; // Relative to users/{uid}, e.g. "files/file_123"
+  value?: any;
+  createdAt: number;
+  attempts?: number; // Failed replays so far
+}
+
+const DB_NAME = 'nd_os_offline';
+const DB_VERSION = 1;
+const SNAPSHOTS = 'snapshots';
+const MUTATIONS = 'mutations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SNAPSHOTS)) db.createObjectStore(SNAPSHOTS);
+        if (!db.objectStoreNames.contains(MUTATIONS)) {
+          const store = db.createObjectStore(MUTATIONS, { keyPath: 'id', autoIncrement: true });
+          store.createIndex('uid', 'uid');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = <T>(storeName: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  openDb().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+  }));
+
+// --- Snapshots ---
+
+export const readSnapshot = async <T>(uid: string, path: string): Promise<T | null> => {
+  const value = await runRequest<T | undefined>(SNAPSHOTS, 'readonly', store => store.get(`${uid}/${path}`));
+  return value === undefined ? null : value;
+};
+
+export const writeSnapshot = (uid: string, path: string, value: unknown): Promise<void> =>
+  runRequest(SNAPSHOTS, 'readwrite', store => store.put(value, `${uid}/${path}`)).then(() => undefined);
+
+// --- Mutation Log ---
+
+export const enqueueMutation = (mutation: Omit<QueuedMutation, 'id' | 'createdAt'>): Promise<void> =>
+  runRequest(MUTATIONS, 'readwrite', store => store.add({ ...mutation, createdAt: Date.now() })).then(() => undefined);
+
+export const listMutations = (uid: string): Promise<QueuedMutation[]> =>
+  runRequest<QueuedMutation[]>(MUTATIONS, 'readonly', store => store.index('uid').getAll(uid))
+    .then(list => list.sort((a, b) => (a.id ?? 0) - (b.id ?? 0)));
+
+export const updateMutation = (mutation: QueuedMutation): Promise<void> =>
+  runRequest(MUTATIONS, 'readwrite', store => store.put(mutation)).then(() => undefined);
+
+export const deleteMutation = (id: number): Promise<void> =>
+  runRequest(MUTATIONS, 'readwrite', store => store.delete(id)).then(() => undefined);
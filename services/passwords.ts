@@ -0,0 +1,214 @@
+// Password tooling for the Vault: a CSPRNG-backed generator, an offline strength estimate
+// and an audit over stored credentials. Nothing here touches the network.
+
+// --- Generator ---
+
+export type GeneratorMode = 'random' | 'passphrase';
+
+export interface GeneratorOptions {
+  mode: GeneratorMode;
+  length: number;     // Random mode
+  lowercase: boolean;
+  uppercase: boolean;
+  digits: boolean;
+  symbols: boolean;
+  words: number;      // Passphrase mode
+  separator: string;
+  capitalize: boolean;
+}
+
+export const DEFAULT_GENERATOR_OPTIONS: GeneratorOptions = {
+  mode: 'random',
+  length: 20,
+  lowercase: true,
+  uppercase: true,
+  digits: true,
+  symbols: true,
+  words: 6,
+  separator: '-',
+  capitalize: false,
+};
+
+const CHARSETS = {
+  lowercase: 'abcdefghijklmnopqrstuvwxyz',
+  uppercase: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  digits: '0123456789',
+  symbols: '!@#$%^&*()-_=+[]{};:,.?/~',
+};
+
+// 256 short, unambiguous words: exactly 8 bits of entropy per word
+const WORDS = (
+  'able acid aged also area army away baby back bake ball band bank base bath bear beat bell belt best ' +
+  'bird blow blue boat body bold bone book boot born boss both bowl bulk burn bush busy cake calm camp ' +
+  'card care cart case cash cast cave cell chef chip city clay club coal coat code coin cold cook cool ' +
+  'copy cord core corn cost crew crop cube cute dark dawn deal deck deep deer desk dial dice diet dirt ' +
+  'dish dock door dose down draw drum duck dune dust duty earn east easy edge epic even exit face fact ' +
+  'fair fall farm fast fern file film fire firm fish five flag flat flow foam fold folk food fork form ' +
+  'fort four free frog fuel full fund gain game gate gear gift glad glow glue goal gold golf good gown ' +
+  'grab gray grid grin grip hair half hall hand harp hawk heat herb hero high hike hill hint hive hold ' +
+  'home hood hook hope horn host hour huge hunt idea inch iron item jade jazz join joke jump jury keen ' +
+  'kept kick kind king kite knee knot lake lamp land lane last lava lawn lead leaf lens life lift lime ' +
+  'line link lion list load loan lock loft long loop lost loud luck lung mail main malt mask mast math ' +
+  'maze meal mild mile milk mill mind mint mist moon moss moth much mule nail navy neat nest news nice ' +
+  'node noon nose note oath oval oven pace pack page palm park path peak pear pine'
+).split(' ');
+
+// Uniform integer in [0, max) without modulo bias
+const randomIndex = (max: number): number => {
+  const limit = Math.floor(0x100000000 / max) * max;
+  const buffer = new Uint32Array(1);
+  do {
+    crypto.getRandomValues(buffer);
+  } while (buffer[0] >= limit);
+  return buffer[0] % max;
+};
+
+const pick = (chars: string) => chars[randomIndex(chars.length)];
+
+const shuffle = <T>(list: T[]): T[] => {
+  for (let i = list.length - 1; i > 0; i--) {
+    const j = randomIndex(i + 1);
+    [list[i], list[j]] = [list[j], list[i]];
+  }
+  return list;
+};
+
+export const generatePassword = (options: GeneratorOptions): string => {
+  if (options.mode === 'passphrase') {
+    const count = Math.max(3, options.words);
+    return Array.from({ length: count }, () => {
+      const word = WORDS[randomIndex(WORDS.length)];
+      return options.capitalize ? word[0].toUpperCase() + word.slice(1) : word;
+    }).join(options.separator);
+  }
+
+  const sets = (Object.keys(CHARSETS) as (keyof typeof CHARSETS)[])
+    .filter(name => options[name])
+    .map(name => CHARSETS[name]);
+  if (sets.length === 0) sets.push(CHARSETS.lowercase);
+
+  const length = Math.max(options.length, sets.length);
+  const pool = sets.join('');
+  // One guaranteed character per enabled set, the rest from the full pool
+  const chars = [...sets.map(pick), ...Array.from({ length: length - sets.length }, () => pick(pool))];
+  return shuffle(chars).join('');
+};
+
+export const generatorEntropy = (options: GeneratorOptions): number => {
+  if (options.mode === 'passphrase') return Math.max(3, options.words) * Math.log2(WORDS.length);
+  const pool = (Object.keys(CHARSETS) as (keyof typeof CHARSETS)[])
+    .filter(name => options[name])
+    .reduce((sum, name) => sum + CHARSETS[name].length, 0) || CHARSETS.lowercase.length;
+  return options.length * Math.log2(pool);
+};
+
+// --- Strength Estimate ---
+
+export type StrengthScore = 0 | 1 | 2 | 3 | 4;
+
+export interface StrengthResult {
+  score: StrengthScore;
+  label: string;
+  entropy: number; // Estimated bits after penalties
+  warnings: string[];
+}
+
+export const STRENGTH_LABELS = ['Very Weak', 'Weak', 'Fair', 'Strong', 'Very Strong'];
+
+const COMMON_PASSWORDS = new Set([
+  'password', 'passw0rd', '123456', '12345678', '123456789', '1234567890', 'qwerty', 'qwertyuiop',
+  'abc123', 'letmein', 'welcome', 'monkey', 'dragon', 'iloveyou', 'admin', 'login', 'master',
+  'sunshine', 'princess', 'football', 'baseball', 'shadow', 'superman', 'trustno1', '111111', '000000',
+]);
+
+const SEQUENCES = ['abcdefghijklmnopqrstuvwxyz', '0123456789', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+
+const poolSize = (password: string) => {
+  let size = 0;
+  if (/[a-z]/.test(password)) size += 26;
+  if (/[A-Z]/.test(password)) size += 26;
+  if (/[0-9]/.test(password)) size += 10;
+  if (/[^a-zA-Z0-9]/.test(password)) size += 33;
+  return size;
+};
+
+// Counts characters that continue a run (aaa) or a keyboard/alphabet sequence (abc, 321)
+const predictableChars = (password: string) => {
+  const lower = password.toLowerCase();
+  let count = 0;
+  for (let i = 2; i < lower.length; i++) {
+    const tri = lower.slice(i - 2, i + 1);
+    const reversed = tri.split('').reverse().join('');
+    const isRun = tri[0] === tri[1] && tri[1] === tri[2];
+    const isSequence = SEQUENCES.some(seq => seq.includes(tri) || seq.includes(reversed));
+    if (isRun || isSequence) count++;
+  }
+  return count;
+};
+
+export const estimateStrength = (password: string): StrengthResult => {
+  const warnings: string[] = [];
+  if (!password) return { score: 0, label: STRENGTH_LABELS[0], entropy: 0, warnings };
+
+  const normalized = password.toLowerCase().replace(/[@4]/g, 'a').replace(/3/g, 'e').replace(/[1!]/g, 'i').replace(/0/g, 'o').replace(/\$/g, 's');
+  if (COMMON_PASSWORDS.has(password.toLowerCase()) || COMMON_PASSWORDS.has(normalized)) {
+    return { score: 0, label: STRENGTH_LABELS[0], entropy: 0, warnings: ['One of the most common passwords'] };
+  }
+
+  const predictable = predictableChars(password);
+  const effectiveLength = password.length - predictable;
+  let entropy = effectiveLength * Math.log2(poolSize(password) || 1);
+
+  if (password.length < 10) warnings.push('Shorter than 10 characters');
+  if (predictable > 0) warnings.push('Contains repeats or sequences');
+  if (/(19|20)\d{2}/.test(password)) {
+    warnings.push('Contains a year');
+    entropy -= 10;
+  }
+  if (/^[a-zA-Z]+\d{1,4}[!@#$%^&*]?$/.test(password)) {
+    warnings.push('Word followed by digits is a common pattern');
+    entropy *= 0.6;
+  }
+  // Passphrases from our own word list are only as strong as the number of words
+  const words = password.split(/[^a-zA-Z]+/).filter(Boolean);
+  if (words.length >= 3 && words.every(w => WORDS.includes(w.toLowerCase()))) {
+    entropy = words.length * Math.log2(WORDS.length);
+  }
+
+  entropy = Math.max(0, Math.round(entropy));
+  const score: StrengthScore = entropy < 28 ? 0 : entropy < 36 ? 1 : entropy < 60 ? 2 : entropy < 80 ? 3 : 4;
+  return { score, label: STRENGTH_LABELS[score], entropy, warnings };
+};
+
+// --- Audit ---
+
+export type AuditIssue = 'reused' | 'weak' | 'old';
+
+export interface AuditEntry {
+  id: string;
+  issues: AuditIssue[];
+  strength: StrengthResult;
+  ageDays: number;
+  reuseCount: number; // Other items sharing this password
+}
+
+export const OLD_PASSWORD_DAYS = 180;
+
+export const auditPasswords = (
+  items: { id: string; secret: string; createdAt: number }[],
+  now = Date.now()
+): AuditEntry[] => {
+  const bySecret = new Map<string, number>();
+  items.forEach(item => bySecret.set(item.secret, (bySecret.get(item.secret) || 0) + 1));
+
+  return items.map(item => {
+    const strength = estimateStrength(item.secret);
+    const ageDays = Math.floor((now - item.createdAt) / 86400000);
+    const reuseCount = (bySecret.get(item.secret) || 1) - 1;
+    const issues: AuditIssue[] = [];
+    if (reuseCount > 0) issues.push('reused');
+    if (strength.score < 2) issues.push('weak');
+    if (ageDays >= OLD_PASSWORD_DAYS) issues.push('old');
+    return { id: item.id, issues, strength, ageDays, reuseCount };
+  });
+};
@@ -0,0 +1,381 @@
+import { AppCommandContext } from '../types';
+import { createRepository } from './storage';
+
+// Natural-language quick capture for the Command Palette: "call Sam tomorrow 3pm !high" becomes a task,
+// "meeting with Ana fri 2-3pm" an event and "spent 12.50 on lunch from Visa" a Wallet transaction.
+// Parsing is a fixed set of local patterns, so the same text and clock always give the same result.
+
+export type CapturePriority = 'low' | 'medium' | 'high';
+
+export interface CapturedTask {
+  kind: 'task';
+  title: string;
+  dueDate: string | null; // YYYY-MM-DD, like the Tasks app
+  time: string | null;    // HH:MM; tasks have no due time, so it goes into the description
+  priority: CapturePriority;
+}
+
+export interface CapturedEvent {
+  kind: 'event';
+  title: string;
+  start: number;
+  end: number;
+}
+
+export interface CapturedTransaction {
+  kind: 'transaction';
+  type: 'income' | 'expense';
+  amount: number;
+  category: string;
+  accountId: string | null;
+  accountName: string | null;
+  accountGuessed: boolean; // No account was named, so the first one is used
+  note: string;
+  date: number;
+}
+
+export type CaptureResult = CapturedTask | CapturedEvent | CapturedTransaction;
+
+export interface CaptureParse {
+  result: CaptureResult;
+  confident: boolean; // Something beyond plain text was recognised (date, time, priority, amount...)
+}
+
+export interface CaptureAccount {
+  id: string;
+  name: string;
+  bankName?: string;
+  lastFour?: string;
+  balance: number;
+}
+
+// --- Vocabulary ---
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAY_ABBREVIATIONS: Record<string, number> = { mon: 1, tue: 2, tues: 2, wed: 3, thu: 4, thur: 4, thurs: 4, fri: 5 };
+const AMBIGUOUS_WEEKDAYS: Record<string, number> = { sun: 0, sat: 6 }; // Also English words, so they need "on"/"next"/"this"
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+
+const EVENT_WORDS = ['meeting', 'meet', 'appointment', 'appt', 'event', 'lunch', 'dinner', 'breakfast', 'party'];
+// Past tense only: "pay rent friday" is a task, "paid 1200 rent" is a transaction
+const EXPENSE_WORDS = ['spent', 'paid', 'bought'];
+const INCOME_WORDS = ['earned', 'received', 'refunded', 'income'];
+
+// Wallet's own categories first; anything else keeps the user's word
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  Food: ['lunch', 'dinner', 'breakfast', 'coffee', 'food', 'groceries', 'grocery', 'restaurant', 'snack', 'snacks', 'pizza', 'drinks'],
+  Transport: ['uber', 'taxi', 'cab', 'bus', 'train', 'metro', 'gas', 'fuel', 'parking', 'transport', 'flight', 'ticket'],
+  Tech: ['software', 'app', 'apps', 'laptop', 'phone', 'subscription', 'tech', 'computer', 'hosting', 'domain'],
+  Home: ['rent', 'furniture', 'home', 'utilities', 'electricity', 'water', 'internet', 'cleaning'],
+  Work: ['office', 'work', 'supplies', 'client', 'coworking'],
+  Health: ['pharmacy', 'doctor', 'dentist', 'gym', 'health', 'medicine', 'therapy'],
+};
+
+const FILLER_WORDS = new Set(['on', 'for', 'at', 'by', 'due', 'from', 'to', 'in', 'with', 'the', 'a', 'an', 'my', 'of']);
+
+// --- Helpers ---
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toDateKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+type Time = { h: number; m: number };
+
+// Hours and minutes; bare hours after "at" under 8 are read as afternoon ("at 3" is 15:00)
+const toTime = (hours: string, minutes: string | undefined, meridiem: string | undefined, assumeAfternoon = false): Time | null => {
+  let h = parseInt(hours, 10);
+  const m = minutes ? parseInt(minutes, 10) : 0;
+  const suffix = meridiem?.toLowerCase();
+  if (suffix === 'pm' && h < 12) h += 12;
+  if (suffix === 'am' && h === 12) h = 0;
+  if (!suffix && assumeAfternoon && h >= 1 && h < 8) h += 12;
+  if (h > 23 || m > 59) return null;
+  return { h, m };
+};
+
+const withTime = (date: Date, time: Time) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), time.h, time.m).getTime();
+
+// Consumes matches from the working text so what is left becomes the title.
+// `accept` can reject a match, which then leaves the text untouched.
+interface Scanner {
+  take(pattern: RegExp, accept?: (match: RegExpMatchArray) => boolean): RegExpMatchArray | null;
+  rest(): string;
+}
+
+const createScanner = (input: string): Scanner => {
+  let text = ` ${input} `;
+  return {
+    take: (pattern, accept) => {
+      const match = text.match(pattern);
+      if (!match || (accept && !accept(match))) return null;
+      text = text.slice(0, match.index!) + ' ' + text.slice(match.index! + match[0].length);
+      return match;
+    },
+    rest: () => text.replace(/\s+/g, ' ').trim(),
+  };
+};
+
+// --- Dates and Times ---
+
+const parseDate = (scanner: Scanner, now: Date): { date: Date; tonight: boolean } | null => {
+  const today = startOfDay(now);
+  const lead = '(?:(?:on|due|by|this)\\s+)?';
+
+  let m = scanner.take(new RegExp(`\\b${lead}(today|tonight|tomorrow|tmrw?|tmr|yesterday)\\b`, 'i'));
+  if (m) {
+    const word = m[1].toLowerCase();
+    const offset = word === 'yesterday' ? -1 : word === 'today' || word === 'tonight' ? 0 : 1;
+    return { date: addDays(today, offset), tonight: word === 'tonight' };
+  }
+
+  m = scanner.take(/\bin\s+(\d+)\s+(days?|weeks?)\b/i);
+  if (m) return { date: addDays(today, parseInt(m[1], 10) * (m[2].toLowerCase().startsWith('week') ? 7 : 1)), tonight: false };
+
+  m = scanner.take(/\bnext\s+week\b/i);
+  if (m) return { date: addDays(today, ((8 - today.getDay()) % 7) || 7), tonight: false };
+
+  m = scanner.take(new RegExp(`\\b(?:(?:on|due|by|this|next)\\s+)?(${[...WEEKDAYS, ...Object.keys(WEEKDAY_ABBREVIATIONS)].join('|')})\\b`, 'i'))
+    ?? scanner.take(new RegExp(`\\b(?:on|due|by|this|next)\\s+(${Object.keys(AMBIGUOUS_WEEKDAYS).join('|')})\\b`, 'i'));
+  if (m) {
+    const word = m[1].toLowerCase();
+    const target = WEEKDAYS.includes(word) ? WEEKDAYS.indexOf(word) : { ...WEEKDAY_ABBREVIATIONS, ...AMBIGUOUS_WEEKDAYS }[word];
+    // Always the coming one: "friday" said on a Friday means next week
+    return { date: addDays(today, (target - today.getDay() + 7) % 7 || 7), tonight: false };
+  }
+
+  m = scanner.take(new RegExp(`\\b${lead}(\\d{4})-(\\d{2})-(\\d{2})\\b`));
+  if (m) return { date: new Date(+m[1], +m[2] - 1, +m[3]), tonight: false };
+
+  const upcoming = (month: number, day: number, year?: number) => {
+    if (month < 0 || month > 11 || day < 1 || day > 31) return null;
+    if (year !== undefined) return new Date(year < 100 ? 2000 + year : year, month, day);
+    const date = new Date(today.getFullYear(), month, day);
+    return date < today ? new Date(today.getFullYear() + 1, month, day) : date;
+  };
+
+  // Month/day, as in the US
+  let date: Date | null = null;
+  const found = (value: Date | null) => !!(date = value);
+  if (scanner.take(new RegExp(`\\b${lead}(\\d{1,2})/(\\d{1,2})(?:/(\\d{2,4}))?\\b`), m => found(upcoming(+m[1] - 1, +m[2], m[3] ? +m[3] : undefined)))) {
+    return { date: date!, tonight: false };
+  }
+
+  const month = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+  if (scanner.take(new RegExp(`\\b${lead}${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`, 'i'), m => found(upcoming(month(m[1]), +m[2])))) {
+    return { date: date!, tonight: false };
+  }
+  if (scanner.take(new RegExp(`\\b${lead}(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}\\b`, 'i'), m => found(upcoming(month(m[2]), +m[1])))) {
+    return { date: date!, tonight: false };
+  }
+
+  return null;
+};
+
+interface ParsedTime {
+  start: Time;
+  end: Time | null;
+  durationMinutes: number | null;
+}
+
+const TIME = '(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)?';
+
+const parseTime = (scanner: Scanner): ParsedTime | null => {
+  let durationMinutes: number | null = null;
+  const duration = scanner.take(/\bfor\s+(\d+(?:\.\d+)?)\s*(h|hrs?|hours?|m|mins?|minutes?)\b/i);
+  if (duration) durationMinutes = Math.round(parseFloat(duration[1]) * (duration[2].toLowerCase().startsWith('h') ? 60 : 1));
+
+  // Ranges: "3-4pm", "from 3pm to 5pm", "15:00-16:30"; a missing am/pm is copied from the end
+  // Plain numbers ("2 to 3 apples") need am/pm or minutes on either side to count
+  let rangeTimes: { start: Time; end: Time } | null = null;
+  const range = scanner.take(new RegExp(`\\b(?:from\\s+)?${TIME}\\s*(?:-|–|to|until)\\s*${TIME}(?=\\s)`, 'i'), m => {
+    if (!(m[2] || m[3] || m[5] || m[6])) return false;
+    const start = toTime(m[1], m[2], m[3] || m[6]);
+    const end = toTime(m[4], m[5], m[6]);
+    rangeTimes = start && end ? { start, end } : null;
+    return !!rangeTimes;
+  });
+  if (range) return { ...rangeTimes!, durationMinutes };
+
+  const named = scanner.take(/\b(?:at\s+)?(noon|midday|midnight)\b/i);
+  if (named) return { start: named[1].toLowerCase() === 'midnight' ? { h: 0, m: 0 } : { h: 12, m: 0 }, end: null, durationMinutes };
+
+  let single: Time | null = null;
+  const accept = (assumeAfternoon: boolean) => (m: RegExpMatchArray) => !!(single = toTime(m[1], m[2], m[3], assumeAfternoon && !m[2]));
+  if (
+    scanner.take(new RegExp(`(?:\\bat\\s+|@\\s*|\\b)(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)\\b`, 'i'), accept(false))
+    || scanner.take(/(?:\bat\s+|@\s*)(\d{1,2})(?::(\d{2}))?(?=\s)/i, accept(true))
+    || scanner.take(/\b(\d{1,2}):(\d{2})\b/, accept(false))
+  ) {
+    return { start: single!, end: null, durationMinutes };
+  }
+
+  return durationMinutes ? { start: { h: 9, m: 0 }, end: null, durationMinutes } : null;
+};
+
+// --- Priority ---
+
+const parsePriority = (scanner: Scanner): CapturePriority | null => {
+  const m = scanner.take(/(?:^|\s)(?:!(high|hi|h|1|!!)|!(medium|med|m|2|!)|!(low|lo|l|3))(?=\s)/i);
+  if (!m) return null;
+  return m[1] !== undefined ? 'high' : m[2] !== undefined ? 'medium' : 'low';
+};
+
+// --- Money ---
+
+const AMOUNT = '(?:[$€£]\\s?)?(\\d+(?:[.,]\\d{1,2})?)(?:\\s?(?:[$€£]|usd|eur|gbp|dollars?|euros?|bucks))?';
+
+const findAccount = (scanner: Scanner, accounts: CaptureAccount[]): CaptureAccount | null => {
+  // Longest names first, so "Visa Gold" wins over "Visa"
+  const candidates = accounts
+    .flatMap(account => [account.name, account.bankName, account.lastFour].filter(Boolean).map(label => ({ account, label: label as string })))
+    .sort((a, b) => b.label.length - a.label.length);
+  for (const { account, label } of candidates) {
+    const escaped = label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (scanner.take(new RegExp(`\\b(?:from|with|using|via|on|to|into)\\s+(?:my\\s+)?${escaped}(?:\\s+(?:card|account))?\\b`, 'i'))) return account;
+  }
+  for (const { account, label } of candidates) {
+    const escaped = label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (scanner.take(new RegExp(`\\b${escaped}\\b`, 'i'))) return account;
+  }
+  return null;
+};
+
+const categorize = (words: string[], phrase: string | null) => {
+  for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
+    if (words.some(word => keywords.includes(word.toLowerCase()))) return category;
+  }
+  const label = phrase || words[0];
+  return label ? label.charAt(0).toUpperCase() + label.slice(1) : 'Other';
+};
+
+const parseTransaction = (text: string, now: Date, accounts: CaptureAccount[]): CapturedTransaction | null => {
+  const scanner = createScanner(text);
+  const words: string[] = text.toLowerCase().match(/[a-z]+/g) || [];
+  const type = words.some(w => INCOME_WORDS.includes(w)) ? 'income' : words.some(w => EXPENSE_WORDS.includes(w)) ? 'expense' : null;
+  const hasCurrency = /[$€£]|\b(usd|eur|gbp|dollars?|euros?|bucks)\b/i.test(text);
+  if (!type && !hasCurrency) return null;
+
+  // Dates first so "on 10/21" is not read as an amount
+  const date = parseDate(scanner, now);
+  const amountMatch = scanner.take(new RegExp(`(?:^|\\s)${AMOUNT}(?=\\s)`, 'i'));
+  if (!amountMatch) return null;
+
+  scanner.take(new RegExp(`\\b(?:${[...EXPENSE_WORDS, ...INCOME_WORDS].join('|')})\\b`, 'i'));
+  const account = findAccount(scanner, accounts);
+  const phrase = scanner.rest().match(/\b(?:on|for)\s+(.+)$/i)?.[1] ?? null;
+  const note = scanner.rest().split(' ').filter(word => !FILLER_WORDS.has(word.toLowerCase())).join(' ');
+  const fallback = account ? null : accounts[0] ?? null;
+
+  return {
+    kind: 'transaction',
+    type: type ?? 'expense',
+    amount: parseFloat(amountMatch[1].replace(',', '.')),
+    category: categorize(note.split(' ').filter(Boolean), phrase),
+    accountId: (account ?? fallback)?.id ?? null,
+    accountName: (account ?? fallback)?.name ?? null,
+    accountGuessed: !account && !!fallback,
+    note,
+    date: date && toDateKey(date.date) !== toDateKey(now) ? withTime(date.date, { h: 12, m: 0 }) : now.getTime(),
+  };
+};
+
+// --- Entry Point ---
+
+const cleanTitle = (text: string) =>
+  text
+    .replace(/^(?:(?:on|at|by|due|from|to|for|in)\s+)+/i, '')
+    .replace(/(?:\s+(?:on|at|by|due|from|to|for|in))+$/i, '')
+    .trim();
+
+export const parseCapture = (input: string, now = new Date(), accounts: CaptureAccount[] = []): CaptureParse | null => {
+  const text = input.trim();
+  if (!text) return null;
+
+  const transaction = parseTransaction(text, now, accounts);
+  if (transaction) return { result: transaction, confident: true };
+
+  const scanner = createScanner(text);
+  const forcedEvent = scanner.take(/^\s*event:\s*/i);
+  const priority = parsePriority(scanner);
+  const date = parseDate(scanner, now);
+  const time = parseTime(scanner);
+  const title = cleanTitle(scanner.rest());
+  const firstWord = title.split(' ')[0]?.toLowerCase() ?? '';
+  const confident = !!(forcedEvent || priority || date || time);
+
+  const isEvent = !!forcedEvent || (!priority && (!!time?.end || !!time?.durationMinutes || (EVENT_WORDS.includes(firstWord) && !!(date || time))));
+  if (isEvent) {
+    const start: Time = time?.start ?? (date?.tonight ? { h: 20, m: 0 } : { h: 9, m: 0 });
+    // Without a date, a time that has already passed today means tomorrow
+    const day = date?.date ?? (withTime(now, start) < now.getTime() ? addDays(startOfDay(now), 1) : startOfDay(now));
+    const startAt = withTime(day, start);
+    const endAt = time?.end ? withTime(day, time.end) : startAt + (time?.durationMinutes ?? 60) * 60 * 1000;
+    return {
+      result: { kind: 'event', title: title || 'Event', start: startAt, end: endAt > startAt ? endAt : endAt + 24 * 60 * 60 * 1000 },
+      confident: true,
+    };
+  }
+
+  const taskTime = time?.start ?? (date?.tonight ? { h: 20, m: 0 } : null);
+  return {
+    result: {
+      kind: 'task',
+      title: title || text,
+      dueDate: date ? toDateKey(date.date) : taskTime ? toDateKey(now) : null,
+      time: taskTime ? `${pad(taskTime.h)}:${pad(taskTime.m)}` : null,
+      priority: priority ?? 'medium',
+    },
+    confident,
+  };
+};
+
+// --- Saving ---
+
+// Writes the same records the Tasks, Calendar and Wallet apps create themselves
+export const commitCapture = async (result: CaptureResult, { storage, addLog }: Pick<AppCommandContext, 'storage' | 'addLog'>) => {
+  if (result.kind === 'task') {
+    const task = {
+      id: `task_${Date.now()}`,
+      title: result.title,
+      description: result.time ? `Due at ${result.time}` : '',
+      completed: false,
+      priority: result.priority,
+      dueDate: result.dueDate,
+      subtasks: [],
+      createdAt: Date.now(),
+    };
+    await createRepository(storage, 'tasks').put(task);
+    addLog({ source: 'Tasks', message: `Created: "${task.title}"`, type: 'info', isCloud: storage.isCloud });
+    return;
+  }
+
+  if (result.kind === 'event') {
+    const event = { id: `ev_${Date.now()}`, title: result.title, start: result.start, end: result.end, type: 'event' };
+    await createRepository(storage, 'calendar/events').put(event);
+    addLog({ source: 'Calendar', message: `Event Created: "${event.title}"`, type: 'success', isCloud: storage.isCloud });
+    return;
+  }
+
+  if (!result.accountId) throw new Error('No Wallet account to record this in');
+  const accounts = createRepository<CaptureAccount>(storage, 'wallet/accounts');
+  const account = (await accounts.list()).find(a => a.id === result.accountId);
+  if (!account) throw new Error('Wallet account not found');
+
+  const tx = {
+    id: `tx_${Date.now()}`,
+    accountId: account.id,
+    amount: result.amount,
+    type: result.type,
+    category: result.category,
+    date: result.date,
+    note: result.note,
+  };
+  await createRepository(storage, 'wallet/transactions').put(tx);
+  await accounts.patch(account.id, { balance: result.type === 'income' ? account.balance + result.amount : account.balance - result.amount });
+  addLog({ source: 'Wallet', message: `Tx: ${result.type.toUpperCase()} $${result.amount}`, type: 'info', isCloud: storage.isCloud });
+};
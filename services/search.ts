@@ -0,0 +1,341 @@
+import { AppID } from '../types';
+import { toList } from './storage';
+
+// Full-text search over user data for the Command Palette. Every source turns its records into
+// SearchDocuments and gets its own inverted index, so a change in one collection only re-indexes
+// that collection. Queries match whole words or word prefixes (as you type) and every term must match.
+
+export type SearchDocType = 'note' | 'task' | 'project' | 'crm-task' | 'event' | 'clipboard' | 'email';
+
+export interface SearchDocument {
+  id: string;          // Unique across sources
+  type: SearchDocType;
+  title: string;
+  body: string;
+  timestamp?: number;  // Breaks ties in favour of recent items
+  appId: AppID;
+  launchProps?: any;   // Deep link into the owning app
+}
+
+export interface SearchIndex {
+  documents: SearchDocument[];
+  postings: Map<string, Map<number, { title: number; body: number }>>; // Token -> document -> occurrences
+  vocabulary: string[]; // Sorted tokens, for prefix lookups
+}
+
+export type HighlightRange = [number, number]; // [start, end) into the text
+
+export interface HighlightedText {
+  text: string;
+  ranges: HighlightRange[];
+}
+
+export interface SearchHit {
+  document: SearchDocument;
+  score: number;
+  title: HighlightedText;
+  snippet: HighlightedText;
+}
+
+// --- Type Filters ---
+
+export interface SearchTypeFilter {
+  label: string;
+  aliases: string[]; // Typed before a colon, e.g. "t: invoice"
+  types: SearchDocType[];
+}
+
+export const SEARCH_TYPE_FILTERS: SearchTypeFilter[] = [
+  { label: 'Notes', aliases: ['n', 'note', 'notes'], types: ['note'] },
+  { label: 'Tasks', aliases: ['t', 'task', 'tasks'], types: ['task', 'crm-task'] },
+  { label: 'CRM', aliases: ['p', 'crm', 'project', 'projects'], types: ['project', 'crm-task'] },
+  { label: 'Calendar', aliases: ['c', 'cal', 'event', 'events'], types: ['event'] },
+  { label: 'Clipboard', aliases: ['cb', 'clip', 'clipboard'], types: ['clipboard'] },
+  { label: 'Mail', aliases: ['m', 'mail', 'email'], types: ['email'] },
+];
+
+export const SEARCH_TYPE_LABELS: Record<SearchDocType, string> = {
+  note: 'Note',
+  task: 'Task',
+  project: 'Project',
+  'crm-task': 'CRM Task',
+  event: 'Event',
+  clipboard: 'Clipboard',
+  email: 'Mail',
+};
+
+export interface ParsedQuery {
+  filter: SearchTypeFilter | null;
+  terms: string[];
+}
+
+export const parseSearchQuery = (query: string): ParsedQuery => {
+  const match = query.match(/^\s*(\w+):\s*(.*)$/s);
+  const filter = match ? SEARCH_TYPE_FILTERS.find(f => f.aliases.includes(match[1].toLowerCase())) ?? null : null;
+  return { filter, terms: tokenize(filter ? match![2] : query) };
+};
+
+// --- Indexing ---
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+export const tokenize = (text: string): string[] => text.toLowerCase().match(TOKEN_PATTERN) || [];
+
+export const buildSearchIndex = (documents: SearchDocument[]): SearchIndex => {
+  const postings: SearchIndex['postings'] = new Map();
+  const add = (token: string, doc: number, field: 'title' | 'body') => {
+    let entries = postings.get(token);
+    if (!entries) postings.set(token, (entries = new Map()));
+    const counts = entries.get(doc) || { title: 0, body: 0 };
+    counts[field]++;
+    entries.set(doc, counts);
+  };
+
+  documents.forEach((document, i) => {
+    tokenize(document.title).forEach(token => add(token, i, 'title'));
+    tokenize(document.body).forEach(token => add(token, i, 'body'));
+  });
+
+  return { documents, postings, vocabulary: [...postings.keys()].sort() };
+};
+
+// First vocabulary index >= term
+const lowerBound = (vocabulary: string[], term: string) => {
+  let low = 0;
+  let high = vocabulary.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (vocabulary[mid] < term) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+const MAX_PREFIX_EXPANSIONS = 50;
+
+// Tokens matching a query term, with a weight: exact words count fully, longer words partially
+const expandTerm = (index: SearchIndex, term: string): [string, number][] => {
+  const matches: [string, number][] = [];
+  for (let i = lowerBound(index.vocabulary, term); i < index.vocabulary.length && matches.length < MAX_PREFIX_EXPANSIONS; i++) {
+    const token = index.vocabulary[i];
+    if (!token.startsWith(term)) break;
+    matches.push([token, token === term ? 1 : 0.6]);
+  }
+  return matches;
+};
+
+// --- Querying ---
+
+const TITLE_WEIGHT = 3;
+const MAX_BODY_COUNT = 5; // Long documents shouldn't win on repetition alone
+
+const scoreIndex = (index: SearchIndex, terms: string[], types: SearchDocType[] | null) => {
+  const total = index.documents.length;
+  let scores: Map<number, number> | null = null;
+
+  for (const term of terms) {
+    const termScores = new Map<number, number>();
+    for (const [token, weight] of expandTerm(index, term)) {
+      const entries = index.postings.get(token)!;
+      const idf = Math.log(1 + total / entries.size);
+      entries.forEach((counts, doc) => {
+        const tf = counts.title * TITLE_WEIGHT + Math.min(counts.body, MAX_BODY_COUNT);
+        termScores.set(doc, Math.max(termScores.get(doc) || 0, tf * idf * weight));
+      });
+    }
+    // Every term has to match
+    const previous: Map<number, number> | null = scores;
+    scores = new Map();
+    termScores.forEach((score, doc) => {
+      if (previous === null) scores!.set(doc, score);
+      else if (previous.has(doc)) scores!.set(doc, previous.get(doc)! + score);
+    });
+    if (scores.size === 0) break;
+  }
+
+  const results: { document: SearchDocument; score: number }[] = [];
+  scores?.forEach((score, doc) => {
+    const document = index.documents[doc];
+    if (!types || types.includes(document.type)) results.push({ document, score });
+  });
+  return results;
+};
+
+export const searchIndexes = (indexes: SearchIndex[], query: string, limit = 20): SearchHit[] => {
+  const { filter, terms } = parseSearchQuery(query);
+  const types = filter?.types ?? null;
+  let matches: { document: SearchDocument; score: number }[];
+
+  if (terms.length === 0) {
+    // A bare filter ("t:") lists the most recent items of that type
+    if (!types) return [];
+    matches = indexes.flatMap(index => index.documents.filter(d => types.includes(d.type)).map(document => ({ document, score: 0 })));
+  } else {
+    matches = indexes.flatMap(index => scoreIndex(index, terms, types));
+  }
+
+  return matches
+    .sort((a, b) => b.score - a.score || (b.document.timestamp || 0) - (a.document.timestamp || 0))
+    .slice(0, limit)
+    .map(({ document, score }) => ({
+      document,
+      score,
+      title: { text: document.title, ranges: findRanges(document.title, terms) },
+      snippet: makeSnippet(document.body, terms),
+    }));
+};
+
+// --- Highlighting ---
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches only at word starts, mirroring how the index matches prefixes
+export const findRanges = (text: string, terms: string[]): HighlightRange[] => {
+  if (!text || terms.length === 0) return [];
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${[...terms].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})`, 'giu');
+  return [...text.matchAll(pattern)].map(m => [m.index!, m.index! + m[0].length] as HighlightRange);
+};
+
+const SNIPPET_LENGTH = 140;
+const SNIPPET_LEAD = 40; // Context kept before the first match
+
+export const makeSnippet = (body: string, terms: string[]): HighlightedText => {
+  const text = body.replace(/\s+/g, ' ').trim();
+  const ranges = findRanges(text, terms);
+
+  let start = 0;
+  if (ranges.length && ranges[0][0] > SNIPPET_LEAD) {
+    start = ranges[0][0] - SNIPPET_LEAD;
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < ranges[0][0]) start = space + 1;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+
+  return {
+    text: prefix + text.slice(start, end) + suffix,
+    ranges: ranges
+      .filter(([s, e]) => s >= start && e <= end)
+      .map(([s, e]) => [s - start + prefix.length, e - start + prefix.length] as HighlightRange),
+  };
+};
+
+// --- Sources ---
+
+export interface StorageSearchSource {
+  id: string;
+  path: string;
+  toDocuments: (data: any) => SearchDocument[];
+}
+
+const firstLine = (text: string, max = 80) => {
+  const line = (text || '').trim().split('\n')[0];
+  return line.length > max ? `${line.slice(0, max)}…` : line;
+};
+
+// Collections read straight from storage; the record shapes are the ones each app writes
+export const STORAGE_SEARCH_SOURCES: StorageSearchSource[] = [
+  {
+    id: 'notes',
+    path: 'notes',
+    toDocuments: data => toList<any>(data).map(note => ({
+      id: `note:${note.id}`,
+      type: 'note',
+      title: note.title || 'Untitled',
+      body: note.content || '',
+      timestamp: note.updatedAt,
+      appId: AppID.NOTES,
+      launchProps: { noteId: note.id, folderId: note.folderId },
+    })),
+  },
+  {
+    id: 'tasks',
+    path: 'tasks',
+    toDocuments: data => toList<any>(data).map(task => ({
+      id: `task:${task.id}`,
+      type: 'task',
+      title: task.title || '',
+      body: [task.description, ...toList<any>(task.subtasks).map(s => s.title)].filter(Boolean).join('\n'),
+      timestamp: task.createdAt,
+      appId: AppID.TASKS,
+      launchProps: { taskId: task.id },
+    })),
+  },
+  {
+    id: 'crm-projects',
+    path: 'crm/projects',
+    toDocuments: data => toList<any>(data).map(project => ({
+      id: `project:${project.id}`,
+      type: 'project',
+      title: project.name || '',
+      body: project.client || '',
+      timestamp: project.createdAt,
+      appId: AppID.CRM,
+      launchProps: { projectId: project.id },
+    })),
+  },
+  {
+    id: 'crm-tasks',
+    path: 'crm/tasks',
+    toDocuments: data => toList<any>(data).map(task => ({
+      id: `crm-task:${task.id}`,
+      type: 'crm-task',
+      title: task.title || '',
+      body: '',
+      timestamp: task.createdAt,
+      appId: AppID.CRM,
+      launchProps: { projectId: task.projectId },
+    })),
+  },
+  {
+    id: 'calendar',
+    path: 'calendar/events',
+    toDocuments: data => toList<any>(data).map(event => ({
+      id: `event:${event.id}`,
+      type: 'event',
+      title: event.title || '',
+      body: [new Date(event.start).toLocaleString(), event.description].filter(Boolean).join('\n'),
+      timestamp: event.start,
+      appId: AppID.CALENDAR,
+      launchProps: { eventId: event.id, date: event.start },
+    })),
+  },
+  {
+    id: 'clipboard',
+    path: 'clipboard',
+    toDocuments: data => toList<any>(data).map(item => ({
+      id: `clipboard:${item.id}`,
+      type: 'clipboard',
+      title: firstLine(item.content),
+      body: item.content || '',
+      timestamp: item.timestamp,
+      appId: AppID.CLIPBOARD,
+      launchProps: { itemId: item.id },
+    })),
+  },
+];
+
+// Mail is never stored; the Email app publishes whatever it has loaded
+export const emailDocuments = (emails: { id: string; from: string; subject: string; snippet: string; body?: string; date: string }[]): SearchDocument[] =>
+  emails.map(email => ({
+    id: `email:${email.id}`,
+    type: 'email',
+    title: email.subject || '(no subject)',
+    body: [email.from, email.body || email.snippet].join('\n'),
+    timestamp: Date.parse(email.date) || undefined,
+    appId: AppID.EMAIL,
+    launchProps: { emailId: email.id },
+  }));
+
+// Text files open in Notes too, so they are searched as notes
+export const fileDocuments = (files: { id: string; name: string; type: string; content?: string; updatedAt: number }[]): SearchDocument[] =>
+  files.filter(file => file.type === 'text').map(file => ({
+    id: `file:${file.id}`,
+    type: 'note',
+    title: file.name,
+    body: file.content || '',
+    timestamp: file.updatedAt,
+    appId: AppID.NOTES,
+    launchProps: { fileId: file.id },
+  }));
@@ -0,0 +1,112 @@
+import { AppID } from '../types';
+import { TILE_LAYOUTS, TileLayout } from './tiling';
+
+// Keyboard shortcut registry helpers. Bindings are stored as canonical strings such as
+// "Ctrl+Alt+Shift+Left": modifiers in a fixed order, then the physical key (KeyboardEvent.code),
+// so they survive keyboard layouts and can be compared with plain string equality.
+
+export interface ShortcutDefinition {
+  id: string;            // Also the storage key, so no '.', '/', '#', '$', '[' or ']'
+  label: string;
+  category: string;      // Grouping on the Settings page
+  defaultBinding: string | null;
+  appId?: AppID;         // Only fires while a window of this app is focused
+}
+
+export type ShortcutBindings = Record<string, string>; // User overrides by command id; '' means unbound
+
+// --- Built-in Commands ---
+
+// Cmd is the command key on macOS, where Ctrl combos belong to text editing
+export const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+export const tileShortcutId = (layout: TileLayout) => `tile-${layout}`;
+
+export const SYSTEM_SHORTCUTS: ShortcutDefinition[] = [
+  { id: 'palette-toggle', label: 'Command Palette', category: 'System', defaultBinding: IS_MAC ? 'Meta+K' : 'Ctrl+K' },
+  { id: 'task-manager', label: 'Task Manager', category: 'System', defaultBinding: 'Ctrl+Esc' },
+  { id: 'clipboard-history', label: 'Clipboard History', category: 'System', defaultBinding: 'Ctrl+Alt+V' },
+  { id: 'window-new', label: 'New Window', category: 'Windows', defaultBinding: 'Ctrl+Alt+N' },
+  { id: 'window-close', label: 'Close Window', category: 'Windows', defaultBinding: 'Ctrl+Alt+W' },
+  { id: 'window-maximize', label: 'Toggle Fullscreen', category: 'Windows', defaultBinding: 'Ctrl+Alt+Enter' },
+  { id: 'window-minimize-all', label: 'Minimize All', category: 'Windows', defaultBinding: 'Ctrl+Alt+M' },
+  { id: 'window-auto-tile', label: 'Auto-Tile Windows', category: 'Windows', defaultBinding: 'Ctrl+Alt+A' },
+  { id: 'workspace-next', label: 'Next Workspace', category: 'Workspaces', defaultBinding: 'Ctrl+Alt+Right' },
+  { id: 'workspace-previous', label: 'Previous Workspace', category: 'Workspaces', defaultBinding: 'Ctrl+Alt+Left' },
+  ...Array.from({ length: 9 }, (_, i) => ({
+    id: `workspace-${i + 1}`,
+    label: `Go to Workspace ${i + 1}`,
+    category: 'Workspaces',
+    defaultBinding: `Ctrl+Alt+${i + 1}`,
+  })),
+  ...(Object.keys(TILE_LAYOUTS) as TileLayout[]).map(layout => ({
+    id: tileShortcutId(layout),
+    label: `Tile ${TILE_LAYOUTS[layout].label}`,
+    category: 'Tiling',
+    defaultBinding: TILE_LAYOUTS[layout].defaultBinding,
+  })),
+];
+
+// --- Key Events ---
+
+const MODIFIER_CODES = ['ControlLeft', 'ControlRight', 'AltLeft', 'AltRight', 'ShiftLeft', 'ShiftRight', 'MetaLeft', 'MetaRight'];
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  Escape: 'Esc',
+};
+
+// Null for a lone modifier press, so a recorder can keep waiting for the real key
+export const eventToBinding = (e: KeyboardEvent): string | null => {
+  if (!e.code || MODIFIER_CODES.includes(e.code)) return null;
+  const key = KEY_NAMES[e.code] ?? e.code.replace(/^Key/, '').replace(/^Digit/, '');
+  return [e.ctrlKey && 'Ctrl', e.altKey && 'Alt', e.shiftKey && 'Shift', e.metaKey && 'Meta', key].filter(Boolean).join('+');
+};
+
+// AltGr reports itself as Ctrl+Alt on Windows layouts, so those presses are characters, not commands
+export const isAltGraph = (e: KeyboardEvent) => !!e.getModifierState?.('AltGraph');
+
+// In text fields Alt and Ctrl+Alt combos type characters (macOS Option, AltGr), so only Meta
+// and plain Ctrl combos count as commands there
+export const firesWhileTyping = (binding: string) => {
+  const modifiers = binding.split('+').slice(0, -1);
+  return modifiers.includes('Meta') || (modifiers.includes('Ctrl') && !modifiers.includes('Alt'));
+};
+
+export const isTypingTarget = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null;
+  if (!el) return false;
+  return el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT' || el.isContentEditable;
+};
+
+export const formatBinding = (binding: string | null | undefined) => (binding ? binding.replace('Meta', IS_MAC ? 'Cmd' : 'Win') : '');
+
+// --- Resolution ---
+
+export const resolveBindings = (definitions: ShortcutDefinition[], overrides: ShortcutBindings): Record<string, string | null> =>
+  Object.fromEntries(definitions.map(d => [d.id, d.id in overrides ? overrides[d.id] || null : d.defaultBinding]));
+
+// Two commands clash when they share a binding and can be active at the same time
+const scopesOverlap = (a: ShortcutDefinition, b: ShortcutDefinition) => !a.appId || !b.appId || a.appId === b.appId;
+
+export const findConflicts = (
+  definition: ShortcutDefinition,
+  binding: string,
+  definitions: ShortcutDefinition[],
+  bindings: Record<string, string | null>
+): ShortcutDefinition[] =>
+  definitions.filter(other => other.id !== definition.id && bindings[other.id] === binding && scopesOverlap(definition, other));
+
+// App-scoped commands win over global ones for the focused app
+export const matchShortcut = (
+  binding: string,
+  definitions: ShortcutDefinition[],
+  bindings: Record<string, string | null>,
+  focusedApp: AppID | undefined
+): ShortcutDefinition | undefined => {
+  const candidates = definitions.filter(d => bindings[d.id] === binding && (!d.appId || d.appId === focusedApp));
+  return candidates.find(d => d.appId) ?? candidates[0];
+};
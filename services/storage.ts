@@ -0,0 +1,236 @@
+import { db } from './firebase';
+import { ref, onValue, get, set, update, remove, push } from 'firebase/database';
+
+// Storage backends: every app reads and writes user data through a StorageBackend
+// instead of calling firebase/database or localStorage directly.
+// Paths are relative to the user's root (e.g. "tasks", "crm/projects/p_1").
+
+export type Unsubscribe = () => void;
+export type StorageKind = 'firebase' | 'local' | 'memory';
+
+export interface StorageBackend {
+  readonly kind: StorageKind;
+  readonly isCloud: boolean;
+  get<T = any>(path: string): Promise<T | null>;
+  subscribe<T = any>(path: string, callback: (value: T | null) => void): Unsubscribe;
+  set(path: string, value: unknown): Promise<void>;
+  update(path: string, values: Record<string, unknown>): Promise<void>;
+  remove(path: string): Promise<void>;
+  push(path: string, value: unknown): Promise<string>; // Resolves with the generated key
+}
+
+// Collections are stored as { [id]: item } maps in every backend
+export interface Repository<T extends { id: string }> {
+  subscribe(callback: (items: T[]) => void): Unsubscribe;
+  list(): Promise<T[]>;
+  put(item: T): Promise<void>;
+  patch(id: string, updates: Partial<T>): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+// --- Helpers ---
+
+const splitPath = (path: string): string[] => path.split('/').filter(Boolean);
+
+// Mirrors the Realtime Database: undefined fields are dropped, nothing is shared by reference
+const clean = <T>(value: T): T => (value === undefined ? null : JSON.parse(JSON.stringify(value)));
+
+export const toList = <T>(data: Record<string, T> | T[] | null | undefined): T[] => {
+  if (!data) return [];
+  return Array.isArray(data) ? data.filter(Boolean) : Object.values(data);
+};
+
+export const createRepository = <T extends { id: string }>(storage: StorageBackend, path: string): Repository<T> => ({
+  subscribe: (callback) => storage.subscribe<Record<string, T>>(path, data => callback(toList(data))),
+  list: async () => toList(await storage.get<Record<string, T>>(path)),
+  put: (item) => storage.set(`${path}/${item.id}`, item),
+  patch: (id, updates) => storage.update(`${path}/${id}`, updates as Record<string, unknown>),
+  remove: (id) => storage.remove(`${path}/${id}`),
+});
+
+// --- Firebase Backend ---
+
+export const createFirebaseStorage = (uid: string): StorageBackend => {
+  const at = (path: string) => ref(db, path ? `users/${uid}/${path}` : `users/${uid}`);
+
+  return {
+    kind: 'firebase',
+    isCloud: true,
+    get: async (path) => (await get(at(path))).val(),
+    subscribe: (path, callback) => onValue(at(path), snap => callback(snap.val())),
+    set: (path, value) => set(at(path), clean(value)),
+    update: (path, values) => update(at(path), clean(values)),
+    remove: (path) => remove(at(path)),
+    push: async (path, value) => {
+      const newRef = push(at(path));
+      await set(newRef, clean(value));
+      return newRef.key as string;
+    },
+  };
+};
+
+// --- In-Memory Backend ---
+
+interface Listener {
+  segments: string[];
+  callback: (value: any) => void;
+}
+
+const readAt = (root: any, segments: string[]): any => {
+  let node = root;
+  for (const key of segments) {
+    if (node === null || typeof node !== 'object' || !(key in node)) return null;
+    node = node[key];
+  }
+  return node === undefined ? null : node;
+};
+
+// Returns a new root with `value` written at `segments`; null removes the node
+const writeAt = (root: any, segments: string[], value: any): any => {
+  if (segments.length === 0) return value;
+  const [key, ...rest] = segments;
+  const node = root !== null && typeof root === 'object' ? (Array.isArray(root) ? [...root] : { ...root }) : {};
+  const child = writeAt(node[key] ?? null, rest, value);
+  if (child === null || (typeof child === 'object' && Object.keys(child).length === 0)) {
+    delete node[key];
+  } else {
+    node[key] = child;
+  }
+  return Object.keys(node).length === 0 ? null : node;
+};
+
+const overlaps = (a: string[], b: string[]) => {
+  const len = Math.min(a.length, b.length);
+  for (let i = 0; i < len; i++) if (a[i] !== b[i]) return false;
+  return true;
+};
+
+let keyCounter = 0;
+const generateKey = () => `${Date.now().toString(36)}${(keyCounter++).toString(36)}${Math.random().toString(36).substr(2, 5)}`;
+
+const createTreeStorage = (kind: StorageKind, initial: any, onChange?: (root: any) => void): StorageBackend => {
+  let root = initial ?? null;
+  const listeners = new Set<Listener>();
+
+  const commit = (changedPaths: string[][], nextRoot: any) => {
+    root = nextRoot;
+    onChange?.(root);
+    listeners.forEach(l => {
+      if (changedPaths.some(p => overlaps(p, l.segments))) l.callback(clean(readAt(root, l.segments)));
+    });
+  };
+
+  const backend: StorageBackend = {
+    kind,
+    isCloud: false,
+    get: async (path) => clean(readAt(root, splitPath(path))),
+    subscribe: (path, callback) => {
+      const listener: Listener = { segments: splitPath(path), callback };
+      listeners.add(listener);
+      callback(clean(readAt(root, listener.segments)));
+      return () => { listeners.delete(listener); };
+    },
+    set: async (path, value) => {
+      const segments = splitPath(path);
+      commit([segments], writeAt(root, segments, clean(value)));
+    },
+    update: async (path, values) => {
+      const base = splitPath(path);
+      let next = root;
+      const changed: string[][] = [];
+      Object.entries(clean(values)).forEach(([key, value]) => {
+        const segments = [...base, ...splitPath(key)];
+        next = writeAt(next, segments, value);
+        changed.push(segments);
+      });
+      commit(changed, next);
+    },
+    remove: async (path) => {
+      const segments = splitPath(path);
+      commit([segments], writeAt(root, segments, null));
+    },
+    push: async (path, value) => {
+      const key = generateKey();
+      await backend.set(`${path}/${key}`, value);
+      return key;
+    },
+  };
+
+  return backend;
+};
+
+export const createMemoryStorage = (initial: Record<string, any> = {}): StorageBackend =>
+  createTreeStorage('memory', clean(initial));
+
+// --- Local (Browser) Backend ---
+
+const LOCAL_DB_KEY = 'nd_os_db';
+
+// Pre-abstraction apps kept one localStorage key per collection
+const LEGACY_KEYS: Record<string, string> = {
+  nd_os_notes: 'notes',
+  nd_os_tasks: 'tasks',
+  nd_os_habits: 'habits',
+  nd_os_habit_logs: 'habit_logs',
+  nd_os_crm_projects: 'crm/projects',
+  nd_os_crm_tasks: 'crm/tasks',
+  nd_os_calendar_events: 'calendar/events',
+  nd_os_habit_overrides: 'calendar/habit_overrides',
+  nd_os_wallet_accounts: 'wallet/accounts',
+  nd_os_wallet_transactions: 'wallet/transactions',
+  nd_os_vault_pin: 'vault/config/pin',
+  nd_os_vault_items: 'vault/items',
+  nd_os_clock_state: 'clock/state',
+  nd_os_focus_history: 'focus_sessions',
+  nd_os_calc_history: 'calculator/history',
+  nd_os_chat_sessions: 'ai_chats/sessions',
+  nd_os_app_usage: 'system/usage',
+};
+
+const keyById = (value: any) =>
+  Array.isArray(value) && value.every(item => item && typeof item.id === 'string')
+    ? Object.fromEntries(value.map(item => [item.id, item]))
+    : value;
+
+const migrateLegacyKeys = () => {
+  let root: any = null;
+  const parse = (raw: string) => { try { return JSON.parse(raw); } catch { return raw; } };
+
+  Object.entries(LEGACY_KEYS).forEach(([key, path]) => {
+    const raw = localStorage.getItem(key);
+    if (raw !== null) root = writeAt(root, splitPath(path), keyById(parse(raw)));
+  });
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith('nd_os_chat_msgs_')) {
+      const sessionId = key.replace('nd_os_chat_msgs_', '');
+      root = writeAt(root, ['ai_chats', 'messages', sessionId], parse(localStorage.getItem(key)!));
+    }
+  }
+  return root;
+};
+
+let localStorageBackend: StorageBackend | null = null;
+
+// Singleton so every app shares one tree and sees each other's writes
+export const getLocalStorage = (): StorageBackend => {
+  if (!localStorageBackend) {
+    const saved = localStorage.getItem(LOCAL_DB_KEY);
+    let initial: any = null;
+    try {
+      initial = saved ? JSON.parse(saved) : migrateLegacyKeys();
+    } catch (e) {
+      console.error("Local DB corrupted, starting fresh", e);
+    }
+
+    localStorageBackend = createTreeStorage('local', initial, (root) => {
+      try {
+        localStorage.setItem(LOCAL_DB_KEY, JSON.stringify(root ?? {}));
+      } catch (e) {
+        console.error("Local DB write failed", e);
+      }
+    });
+  }
+  return localStorageBackend;
+};
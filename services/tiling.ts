@@ -0,0 +1,77 @@
+// Window tiling geometry. Layouts are fractions of the desktop area below the TopBar,
+// so the same layout works at any screen size.
+
+export type TileLayout =
+  | 'left-half' | 'right-half' | 'top-half' | 'bottom-half'
+  | 'left-third' | 'center-third' | 'right-third' | 'left-two-thirds' | 'right-two-thirds'
+  | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface TileRect {
+  position: { x: number; y: number };
+  size: { width: number; height: number };
+}
+
+interface Fraction {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface TileLayoutConfig {
+  label: string;
+  group: 'Halves' | 'Thirds' | 'Quarters';
+  rect: Fraction;
+  defaultBinding: string; // Ctrl+Alt+Arrow already switches workspaces, so halves add Shift
+}
+
+export const TILE_LAYOUTS: Record<TileLayout, TileLayoutConfig> = {
+  'left-half': { label: 'Left Half', group: 'Halves', rect: { x: 0, y: 0, w: 1 / 2, h: 1 }, defaultBinding: 'Ctrl+Alt+Shift+Left' },
+  'right-half': { label: 'Right Half', group: 'Halves', rect: { x: 1 / 2, y: 0, w: 1 / 2, h: 1 }, defaultBinding: 'Ctrl+Alt+Shift+Right' },
+  'top-half': { label: 'Top Half', group: 'Halves', rect: { x: 0, y: 0, w: 1, h: 1 / 2 }, defaultBinding: 'Ctrl+Alt+Shift+Up' },
+  'bottom-half': { label: 'Bottom Half', group: 'Halves', rect: { x: 0, y: 1 / 2, w: 1, h: 1 / 2 }, defaultBinding: 'Ctrl+Alt+Shift+Down' },
+  'left-third': { label: 'Left Third', group: 'Thirds', rect: { x: 0, y: 0, w: 1 / 3, h: 1 }, defaultBinding: 'Ctrl+Alt+D' },
+  'center-third': { label: 'Center Third', group: 'Thirds', rect: { x: 1 / 3, y: 0, w: 1 / 3, h: 1 }, defaultBinding: 'Ctrl+Alt+F' },
+  'right-third': { label: 'Right Third', group: 'Thirds', rect: { x: 2 / 3, y: 0, w: 1 / 3, h: 1 }, defaultBinding: 'Ctrl+Alt+G' },
+  'left-two-thirds': { label: 'Left Two Thirds', group: 'Thirds', rect: { x: 0, y: 0, w: 2 / 3, h: 1 }, defaultBinding: 'Ctrl+Alt+E' },
+  'right-two-thirds': { label: 'Right Two Thirds', group: 'Thirds', rect: { x: 1 / 3, y: 0, w: 2 / 3, h: 1 }, defaultBinding: 'Ctrl+Alt+T' },
+  'top-left': { label: 'Top Left', group: 'Quarters', rect: { x: 0, y: 0, w: 1 / 2, h: 1 / 2 }, defaultBinding: 'Ctrl+Alt+U' },
+  'top-right': { label: 'Top Right', group: 'Quarters', rect: { x: 1 / 2, y: 0, w: 1 / 2, h: 1 / 2 }, defaultBinding: 'Ctrl+Alt+I' },
+  'bottom-left': { label: 'Bottom Left', group: 'Quarters', rect: { x: 0, y: 1 / 2, w: 1 / 2, h: 1 / 2 }, defaultBinding: 'Ctrl+Alt+J' },
+  'bottom-right': { label: 'Bottom Right', group: 'Quarters', rect: { x: 1 / 2, y: 1 / 2, w: 1 / 2, h: 1 / 2 }, defaultBinding: 'Ctrl+Alt+K' },
+};
+
+export const TOP_BAR_HEIGHT = 32;
+
+export const getDesktopBounds = () => ({
+  x: 0,
+  y: TOP_BAR_HEIGHT,
+  width: window.innerWidth,
+  height: window.innerHeight - TOP_BAR_HEIGHT,
+});
+
+type Bounds = ReturnType<typeof getDesktopBounds>;
+
+const toRect = (f: Fraction, bounds: Bounds): TileRect => ({
+  position: { x: Math.round(bounds.x + f.x * bounds.width), y: Math.round(bounds.y + f.y * bounds.height) },
+  size: { width: Math.round(f.w * bounds.width), height: Math.round(f.h * bounds.height) },
+});
+
+export const tileRect = (layout: TileLayout, bounds: Bounds = getDesktopBounds()): TileRect =>
+  toRect(TILE_LAYOUTS[layout].rect, bounds);
+
+// Splits the desktop into a grid: 2 windows side by side, 3 in thirds, 4 in a 2x2 grid,
+// more in as square a grid as possible with the last row stretched to fill
+export const autoTileRects = (count: number, bounds: Bounds = getDesktopBounds()): TileRect[] => {
+  if (count <= 0) return [];
+  const columns = count <= 3 ? count : Math.ceil(Math.sqrt(count));
+  const rows = Math.ceil(count / columns);
+
+  return Array.from({ length: count }, (_, i) => {
+    const row = Math.floor(i / columns);
+    const isLastRow = row === rows - 1;
+    const rowColumns = isLastRow ? count - row * columns : columns;
+    const column = i - row * columns;
+    return toRect({ x: column / rowColumns, y: row / rows, w: 1 / rowColumns, h: 1 / rows }, bounds);
+  });
+};
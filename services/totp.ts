@@ -0,0 +1,104 @@
+// RFC 6238 time-based one-time passwords (the codes shown by authenticator apps).
+// Secrets arrive either as raw Base32 or as otpauth://totp/ URIs decoded from setup QR codes.
+
+export type TotpAlgorithm = 'SHA1' | 'SHA256' | 'SHA512';
+
+export interface TotpParams {
+  secret: string; // Base32, normalized (uppercase, no spaces or padding)
+  algorithm: TotpAlgorithm;
+  digits: number;
+  period: number; // Seconds
+}
+
+export interface OtpAuthUri extends TotpParams {
+  issuer?: string;
+  account?: string;
+}
+
+export const DEFAULT_TOTP: Omit<TotpParams, 'secret'> = { algorithm: 'SHA1', digits: 6, period: 30 };
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const normalizeBase32 = (value: string) => value.toUpperCase().replace(/[\s-]/g, '').replace(/=+$/, '');
+
+export const isValidBase32 = (value: string) => {
+  const normalized = normalizeBase32(value);
+  return normalized.length >= 16 && [...normalized].every(c => BASE32_ALPHABET.includes(c));
+};
+
+const decodeBase32 = (value: string): Uint8Array => {
+  const normalized = normalizeBase32(value);
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of normalized) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid Base32 character "${char}"`);
+    buffer = (buffer << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+// --- otpauth:// URIs ---
+
+// Returns null for anything that is not a usable otpauth://totp/ URI
+export const parseOtpAuthUri = (uri: string): OtpAuthUri | null => {
+  let url: URL;
+  try {
+    url = new URL(uri.trim());
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'otpauth:' || url.hostname.toLowerCase() !== 'totp') return null;
+
+  const secret = url.searchParams.get('secret');
+  if (!secret || !isValidBase32(secret)) return null;
+
+  // Label is "Issuer:account" or just "account"
+  const label = decodeURIComponent(url.pathname.replace(/^\//, ''));
+  const [labelIssuer, labelAccount] = label.includes(':') ? label.split(/:(.*)/s) : [undefined, label];
+  const algorithm = (url.searchParams.get('algorithm') || DEFAULT_TOTP.algorithm).toUpperCase() as TotpAlgorithm;
+
+  return {
+    secret: normalizeBase32(secret),
+    issuer: url.searchParams.get('issuer') || labelIssuer || undefined,
+    account: labelAccount?.trim() || undefined,
+    algorithm: ['SHA1', 'SHA256', 'SHA512'].includes(algorithm) ? algorithm : DEFAULT_TOTP.algorithm,
+    digits: Number(url.searchParams.get('digits')) || DEFAULT_TOTP.digits,
+    period: Number(url.searchParams.get('period')) || DEFAULT_TOTP.period,
+  };
+};
+
+// --- Code Generation ---
+
+const HASH_NAMES: Record<TotpAlgorithm, string> = { SHA1: 'SHA-1', SHA256: 'SHA-256', SHA512: 'SHA-512' };
+
+export const generateTotp = async (params: TotpParams, timestamp = Date.now()): Promise<string> => {
+  const counter = Math.floor(timestamp / 1000 / params.period);
+  const message = new ArrayBuffer(8);
+  const view = new DataView(message);
+  view.setUint32(0, Math.floor(counter / 0x100000000));
+  view.setUint32(4, counter >>> 0);
+
+  const key = await crypto.subtle.importKey(
+    'raw', decodeBase32(params.secret), { name: 'HMAC', hash: HASH_NAMES[params.algorithm] }, false, ['sign']
+  );
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+
+  // Dynamic truncation (RFC 4226 §5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+  return String(binary % 10 ** params.digits).padStart(params.digits, '0');
+};
+
+export const secondsRemaining = (period: number, timestamp = Date.now()) =>
+  period - (Math.floor(timestamp / 1000) % period);
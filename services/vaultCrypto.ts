@@ -0,0 +1,95 @@
+// Client-side encryption for the Vault.
+// The master passphrase is stretched with PBKDF2 into a non-extractable AES-GCM key that only lives
+// in memory. Storage only ever sees the KDF parameters, a verifier blob and encrypted item payloads.
+// Anyone who can read those can test guesses offline, so the passphrase's strength is what protects
+// the vault: the KDF only makes each guess slower.
+
+export interface EncryptedBlob {
+  iv: string;   // Base64, 12 bytes
+  data: string; // Base64 ciphertext + GCM tag
+}
+
+export interface VaultKeyConfig {
+  version: 1;
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string; // Base64, 16 bytes
+  verifier: EncryptedBlob; // Known plaintext, decrypts only with the right key
+}
+
+const KDF_ITERATIONS = 600000;
+const VERIFIER_TEXT = 'nd_os_vault_v1';
+
+// --- Encoding ---
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+// --- Key Derivation ---
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// --- Encryption ---
+
+// `context` is bound as additional data so a blob cannot be moved onto another item
+export const encryptJson = async (key: CryptoKey, value: unknown, context = ''): Promise<EncryptedBlob> => {
+  const iv = randomBytes(12);
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(context) },
+    key,
+    encoder.encode(JSON.stringify(value))
+  );
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+// Throws if the key is wrong or the blob was tampered with
+export const decryptJson = async <T>(key: CryptoKey, blob: EncryptedBlob, context = ''): Promise<T> => {
+  const plain = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(blob.iv), additionalData: encoder.encode(context) },
+    key,
+    fromBase64(blob.data)
+  );
+  return JSON.parse(decoder.decode(plain));
+};
+
+// --- Vault Key Lifecycle ---
+
+export const createVaultKey = async (passphrase: string): Promise<{ key: CryptoKey; config: VaultKeyConfig }> => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(passphrase, salt, KDF_ITERATIONS);
+  const verifier = await encryptJson(key, VERIFIER_TEXT, 'verifier');
+  return {
+    key,
+    config: { version: 1, kdf: 'PBKDF2-SHA256', iterations: KDF_ITERATIONS, salt: toBase64(salt), verifier }
+  };
+};
+
+// Resolves with null when the passphrase is wrong
+export const unlockVaultKey = async (passphrase: string, config: VaultKeyConfig): Promise<CryptoKey | null> => {
+  const key = await deriveKey(passphrase, fromBase64(config.salt), config.iterations);
+  try {
+    const check = await decryptJson<string>(key, config.verifier, 'verifier');
+    return check === VERIFIER_TEXT ? key : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,189 @@
+import { VaultItem } from '../types';
+import { EncryptedBlob, VaultKeyConfig, createVaultKey, unlockVaultKey, encryptJson, decryptJson } from './vaultCrypto';
+import { DEFAULT_TOTP, parseOtpAuthUri, isValidBase32, normalizeBase32 } from './totp';
+
+// Moving vault data in and out: CSV exports from other password managers,
+// a plain CSV export and a passphrase-encrypted JSON bundle.
+
+// createdAt is only known for bundle items; CSV rows get the import time
+export type ImportedItem = Omit<VaultItem, 'id' | 'createdAt'> & { ref: number; linkedRef?: number; createdAt?: number };
+
+export type CsvFormat = 'bitwarden' | '1password' | 'chrome' | 'generic';
+
+export interface CsvImportResult {
+  format: CsvFormat;
+  items: ImportedItem[];
+  skipped: number; // Rows without a title or secret
+}
+
+// --- CSV ---
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+const escapeCsv = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const toCsv = (rows: string[][]) => rows.map(r => r.map(escapeCsv).join(',')).join('\r\n');
+
+// Column aliases per known layout, most specific names first
+const COLUMNS = {
+  title: ['name', 'title'],
+  url: ['login_uri', 'url', 'website', 'urls'],
+  username: ['login_username', 'username', 'user', 'login', 'email'],
+  password: ['login_password', 'password'],
+  notes: ['notes', 'note', 'extra'],
+  totp: ['login_totp', 'otpauth', 'one-time password', 'totp'],
+  type: ['type'],
+};
+
+const detectFormat = (headers: string[]): CsvFormat => {
+  if (headers.includes('login_password')) return 'bitwarden';
+  if (headers.includes('otpauth') || (headers.includes('title') && headers.includes('password'))) return '1password';
+  if (headers.join(',') === 'name,url,username,password' || headers.join(',') === 'name,url,username,password,note') return 'chrome';
+  return 'generic';
+};
+
+export const importCsv = (text: string): CsvImportResult => {
+  const [headerRow, ...rows] = parseCsv(text);
+  if (!headerRow) return { format: 'generic', items: [], skipped: 0 };
+
+  const headers = headerRow.map(h => h.trim().toLowerCase());
+  const column = (aliases: string[]) => aliases.map(a => headers.indexOf(a)).find(i => i !== -1) ?? -1;
+  const index = Object.fromEntries(Object.entries(COLUMNS).map(([key, aliases]) => [key, column(aliases)])) as Record<keyof typeof COLUMNS, number>;
+  const cell = (row: string[], key: keyof typeof COLUMNS) => (index[key] === -1 ? '' : (row[index[key]] || '').trim());
+
+  const items: ImportedItem[] = [];
+  let skipped = 0;
+
+  rows.forEach(row => {
+    const title = cell(row, 'title') || cell(row, 'url');
+    const password = cell(row, 'password');
+    const notes = cell(row, 'notes');
+    const totp = cell(row, 'totp');
+    const isNote = cell(row, 'type').toLowerCase() === 'note' || (!password && !!notes);
+
+    if (!title || (!password && !notes && !totp)) {
+      skipped++;
+      return;
+    }
+
+    if (isNote) {
+      items.push({ ref: items.length, type: 'note', title, secret: notes });
+      return;
+    }
+
+    let loginRef: number | undefined;
+    if (password) {
+      loginRef = items.length;
+      items.push({ ref: loginRef, type: 'password', title, username: cell(row, 'username') || undefined, url: cell(row, 'url') || undefined, notes: notes || undefined, secret: password });
+    }
+
+    // Second factors become their own 2FA items linked back to the login
+    const parsed = parseOtpAuthUri(totp);
+    const username = cell(row, 'username') || undefined;
+    if (parsed) {
+      const { secret, issuer, account, ...params } = parsed;
+      items.push({ ref: items.length, linkedRef: loginRef, type: 'totp', title, username: account || username, secret, totp: params });
+    } else if (totp && isValidBase32(totp)) {
+      items.push({ ref: items.length, linkedRef: loginRef, type: 'totp', title, username, secret: normalizeBase32(totp), totp: DEFAULT_TOTP });
+    } else if (!password) {
+      skipped++;
+    }
+  });
+
+  return { format: detectFormat(headers), items, skipped };
+};
+
+const totpUri = (item: VaultItem) => {
+  const params = { ...DEFAULT_TOTP, ...item.totp };
+  const label = encodeURIComponent(item.username ? `${item.title}:${item.username}` : item.title);
+  return `otpauth://totp/${label}?secret=${item.secret}&issuer=${encodeURIComponent(item.title)}&algorithm=${params.algorithm}&digits=${params.digits}&period=${params.period}`;
+};
+
+// Bitwarden's column layout, so the file also re-imports here and in most other managers
+export const exportCsv = (items: VaultItem[]): string => {
+  const header = ['folder', 'favorite', 'type', 'name', 'notes', 'fields', 'reprompt', 'login_uri', 'login_username', 'login_password', 'login_totp'];
+  const linkedTotp = (id: string) => items.find(i => i.type === 'totp' && i.linkedItemId === id);
+
+  const rows = items
+    .filter(item => item.type !== 'totp' || !items.some(i => i.id === item.linkedItemId))
+    .map(item => {
+      if (item.type === 'note') return ['', '', 'note', item.title, item.secret, '', '', '', '', '', ''];
+      if (item.type === 'totp') return ['', '', 'login', item.title, '', '', '', '', item.username || '', '', totpUri(item)];
+      const totp = linkedTotp(item.id);
+      return ['', '', 'login', item.title, item.notes || '', '', '', item.url || '', item.username || '', item.secret, totp ? totpUri(totp) : ''];
+    });
+
+  return toCsv([header, ...rows]);
+};
+
+// --- Encrypted Bundle ---
+
+export interface VaultExportBundle {
+  format: 'nd_os_vault_export';
+  version: 1;
+  exportedAt: number;
+  key: VaultKeyConfig; // KDF parameters for the export passphrase, independent of the vault PIN
+  payload: EncryptedBlob;
+}
+
+const BUNDLE_CONTEXT = 'nd_os_vault_export';
+
+export const exportEncryptedBundle = async (items: VaultItem[], passphrase: string): Promise<VaultExportBundle> => {
+  const { key, config } = await createVaultKey(passphrase);
+  return {
+    format: 'nd_os_vault_export',
+    version: 1,
+    exportedAt: Date.now(),
+    key: config,
+    payload: await encryptJson(key, items, BUNDLE_CONTEXT),
+  };
+};
+
+export const isExportBundle = (value: any): value is VaultExportBundle =>
+  !!value && value.format === 'nd_os_vault_export' && !!value.key && !!value.payload;
+
+// Resolves with null when the passphrase is wrong
+export const importEncryptedBundle = async (bundle: VaultExportBundle, passphrase: string): Promise<VaultItem[] | null> => {
+  const key = await unlockVaultKey(passphrase, bundle.key);
+  if (!key) return null;
+  return decryptJson<VaultItem[]>(key, bundle.payload, BUNDLE_CONTEXT);
+};
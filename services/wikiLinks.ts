@@ -0,0 +1,148 @@
+// [[Wiki links]] between notes and other records. Links are plain text inside note content:
+//   [[Note Title]]            a note, matched by title (case-insensitive)
+//   [[Note Title|shown text]] the same, with a label
+//   [[task:task_123]]         a task, CRM project, file or note by id: task:, project:, file:, note:
+// Nothing is stored besides the content, so backlinks are always derived from the current notes.
+
+export type WikiLinkKind = 'note' | 'task' | 'project' | 'file';
+
+export interface WikiLink {
+  kind: WikiLinkKind;
+  target: string;   // Note title, or the record id for id links
+  byId: boolean;
+  label: string;    // Text to show: the alias, else the target
+  start: number;    // Offsets of the whole [[...]] in the content
+  end: number;
+}
+
+export interface LinkableNote {
+  id: string;
+  title: string;
+  content: string;
+}
+
+const ID_PREFIXES: WikiLinkKind[] = ['note', 'task', 'project', 'file'];
+
+const LINK_PATTERN = /\[\[([^\[\]\n|]+?)(?:\|([^\[\]\n]*))?\]\]/g;
+
+export const normalizeTitle = (title: string) => title.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const parseLinks = (content: string): WikiLink[] =>
+  [...content.matchAll(LINK_PATTERN)].map(match => {
+    const inner = match[1].trim();
+    const alias = match[2]?.trim();
+    const prefix = inner.match(/^(\w+):(.+)$/);
+    const kind = prefix && ID_PREFIXES.includes(prefix[1].toLowerCase() as WikiLinkKind) ? (prefix[1].toLowerCase() as WikiLinkKind) : null;
+    const target = kind ? prefix![2].trim() : inner;
+    return {
+      kind: kind ?? 'note',
+      target,
+      byId: !!kind,
+      label: alias || target,
+      start: match.index!,
+      end: match.index! + match[0].length,
+    };
+  });
+
+export const linkAt = (content: string, position: number): WikiLink | undefined =>
+  parseLinks(content).find(link => position > link.start && position < link.end);
+
+export const resolveNoteLink = <T extends LinkableNote>(link: WikiLink, notes: T[]): T | undefined => {
+  if (link.kind !== 'note') return undefined;
+  if (link.byId) return notes.find(n => n.id === link.target);
+  const title = normalizeTitle(link.target);
+  return notes.find(n => n.title && normalizeTitle(n.title) === title);
+};
+
+export const formatLink = (kind: WikiLinkKind, target: string, label?: string) => {
+  const inner = kind === 'note' && !label ? target : `${kind}:${target}`;
+  return `[[${inner}${label ? `|${label}` : ''}]]`;
+};
+
+// --- Backlinks and Mentions ---
+
+export interface LinkReference<T> {
+  note: T;
+  context: string; // The line around the reference, trimmed for display
+}
+
+const contextAround = (content: string, start: number, end: number, radius = 60) => {
+  const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+  const lineEnd = content.indexOf('\n', end);
+  const line = content.slice(lineStart, lineEnd === -1 ? undefined : lineEnd);
+  const offset = start - lineStart;
+  const from = Math.max(0, offset - radius);
+  return `${from > 0 ? '…' : ''}${line.slice(from, offset + (end - start) + radius).trim()}${offset + (end - start) + radius < line.length ? '…' : ''}`;
+};
+
+export const findBacklinks = <T extends LinkableNote>(note: T, notes: T[]): LinkReference<T>[] => {
+  const title = note.title ? normalizeTitle(note.title) : null;
+  return notes.flatMap(other => {
+    if (other.id === note.id) return [];
+    const link = parseLinks(other.content).find(l =>
+      (l.kind === 'note' && (l.byId ? l.target === note.id : !!title && normalizeTitle(l.target) === title)) ||
+      // A text file shown as a note is also linked as a file
+      (l.kind === 'file' && l.target === note.id)
+    );
+    return link ? [{ note: other, context: contextAround(other.content, link.start, link.end) }] : [];
+  });
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const MIN_MENTION_LENGTH = 3; // Shorter titles match too much ordinary text
+
+const mentionPattern = (title: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(title.trim()).replace(/\s+/g, '\\s+')}(?![\\p{L}\\p{N}])`, 'iu');
+
+// Plain-text occurrences of the note's title in notes that don't already link to it
+export const findUnlinkedMentions = <T extends LinkableNote>(note: T, notes: T[]): (LinkReference<T> & { start: number; end: number })[] => {
+  if (!note.title || note.title.trim().length < MIN_MENTION_LENGTH) return [];
+  const linkedFrom = new Set(findBacklinks(note, notes).map(ref => ref.note.id));
+  const pattern = mentionPattern(note.title);
+
+  return notes.flatMap(other => {
+    if (other.id === note.id || linkedFrom.has(other.id)) return [];
+    // Blank out existing links so text inside them doesn't count
+    const masked = parseLinks(other.content).reduce(
+      (text, link) => text.slice(0, link.start) + ' '.repeat(link.end - link.start) + text.slice(link.end),
+      other.content
+    );
+    const match = masked.match(pattern);
+    if (!match) return [];
+    const start = match.index!;
+    const end = start + match[0].length;
+    return [{ note: other, start, end, context: contextAround(other.content, start, end) }];
+  });
+};
+
+// Turns the mention at [start, end) into a link, keeping the original wording as the label
+export const linkMention = (content: string, start: number, end: number, title: string) => {
+  const text = content.slice(start, end);
+  const link = text === title ? `[[${title}]]` : `[[${title}|${text}]]`;
+  return content.slice(0, start) + link + content.slice(end);
+};
+
+// --- Autocomplete ---
+
+export interface LinkQuery {
+  start: number; // Offset of the opening [[
+  query: string; // Text typed after [[ so far
+}
+
+// The unfinished [[... right before the cursor, if any
+export const linkQueryAt = (content: string, cursor: number): LinkQuery | null => {
+  const before = content.slice(0, cursor);
+  const start = before.lastIndexOf('[[');
+  if (start === -1) return null;
+  const query = before.slice(start + 2);
+  if (/[\]\n]/.test(query) || query.includes('[[')) return null;
+  return { start, query };
+};
+
+// Replaces the unfinished [[query (and a closing ]] the editor may already have) with a full link
+export const completeLink = (content: string, linkQuery: LinkQuery, cursor: number, link: string) => {
+  const after = content.slice(cursor);
+  const rest = after.startsWith(']]') ? after.slice(2) : after;
+  return { content: content.slice(0, linkQuery.start) + link + rest, cursor: linkQuery.start + link.length };
+};
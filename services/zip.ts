@@ -0,0 +1,173 @@
+// Minimal zip archives for import and export. Archives written here store files uncompressed,
+// which every unzip tool reads; reading also handles deflated entries (what most tools write)
+// through the browser's DecompressionStream. Zip64 and encrypted archives are not supported.
+
+export interface ZipEntry {
+  name: string;           // Path inside the archive, "/"-separated
+  data: Uint8Array;
+  modifiedAt: number;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+
+// --- CRC-32 ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// --- Dates ---
+
+// MS-DOS timestamps have 2-second precision and start in 1980
+const toDosDateTime = (timestamp: number) => {
+  const date = new Date(Math.max(timestamp, new Date(1980, 0, 1).getTime()));
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+};
+
+const fromDosDateTime = (time: number, date: number) =>
+  new Date(1980 + (date >> 9), ((date >> 5) & 0x0f) - 1, date & 0x1f, time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2).getTime();
+
+// --- Writing ---
+
+export const createZip = (files: { name: string; data: Uint8Array | string; modifiedAt?: number }[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = typeof file.data === 'string' ? encoder.encode(file.data) : file.data;
+    const crc = crc32(data);
+    const { time, date } = toDosDateTime(file.modifiedAt ?? Date.now());
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_HEADER, true);
+    lv.setUint16(4, 20, true);            // Version needed
+    lv.setUint16(6, UTF8_FLAG, true);
+    lv.setUint16(8, 0, true);             // Stored
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);  // Compressed size
+    lv.setUint32(22, data.length, true);  // Uncompressed size
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, CENTRAL_HEADER, true);
+    cv.setUint16(4, 20, true);            // Version made by
+    cv.setUint16(6, 20, true);            // Version needed
+    cv.setUint16(8, UTF8_FLAG, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);       // Local header offset
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  });
+
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const zip = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  [...locals, ...centrals, end].forEach(part => {
+    zip.set(part, position);
+    position += part.length;
+  });
+  return zip;
+};
+
+// --- Reading ---
+
+const inflateRaw = async (data: Uint8Array) => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Files in the archive; folders are skipped
+export const readZip = async (zip: Uint8Array): Promise<ZipEntry[]> => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+
+  // The end record sits at the very end, followed only by an optional comment
+  let endOffset = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset === -1) throw new Error('Not a zip archive');
+
+  const count = view.getUint16(endOffset + 10, true);
+  let position = view.getUint32(endOffset + 16, true);
+  if (count === 0xffff || position === 0xffffffff) throw new Error('Zip64 archives are not supported');
+
+  const utf8 = new TextDecoder();
+  const latin1 = new TextDecoder('latin1');
+  const entries: ZipEntry[] = [];
+
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(position, true) !== CENTRAL_HEADER) throw new Error('Corrupt zip archive');
+    const flags = view.getUint16(position + 8, true);
+    const method = view.getUint16(position + 10, true);
+    const time = view.getUint16(position + 12, true);
+    const date = view.getUint16(position + 14, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const nameBytes = zip.subarray(position + 46, position + 46 + nameLength);
+    const name = (flags & UTF8_FLAG ? utf8 : latin1).decode(nameBytes).replace(/\\/g, '/');
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & 0x1) throw new Error(`"${name}" is encrypted`);
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = zip.subarray(dataStart, dataStart + compressedSize);
+    let data: Uint8Array;
+    if (method === 0) data = raw.slice();
+    else if (method === 8) data = await inflateRaw(raw);
+    else throw new Error(`"${name}" uses an unsupported compression method`);
+
+    entries.push({ name, data, modifiedAt: fromDosDateTime(time, date) });
+  }
+  return entries;
+};
@@ -1,4 +1,9 @@
 import React from 'react';
+import { StorageBackend } from './services/storage';
+import { TotpParams } from './services/totp';
+import { TileLayout } from './services/tiling';
+import { ShortcutDefinition } from './services/shortcuts';
+import { SearchDocument, SearchHit } from './services/search';
 
 export enum AppID {
   SETTINGS = 'settings',
@@ -44,10 +49,19 @@ export interface WidgetInstance {
   x: number;
   y: number;
   data?: any; 
+  workspaceId?: string; // Unset on widgets from before workspaces; shown on the default one
+}
+
+// A virtual desktop with its own windows and widget layout
+export interface Workspace {
+  id: string;
+  name: string;
 }
 
 export interface WindowState {
-  id: AppID;
+  id: string; // Window instance id, unique per open window
+  appId: AppID;
+  workspaceId: string;
   title: string;
   isOpen: boolean;
   isMinimized: boolean;
@@ -58,6 +72,14 @@ export interface WindowState {
   launchProps?: any;
 }
 
+// Open windows saved per user so the desktop survives reloads and sign-outs
+export interface WindowSession {
+  windows: Record<string, WindowState>;
+  activeWindowId: string | null;
+  activeWorkspaceId?: string;
+  savedAt: number;
+}
+
 export interface AppConfig {
   id: AppID;
   title: string;
@@ -66,6 +88,45 @@ export interface AppConfig {
   defaultSize: { width: number; height: number };
   defaultPosition?: { x: number; y: number };
   showInDock?: boolean; 
+  multiInstance?: boolean; // Launching with different props opens another window instead of reusing one
+  shortcuts?: ShortcutDefinition[]; // App-scoped commands, declared here so Settings lists them before the app loads
+  commands?: AppCommand[]; // Actions offered in the Command Palette without opening the app first
+}
+
+export interface LaunchOptions {
+  newInstance?: boolean; // Always open a fresh window, even for apps that are already running
+}
+
+// --- App Commands ---
+
+export interface CommandArgumentOption {
+  value: string;
+  label: string;
+}
+
+export interface CommandArgument {
+  name: string;
+  label: string;
+  type?: 'text' | 'number' | 'select'; // Defaults to text
+  placeholder?: string;
+  defaultValue?: string;
+  optional?: boolean;
+  // Static choices, or loaded from storage when the prompt opens (e.g. wallet accounts)
+  options?: CommandArgumentOption[] | ((context: AppCommandContext) => Promise<CommandArgumentOption[]>);
+}
+
+export interface AppCommandContext {
+  storage: StorageBackend;
+  launchApp: (id: AppID, props?: any, options?: LaunchOptions) => void;
+  addLog: (entry: Omit<LogEntry, 'id' | 'timestamp'>) => void;
+}
+
+export interface AppCommand {
+  id: string;
+  title: string;
+  keywords?: string[];
+  args?: CommandArgument[]; // Prompted one at a time, in order, before run is called
+  run: (args: Record<string, string>, context: AppCommandContext) => void | Promise<void>;
 }
 
 export interface LogEntry {
@@ -83,20 +144,55 @@ export interface AppUsageStats {
   lastOpened: number;
 }
 
+// --- Vault ---
+
+export type VaultItemType = 'password' | 'note' | 'totp';
+
+export interface VaultItem {
+  id: string;
+  type: VaultItemType;
+  title: string;
+  username?: string; // For passwords
+  secret: string;   // Password or Note Content
+  url?: string;     // For passwords
+  notes?: string;   // For passwords
+  totp?: Omit<TotpParams, 'secret'>; // For 2FA codes; `secret` holds the Base32 key
+  linkedItemId?: string; // For 2FA codes: the password item they belong to
+  createdAt: number;
+}
+
 export interface OSContextState {
   windows: Record<string, WindowState>;
   activeWindowId: string | null;
   authStatus: 'connecting' | 'connected' | 'error';
+  accountId: string | null; // Signed-in Firebase uid, or 'local' when a storage backend was injected
+  storage: StorageBackend; // Active data backend for the signed-in user (or local device)
   isOnline: boolean; 
+  pendingSyncCount: number; // Offline mutations waiting to replay
   logs: LogEntry[];
   powerState: SystemPowerState;
   
   // File System
   fs: FileNode[];
   addFile: (file: FileNode) => void;
+  addFiles: (files: FileNode[]) => void; // Several at once, e.g. a folder and its contents
   deleteFile: (id: string) => void;
+  deleteFiles: (ids: string[]) => void;
   updateFile: (id: string, updates: Partial<FileNode>) => void;
 
+  // Window Session
+  restoreSession: boolean; // Reopen last session's windows after sign-in; off starts clean
+  setRestoreSession: (enabled: boolean) => void;
+
+  // Workspaces
+  workspaces: Workspace[];
+  activeWorkspaceId: string;
+  switchWorkspace: (id: string) => void;
+  createWorkspace: (name?: string) => void;
+  renameWorkspace: (id: string, name: string) => void;
+  removeWorkspace: (id: string) => void; // Closes its windows and removes its widgets
+  moveWindowToWorkspace: (windowId: string, workspaceId: string) => void;
+
   // Dock State
   dockApps: AppID[];
   toggleDockApp: (id: AppID) => void;
@@ -107,6 +203,17 @@ export interface OSContextState {
   removeWidget: (id: string) => void;
   updateWidget: (id: string, updates: Partial<WidgetInstance>) => void;
 
+  // Keyboard Shortcuts
+  shortcuts: ShortcutDefinition[]; // Every command registered so far
+  shortcutBindings: Record<string, string | null>; // Effective binding per command id
+  registerShortcut: (definition: ShortcutDefinition | string, handler: () => void) => () => void;
+  setShortcutBinding: (id: string, binding: string | null) => void;
+  resetShortcuts: () => void;
+
+  // Content Search
+  searchContent: (query: string, limit?: number) => SearchHit[]; // Supports type filters such as "t: invoice"
+  publishSearchDocuments: (source: string, documents: SearchDocument[]) => void; // For data that never reaches storage, e.g. loaded mail
+
   // Command Palette State
   isCommandPaletteOpen: boolean;
   setCommandPaletteOpen: (isOpen: boolean) => void;
@@ -115,11 +222,13 @@ export interface OSContextState {
 
   // Actions
   setPowerState: (state: SystemPowerState) => void;
-  launchApp: (id: AppID, props?: any) => void;
-  closeApp: (id: AppID) => void;
-  focusApp: (id: AppID) => void;
-  minimizeApp: (id: AppID) => void;
-  updateWindowState: (id: AppID, updates: Partial<WindowState>) => void;
+  launchApp: (id: AppID, props?: any, options?: LaunchOptions) => void;
+  closeApp: (id: string) => void; // Window instance id, or an AppID to close all of its windows
+  focusApp: (id: string) => void;
+  minimizeApp: (id: string) => void;
+  updateWindowState: (id: string, updates: Partial<WindowState>) => void;
+  tileWindow: (id: string, layout: TileLayout) => void;
+  autoTileWindows: () => void; // Grid-tiles every visible window on the current workspace
   addLog: (entry: Omit<LogEntry, 'id' | 'timestamp'>) => void;
   clearLogs: () => void;
 }
\ No newline at end of file